@@ -1,5 +1,7 @@
 import { createMcpHandler } from '@vercel/mcp-adapter';
+import { ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { ServerCapabilities } from '@modelcontextprotocol/sdk/types.js';
+import { registerTools } from '@privmx/mcp-server/tools';
 import { MCPController } from '@/features/mcp/mcp-controller';
 
 /**
@@ -88,42 +90,51 @@ const handler = createMcpHandler(
 
       logger.info(`🎯 Registering ${tools.length} tools with MCP server`);
 
-      // Register tool handlers
-      tools.forEach((tool) => {
-        server.tool(
-          tool.name,
-          tool.description,
-          tool.schema,
-          async (args: Record<string, unknown>) => {
-            try {
-              // Use controller for tool execution (includes proper error handling)
-              const result = await controller.executeTool(tool.name, args);
+      // Register tool handlers; failures become tool errors, with empty
+      // structuredContent for search tools
+      registerTools(
+        server,
+        tools,
+        (name, args, context) => controller.executeTool(name, args, context),
+        (name, error) => logger.error(`Tool execution error: ${name}`, error)
+      );
 
-              return result as {
-                [x: string]: unknown;
-                content: Array<{
-                  [x: string]: unknown;
-                  type: 'text';
-                  text: string;
-                }>;
-              };
-            } catch (error) {
-              logger.error(`Tool execution error: ${tool.name}`, error);
-
-              // Return formatted error response
-              return {
-                content: [
-                  {
-                    type: 'text' as const,
-                    text: `❌ Error executing ${tool.name}: ${error instanceof Error ? error.message : 'Unknown error'}`,
-                  },
-                ],
-              };
+      // Register API reference and documentation resources
+      const resources = await controller.getResources();
+      [
+        { name: 'privmx-api', prefix: 'privmx://api/' },
+        { name: 'privmx-docs', prefix: 'privmx://docs/' },
+      ].forEach(({ name, prefix }) => {
+        server.resource(
+          name,
+          new ResourceTemplate(`${prefix}{+path}`, {
+            list: async () => ({
+              resources: resources
+                .listAll()
+                .filter((resource) => resource.uri.startsWith(prefix)),
+            }),
+          }),
+          async (uri) => {
+            const result = resources.read(uri.href);
+            if (!result) {
+              throw new Error(`Resource not found: ${uri.href}`);
             }
+            return { contents: result.contents };
           }
         );
       });
 
+      // Register task prompts (offered as slash commands by IDE clients)
+      const prompts = await controller.getPrompts();
+      prompts.forEach((prompt) => {
+        server.prompt(
+          prompt.name,
+          prompt.description,
+          prompt.schema,
+          async (args) => ({ ...(await prompt.handler(args as never)) })
+        );
+      });
+
       // Log initialization stats
       const serviceStats = await controller.getServiceStats();
       logger.info('📊 Service stats:', serviceStats.serviceManager);
@@ -142,6 +153,15 @@ const handler = createMcpHandler(
     verboseLogs: true,
     onEvent: (event) => {
       logger.info('MCP Server Event', event);
+
+      // Only SSE sessions report their end; search tuning of other sessions
+      // expires when idle
+      const { sessionId } = event;
+      if (event.type === 'SESSION_ENDED' && sessionId) {
+        getMCPController()
+          .then((controller) => controller.endSession(sessionId))
+          .catch((error) => logger.error('Failed to end session', error));
+      }
     },
     redisUrl: process.env.REDIS_URL,
   }
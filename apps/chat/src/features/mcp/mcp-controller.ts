@@ -1,3 +1,4 @@
+import type { ToolContext } from '@privmx/mcp-server/tools';
 import { ServiceManager } from '@/lib/services/service-manager';
 
 export interface MCPToolResponse {
@@ -6,6 +7,7 @@ export interface MCPToolResponse {
     text: string;
     [key: string]: string | number | boolean;
   }>;
+  structuredContent?: Record<string, unknown>;
 }
 
 export interface MCPCapabilities {
@@ -68,11 +70,40 @@ export class MCPController {
   }
 
   /**
-   * Execute a tool with proper error handling and logging
+   * Get API and documentation resources without re-initializing services
+   */
+  async getResources() {
+    try {
+      return await this.serviceManager.getResources();
+    } catch (error) {
+      console.error('❌ [MCPController] Failed to get resources:', error);
+      throw new Error(
+        `Failed to get resources: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Get task prompts without re-initializing services
+   */
+  async getPrompts() {
+    try {
+      return await this.serviceManager.getPrompts();
+    } catch (error) {
+      console.error('❌ [MCPController] Failed to get prompts:', error);
+      throw new Error(
+        `Failed to get prompts: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Execute a tool with logging; errors are logged and rethrown
    */
   async executeTool(
     toolName: string,
-    args: Record<string, unknown>
+    args: Record<string, unknown>,
+    context: ToolContext = {}
   ): Promise<MCPToolResponse> {
     const execution: MCPToolExecution = {
       toolName,
@@ -92,9 +123,9 @@ export class MCPController {
         throw new Error(`Tool not found: ${toolName}`);
       }
 
-      // Execute the tool
+      // Execute the tool in the caller's session so per-session state stays apart
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      const result = await tool.handler(args as any);
+      const result = await tool.handler(args as any, context);
 
       const executionTime = Date.now() - execution.startTime;
       console.log(
@@ -103,17 +134,16 @@ export class MCPController {
 
       return result as MCPToolResponse;
     } catch (error) {
-      return this.handleToolError(execution, error);
+      // The caller turns the error into a tool error response
+      this.logToolError(execution, error);
+      throw error;
     }
   }
 
   /**
-   * Handle tool execution errors with proper formatting
+   * Log tool execution errors with their arguments and timing
    */
-  private handleToolError(
-    execution: MCPToolExecution,
-    error: unknown
-  ): MCPToolResponse {
+  private logToolError(execution: MCPToolExecution, error: unknown): void {
     const errorMessage =
       error instanceof Error ? error.message : 'Unknown error';
     const executionTime = Date.now() - execution.startTime;
@@ -126,15 +156,6 @@ export class MCPController {
         ...(error instanceof Error && { stack: error.stack }),
       }
     );
-
-    return {
-      content: [
-        {
-          type: 'text',
-          text: `❌ Error in ${execution.toolName}: ${errorMessage}`,
-        },
-      ],
-    };
   }
 
   /**
@@ -152,6 +173,14 @@ export class MCPController {
     }
   }
 
+  /**
+   * Drop per-session state of a closed MCP session
+   */
+  async endSession(sessionId: string): Promise<void> {
+    const { searchTuning } = await this.serviceManager.getServices();
+    searchTuning.reset(sessionId);
+  }
+
   /**
    * Check if MCP services are ready
    */
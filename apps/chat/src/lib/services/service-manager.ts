@@ -3,13 +3,27 @@ import { APISearchService } from '@privmx/mcp-server/services/api/api-search-ser
 import { CodeGenerationService } from '@privmx/mcp-server/services/generation/code-generation-service';
 import { InteractiveSessionService } from '@privmx/mcp-server/services/workflow/interactive-session-service';
 import { KnowledgeService } from '@privmx/mcp-server/services/knowledge/knowledge-service';
+import {
+  SearchTuning,
+  loadSearchProfiles,
+} from '@privmx/mcp-server/services/search/search-tuning';
 import { getTools } from '@privmx/mcp-server/tools';
+import { getResources } from '@privmx/mcp-server/resources';
+import { getPrompts, PromptDefinition } from '@privmx/mcp-server/prompts';
+
+/**
+ * The MCP adapter reports the end of SSE sessions only, on the instance
+ * holding the stream; per-session search tuning is also dropped after this
+ * much inactivity
+ */
+const SEARCH_TUNING_IDLE_MS = 60 * 60 * 1000;
 
 export interface ServiceContainer {
   searchService: APISearchService;
   codeGenerationService: CodeGenerationService;
   sessionService: InteractiveSessionService;
   knowledgeService: KnowledgeService;
+  searchTuning: SearchTuning;
 }
 
 export interface ServiceStats {
@@ -28,6 +42,8 @@ export class ServiceManager {
   private static instance: ServiceManager;
   private services: ServiceContainer | null = null;
   private tools: ReturnType<typeof getTools> | null = null;
+  private resources: ReturnType<typeof getResources> | null = null;
+  private prompts: PromptDefinition[] | null = null;
   private capabilities: any = null;
   private initialized = false;
   private initPromise: Promise<void> | null = null;
@@ -82,6 +98,10 @@ export class ServiceManager {
       const codeGenerationService = new CodeGenerationService();
       const sessionService = new InteractiveSessionService();
       const knowledgeService = new KnowledgeService();
+      const searchTuning = new SearchTuning(
+        loadSearchProfiles(process.env.SEARCH_PROFILES_PATH),
+        SEARCH_TUNING_IDLE_MS
+      );
 
       // Create service container
       this.services = {
@@ -89,6 +109,7 @@ export class ServiceManager {
         codeGenerationService,
         sessionService,
         knowledgeService,
+        searchTuning,
       };
 
       // Initialize knowledge service first (handles complex setup)
@@ -118,6 +139,8 @@ export class ServiceManager {
 
       // Generate tools and capabilities
       this.tools = getTools(this.services);
+      this.resources = getResources(this.services);
+      this.prompts = getPrompts(this.services);
       this.capabilities = {
         tools: this.tools.reduce(
           (acc, tool) => {
@@ -202,6 +225,32 @@ export class ServiceManager {
     return this.tools;
   }
 
+  /**
+   * Get API and documentation resources (ensure initialization first)
+   */
+  async getResources(): Promise<ReturnType<typeof getResources>> {
+    await this.initializeServices();
+
+    if (!this.resources) {
+      throw new Error('Resources not available after initialization');
+    }
+
+    return this.resources;
+  }
+
+  /**
+   * Get task prompts (ensure initialization first)
+   */
+  async getPrompts(): Promise<PromptDefinition[]> {
+    await this.initializeServices();
+
+    if (!this.prompts) {
+      throw new Error('Prompts not available after initialization');
+    }
+
+    return this.prompts;
+  }
+
   /**
    * Get capabilities (ensure initialization first)
    */
@@ -230,7 +279,7 @@ export class ServiceManager {
       initialized: this.initialized,
       initializationTime: this.initializationTime || undefined,
       lastInitialized: this.lastInitialized || undefined,
-      serviceCount: this.services ? 4 : 0,
+      serviceCount: this.services ? 5 : 0,
       vectorServiceEnabled: !!process.env.OPENAI_API_KEY,
     };
   }
@@ -244,6 +293,8 @@ export class ServiceManager {
     this.initialized = false;
     this.services = null;
     this.tools = null;
+    this.resources = null;
+    this.prompts = null;
     this.capabilities = null;
     this.initPromise = null;
 
@@ -0,0 +1,63 @@
+import {
+  evaluateRanking,
+  findRegressions,
+  summarize,
+  type EvaluationReport,
+} from '../metrics.js';
+
+describe('retrieval metrics', () => {
+  it('scores a ranking against the expected answers', () => {
+    // hits: miss, answer 0, answer 0 again, answer 1
+    const metrics = evaluateRanking([-1, 0, 0, 1], 2, 10);
+
+    expect(metrics.reciprocalRank).toBe(0.5);
+    expect(metrics.recall).toBe(1);
+    const dcg = 1 / Math.log2(3) + 1 / Math.log2(5);
+    const idealDcg = 1 + 1 / Math.log2(3);
+    expect(metrics.ndcg).toBeCloseTo(dcg / idealDcg);
+  });
+
+  it('only counts hits within k', () => {
+    expect(evaluateRanking([-1, -1, 0], 1, 2)).toEqual({
+      reciprocalRank: 0,
+      recall: 0,
+      ndcg: 0,
+    });
+  });
+
+  it('averages query metrics', () => {
+    expect(
+      summarize([
+        { reciprocalRank: 1, recall: 1, ndcg: 1 },
+        { reciprocalRank: 0, recall: 0.5, ndcg: 0 },
+      ])
+    ).toEqual({ queries: 2, mrr: 0.5, recall: 0.75, ndcg: 0.5 });
+  });
+
+  it('reports metrics that dropped below the baseline', () => {
+    const report = (mrr: number): EvaluationReport => ({
+      goldenVersion: 1,
+      k: 10,
+      fusion: 'rrf',
+      embeddingProvider: 'none',
+      surfaces: {
+        'search-service': { java: { queries: 4, mrr, recall: 1, ndcg: 1 } },
+      },
+    });
+
+    expect(findRegressions(report(0.79), report(0.8), 0.02)).toEqual([]);
+    expect(findRegressions(report(0.7), report(0.8), 0.02)).toEqual([
+      'search-service/java: mrr 0.700 < baseline 0.800',
+    ]);
+    expect(
+      findRegressions(
+        { ...report(0.8), surfaces: { 'search-service': {} } },
+        report(0.8),
+        0.02
+      )
+    ).toEqual(['search-service/java: not evaluated']);
+    expect(
+      findRegressions({ ...report(0.8), surfaces: {} }, report(0.8), 0.02)
+    ).toEqual([]);
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * Ranking metrics for the retrieval evaluation (binary relevance)
+ */
+
+export interface QueryMetrics {
+  /** 1 / rank of the first relevant hit within k, 0 if none */
+  reciprocalRank: number;
+  /** Share of the expected answers found within k */
+  recall: number;
+  /** Normalized discounted cumulative gain at k */
+  ndcg: number;
+}
+
+export interface MetricSummary {
+  queries: number;
+  mrr: number;
+  recall: number;
+  ndcg: number;
+}
+
+/** Metrics per language (plus `all`) for each evaluated surface */
+export type SurfaceMetrics = Record<string, Record<string, MetricSummary>>;
+
+export interface EvaluationReport {
+  goldenVersion: number;
+  k: number;
+  fusion: string;
+  embeddingProvider: string;
+  surfaces: SurfaceMetrics;
+}
+
+/**
+ * Score one ranking.
+ *
+ * @param matches for each returned hit (in order), the index of the expected
+ *   answer it matches or -1; repeated matches of an answer count once
+ * @param expectedCount number of expected answers
+ */
+export const evaluateRanking = (
+  matches: number[],
+  expectedCount: number,
+  k: number
+): QueryMetrics => {
+  const found = new Set<number>();
+  let reciprocalRank = 0;
+  let dcg = 0;
+
+  matches.slice(0, k).forEach((match, i) => {
+    if (match < 0 || found.has(match)) return;
+    found.add(match);
+    if (reciprocalRank === 0) reciprocalRank = 1 / (i + 1);
+    dcg += 1 / Math.log2(i + 2);
+  });
+
+  let idealDcg = 0;
+  for (let i = 0; i < Math.min(expectedCount, k); i++) {
+    idealDcg += 1 / Math.log2(i + 2);
+  }
+
+  return {
+    reciprocalRank,
+    recall: expectedCount > 0 ? found.size / expectedCount : 0,
+    ndcg: idealDcg > 0 ? dcg / idealDcg : 0,
+  };
+};
+
+export const summarize = (metrics: QueryMetrics[]): MetricSummary => {
+  const mean = (values: number[]) =>
+    values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+
+  return {
+    queries: metrics.length,
+    mrr: mean(metrics.map((m) => m.reciprocalRank)),
+    recall: mean(metrics.map((m) => m.recall)),
+    ndcg: mean(metrics.map((m) => m.ndcg)),
+  };
+};
+
+/**
+ * Metrics that dropped more than `tolerance` below the baseline; surfaces
+ * that were not evaluated this run are skipped
+ */
+export const findRegressions = (
+  current: EvaluationReport,
+  baseline: EvaluationReport,
+  tolerance: number
+): string[] => {
+  const regressions: string[] = [];
+
+  for (const [surface, languages] of Object.entries(baseline.surfaces)) {
+    if (!current.surfaces[surface]) continue;
+    for (const [language, expected] of Object.entries(languages)) {
+      const actual = current.surfaces[surface][language];
+      if (!actual) {
+        regressions.push(`${surface}/${language}: not evaluated`);
+        continue;
+      }
+      for (const metric of ['mrr', 'recall', 'ndcg'] as const) {
+        if (actual[metric] < expected[metric] - tolerance) {
+          regressions.push(
+            `${surface}/${language}: ${metric} ${actual[metric].toFixed(3)} < baseline ${expected[metric].toFixed(3)}`
+          );
+        }
+      }
+    }
+  }
+
+  return regressions;
+};
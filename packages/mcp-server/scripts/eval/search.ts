@@ -0,0 +1,356 @@
+/**
+ * Retrieval quality evaluation
+ *
+ * Runs a versioned golden set of queries through SearchService,
+ * DocumentationIndexService and the MCP search tools and reports MRR,
+ * recall@k and nDCG@k per language.
+ *
+ *   pnpm eval:search [--k 10] [--fusion rrf|zscore|linear]
+ *                    [--surface search-service,documentation-index,tools]
+ *                    [--golden path] [--json]
+ *                    [--baseline path [--tolerance 0.02] [--write-baseline]]
+ *
+ * With --baseline the command exits non-zero when a metric drops more than
+ * the tolerance below the stored report; --write-baseline stores the current
+ * report there instead.
+ */
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { SearchService } from '../../src/services/search/search-service.js';
+import { DocumentationIndexService } from '../../src/services/documentation/documentation-index.js';
+import { KnowledgeService } from '../../src/services/knowledge/knowledge-service.js';
+import { APISearchService } from '../../src/services/api/api-search-service.js';
+import { CodeGenerationService } from '../../src/services/generation/code-generation-service.js';
+import { InteractiveSessionService } from '../../src/services/workflow/interactive-session-service.js';
+import {
+  resolveFusionMethod,
+  type FusionMethod,
+} from '../../src/services/search/score-fusion.js';
+import { getVectorConfig } from '../../src/config/vector-config.js';
+import { specRoot } from '../../src/common/paths.js';
+import { config } from '../../src/common/config.js';
+import logger from '../../src/common/logger.js';
+import { getTools } from '../../src/tools.js';
+import { SearchTuning } from '../../src/services/search/search-tuning.js';
+import type {
+  ApiMethodHit,
+  DocumentationHit,
+} from '../../src/common/schemas.js';
+import {
+  evaluateRanking,
+  findRegressions,
+  summarize,
+  type EvaluationReport,
+  type QueryMetrics,
+  type SurfaceMetrics,
+} from './metrics.js';
+
+interface GoldenQuery {
+  query: string;
+  languages: string[];
+  expected: string[];
+}
+
+interface GoldenSet {
+  version: number;
+  api: GoldenQuery[];
+  docs: GoldenQuery[];
+}
+
+/** A returned hit reduced to what the golden answers are matched on */
+interface Hit {
+  labels: string[];
+  language?: string;
+}
+
+type Runner = (query: string, language: string) => Promise<Hit[]>;
+
+const SURFACES = ['search-service', 'documentation-index', 'tools'] as const;
+type Surface = (typeof SURFACES)[number];
+
+const scriptDir = path.dirname(fileURLToPath(import.meta.url));
+
+const argValue = (name: string): string | undefined => {
+  const index = process.argv.indexOf(`--${name}`);
+  return index >= 0 ? process.argv[index + 1] : undefined;
+};
+
+/** `ThreadApi.sendMessage` for any spelling of class path and signature */
+const apiLabel = (className: unknown, name: unknown): string =>
+  `${String(className ?? '')
+    .split(/::|\./)
+    .pop()}.${String(name).split('(')[0]}`.toLowerCase();
+
+/** `js/threads` for `/.../spec/mdx/js/threads.mdx` */
+const docLabel = (filePath: string): string => {
+  const normalized = filePath.replace(/\\/g, '/').replace(/\.mdx$/, '');
+  const index = normalized.lastIndexOf('mdx/');
+  return index >= 0 ? normalized.slice(index + 4) : normalized;
+};
+
+/** Languages answered by the same documentation and API results */
+const sameLanguage = (a: string, b?: string): boolean =>
+  a === b ||
+  (['javascript', 'typescript'].includes(a) &&
+    ['javascript', 'typescript'].includes(b ?? ''));
+
+/** Embedding provider in use, `none` when semantic search is disabled */
+const embeddingProviderName = (): string => {
+  const { embedding, openai } = getVectorConfig();
+  return embedding.provider === 'openai' && !openai.apiKey
+    ? 'none'
+    : embedding.provider;
+};
+
+const evaluate = async (
+  queries: GoldenQuery[],
+  run: Runner,
+  k: number
+): Promise<Record<string, QueryMetrics[]>> => {
+  const byLanguage: Record<string, QueryMetrics[]> = {};
+
+  for (const golden of queries) {
+    const expected = golden.expected.map((e) => e.toLowerCase());
+
+    for (const language of golden.languages) {
+      const hits = await run(golden.query, language);
+      const matches = hits.map((hit) =>
+        sameLanguage(language, hit.language)
+          ? expected.findIndex((e) => hit.labels.includes(e))
+          : -1
+      );
+      const metrics = evaluateRanking(matches, expected.length, k);
+
+      (byLanguage[language] ??= []).push(metrics);
+    }
+  }
+
+  byLanguage.all = Object.values(byLanguage).flat();
+  return byLanguage;
+};
+
+const summarizeAll = (
+  byLanguage: Record<string, QueryMetrics[]>
+): Record<string, ReturnType<typeof summarize>> =>
+  Object.fromEntries(
+    Object.entries(byLanguage).map(([language, metrics]) => [
+      language,
+      summarize(metrics),
+    ])
+  );
+
+/**
+ * Build the services once with startup logging silenced
+ */
+const setup = async (surfaces: Surface[]) => {
+  const log = console.log;
+  console.log = () => undefined;
+  logger.level = 'warn';
+
+  try {
+    const specPath = config.SPEC_PATH || specRoot;
+    const knowledgeService = new KnowledgeService();
+    await knowledgeService.initialize(specPath);
+
+    let searchService: SearchService | null = null;
+    if (surfaces.includes('search-service')) {
+      searchService = new SearchService();
+      await searchService.initialize(knowledgeService.getApiData());
+    }
+
+    let documentationIndex: DocumentationIndexService | null = null;
+    if (surfaces.includes('documentation-index')) {
+      documentationIndex = new DocumentationIndexService();
+      await documentationIndex.indexDocuments(path.join(specPath, 'mdx'));
+    }
+
+    const tools = getTools({
+      searchService: new APISearchService(),
+      codeGenerationService: new CodeGenerationService(),
+      sessionService: new InteractiveSessionService(),
+      knowledgeService,
+      searchTuning: new SearchTuning(),
+    });
+
+    return { searchService, documentationIndex, tools };
+  } finally {
+    console.log = log;
+  }
+};
+
+const printReport = (report: EvaluationReport) => {
+  console.log(
+    `\n🎯 Retrieval evaluation (golden v${report.goldenVersion}, k=${report.k}, fusion=${report.fusion}, embeddings=${report.embeddingProvider})`
+  );
+  for (const [surface, languages] of Object.entries(report.surfaces)) {
+    console.log(`\n${surface}`);
+    console.table(
+      Object.entries(languages).map(([language, m]) => ({
+        language,
+        queries: m.queries,
+        MRR: m.mrr.toFixed(3),
+        [`recall@${report.k}`]: m.recall.toFixed(3),
+        [`nDCG@${report.k}`]: m.ndcg.toFixed(3),
+      }))
+    );
+  }
+};
+
+async function main() {
+  const goldenPath = path.resolve(
+    argValue('golden') ?? path.join(scriptDir, 'golden', 'v1.json')
+  );
+  const k = Number(argValue('k') ?? 10);
+  const fusion: FusionMethod = resolveFusionMethod(argValue('fusion'));
+  const surfaces = (argValue('surface')?.split(',') ?? [...SURFACES]).filter(
+    (s): s is Surface => SURFACES.includes(s as Surface)
+  );
+  const baselinePath = argValue('baseline');
+  const tolerance = Number(argValue('tolerance') ?? 0.02);
+
+  const golden: GoldenSet = JSON.parse(fs.readFileSync(goldenPath, 'utf-8'));
+  const { searchService, documentationIndex, tools } = await setup(surfaces);
+
+  const callTool = async <T>(name: string, params: object): Promise<T[]> => {
+    const tool = tools.find((t) => t.name === name);
+    if (!tool) throw new Error(`Tool ${name} not found`);
+    const response = await tool.handler(params as never);
+    return (response.structuredContent?.results as T[] | undefined) ?? [];
+  };
+
+  const surfaceMetrics: SurfaceMetrics = {};
+
+  if (searchService) {
+    surfaceMetrics['search-service'] = summarizeAll(
+      await evaluate(
+        golden.api,
+        async (query, language) =>
+          (await searchService.search(query, language, { fusion })).map(
+            (r) => ({
+              labels: [
+                apiLabel(r.metadata.className, r.metadata.name ?? r.title),
+                String(r.metadata.key ?? '').toLowerCase(),
+              ],
+              language: r.metadata.language as string | undefined,
+            })
+          ),
+        k
+      )
+    );
+  }
+
+  if (documentationIndex) {
+    surfaceMetrics['documentation-index'] = summarizeAll(
+      await evaluate(
+        golden.docs,
+        async (query, language) =>
+          (
+            await documentationIndex.searchDocuments(query, { language }, k, {
+              fusion,
+            })
+          ).map((r) => ({
+            labels: [docLabel(r.metadata.filePath)],
+            language: r.metadata.language,
+          })),
+        k
+      )
+    );
+  }
+
+  if (surfaces.includes('tools')) {
+    surfaceMetrics['tools/search_api_methods'] = summarizeAll(
+      await evaluate(
+        golden.api,
+        async (query) =>
+          (
+            await callTool<ApiMethodHit>('search_api_methods', {
+              query,
+              limit: k,
+              fusion,
+            })
+          ).map((hit) => ({
+            labels: [apiLabel(hit.className, hit.name)],
+            language: hit.language,
+          })),
+        k
+      )
+    );
+    surfaceMetrics['tools/search_documentation'] = summarizeAll(
+      await evaluate(
+        golden.docs,
+        async (query, language) =>
+          (
+            await callTool<DocumentationHit>('search_documentation', {
+              query,
+              filters: { language },
+              limit: Math.min(k, 20),
+              fusion,
+            })
+          ).map((hit) => ({
+            labels: [docLabel(hit.sourceFile)],
+            language: hit.language,
+          })),
+        k
+      )
+    );
+  }
+
+  const report: EvaluationReport = {
+    goldenVersion: golden.version,
+    k,
+    fusion,
+    embeddingProvider: embeddingProviderName(),
+    surfaces: surfaceMetrics,
+  };
+
+  if (process.argv.includes('--json')) {
+    console.log(JSON.stringify(report, null, 2));
+  } else {
+    printReport(report);
+  }
+
+  if (!baselinePath) return;
+
+  if (process.argv.includes('--write-baseline')) {
+    fs.writeFileSync(baselinePath, `${JSON.stringify(report, null, 2)}\n`);
+    console.log(`\n💾 Baseline written to ${baselinePath}`);
+    return;
+  }
+
+  const baseline: EvaluationReport = JSON.parse(
+    fs.readFileSync(baselinePath, 'utf-8')
+  );
+  if (
+    baseline.goldenVersion !== report.goldenVersion ||
+    baseline.k !== report.k
+  ) {
+    throw new Error(
+      `Baseline was recorded for golden v${baseline.goldenVersion} at k=${baseline.k}`
+    );
+  }
+  if (
+    baseline.fusion !== report.fusion ||
+    baseline.embeddingProvider !== report.embeddingProvider
+  ) {
+    console.warn(
+      `⚠️  Baseline used fusion=${baseline.fusion}, embeddings=${baseline.embeddingProvider}`
+    );
+  }
+
+  const regressions = findRegressions(report, baseline, tolerance);
+  if (regressions.length > 0) {
+    console.error(`\n❌ ${regressions.length} regression(s):`);
+    for (const regression of regressions) console.error(`   ${regression}`);
+    process.exitCode = 1;
+  } else {
+    console.log(`\n✅ No regressions against ${baselinePath}`);
+  }
+}
+
+main()
+  .then(() => process.exit())
+  .catch((error) => {
+    console.error('❌ Evaluation failed:', error);
+    process.exit(1);
+  });
@@ -0,0 +1,119 @@
+import fs from 'fs';
+import path from 'path';
+import { APIParser } from '../api/parser.js';
+import { getPrompts, PromptDefinition } from '../prompts.js';
+import { messagingTemplates } from '../services/generation/templates/messaging-templates.js';
+import type { APINamespace } from '../api/types.js';
+import type { CodeGenerationService } from '../services/generation/code-generation-service.js';
+import type { KnowledgeService } from '../services/knowledge/knowledge-service.js';
+import type { ParsedMDXDocument } from '../types/documentation-types.js';
+
+const specPath = path.resolve(__dirname, '../../../../spec/api/js/out.js.json');
+const javaSpecPath = path.resolve(
+  __dirname,
+  '../../../../spec/api/java/privmx-endpoint.json'
+);
+
+const threadsDoc = {
+  id: 'js-threads',
+  metadata: {
+    title: 'Threads',
+    language: 'javascript',
+    filePath: 'spec/mdx/js/threads.mdx',
+  },
+  rawContent: '# Threads',
+} as ParsedMDXDocument;
+
+describe('getPrompts', () => {
+  let prompts: PromptDefinition[];
+  const prompt = (name: string) => {
+    const found = prompts.find((p) => p.name === name);
+    if (!found) throw new Error(`Missing prompt ${name}`);
+    return found;
+  };
+
+  beforeAll(async () => {
+    const namespaces = await new APIParser().parseAPISpec(
+      fs.readFileSync(specPath, 'utf-8'),
+      'javascript',
+      specPath
+    );
+    const javaNamespaces = await new APIParser().parseAPISpec(
+      fs.readFileSync(javaSpecPath, 'utf-8'),
+      'java',
+      javaSpecPath
+    );
+    const knowledgeService = {
+      getApiNamespaces: () =>
+        new Map<string, APINamespace[]>([
+          ['javascript', namespaces],
+          ['java', javaNamespaces],
+        ]),
+      getDocuments: () => [threadsDoc],
+      searchDocumentation: async () => [threadsDoc],
+    } as unknown as KnowledgeService;
+    const codeGenerationService = {
+      getWorkflowTemplates: () => messagingTemplates,
+      getWorkflowTemplate: (id: string) =>
+        messagingTemplates.find((t) => t.id === id) ?? null,
+    } as unknown as CodeGenerationService;
+
+    prompts = getPrompts({ knowledgeService, codeGenerationService });
+  });
+
+  it('offers a build prompt per workflow template', () => {
+    expect(prompts.map((p) => p.name)).toEqual(
+      expect.arrayContaining([
+        'integrate_threads',
+        'migrate_s3_to_stores',
+        'debug_connection_error',
+        'build_secure_messaging_app',
+        'build_team_chat_system',
+      ])
+    );
+    expect(
+      prompt('build_secure_messaging_app').schema.language.isOptional()
+    ).toBe(true);
+  });
+
+  it('embeds API references and docs for the requested language', async () => {
+    const result = await prompt('integrate_threads').handler({
+      language: 'typescript',
+    } as never);
+    const uris = result.messages.flatMap((m) =>
+      m.content.type === 'resource' ? [m.content.resource.uri] : []
+    );
+
+    expect(result.messages[0].content).toMatchObject({ type: 'text' });
+    expect(uris).toEqual(
+      expect.arrayContaining([
+        'privmx://api/javascript/Core/Endpoint/connect',
+        'privmx://api/javascript/Threads/ThreadApi/createThread',
+        'privmx://docs/js/threads',
+      ])
+    );
+  });
+
+  it('embeds Java API references for Kotlin', async () => {
+    const result = await prompt('integrate_threads').handler({
+      language: 'kotlin',
+    } as never);
+    const uris = result.messages.flatMap((m) =>
+      m.content.type === 'resource' ? [m.content.resource.uri] : []
+    );
+
+    expect(uris).toEqual(
+      expect.arrayContaining([
+        expect.stringMatching(
+          /^privmx:\/\/api\/java\/.*\/ThreadApi\/createThread$/
+        ),
+      ])
+    );
+  });
+
+  it('fails clearly when a backing template is missing', async () => {
+    await expect(
+      prompt('integrate_stores').handler({ language: 'java' } as never)
+    ).rejects.toThrow('Workflow template not found: secure-file-exchange');
+  });
+});
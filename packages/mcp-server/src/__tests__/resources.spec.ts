@@ -0,0 +1,93 @@
+import fs from 'fs';
+import path from 'path';
+import { APIParser } from '../api/parser.js';
+import { getResources } from '../resources.js';
+import eventBus from '../common/event-bus.js';
+import type { APINamespace } from '../api/types.js';
+import type { KnowledgeService } from '../services/knowledge/knowledge-service.js';
+import type { ParsedMDXDocument } from '../types/documentation-types.js';
+
+const specPath = path.resolve(__dirname, '../../../../spec/api/js/out.js.json');
+
+const threadsDoc = {
+  id: 'js-threads',
+  metadata: {
+    title: 'Threads',
+    description: 'Sending messages in Threads',
+    language: 'javascript',
+    filePath: 'spec/mdx/js/threads.mdx',
+  },
+  rawContent: 'const threadId = await threadApi.createThread(contextId, ...);',
+} as ParsedMDXDocument;
+
+describe('getResources', () => {
+  let resources: ReturnType<typeof getResources>;
+  let docs: ParsedMDXDocument[];
+
+  beforeAll(async () => {
+    const namespaces = await new APIParser().parseAPISpec(
+      fs.readFileSync(specPath, 'utf-8'),
+      'javascript',
+      specPath
+    );
+    const knowledgeService = {
+      getApiNamespaces: () =>
+        new Map<string, APINamespace[]>([['javascript', namespaces]]),
+      getDocuments: () => docs,
+    } as unknown as KnowledgeService;
+    docs = [threadsDoc];
+
+    resources = getResources({ knowledgeService });
+  });
+
+  it('lists classes, methods and documents with stable URIs', () => {
+    const uris = resources.listAll().map((resource) => resource.uri);
+
+    expect(uris).toEqual(
+      expect.arrayContaining([
+        'privmx://api/javascript/Threads/ThreadApi',
+        'privmx://api/javascript/Threads/ThreadApi/createThread',
+        'privmx://docs/js/threads',
+      ])
+    );
+  });
+
+  it('paginates with an offset cursor', () => {
+    const all = resources.listAll();
+
+    expect(resources.list().resources).toEqual(all);
+    expect(resources.list().nextCursor).toBeUndefined();
+    expect(resources.list('100').resources[0]).toEqual(all[100]);
+    expect(() => resources.list('abc')).toThrow('Invalid cursor: abc');
+  });
+
+  it('renders method pages with parameters and related docs', () => {
+    const text = resources.read(
+      'privmx://api/javascript/Threads/ThreadApi/createThread'
+    )?.contents[0].text;
+
+    expect(text).toContain('# ThreadApi.createThread (javascript)');
+    expect(text).toContain('| `contextId` | `string` | no |');
+    expect(text).toContain('- privmx://docs/js/threads');
+  });
+
+  it('rebuilds the entries after specification updates', () => {
+    const storesDoc = {
+      ...threadsDoc,
+      id: 'js-stores',
+      metadata: { ...threadsDoc.metadata, filePath: 'spec/mdx/js/stores.mdx' },
+    };
+    docs = [threadsDoc, storesDoc];
+
+    expect(resources.read('privmx://docs/js/stores')).toBeNull();
+    eventBus.emit('vector.index.updated', {});
+    expect(resources.read('privmx://docs/js/stores')).not.toBeNull();
+
+    docs = [threadsDoc];
+    eventBus.emit('vector.index.updated', {});
+  });
+
+  it('returns null for unknown URIs', () => {
+    expect(resources.read('privmx://api/javascript/Nope/Nope')).toBeNull();
+  });
+});
@@ -0,0 +1,461 @@
+import { z } from 'zod';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { getTools, registerTools } from '../tools.js';
+import { APISearchService } from '../services/api/api-search-service.js';
+import { CodeGenerationService } from '../services/generation/code-generation-service.js';
+import { InteractiveSessionService } from '../services/workflow/interactive-session-service.js';
+import type { KnowledgeService } from '../services/knowledge/knowledge-service.js';
+import { SearchTuning } from '../services/search/search-tuning.js';
+import { MemorySessionStore } from '../services/workflow/session-store.js';
+
+jest.mock('../common/paths.js', () => {
+  const path = jest.requireActual<typeof import('path')>('path');
+  const packageRoot = path.resolve(__dirname, '../..');
+  return {
+    packageRoot,
+    specRoot: path.resolve(packageRoot, '../../spec'),
+    templatesRoot: path.resolve(packageRoot, 'src/templates'),
+  };
+});
+
+type Tools = ReturnType<typeof getTools>;
+
+const findTool = (tools: Tools, name: string) => {
+  const tool = tools.find((t) => t.name === name);
+  if (!tool) throw new Error(`Missing tool ${name}`);
+  return tool as {
+    handler: (params: never, context?: { sessionId?: string }) => unknown;
+  };
+};
+
+const call = async (
+  tools: Tools,
+  name: string,
+  params: Record<string, unknown>
+): Promise<string> => {
+  const result = (await findTool(tools, name).handler(params as never)) as {
+    content: { text: string }[];
+  };
+  return result.content[0].text;
+};
+
+describe('getTools', () => {
+  describe('with the chat app service container', () => {
+    let tools: Tools;
+    const searchApiMethods = jest.fn();
+
+    beforeEach(() => {
+      // Services as created by the apps/chat ServiceManager; knowledge is
+      // faked as it needs the built specifications
+      searchApiMethods.mockReset().mockResolvedValue([]);
+      const knowledgeService = {
+        searchApiMethods,
+      } as unknown as KnowledgeService;
+      tools = getTools({
+        searchService: new APISearchService(),
+        codeGenerationService: new CodeGenerationService(),
+        sessionService: new InteractiveSessionService(),
+        knowledgeService,
+        searchTuning: new SearchTuning(),
+      });
+    });
+
+    it('keeps search tuning apart per session', async () => {
+      await findTool(tools, 'set_api_hybrid_weights').handler(
+        { textWeight: 0.9 } as never,
+        { sessionId: 'a' }
+      );
+      await findTool(tools, 'search_api_methods').handler(
+        { query: 'send message' } as never,
+        { sessionId: 'a' }
+      );
+      await findTool(tools, 'search_api_methods').handler(
+        { query: 'send message' } as never,
+        { sessionId: 'b' }
+      );
+
+      const calls = searchApiMethods.mock.calls;
+      expect(calls[0][3]).toMatchObject({ textWeight: 0.9 });
+      expect(calls[1][3]).not.toHaveProperty('textWeight');
+    });
+
+    it('lists the tuning of the calling session', async () => {
+      await findTool(tools, 'set_hybrid_search_weights').handler(
+        { textWeight: 0.2 } as never,
+        { sessionId: 'a' }
+      );
+
+      const result = (await findTool(tools, 'list_search_profiles').handler(
+        {} as never,
+        { sessionId: 'b' }
+      )) as { content: { text: string }[] };
+
+      expect(result.content[0].text).not.toContain('0.2');
+    });
+  });
+
+  describe('search tool structuredContent', () => {
+    const documentationResult = {
+      id: 'js/threads',
+      title: 'Threads',
+      summary: 'Sending encrypted messages',
+      content: 'await threadApi.sendMessage(threadId, meta, meta, data);',
+      metadata: {
+        title: 'Threads',
+        filePath: '/spec/mdx/js/threads.mdx',
+        language: 'js',
+        namespace: 'Threads',
+        category: 'guide',
+      },
+      codeExamples: [],
+      relatedAPIs: ['ThreadApi.sendMessage'],
+      relatedDocs: [],
+      score: 0.8,
+      aiInsights: {
+        keyTakeaways: ['Messages are encrypted'],
+        commonPitfalls: [],
+        bestPractices: [],
+        prerequisites: [],
+        nextSteps: [],
+      },
+      anchors: [{ heading: 'Sending', anchor: 'sending', level: 2 }],
+      section: {
+        anchor: 'sending',
+        heading: 'Sending',
+        headingPath: ['Threads', 'Sending'],
+        level: 2,
+      },
+    };
+    const knowledgeService = {
+      searchDocumentation: jest.fn().mockResolvedValue([documentationResult]),
+      searchApiMethods: jest.fn().mockResolvedValue([
+        {
+          id: 'javascript:ThreadApi.sendMessage',
+          title: 'sendMessage',
+          content: 'Sends a message in a Thread',
+          type: 'method',
+          language: 'javascript',
+          namespace: 'Threads',
+          score: 0.9,
+          metadata: {
+            className: 'ThreadApi',
+            methodType: 'method',
+            signature: 'sendMessage(threadId: string): Promise<string>',
+            parameters: [
+              {
+                name: 'threadId',
+                type: 'string',
+                optional: false,
+                description: 'ID of the Thread',
+              },
+            ],
+          },
+        },
+      ]),
+      searchCodeExamples: jest.fn().mockReturnValue([
+        {
+          title: 'Threads',
+          score: 1,
+          apis: ['ThreadApi.sendMessage'],
+          examples: [
+            {
+              id: 'js/threads#code-0',
+              documentId: 'js/threads',
+              title: 'Sending',
+              documentTitle: 'Threads',
+              sourceFile: '/spec/mdx/js/threads.mdx',
+              anchor: 'sending',
+              language: 'js',
+              code: 'await threadApi.sendMessage(threadId, meta, meta, data);',
+              apis: ['ThreadApi.sendMessage'],
+              calls: ['threadApi.sendMessage'],
+              imports: [],
+            },
+          ],
+        },
+      ]),
+      diffApiVersions: jest.fn().mockReturnValue([
+        {
+          language: 'javascript',
+          from: '2.0.0',
+          to: '2.1.0',
+          added: [
+            {
+              method: 'ThreadApi.sendMessage',
+              before: [],
+              after: ['sendMessage(threadId: string): Promise<string>'],
+            },
+          ],
+          removed: [],
+          changed: [],
+        },
+      ]),
+    } as unknown as KnowledgeService;
+    const tools = getTools({
+      searchService: new APISearchService(),
+      codeGenerationService: new CodeGenerationService(),
+      sessionService: new InteractiveSessionService(),
+      knowledgeService,
+      searchTuning: new SearchTuning(),
+    });
+
+    const cases: [string, Record<string, unknown>][] = [
+      ['search_documentation', { query: 'send message' }],
+      ['semantic_documentation_search', { query: 'send message' }],
+      ['search_api_methods', { query: 'send message' }],
+      ['search_code_examples', { query: 'send message' }],
+      ['diff_api_versions', { from: '2.0.0', to: '2.1.0' }],
+    ];
+
+    it('covers every tool with an outputSchema', () => {
+      expect(
+        tools
+          .filter((t) => 'outputSchema' in t)
+          .map((t) => t.name)
+          .sort()
+      ).toEqual(cases.map(([name]) => name).sort());
+    });
+
+    it.each(cases)('%s matches its outputSchema', async (name, params) => {
+      const tool = tools.find((t) => t.name === name) as {
+        outputSchema?: z.ZodRawShape;
+        handler: (params: never) => Promise<{ structuredContent?: unknown }>;
+      };
+      if (!tool.outputSchema) throw new Error(`${name} has no outputSchema`);
+
+      const result = await tool.handler(params as never);
+      const parsed = z
+        .object(tool.outputSchema)
+        .strict()
+        .safeParse(result.structuredContent);
+
+      expect(parsed.error?.issues).toBeUndefined();
+      expect(Object.values(parsed.data ?? {})).toContainEqual(
+        expect.arrayContaining([expect.anything()])
+      );
+    });
+  });
+
+  describe('registerTools', () => {
+    let client: Client;
+    const onError = jest.fn();
+
+    beforeEach(async () => {
+      const knowledgeService = {
+        searchDocumentation: jest
+          .fn()
+          .mockRejectedValue(new Error('Index unavailable')),
+        diffApiVersions: jest.fn().mockReturnValue([
+          {
+            language: 'javascript',
+            from: '2.0.0',
+            to: '2.1.0',
+            added: [],
+            removed: [],
+            changed: [],
+          },
+        ]),
+      } as unknown as KnowledgeService;
+      const tools = getTools({
+        searchService: new APISearchService(),
+        codeGenerationService: new CodeGenerationService(),
+        sessionService: new InteractiveSessionService(),
+        knowledgeService,
+        searchTuning: new SearchTuning(),
+      });
+      const server = new McpServer({ name: 'test', version: '1.0.0' });
+      registerTools(
+        server,
+        tools,
+        async (name, args, context) =>
+          (await findTool(tools, name).handler(args as never, context)) as {
+            content: { type: 'text'; text: string }[];
+          },
+        onError
+      );
+
+      const [clientTransport, serverTransport] =
+        InMemoryTransport.createLinkedPair();
+      client = new Client({ name: 'test-client', version: '1.0.0' });
+      await server.connect(serverTransport);
+      await client.connect(clientTransport);
+    });
+
+    afterEach(() => client.close());
+
+    it('returns failures of tools with an outputSchema as tool errors', async () => {
+      const result = await client.callTool({
+        name: 'search_documentation',
+        arguments: { query: 'threads' },
+      });
+
+      expect(result).toMatchObject({
+        isError: true,
+        content: [
+          {
+            type: 'text',
+            text: '❌ Error executing search_documentation: Index unavailable',
+          },
+        ],
+        structuredContent: { query: 'threads', results: [] },
+      });
+      expect(onError).toHaveBeenCalledWith(
+        'search_documentation',
+        expect.any(Error)
+      );
+    });
+
+    it('returns failures of other tools as tool errors', async () => {
+      const result = await client.callTool({
+        name: 'session_status',
+        arguments: { sessionId: 'nope' },
+      });
+
+      expect(result.isError).toBe(true);
+      expect(result.structuredContent).toBeUndefined();
+    });
+
+    it('passes structuredContent of successful calls through', async () => {
+      const result = await client.callTool({
+        name: 'diff_api_versions',
+        arguments: { from: '2.0.0', to: '2.1.0' },
+      });
+
+      expect(result.isError).toBeFalsy();
+      expect(result.structuredContent).toMatchObject({
+        diffs: [{ from: '2.0.0', to: '2.1.0' }],
+      });
+    });
+  });
+
+  describe('generate_privmx_app', () => {
+    it('refuses workspace writes without GENERATION_WORKSPACE_ROOT', async () => {
+      const codeGenerationService = new CodeGenerationService();
+      jest.spyOn(codeGenerationService, 'generatePrivMXApp').mockResolvedValue({
+        success: true,
+        data: {
+          files: [{ path: 'package.json', content: '{}', description: '' }],
+        },
+      } as never);
+      const tools = getTools({
+        searchService: new APISearchService(),
+        codeGenerationService,
+        sessionService: new InteractiveSessionService(),
+        searchTuning: new SearchTuning(),
+      });
+
+      await expect(
+        findTool(tools, 'generate_privmx_app').handler({
+          templateId: 'secure-chat',
+          projectName: 'chat',
+          framework: 'react',
+          language: 'typescript',
+          features: ['threads'],
+          workspace: { directory: '/tmp/privmx-chat' },
+        } as never)
+      ).rejects.toThrow('set GENERATION_WORKSPACE_ROOT');
+    });
+  });
+
+  describe('session tools', () => {
+    let tools: Tools;
+    let store: MemorySessionStore;
+
+    const startSession = async (): Promise<string> => {
+      const text = await call(tools, 'start_session', {
+        goal: 'encrypted team chat',
+        userContext: { skillLevel: 'beginner', preferredLanguage: 'js' },
+      });
+      const sessionId = /\*\*Session ID:\*\* `([^`]+)`/.exec(text)?.[1];
+      if (!sessionId) throw new Error(`No session ID in: ${text}`);
+      return sessionId;
+    };
+
+    beforeEach(async () => {
+      store = new MemorySessionStore();
+      const sessionService = new InteractiveSessionService(store);
+      await sessionService.initialize();
+      tools = getTools({
+        searchService: new APISearchService(),
+        codeGenerationService: new CodeGenerationService(),
+        sessionService,
+        searchTuning: new SearchTuning(),
+      });
+    });
+
+    it('guides a session from the workflow choice to generated step code', async () => {
+      const sessionId = await startSession();
+
+      const continued = await call(tools, 'continue_session', {
+        sessionId,
+        response: { confirmation: true },
+      });
+      expect(continued).toMatch(/\*\*Step:\*\* 1\/\d+/);
+      expect(continued).toContain('**Complete:** No');
+
+      const code = await call(tools, 'generate_step_code', { sessionId });
+      expect(code).toContain('# 🧩 Step 1 Code');
+      expect(code).toContain('## Instructions');
+
+      const status = await call(tools, 'session_status', { sessionId });
+      expect(status).toContain('**Status:** active');
+      expect(status).not.toContain('No files generated yet');
+    });
+
+    it('pauses, resumes and cancels sessions', async () => {
+      const sessionId = await startSession();
+
+      expect(
+        await call(tools, 'manage_session', { sessionId, action: 'pause' })
+      ).toContain('pause applied');
+      await expect(
+        call(tools, 'continue_session', { sessionId, response: {} })
+      ).rejects.toThrow('is not active');
+      expect(
+        await call(tools, 'manage_session', { sessionId, action: 'resume' })
+      ).toContain('resume applied');
+      expect(
+        await call(tools, 'manage_session', { sessionId, action: 'cancel' })
+      ).toContain('cancel applied');
+      expect(await call(tools, 'session_status', { sessionId })).toContain(
+        '**Status:** cancelled'
+      );
+    });
+
+    it('reports unknown sessions', async () => {
+      const sessionId = 'nope';
+
+      await expect(
+        call(tools, 'continue_session', { sessionId, response: {} })
+      ).rejects.toThrow('Session nope not found');
+      await expect(
+        call(tools, 'session_status', { sessionId })
+      ).rejects.toThrow('Session nope not found');
+      await expect(
+        call(tools, 'generate_step_code', { sessionId })
+      ).rejects.toThrow('Session nope not found');
+      expect(
+        await call(tools, 'manage_session', { sessionId, action: 'pause' })
+      ).toContain('❌ Session `nope` not found or expired');
+    });
+
+    it('reports and drops expired sessions', async () => {
+      const sessionId = await startSession();
+      const session = await store.get(sessionId);
+      if (!session) throw new Error('Session not stored');
+      await store.save({ ...session, updatedAt: new Date(0) });
+
+      expect(
+        await call(tools, 'manage_session', { sessionId, action: 'pause' })
+      ).toContain('not found or expired');
+      await expect(
+        call(tools, 'session_status', { sessionId })
+      ).rejects.toThrow(/expired after \d+h of inactivity/);
+      await expect(
+        call(tools, 'continue_session', { sessionId, response: {} })
+      ).rejects.toThrow(`Session ${sessionId} not found`);
+    });
+  });
+});
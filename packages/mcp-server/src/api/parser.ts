@@ -213,6 +213,7 @@ export class APIParser {
       name,
       description: this.generateNamespaceDescription(name, language),
       language,
+      sourceFile: filePath,
       classes,
       functions,
       constants,
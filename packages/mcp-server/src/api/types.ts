@@ -93,6 +93,7 @@ export interface APINamespace {
 
   classes: APIClass[];
   functions: APIMethod[]; // Standalone functions
+  sourceFile?: string; // Specification file, relative to the spec root
   constants: APIConstant[];
   types: APITypeDefinition[];
 
@@ -208,6 +209,87 @@ export interface APISearchResult {
   suggestedWorkflow?: WorkflowDefinition;
 }
 
+/**
+ * Reference card of a single API method
+ */
+export interface APIMethodReference {
+  method: APIMethod;
+  /** All overloads sharing the method name, the requested one first */
+  overloads: APIMethod[];
+  language: string;
+  namespace: string;
+  className?: string;
+  signature: string;
+  prerequisites: string[];
+  relatedMethods: string[];
+  errorPatterns: Array<{
+    errorType: string;
+    description: string;
+    solution: string;
+  }>;
+  /** Code blocks from the MDX documentation that call the method */
+  examples: Array<{
+    title: string;
+    language: string;
+    code: string;
+    sourceDocument: string;
+  }>;
+  /** Other languages that expose the same class and method */
+  otherLanguages: string[];
+}
+
+/**
+ * Counterpart of an API method in another language
+ */
+export interface APIMethodEquivalent {
+  className?: string;
+  method: APIMethod;
+  signature: string;
+  /** Higher when class and parameter names match the source method */
+  score: number;
+  /** Parameters aligned by name, then by position */
+  parameters: Array<{ source?: APIParameter; target?: APIParameter }>;
+  /** Human-readable porting notes: call style, types, optionality */
+  differences: string[];
+}
+
+/**
+ * Mapping of one API method to its equivalents in a target language
+ */
+export interface APITranslation {
+  sourceLanguage: string;
+  targetLanguage: string;
+  className?: string;
+  method: APIMethod;
+  signature: string;
+  /** Best match first; empty when the target SDK has no counterpart */
+  equivalents: APIMethodEquivalent[];
+}
+
+/**
+ * A method whose signatures differ between two API versions
+ */
+export interface APIMethodChange {
+  /** `ThreadApi.sendMessage`, or the bare name of a namespace function */
+  method: string;
+  /** Signatures (all overloads) in the older version; empty when added */
+  before: string[];
+  /** Signatures (all overloads) in the newer version; empty when removed */
+  after: string[];
+}
+
+/**
+ * Method-level differences of one language's API between two versions
+ */
+export interface APIVersionDiff {
+  language: string;
+  from: string;
+  to: string;
+  added: APIMethodChange[];
+  removed: APIMethodChange[];
+  changed: APIMethodChange[];
+}
+
 /**
  * Code Generation Types
  */
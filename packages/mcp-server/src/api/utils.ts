@@ -11,3 +11,7 @@ export function generateMethodKey(options: {
   const classPart = options.className ? `${options.className}.` : '';
   return `${options.language}.${options.namespace}.${classPart}${options.methodName}(${paramSig})`;
 }
+
+/** API specs are published for JavaScript and Java, which TypeScript and Kotlin use */
+export const specLanguage = (language: string): string =>
+  ({ typescript: 'javascript', kotlin: 'java' })[language] ?? language;
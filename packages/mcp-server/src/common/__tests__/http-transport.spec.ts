@@ -0,0 +1,239 @@
+import http from 'http';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  startHttpTransport,
+  HttpTransportHandle,
+  HttpTransportOptions,
+} from '../http-transport.js';
+
+jest.mock('../paths.js', () => {
+  const path = jest.requireActual<typeof import('path')>('path');
+  const packageRoot = path.resolve(__dirname, '../../..');
+  return {
+    packageRoot,
+    specRoot: path.resolve(packageRoot, '../../spec'),
+    templatesRoot: path.resolve(packageRoot, 'src/templates'),
+  };
+});
+
+interface Response {
+  status: number;
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+const initializeRequest = {
+  jsonrpc: '2.0',
+  id: 1,
+  method: 'initialize',
+  params: {
+    protocolVersion: '2025-03-26',
+    capabilities: {},
+    clientInfo: { name: 'test', version: '1.0.0' },
+  },
+};
+
+describe('startHttpTransport', () => {
+  let handle: HttpTransportHandle;
+
+  const start = async (
+    options: Partial<HttpTransportOptions> = {}
+  ): Promise<void> => {
+    handle = await startHttpTransport({
+      port: 0,
+      host: '127.0.0.1',
+      createServer: () =>
+        new Server(
+          { name: 'test-server', version: '1.0.0' },
+          { capabilities: { tools: {} } }
+        ),
+      ...options,
+    });
+  };
+
+  const send = (
+    method: string,
+    path: string,
+    headers: http.OutgoingHttpHeaders = {},
+    body?: unknown
+  ): Promise<Response> =>
+    new Promise((resolve, reject) => {
+      const payload = body === undefined ? undefined : JSON.stringify(body);
+      const req = http.request(
+        {
+          host: '127.0.0.1',
+          port: handle.port,
+          method,
+          path,
+          headers: {
+            'Content-Type': 'application/json',
+            Accept: 'application/json, text/event-stream',
+            ...headers,
+          },
+        },
+        (res) => {
+          let data = '';
+          res.setEncoding('utf-8');
+          res.on('data', (chunk) => (data += chunk));
+          res.on('end', () =>
+            resolve({
+              status: res.statusCode ?? 0,
+              headers: res.headers,
+              body: data,
+            })
+          );
+        }
+      );
+      req.on('error', reject);
+      req.end(payload);
+    });
+
+  afterEach(async () => {
+    await handle.close();
+  });
+
+  describe('streamable HTTP on /mcp', () => {
+    beforeEach(() => start());
+
+    it('opens a session on initialize and serves it afterwards', async () => {
+      const initialized = await send('POST', '/mcp', {}, initializeRequest);
+      const sessionId = initialized.headers['mcp-session-id'] as string;
+
+      expect(initialized.status).toBe(200);
+      expect(sessionId).toBeTruthy();
+      expect(initialized.body).toContain('test-server');
+      expect(handle.sessionCount()).toBe(1);
+
+      const pinged = await send(
+        'POST',
+        '/mcp',
+        { 'Mcp-Session-Id': sessionId },
+        { jsonrpc: '2.0', id: 2, method: 'ping' }
+      );
+      expect(pinged.status).toBe(200);
+      expect(pinged.body).toContain('"result":{}');
+    });
+
+    it('rejects requests without a session or with an unknown one', async () => {
+      const ping = { jsonrpc: '2.0', id: 1, method: 'ping' };
+
+      expect((await send('POST', '/mcp', {}, ping)).status).toBe(400);
+      expect(
+        (await send('POST', '/mcp', { 'Mcp-Session-Id': 'unknown' }, ping))
+          .status
+      ).toBe(404);
+    });
+  });
+
+  describe('SSE on /sse and /messages', () => {
+    beforeEach(() => start());
+
+    it('opens a session on /sse and accepts messages for it', async () => {
+      const stream = await new Promise<http.IncomingMessage>((resolve) =>
+        http
+          .get({ host: '127.0.0.1', port: handle.port, path: '/sse' }, resolve)
+          .end()
+      );
+      const endpoint = await new Promise<string>((resolve) =>
+        stream.once('data', (chunk: Buffer) =>
+          resolve(/data: (\S+)/.exec(chunk.toString())?.[1] ?? '')
+        )
+      );
+
+      expect(endpoint).toMatch(/^\/messages\?sessionId=/);
+      expect(handle.sessionCount()).toBe(1);
+      expect((await send('POST', endpoint, {}, initializeRequest)).status).toBe(
+        202
+      );
+
+      stream.destroy();
+    });
+
+    it('rejects messages for unknown sessions', async () => {
+      const response = await send(
+        'POST',
+        '/messages?sessionId=unknown',
+        {},
+        initializeRequest
+      );
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe('/health', () => {
+    beforeEach(() => start());
+
+    it('reports the open sessions', async () => {
+      const response = await send('GET', '/health');
+
+      expect(response.status).toBe(200);
+      expect(JSON.parse(response.body)).toEqual({ status: 'ok', sessions: 0 });
+    });
+  });
+
+  describe('body limit', () => {
+    beforeEach(() => start());
+
+    it('rejects bodies over 4 MB', async () => {
+      const response = await send(
+        'POST',
+        '/mcp',
+        {},
+        {
+          ...initializeRequest,
+          padding: 'x'.repeat(4 * 1024 * 1024),
+        }
+      );
+
+      expect(response.status).toBe(413);
+      expect(handle.sessionCount()).toBe(0);
+    });
+  });
+
+  describe('origin and host checks', () => {
+    beforeEach(() =>
+      start({
+        allowedOrigins: ['https://app.example.com'],
+        allowedHosts: ['mcp.example.com'],
+      })
+    );
+
+    it('rejects browser requests from other origins', async () => {
+      const response = await send(
+        'POST',
+        '/mcp',
+        { Origin: 'https://evil.example.com' },
+        initializeRequest
+      );
+
+      expect(response.status).toBe(403);
+      expect(response.headers['access-control-allow-origin']).toBeUndefined();
+      expect(handle.sessionCount()).toBe(0);
+    });
+
+    it('allows CORS for localhost and configured origins only', async () => {
+      for (const origin of [
+        'http://localhost:5173',
+        'https://app.example.com',
+      ]) {
+        const response = await send('OPTIONS', '/mcp', { Origin: origin });
+
+        expect(response.status).toBe(204);
+        expect(response.headers['access-control-allow-origin']).toBe(origin);
+      }
+      expect(
+        (await send('GET', '/health')).headers['access-control-allow-origin']
+      ).toBeUndefined();
+    });
+
+    it('rejects hosts other than localhost and the configured ones', async () => {
+      expect(
+        (await send('GET', '/health', { Host: 'evil.example.com' })).status
+      ).toBe(403);
+      expect(
+        (await send('GET', '/health', { Host: 'mcp.example.com:3030' })).status
+      ).toBe(200);
+    });
+  });
+});
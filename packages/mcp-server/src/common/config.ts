@@ -6,6 +6,16 @@ import path from 'path';
 // Load .env file from the package root
 dotenv.config({ path: path.resolve(packageRoot, '.env') });
 
+const commaSeparated = z
+  .string()
+  .default('')
+  .transform((value) =>
+    value
+      .split(',')
+      .map((item) => item.trim())
+      .filter(Boolean)
+  );
+
 const configSchema = z.object({
   NODE_ENV: z
     .enum(['development', 'production', 'test'])
@@ -14,6 +24,21 @@ const configSchema = z.object({
     .enum(['error', 'warn', 'info', 'http', 'verbose', 'debug', 'silly'])
     .default('info'),
   SPEC_PATH: z.string().optional(),
+  SPEC_WATCH: z
+    .enum(['true', 'false'])
+    .default('false')
+    .transform((value) => value === 'true'),
+  SEARCH_PROFILES_PATH: z.string().optional(),
+  GENERATION_WORKSPACE_ROOT: z.string().optional(),
+  SESSION_STORE: z.enum(['file', 'memory']).default('file'),
+  SESSION_STORE_PATH: z.string().default('.privmx-sessions.json'),
+  SESSION_TTL_HOURS: z.coerce.number().positive().default(72),
+  MCP_TRANSPORT: z.enum(['stdio', 'http']).default('stdio'),
+  MCP_HTTP_PORT: z.coerce.number().int().min(0).max(65535).default(3030),
+  MCP_HTTP_HOST: z.string().default('127.0.0.1'),
+  // Browser origins and Host names accepted besides localhost
+  MCP_ALLOWED_ORIGINS: commaSeparated,
+  MCP_ALLOWED_HOSTS: commaSeparated,
 });
 
 const parsedConfig = configSchema.safeParse(process.env);
@@ -11,6 +11,10 @@ export interface McpEvents {
   'vector.initialized': void;
   'vector.index.start': void;
   'vector.index.complete': void;
+  /** Vectors of removed documents were dropped; payload: document ids */
+  'vector.index.removed': string[];
+  /** A spec watcher change set was applied; payload: SpecUpdateResult */
+  'vector.index.updated': unknown;
   'search.started': void;
   'search.completed': void;
   [key: string]: unknown;
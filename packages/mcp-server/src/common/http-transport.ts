@@ -0,0 +1,285 @@
+/**
+ * HTTP transports for the standalone MCP server
+ *
+ * Serves Streamable HTTP on `/mcp` and the legacy SSE transport on `/sse`
+ * (stream) + `/messages` (client posts). Every client session gets its own
+ * MCP server from the factory; the services behind them are shared.
+ *
+ * Requests are checked against DNS rebinding: the Host header must name
+ * localhost or an allowed host, and browser requests (with an Origin header)
+ * must come from localhost or an allowed origin, which also gets CORS.
+ */
+
+import { randomUUID } from 'crypto';
+import { createServer, IncomingMessage, ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import logger from './logger.js';
+
+export interface HttpTransportOptions {
+  /** Port to listen on; 0 picks a free port */
+  port: number;
+  host: string;
+  /** Browser origins allowed besides localhost, e.g. https://app.example.com */
+  allowedOrigins?: string[];
+  /** Host header names allowed besides localhost, e.g. mcp.example.com */
+  allowedHosts?: string[];
+  /** Creates a fresh MCP server for a new client session */
+  createServer: () => Server;
+  /** Called after a client session closed, e.g. to drop per-session state */
+  onSessionClosed?: (sessionId: string) => void;
+}
+
+export interface HttpTransportHandle {
+  /** Port actually bound */
+  port: number;
+  /** Number of open client sessions */
+  sessionCount(): number;
+  /** Closes all sessions and stops listening */
+  close(): Promise<void>;
+}
+
+type Transport = StreamableHTTPServerTransport | SSEServerTransport;
+
+const MCP_PATH = '/mcp';
+const SSE_PATH = '/sse';
+const MESSAGES_PATH = '/messages';
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+const LOCAL_HOSTNAMES = ['localhost', '127.0.0.1', '[::1]'];
+
+const sendJsonRpcError = (
+  res: ServerResponse,
+  status: number,
+  code: number,
+  message: string
+): void => {
+  if (res.headersSent) return;
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(
+    JSON.stringify({ jsonrpc: '2.0', error: { code, message }, id: null })
+  );
+};
+
+const readJsonBody = async (req: IncomingMessage): Promise<unknown> => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new Error(`Request body exceeds ${MAX_BODY_BYTES} bytes`);
+    }
+    chunks.push(chunk);
+  }
+
+  return JSON.parse(Buffer.concat(chunks).toString('utf-8'));
+};
+
+const isLocalOrigin = (origin: string): boolean => {
+  try {
+    const { protocol, hostname } = new URL(origin);
+    return (
+      (protocol === 'http:' || protocol === 'https:') &&
+      LOCAL_HOSTNAMES.includes(hostname)
+    );
+  } catch {
+    return false;
+  }
+};
+
+/** Host header without the port */
+const hostName = (host: string): string =>
+  host.startsWith('[')
+    ? host.slice(0, host.indexOf(']') + 1)
+    : host.split(':')[0];
+
+const isInitialization = (body: unknown): boolean =>
+  Array.isArray(body)
+    ? body.some(isInitializeRequest)
+    : isInitializeRequest(body);
+
+/**
+ * Starts an HTTP server exposing the MCP server over Streamable HTTP and SSE
+ */
+export const startHttpTransport = async (
+  options: HttpTransportOptions
+): Promise<HttpTransportHandle> => {
+  const sessions = new Map<string, Transport>();
+  const allowedOrigins = new Set(options.allowedOrigins ?? []);
+  const allowedHosts = new Set(
+    [...LOCAL_HOSTNAMES, options.host, ...(options.allowedHosts ?? [])].map(
+      (host) => host.toLowerCase()
+    )
+  );
+
+  const isAllowedOrigin = (origin: string): boolean =>
+    allowedOrigins.has(origin) || isLocalOrigin(origin);
+
+  const connect = async (transport: Transport): Promise<void> => {
+    const server = options.createServer();
+    // connect() takes over transport.onclose, so hook the server instead
+    const onServerClose = server.onclose;
+    server.onclose = () => {
+      onServerClose?.();
+      if (transport.sessionId) {
+        sessions.delete(transport.sessionId);
+        options.onSessionClosed?.(transport.sessionId);
+      }
+      logger.info(`🔌 MCP session closed: ${transport.sessionId}`);
+    };
+    await server.connect(transport);
+  };
+
+  const handleStreamableHttp = async (
+    req: IncomingMessage,
+    res: ServerResponse
+  ): Promise<void> => {
+    const sessionId = req.headers['mcp-session-id'];
+    const body = req.method === 'POST' ? await readJsonBody(req) : undefined;
+
+    if (typeof sessionId === 'string') {
+      const transport = sessions.get(sessionId);
+      if (!(transport instanceof StreamableHTTPServerTransport)) {
+        sendJsonRpcError(res, 404, -32001, 'Session not found');
+        return;
+      }
+      await transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (req.method !== 'POST' || !isInitialization(body)) {
+      sendJsonRpcError(
+        res,
+        400,
+        -32000,
+        'Bad Request: No valid session ID provided'
+      );
+      return;
+    }
+
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        sessions.set(id, transport);
+        logger.info(`🔌 MCP session opened (streamable HTTP): ${id}`);
+      },
+    });
+    await connect(transport);
+    await transport.handleRequest(req, res, body);
+  };
+
+  const handleSse = async (res: ServerResponse): Promise<void> => {
+    const transport = new SSEServerTransport(MESSAGES_PATH, res);
+    sessions.set(transport.sessionId, transport);
+    logger.info(`🔌 MCP session opened (SSE): ${transport.sessionId}`);
+    await connect(transport);
+  };
+
+  const handleSseMessage = async (
+    req: IncomingMessage,
+    res: ServerResponse,
+    url: URL
+  ): Promise<void> => {
+    const transport = sessions.get(url.searchParams.get('sessionId') ?? '');
+    if (!(transport instanceof SSEServerTransport)) {
+      sendJsonRpcError(res, 404, -32001, 'Session not found');
+      return;
+    }
+    await transport.handlePostMessage(req, res, await readJsonBody(req));
+  };
+
+  const httpServer = createServer(async (req, res) => {
+    const host = req.headers.host ?? '';
+    if (!allowedHosts.has(hostName(host).toLowerCase())) {
+      logger.warn(`🚫 Rejected request for host ${host}`);
+      sendJsonRpcError(res, 403, -32000, 'Forbidden: host not allowed');
+      return;
+    }
+
+    const origin = req.headers.origin;
+    if (origin !== undefined) {
+      if (!isAllowedOrigin(origin)) {
+        logger.warn(`🚫 Rejected request from origin ${origin}`);
+        sendJsonRpcError(res, 403, -32000, 'Forbidden: origin not allowed');
+        return;
+      }
+      res.setHeader('Access-Control-Allow-Origin', origin);
+      res.setHeader('Vary', 'Origin');
+      res.setHeader(
+        'Access-Control-Allow-Methods',
+        'GET, POST, DELETE, OPTIONS'
+      );
+      res.setHeader(
+        'Access-Control-Allow-Headers',
+        'Content-Type, Authorization, Mcp-Session-Id, Mcp-Protocol-Version, Last-Event-ID'
+      );
+      res.setHeader('Access-Control-Expose-Headers', 'Mcp-Session-Id');
+    }
+
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204);
+      res.end();
+      return;
+    }
+
+    if (Number(req.headers['content-length']) > MAX_BODY_BYTES) {
+      sendJsonRpcError(res, 413, -32000, 'Request body too large');
+      return;
+    }
+
+    const url = new URL(req.url ?? '/', 'http://localhost');
+
+    try {
+      if (url.pathname === MCP_PATH) {
+        await handleStreamableHttp(req, res);
+      } else if (url.pathname === SSE_PATH && req.method === 'GET') {
+        await handleSse(res);
+      } else if (url.pathname === MESSAGES_PATH && req.method === 'POST') {
+        await handleSseMessage(req, res, url);
+      } else if (url.pathname === '/health') {
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ status: 'ok', sessions: sessions.size }));
+      } else {
+        res.writeHead(404);
+        res.end();
+      }
+    } catch (error) {
+      logger.error(`❌ Error handling ${req.method} ${url.pathname}:`, error);
+      if (error instanceof SyntaxError) {
+        sendJsonRpcError(res, 400, -32700, 'Parse error');
+      } else {
+        sendJsonRpcError(res, 500, -32603, 'Internal server error');
+      }
+    }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port, options.host, () => resolve());
+  });
+
+  const { port } = httpServer.address() as AddressInfo;
+  logger.info(
+    `🌐 MCP server listening on http://${options.host}:${port}${MCP_PATH} (SSE: ${SSE_PATH})`
+  );
+
+  return {
+    port,
+    sessionCount: () => sessions.size,
+    close: async () => {
+      await Promise.all(
+        Array.from(sessions.values()).map((transport) => transport.close())
+      );
+      sessions.clear();
+      await new Promise<void>((resolve, reject) => {
+        httpServer.close((error) => (error ? reject(error) : resolve()));
+        // End idle keep-alive connections so close() does not hang
+        httpServer.closeAllConnections();
+      });
+      logger.info('🛑 MCP HTTP transport stopped');
+    },
+  };
+};
@@ -1,9 +1,11 @@
 import { z } from 'zod';
+import { FUSION_METHODS } from '../services/search/score-fusion.js';
 
 export const LanguageSchema = z.enum([
   'javascript',
   'typescript',
   'java',
+  'kotlin',
   'swift',
   'cpp',
   'csharp',
@@ -18,3 +20,159 @@ export const SkillLevelSchema = z.enum([
 export const FrameworkSchema = z.enum(['react', 'vue', 'vanilla', 'nodejs']);
 
 export const FeatureSchema = z.enum(['threads', 'stores', 'inboxes', 'crypto']);
+
+export const FusionSchema = z.enum(FUSION_METHODS);
+
+/**
+ * Ranking options of one search call, a tuning profile or session overrides
+ */
+export const SearchOptionsSchema = z.object({
+  fusion: FusionSchema.optional().describe(
+    'How lexical and semantic rankings are merged: rrf, zscore or linear'
+  ),
+  textWeight: z
+    .number()
+    .min(0)
+    .max(1)
+    .optional()
+    .describe('Weight of the lexical (keyword) ranking'),
+  vectorWeight: z
+    .number()
+    .min(0)
+    .max(1)
+    .optional()
+    .describe('Weight of the semantic ranking (defaults to 1 - textWeight)'),
+  preferredLanguage: z
+    .string()
+    .optional()
+    .describe('Boost results in this language instead of filtering by it'),
+  languageBoost: z
+    .number()
+    .positive()
+    .optional()
+    .describe('Score multiplier for preferred-language results (default 1.5)'),
+  resultTypes: z
+    .array(z.string())
+    .optional()
+    .describe(
+      'Only these result types: method or class for API search; tutorial, guide, concept, api, getting-started or documentation for docs'
+    ),
+});
+
+/** Named profile: shared options with per-surface overrides */
+export const SearchProfileSchema = SearchOptionsSchema.extend({
+  docs: SearchOptionsSchema.optional(),
+  api: SearchOptionsSchema.optional(),
+});
+
+export const SearchTuningSchema = SearchOptionsSchema.extend({
+  profile: z
+    .string()
+    .optional()
+    .describe('Named tuning profile from the server configuration'),
+}).describe(
+  "Ranking options for this call, applied over the session's profile and overrides"
+);
+
+export const ApiVersionSchema = z
+  .string()
+  .describe(
+    'PrivMX Endpoint SDK version, e.g. 2.1.0 (defaults to the latest specifications)'
+  );
+
+/**
+ * Machine-readable search results returned as MCP `structuredContent`
+ */
+export const ApiMethodHitSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  className: z.string().optional(),
+  namespace: z.string().optional(),
+  language: z.string().optional(),
+  methodType: z.string().optional(),
+  score: z.number(),
+  description: z.string().optional(),
+  signature: z.string().optional(),
+  parameters: z
+    .array(
+      z.object({
+        name: z.string(),
+        type: z.string(),
+        optional: z.boolean(),
+        description: z.string(),
+      })
+    )
+    .default([]),
+  returns: z
+    .array(z.object({ type: z.string(), description: z.string() }))
+    .default([]),
+  sourceFile: z.string().optional(),
+});
+
+export const DocumentationHitSchema = z.object({
+  id: z.string(),
+  title: z.string(),
+  uri: z.string().describe('Resource URI with the full document content'),
+  score: z.number(),
+  summary: z.string(),
+  language: z.string().optional(),
+  namespace: z.string().optional(),
+  category: z.string().optional(),
+  sourceFile: z.string(),
+  anchors: z.array(
+    z.object({ heading: z.string(), anchor: z.string(), level: z.number() })
+  ),
+  section: z
+    .object({
+      anchor: z.string(),
+      heading: z.string(),
+      path: z
+        .array(z.string())
+        .describe('Headings from the document title down to this section'),
+      level: z.number(),
+    })
+    .optional()
+    .describe('Section of the document this result points at'),
+  content: z.string().describe('Exact text of the matched section'),
+  codeExamples: z.number(),
+  relatedAPIs: z.array(z.string()),
+});
+
+export const CodeExampleHitSchema = z.object({
+  title: z.string(),
+  score: z.number(),
+  apis: z
+    .array(z.string())
+    .describe('Requested methods as found, e.g. InboxApi.createInbox'),
+  examples: z.array(
+    z.object({
+      id: z.string(),
+      title: z.string(),
+      uri: z.string().describe('Resource URI with the full document content'),
+      anchor: z.string(),
+      language: z.string(),
+      code: z.string(),
+      apis: z.array(z.string()).describe('PrivMX methods called'),
+      imports: z.array(z.string()),
+    })
+  ),
+});
+
+const ApiMethodChangeSchema = z.object({
+  method: z.string().describe('Class.method'),
+  before: z.array(z.string()).describe('Signatures in the older version'),
+  after: z.array(z.string()).describe('Signatures in the newer version'),
+});
+
+export const ApiVersionDiffSchema = z.object({
+  language: z.string(),
+  from: z.string(),
+  to: z.string(),
+  added: z.array(ApiMethodChangeSchema),
+  removed: z.array(ApiMethodChangeSchema),
+  changed: z.array(ApiMethodChangeSchema),
+});
+
+export type ApiMethodHit = z.infer<typeof ApiMethodHitSchema>;
+export type DocumentationHit = z.infer<typeof DocumentationHitSchema>;
+export type CodeExampleHit = z.infer<typeof CodeExampleHitSchema>;
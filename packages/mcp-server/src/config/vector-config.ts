@@ -1,17 +1,57 @@
 /**
  * Vector Service Configuration
  *
- * Configuration for OpenAI embeddings and Qdrant vector database integration.
+ * Configuration for embeddings (OpenAI, local ONNX model or Ollama) and
+ * the vector store (Qdrant or an embedded index file).
  * Supports environment variables with sensible defaults.
  */
 
+export type EmbeddingProviderName = 'openai' | 'local' | 'ollama';
+
+export const EMBEDDING_PROVIDERS: EmbeddingProviderName[] = [
+  'openai',
+  'local',
+  'ollama',
+];
+
+/** Vector sizes of the default model of each provider */
+const DEFAULT_VECTOR_SIZES: Record<EmbeddingProviderName, number> = {
+  openai: 1536, // text-embedding-3-small
+  local: 384, // all-MiniLM-L6-v2
+  ollama: 768, // nomic-embed-text
+};
+
+export type VectorBackend = 'qdrant' | 'file';
+
 export interface VectorConfig {
+  store: {
+    backend: VectorBackend;
+    /** Index file of the documentation vectors (file backend) */
+    path: string;
+    /** Index file of the API method vectors (file backend) */
+    apiPath: string;
+  };
+  embedding: {
+    provider: EmbeddingProviderName;
+  };
   openai: {
     apiKey?: string;
     model: string;
     batchSize: number;
     stripNewLines: boolean;
   };
+  local: {
+    /** Hugging Face model id of an ONNX sentence-transformer */
+    model: string;
+    /** Where downloaded model files are kept; pre-populate for offline use */
+    cacheDir?: string;
+    batchSize: number;
+  };
+  ollama: {
+    url: string;
+    model: string;
+    batchSize: number;
+  };
   qdrant: {
     url: string;
     apiKey?: string;
@@ -31,19 +71,45 @@ export interface VectorConfig {
   };
 }
 
+const embeddingProvider = (process.env.EMBEDDING_PROVIDER ||
+  'openai') as EmbeddingProviderName;
+
 export const defaultVectorConfig: VectorConfig = {
+  store: {
+    backend: (
+      process.env.VECTOR_BACKEND || 'qdrant'
+    ).toLowerCase() as VectorBackend,
+    path: process.env.VECTOR_STORE_PATH || '.privmx-vectors.json',
+    apiPath: process.env.API_VECTOR_STORE_PATH || '.privmx-api-vectors.json',
+  },
+  embedding: {
+    provider: embeddingProvider,
+  },
   openai: {
     apiKey: process.env.OPENAI_API_KEY,
     model: process.env.OPENAI_EMBEDDING_MODEL || 'text-embedding-3-small',
     batchSize: parseInt(process.env.OPENAI_BATCH_SIZE || '512'),
     stripNewLines: true,
   },
+  local: {
+    model: process.env.LOCAL_EMBEDDING_MODEL || 'Xenova/all-MiniLM-L6-v2',
+    cacheDir: process.env.LOCAL_EMBEDDING_CACHE_DIR,
+    batchSize: parseInt(process.env.LOCAL_EMBEDDING_BATCH_SIZE || '32'),
+  },
+  ollama: {
+    url: process.env.OLLAMA_URL || 'http://localhost:11434',
+    model: process.env.OLLAMA_EMBEDDING_MODEL || 'nomic-embed-text',
+    batchSize: parseInt(process.env.OLLAMA_BATCH_SIZE || '64'),
+  },
   qdrant: {
     url: process.env.QDRANT_URL || 'http://localhost:6333',
     apiKey: process.env.QDRANT_API_KEY,
     collectionName:
       process.env.QDRANT_COLLECTION_NAME || 'privmx_documentation',
-    vectorSize: 1536, // text-embedding-3-small dimension
+    vectorSize:
+      parseInt(process.env.QDRANT_VECTOR_SIZE || '') ||
+      DEFAULT_VECTOR_SIZES[embeddingProvider] ||
+      DEFAULT_VECTOR_SIZES.openai,
     distance: 'Cosine',
   },
   indexing: {
@@ -69,6 +135,20 @@ export function getVectorConfig(): VectorConfig {
   };
 }
 
+/**
+ * Model name of the configured embedding provider
+ */
+export function getEmbeddingModel(config: VectorConfig): string {
+  switch (config.embedding.provider) {
+    case 'local':
+      return config.local.model;
+    case 'ollama':
+      return config.ollama.model;
+    default:
+      return config.openai.model;
+  }
+}
+
 /**
  * Validate vector configuration
  */
@@ -78,14 +158,36 @@ export function validateVectorConfig(config: VectorConfig): {
 } {
   const errors: string[] = [];
 
-  if (!config.openai.apiKey) {
-    errors.push('OpenAI API key is required for vector embeddings');
+  switch (config.embedding.provider) {
+    case 'openai':
+      if (!config.openai.apiKey) {
+        errors.push('OpenAI API key is required for vector embeddings');
+      }
+      break;
+    case 'local':
+      if (!config.local.model) {
+        errors.push('Local embedding model is required');
+      }
+      break;
+    case 'ollama':
+      if (!config.ollama.url || !config.ollama.model) {
+        errors.push('Ollama URL and embedding model are required');
+      }
+      break;
+    default:
+      errors.push(
+        `Unknown embedding provider "${config.embedding.provider}". Use one of: ${EMBEDDING_PROVIDERS.join(', ')}`
+      );
   }
 
-  if (!config.qdrant.url) {
+  if (config.store.backend === 'qdrant' && !config.qdrant.url) {
     errors.push('Qdrant URL is required');
   }
 
+  if (config.store.backend === 'file' && !config.store.path) {
+    errors.push('Vector store path is required for the file backend');
+  }
+
   if (config.indexing.chunkSize <= 0) {
     errors.push('Chunk size must be positive');
   }
@@ -111,13 +213,39 @@ export function getSetupInstructions(): string {
   return `
 # Vector Service Setup Instructions
 
-## Required Environment Variables:
+## Embedding Provider (pick one):
+export EMBEDDING_PROVIDER="openai"                    # openai | local | ollama
+
+### OpenAI (default)
 export OPENAI_API_KEY="your-openai-api-key"
 
+### Local, in-process ONNX model (no network after the model is cached)
+pnpm add @huggingface/transformers
+export EMBEDDING_PROVIDER="local"
+export LOCAL_EMBEDDING_MODEL="Xenova/all-MiniLM-L6-v2"    # Default model
+export LOCAL_EMBEDDING_CACHE_DIR="/opt/models"            # Pre-populated for air-gapped hosts
+
+### Ollama (or any server implementing POST /api/embed)
+export EMBEDDING_PROVIDER="ollama"
+export OLLAMA_URL="http://localhost:11434"                # Default URL
+export OLLAMA_EMBEDDING_MODEL="nomic-embed-text"          # ollama pull nomic-embed-text
+
+Vectors of different models are not comparable: when switching providers,
+use a new QDRANT_COLLECTION_NAME or set FORCE_VECTOR_REINDEX=true once.
+
+## Vector Store (pick one):
+export VECTOR_BACKEND="qdrant"                        # qdrant | file
+
+### File backend (no Qdrant server needed)
+export VECTOR_BACKEND="file"
+export VECTOR_STORE_PATH=".privmx-vectors.json"           # Documentation vectors
+export API_VECTOR_STORE_PATH=".privmx-api-vectors.json"   # API method vectors
+
 ## Optional Environment Variables:
 export QDRANT_URL="http://localhost:6333"              # Default: localhost
 export QDRANT_API_KEY="your-qdrant-api-key"           # Optional for local Qdrant
 export QDRANT_COLLECTION_NAME="privmx-docs"           # Default collection name
+export QDRANT_VECTOR_SIZE="1536"                      # Default: size of the provider's default model
 export OPENAI_EMBEDDING_MODEL="text-embedding-3-small" # Default model
 export OPENAI_BATCH_SIZE="512"                        # Default batch size
 export CHUNK_SIZE="1000"                               # Default chunk size
@@ -128,12 +256,12 @@ export VECTOR_INDEX_CACHE_FILE=".vector-index-cache.json"  # Cache file location
 export FORCE_VECTOR_REINDEX="false"                       # Force re-indexing
 export DISABLE_VECTOR_CACHE="false"                       # Disable persistent cache
 
-## Qdrant Docker Setup (if needed):
+## Qdrant Docker Setup (only for VECTOR_BACKEND=qdrant):
 docker run -p 6333:6333 qdrant/qdrant
 
 ## Features enabled with proper setup:
-✅ Semantic search with OpenAI embeddings
-✅ Persistent vector storage with Qdrant
+✅ Semantic search with OpenAI, local or Ollama embeddings
+✅ Persistent vector storage with Qdrant or a local index file
 ✅ Advanced filtering and similarity matching
 ✅ Code-aware semantic understanding
 ✅ Multi-language documentation search
@@ -0,0 +1,372 @@
+import { z } from 'zod';
+import type { CodeGenerationService } from './services/generation/code-generation-service.js';
+import type { KnowledgeService } from './services/knowledge/knowledge-service.js';
+import type { WorkflowTemplate } from './services/generation/generation-types.js';
+import { FrameworkSchema, LanguageSchema } from './common/schemas.js';
+import { documentUri, getResources } from './resources.js';
+import type { MCPPromptMessage, MCPPromptResult } from './types/mcp-types.js';
+import { specLanguage } from './api/utils.js';
+
+/**
+ * Service composition interface for prompt handlers
+ */
+interface PromptServiceContainer {
+  knowledgeService: KnowledgeService;
+  codeGenerationService: CodeGenerationService;
+}
+
+/**
+ * MCP prompt definition; arguments are validated against `schema` before
+ * the handler runs
+ */
+export interface PromptDefinition {
+  name: string;
+  description: string;
+  /** Prompt arguments are always strings */
+  schema: Record<string, z.ZodType<string> | z.ZodOptional<z.ZodType<string>>>;
+  handler: (args: never) => Promise<MCPPromptResult>;
+}
+
+interface PromptContextRequest {
+  language: string;
+  /** API references in `Owner.method` form, as used by workflow templates */
+  apis: string[];
+  docQuery: string;
+}
+
+const MAX_API_ENTRIES = 8;
+const MAX_DOCS = 3;
+
+/**
+ * Modules with a one-click integration prompt and the workflow template
+ * their APIs are taken from
+ */
+const MODULE_PROMPTS = [
+  { module: 'Threads', owner: 'Thread', templateId: 'secure-messaging-app' },
+  { module: 'Stores', owner: 'Store', templateId: 'secure-file-exchange' },
+  {
+    module: 'Inboxes',
+    owner: 'Inbox',
+    templateId: 'anonymous-feedback-system',
+  },
+];
+
+const S3_TO_STORES = [
+  ['Bucket', 'Store (`createStore`, `listStores`)'],
+  ['PutObject', '`createFile` + `writeToFile` + `closeFile`'],
+  ['GetObject', '`openFile` + `readFromFile` + `closeFile`'],
+  ['ListObjectsV2', '`listFiles`'],
+  ['DeleteObject', '`deleteFile`'],
+  ['Object metadata / tags', '`publicMeta` / `privateMeta` of the file'],
+  ['Bucket policy / presigned URL', 'Store `users` and `managers` lists'],
+  ['S3 event notifications', '`subscribeForStoreEvents`'],
+];
+
+const promptName = (templateId: string): string =>
+  `build_${templateId.replace(/-/g, '_')}`;
+
+const text = (value: string): MCPPromptMessage => ({
+  role: 'user',
+  content: { type: 'text', text: value },
+});
+
+const formatTemplate = (template: WorkflowTemplate): string =>
+  `## Features\n${template.features
+    .map(
+      (feature) =>
+        `- **${feature.name}** (${feature.complexity}): ${feature.description}\n` +
+        `  APIs: ${feature.apis.join(', ')}`
+    )
+    .join('\n')}\n\n` +
+  `## Dependencies\n${template.dependencies
+    .map(
+      (dep) =>
+        `- ${dep.name}${dep.version ? `@${dep.version}` : ''} (${dep.type}, ${dep.manager})`
+    )
+    .join('\n')}\n`;
+
+/**
+ * Defines the MCP prompts offered to IDE clients as slash commands. Each
+ * prompt embeds the API reference pages and documentation it relies on, so
+ * the model starts with the relevant PrivMX context.
+ *
+ * @param services - Container with initialized knowledge and generation services
+ */
+export const getPrompts = (
+  services: PromptServiceContainer
+): PromptDefinition[] => {
+  const resources = getResources(services);
+
+  /**
+   * Finds the reference page of an `Owner.method` API in the given language,
+   * preferring classes named after the owner (Thread → ThreadApi)
+   */
+  const findApiResource = (language: string, api: string): string | null => {
+    const [owner, method, ...rest] = api.split('.');
+    if (!method || rest.length > 0) return null;
+
+    const prefix = `privmx://api/${encodeURIComponent(language)}/`;
+    const candidates = resources
+      .listAll()
+      .map((resource) => resource.uri)
+      .filter(
+        (uri) =>
+          uri.startsWith(prefix) &&
+          uri.endsWith(`/${encodeURIComponent(method)}`)
+      );
+
+    return (
+      candidates.find((uri) => uri.split('/').at(-2)?.startsWith(owner)) ??
+      candidates[0] ??
+      null
+    );
+  };
+
+  /**
+   * Pulls API reference pages and matching documentation as embedded resources
+   */
+  const buildContext = async (
+    request: PromptContextRequest
+  ): Promise<MCPPromptMessage[]> => {
+    const apiLanguage = specLanguage(request.language);
+    // Kotlin has its own documentation, TypeScript shares the JavaScript one
+    const docLanguage =
+      request.language === 'kotlin' ? request.language : apiLanguage;
+    const apiUris = Array.from(
+      new Set(
+        request.apis
+          .map((api) => findApiResource(apiLanguage, api))
+          .filter((uri): uri is string => uri !== null)
+      )
+    ).slice(0, MAX_API_ENTRIES);
+
+    const docs = await services.knowledgeService.searchDocumentation(
+      request.docQuery,
+      { language: docLanguage },
+      MAX_DOCS
+    );
+    const docUris = docs.map((doc) => documentUri(doc.metadata.filePath));
+
+    return Array.from(new Set([...apiUris, ...docUris])).flatMap((uri) => {
+      const result = resources.read(uri);
+      return result
+        ? [
+            {
+              role: 'user' as const,
+              content: {
+                type: 'resource' as const,
+                resource: result.contents[0],
+              },
+            },
+          ]
+        : [];
+    });
+  };
+
+  const getTemplate = (templateId: string): WorkflowTemplate => {
+    const template =
+      services.codeGenerationService.getWorkflowTemplate(templateId);
+    if (!template) {
+      throw new Error(`Workflow template not found: ${templateId}`);
+    }
+    return template;
+  };
+
+  const workflowPrompts = services.codeGenerationService
+    .getWorkflowTemplates()
+    .map((template) => ({
+      name: promptName(template.id),
+      description: `🏗️ Build a ${template.name} with PrivMX`,
+      schema: {
+        language: LanguageSchema.optional().describe(
+          `Target language (defaults to ${template.language})`
+        ),
+        framework: FrameworkSchema.optional().describe(
+          'UI or runtime framework'
+        ),
+      },
+      handler: async (args: {
+        language?: string;
+        framework?: string;
+      }): Promise<MCPPromptResult> => {
+        const language = args.language ?? template.language;
+        return {
+          description: template.description,
+          messages: [
+            text(
+              `Help me build a **${template.name}** in ${language}` +
+                (args.framework ? ` using ${args.framework}` : '') +
+                ` with PrivMX.\n\n${template.description}\n\n` +
+                formatTemplate(template) +
+                `\nUse only the PrivMX APIs documented in the attached references. ` +
+                `Implement the features in order, starting with Endpoint setup and connection.`
+            ),
+            ...(await buildContext({
+              language,
+              apis: [
+                'Endpoint.setup',
+                'Endpoint.connect',
+                ...template.features.flatMap((feature) => feature.apis),
+              ],
+              docQuery: template.name,
+            })),
+          ],
+        };
+      },
+    }));
+
+  const modulePrompts = MODULE_PROMPTS.map(({ module, owner, templateId }) => ({
+    name: `integrate_${module.toLowerCase()}`,
+    description: `🔌 Integrate PrivMX ${module} into an existing app`,
+    schema: {
+      language: LanguageSchema.describe('Language of the app'),
+    },
+    handler: async (args: { language: string }): Promise<MCPPromptResult> => {
+      const template = getTemplate(templateId);
+      const apis = template.features
+        .flatMap((feature) => feature.apis)
+        .filter((api) => api.startsWith(`${owner}.`));
+
+      return {
+        description: `Integrate PrivMX ${module} into a ${args.language} app`,
+        messages: [
+          text(
+            `Integrate PrivMX **${module}** into my ${args.language} app.\n\n` +
+              `1. Set up the Endpoint and connect to the PrivMX Bridge\n` +
+              `2. Create the ${module} API from the connection\n` +
+              `3. Implement: ${apis.join(', ')}\n` +
+              `4. Serialize meta and data to Uint8Array before sending\n` +
+              `5. Disconnect when the app shuts down\n\n` +
+              `Base the code on the attached API references and documentation.`
+          ),
+          ...(await buildContext({
+            language: args.language,
+            apis: ['Endpoint.setup', 'Endpoint.connect', ...apis],
+            docQuery: module,
+          })),
+        ],
+      };
+    },
+  }));
+
+  return [
+    ...modulePrompts,
+    {
+      name: 'migrate_s3_to_stores',
+      description: '📦 Migrate file storage from Amazon S3 to PrivMX Stores',
+      schema: {
+        language: LanguageSchema.describe('Language of the app'),
+        currentUsage: z
+          .string()
+          .optional()
+          .describe('How the app uses S3 today, e.g. code or a description'),
+      },
+      handler: async (args: {
+        language: string;
+        currentUsage?: string;
+      }): Promise<MCPPromptResult> => {
+        const template = getTemplate('secure-file-exchange');
+        return {
+          description: `Migrate ${args.language} file storage from S3 to PrivMX Stores`,
+          messages: [
+            text(
+              `Migrate my ${args.language} app from Amazon S3 to end-to-end encrypted PrivMX **Stores**.\n\n` +
+                `## Concept Mapping\n| S3 | PrivMX Stores |\n|---|---|\n` +
+                S3_TO_STORES.map(([s3, store]) => `| ${s3} | ${store} |`).join(
+                  '\n'
+                ) +
+                `\n\nFiles are encrypted on the client, so the server never sees their content. ` +
+                `Plan a migration that copies existing objects into Stores and replaces every S3 call.\n` +
+                (args.currentUsage
+                  ? `\n## Current S3 Usage\n${args.currentUsage}\n`
+                  : '')
+            ),
+            ...(await buildContext({
+              language: args.language,
+              apis: [
+                ...template.features.flatMap((feature) => feature.apis),
+                'Store.writeToFile',
+                'Store.openFile',
+                'Store.readFromFile',
+                'Store.closeFile',
+                'Store.listFiles',
+              ],
+              docQuery: 'Stores files upload download',
+            })),
+          ],
+        };
+      },
+    },
+    {
+      name: 'debug_connection_error',
+      description: '🩺 Debug a PrivMX Endpoint connection error',
+      schema: {
+        language: LanguageSchema.describe('Language of the app'),
+        errorMessage: z
+          .string()
+          .optional()
+          .describe('Error message or stack trace'),
+        code: z
+          .string()
+          .optional()
+          .describe('Code that sets up and connects the Endpoint'),
+      },
+      handler: async (args: {
+        language: string;
+        errorMessage?: string;
+        code?: string;
+      }): Promise<MCPPromptResult> => {
+        const diagnostics =
+          args.code &&
+          (args.language === 'javascript' || args.language === 'typescript')
+            ? (
+                await services.codeGenerationService.analyzeCode(
+                  args.code,
+                  args.language,
+                  args.errorMessage
+                )
+              ).diagnostics
+            : [];
+
+        return {
+          description: `Debug a PrivMX connection error in ${args.language}`,
+          messages: [
+            text(
+              `My ${args.language} app fails to connect to PrivMX. Find the cause and a fix.\n\n` +
+                (args.errorMessage
+                  ? `## Error\n\`\`\`\n${args.errorMessage}\n\`\`\`\n\n`
+                  : '') +
+                (args.code
+                  ? `## Code\n\`\`\`${args.language}\n${args.code}\n\`\`\`\n\n`
+                  : '') +
+                (diagnostics.length > 0
+                  ? `## Static Analysis\n${diagnostics
+                      .map(
+                        (d) =>
+                          `- L${d.line}:${d.column} \`${d.rule}\` ${d.message}`
+                      )
+                      .join('\n')}\n\n`
+                  : '') +
+                `## Checklist\n` +
+                `- Endpoint.setup() completed before connect (WASM assets reachable)\n` +
+                `- Private key is in WIF format and matches a user of the Context\n` +
+                `- Solution ID and Bridge URL point to the same PrivMX Bridge\n` +
+                `- The Bridge is reachable from the client (CORS, TLS, network)\n` +
+                `- Connections are not reused after disconnect()`
+            ),
+            ...(await buildContext({
+              language: args.language,
+              apis: [
+                'Endpoint.setup',
+                'Endpoint.connect',
+                'Connection.disconnect',
+              ],
+              docQuery: 'connect to PrivMX Bridge connection',
+            })),
+          ],
+        };
+      },
+    },
+    ...workflowPrompts,
+  ];
+};
@@ -0,0 +1,286 @@
+import eventBus from './common/event-bus.js';
+import type { KnowledgeService } from './services/knowledge/knowledge-service.js';
+import type { APIClass, APIMethod } from './api/types.js';
+import type { ParsedMDXDocument } from './types/documentation-types.js';
+import type {
+  MCPResource,
+  MCPResourceContents,
+  MCPResourceTemplate,
+} from './types/mcp-types.js';
+
+/**
+ * Service composition interface for resource handlers
+ */
+interface ResourceServiceContainer {
+  knowledgeService: KnowledgeService;
+}
+
+interface ResourceEntry {
+  resource: MCPResource;
+  render: () => string;
+}
+
+const API_PREFIX = 'privmx://api/';
+const DOCS_PREFIX = 'privmx://docs/';
+const MARKDOWN = 'text/markdown';
+const PAGE_SIZE = 200;
+
+/**
+ * URI templates advertised through resources/templates/list
+ */
+export const resourceTemplates: MCPResourceTemplate[] = [
+  {
+    uriTemplate: `${API_PREFIX}{language}/{namespace}/{className}`,
+    name: 'PrivMX API class',
+    description: 'Reference page of a PrivMX API class with all its methods',
+    mimeType: MARKDOWN,
+  },
+  {
+    uriTemplate: `${API_PREFIX}{language}/{namespace}/{className}/{method}`,
+    name: 'PrivMX API method',
+    description:
+      'Reference page of a PrivMX API method: signature, parameters, returns',
+    mimeType: MARKDOWN,
+  },
+  {
+    uriTemplate: `${DOCS_PREFIX}{+path}`,
+    name: 'PrivMX documentation page',
+    description: 'MDX documentation page, e.g. privmx://docs/js/threads',
+    mimeType: MARKDOWN,
+  },
+];
+
+/**
+ * Builds an API resource URI; qualified C++ class names keep only their
+ * last component since the namespace is already part of the URI
+ */
+const apiUri = (
+  language: string,
+  namespace: string,
+  className: string,
+  method?: string
+): string =>
+  API_PREFIX +
+  [language, namespace, className.split('::').pop() ?? className, method]
+    .filter((segment): segment is string => segment !== undefined)
+    .map(encodeURIComponent)
+    .join('/');
+
+/**
+ * Resource URI of an MDX document: its path below spec/mdx without the
+ * extension (e.g. privmx://docs/js/threads)
+ */
+export const documentUri = (filePath: string): string => {
+  const normalized = filePath.replace(/\\/g, '/');
+  const index = normalized.lastIndexOf('mdx/');
+  return (
+    DOCS_PREFIX +
+    (index >= 0 ? normalized.slice(index + 4) : normalized).replace(
+      /\.mdx$/,
+      ''
+    )
+  );
+};
+
+const renderMethodPage = (
+  language: string,
+  namespace: string,
+  cls: APIClass,
+  overloads: APIMethod[],
+  docs: ParsedMDXDocument[]
+): string => {
+  const [first] = overloads;
+  const relatedDocs = docs.filter((doc) =>
+    doc.rawContent.includes(`${first.name}(`)
+  );
+
+  return (
+    `# ${cls.name}.${first.name} (${language})\n\n` +
+    `**Namespace:** ${namespace}\n\n` +
+    overloads
+      .map(
+        (method) =>
+          `${method.description}\n\n` +
+          `## Signature\n\`\`\`${language}\n${method.snippet}\n\`\`\`\n\n` +
+          (method.parameters.length > 0
+            ? `## Parameters\n| Name | Type | Optional | Description |\n|---|---|---|---|\n` +
+              method.parameters
+                .map(
+                  (p) =>
+                    `| \`${p.name}\` | \`${p.type.name}\` | ${p.optional ? 'yes' : 'no'} | ${p.description} |`
+                )
+                .join('\n') +
+              '\n\n'
+            : '') +
+          (method.returns.length > 0
+            ? `## Returns\n${method.returns
+                .map((r) => `- \`${r.type.name}\` - ${r.description}`)
+                .join('\n')}\n\n`
+            : '')
+      )
+      .join('---\n\n') +
+    `**Class:** ${apiUri(language, namespace, cls.name)}\n` +
+    (relatedDocs.length > 0
+      ? `\n## Related Documentation\n${relatedDocs
+          .map((doc) => `- ${documentUri(doc.metadata.filePath)}`)
+          .join('\n')}\n`
+      : '')
+  );
+};
+
+const renderClassPage = (
+  language: string,
+  namespace: string,
+  cls: APIClass,
+  methodNames: string[]
+): string =>
+  `# ${cls.name} (${language})\n\n` +
+  `**Namespace:** ${namespace}\n\n` +
+  `${cls.description}\n\n` +
+  `## Methods\n${
+    methodNames
+      .map(
+        (name) =>
+          `- \`${name}\` - ${apiUri(language, namespace, cls.name, name)}`
+      )
+      .join('\n') || 'No methods'
+  }\n`;
+
+/**
+ * Defines the MCP resources available to clients: one page per API class,
+ * API method and MDX document
+ *
+ * @param services - Container with an initialized KnowledgeService
+ */
+export const getResources = (services: ResourceServiceContainer) => {
+  let entries: Map<string, ResourceEntry> | null = null;
+  // Specification changes applied while running add or remove entries
+  eventBus.on('vector.index.updated', () => {
+    entries = null;
+  });
+
+  const buildEntries = (): Map<string, ResourceEntry> => {
+    const result = new Map<string, ResourceEntry>();
+    const docs = services.knowledgeService.getDocuments();
+
+    for (const [language, namespaces] of services.knowledgeService
+      .getApiNamespaces()
+      .entries()) {
+      const languageDocs = docs.filter(
+        (doc) => doc.metadata.language === language
+      );
+
+      for (const namespace of namespaces) {
+        for (const cls of namespace.classes) {
+          // Group overloads under a single method page
+          const methodsByName = new Map<string, APIMethod[]>();
+          for (const method of [
+            ...cls.constructors,
+            ...cls.staticMethods,
+            ...cls.methods,
+          ]) {
+            methodsByName.set(method.name, [
+              ...(methodsByName.get(method.name) ?? []),
+              method,
+            ]);
+          }
+
+          const classUri = apiUri(language, namespace.name, cls.name);
+          result.set(classUri, {
+            resource: {
+              uri: classUri,
+              name: `${cls.name} (${language})`,
+              description: cls.description || undefined,
+              mimeType: MARKDOWN,
+            },
+            render: () =>
+              renderClassPage(
+                language,
+                namespace.name,
+                cls,
+                Array.from(methodsByName.keys())
+              ),
+          });
+
+          for (const [name, overloads] of methodsByName) {
+            const uri = apiUri(language, namespace.name, cls.name, name);
+            result.set(uri, {
+              resource: {
+                uri,
+                name: `${cls.name}.${name} (${language})`,
+                description: overloads[0].description || undefined,
+                mimeType: MARKDOWN,
+              },
+              render: () =>
+                renderMethodPage(
+                  language,
+                  namespace.name,
+                  cls,
+                  overloads,
+                  languageDocs
+                ),
+            });
+          }
+        }
+      }
+    }
+
+    for (const doc of docs) {
+      const uri = documentUri(doc.metadata.filePath);
+      result.set(uri, {
+        resource: {
+          uri,
+          name: doc.metadata.title,
+          description: doc.metadata.description,
+          mimeType: MARKDOWN,
+        },
+        render: () => doc.rawContent,
+      });
+    }
+
+    return result;
+  };
+
+  const getEntries = (): Map<string, ResourceEntry> => {
+    entries ??= buildEntries();
+    return entries;
+  };
+
+  return {
+    templates: resourceTemplates,
+
+    /**
+     * List resources, paginated with an opaque offset cursor
+     */
+    list(cursor?: string): { resources: MCPResource[]; nextCursor?: string } {
+      const all = Array.from(getEntries().values()).map((e) => e.resource);
+      const offset = cursor ? Number(cursor) : 0;
+      if (!Number.isInteger(offset) || offset < 0) {
+        throw new Error(`Invalid cursor: ${cursor}`);
+      }
+      const end = offset + PAGE_SIZE;
+      return {
+        resources: all.slice(offset, end),
+        nextCursor: end < all.length ? String(end) : undefined,
+      };
+    },
+
+    /**
+     * List every resource at once (for clients without pagination)
+     */
+    listAll(): MCPResource[] {
+      return Array.from(getEntries().values()).map((e) => e.resource);
+    },
+
+    /**
+     * Read a resource by URI; returns null if it does not exist
+     */
+    read(uri: string): MCPResourceContents | null {
+      const entry = getEntries().get(uri);
+      if (!entry) return null;
+      return {
+        contents: [{ uri, mimeType: MARKDOWN, text: entry.render() }],
+      };
+    },
+  };
+};
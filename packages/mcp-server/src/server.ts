@@ -4,22 +4,41 @@ import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import {
   CallToolRequestSchema,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListToolsRequestSchema,
   McpError,
+  ReadResourceRequestSchema,
 } from '@modelcontextprotocol/sdk/types.js';
 import { APISearchService } from './services/api/api-search-service.js';
 import { CodeGenerationService } from './services/generation/code-generation-service.js';
 import { InteractiveSessionService } from './services/workflow/interactive-session-service.js';
-import { KnowledgeService } from './services/knowledge/knowledge-service.js';
+import {
+  KnowledgeService,
+  type SpecUpdateResult,
+} from './services/knowledge/knowledge-service.js';
+import {
+  SearchTuning,
+  loadSearchProfiles,
+} from './services/search/search-tuning.js';
 import { config } from './common/config.js';
 import { specRoot } from './common/paths.js';
 import logger from './common/logger.js';
+import eventBus from './common/event-bus.js';
 import { getTools } from './tools.js';
+import { getResources } from './resources.js';
+import { getPrompts, PromptDefinition } from './prompts.js';
 import { zodToJsonSchema } from 'zod-to-json-schema';
 import { z } from 'zod';
 import { MCPServerCapabilities } from './types/mcp-types.js';
 import { startSpan } from './common/otel.js';
 import { initMetricsServer } from './common/metrics.js';
+import {
+  startHttpTransport,
+  HttpTransportHandle,
+} from './common/http-transport.js';
 
 /**
  * PrivMX MCP Server
@@ -37,14 +56,19 @@ type ServerCapabilities = MCPServerCapabilities;
  * Now using focused services instead of monolithic APIKnowledgeService
  */
 class PrivMXMCPServer {
-  private server: Server;
+  private capabilities: ServerCapabilities;
+  private servers = new Set<Server>();
+  private httpTransport: HttpTransportHandle | null = null;
   private searchService: APISearchService;
   private codeGenerationService: CodeGenerationService;
   private sessionService: InteractiveSessionService;
   private knowledgeService: KnowledgeService;
+  private searchTuning: SearchTuning;
   private initialized = false;
   private tools: ReturnType<typeof getTools>;
   private toolMap: Map<string, ReturnType<typeof getTools>[number]>;
+  private resources: ReturnType<typeof getResources>;
+  private promptMap: Map<string, PromptDefinition>;
 
   constructor() {
     // Initialize focused services
@@ -52,6 +76,9 @@ class PrivMXMCPServer {
     this.codeGenerationService = new CodeGenerationService();
     this.sessionService = new InteractiveSessionService();
     this.knowledgeService = new KnowledgeService();
+    this.searchTuning = new SearchTuning(
+      loadSearchProfiles(config.SEARCH_PROFILES_PATH)
+    );
 
     // Create service container for dependency injection
     const serviceContainer = {
@@ -59,12 +86,17 @@ class PrivMXMCPServer {
       codeGenerationService: this.codeGenerationService,
       sessionService: this.sessionService,
       knowledgeService: this.knowledgeService, // Added missing knowledgeService
+      searchTuning: this.searchTuning,
     };
 
     this.tools = getTools(serviceContainer);
     this.toolMap = new Map(this.tools.map((t) => [t.name, t]));
+    this.resources = getResources(serviceContainer);
+    this.promptMap = new Map(
+      getPrompts(serviceContainer).map((p) => [p.name, p])
+    );
 
-    const capabilities: ServerCapabilities = {
+    this.capabilities = {
       tools: this.tools.reduce(
         (acc, tool) => {
           acc[tool.name] = { description: tool.description };
@@ -72,18 +104,10 @@ class PrivMXMCPServer {
         },
         {} as Record<string, { description: string }>
       ),
+      resources: {},
+      prompts: {},
     };
 
-    this.server = new Server(
-      {
-        name: 'privmx-mcp-server',
-        version: '1.0.0',
-      },
-      { capabilities }
-    );
-
-    this.setupHandlers();
-
     // Start metrics endpoint early
     initMetricsServer();
   }
@@ -104,9 +128,7 @@ class PrivMXMCPServer {
       await this.knowledgeService.initialize(specPath);
 
       // Get the API data from knowledge service for search service
-      const apiData =
-        (this.knowledgeService as any).knowledgeRepository?.apiData ||
-        new Map<string, unknown>();
+      const apiData = this.knowledgeService.getApiData();
 
       logger.info('🔍 Initializing API search service...');
       await this.searchService.initialize(apiData);
@@ -117,6 +139,11 @@ class PrivMXMCPServer {
       logger.info('🔄 Initializing session service...');
       await this.sessionService.initialize();
 
+      if (config.SPEC_WATCH) {
+        logger.info('👀 Watching specifications for changes...');
+        await this.watchSpecifications();
+      }
+
       this.initialized = true;
       logger.info('✅ All PrivMX services initialized successfully');
 
@@ -133,23 +160,67 @@ class PrivMXMCPServer {
     }
   }
 
+  /**
+   * Applies spec edits while running; API changes also rebuild the search
+   * service shared with the tools
+   */
+  private async watchSpecifications(): Promise<void> {
+    eventBus.on('vector.index.updated', (result: SpecUpdateResult) => {
+      const { updated, removed } = result.apiSpecs;
+      if (updated.length + removed.length === 0) return;
+
+      this.searchService
+        .reload(this.knowledgeService.getApiData())
+        .catch((error) =>
+          logger.error('❌ Failed to rebuild API search indices:', error)
+        );
+    });
+    await this.knowledgeService.watchSpecifications();
+  }
+
+  /**
+   * Creates an MCP server with all handlers. A server serves a single
+   * transport, so HTTP mode creates one per client session while the
+   * services behind it are shared.
+   */
+  private createServer(): Server {
+    const server = new Server(
+      {
+        name: 'privmx-mcp-server',
+        version: '1.0.0',
+      },
+      { capabilities: this.capabilities }
+    );
+
+    this.setupHandlers(server);
+    this.setupResourceHandlers(server);
+    this.setupPromptHandlers(server);
+
+    this.servers.add(server);
+    server.onclose = () => this.servers.delete(server);
+    return server;
+  }
+
   /**
    * Sets up MCP request handlers for tools and capabilities
    */
-  private setupHandlers(): void {
+  private setupHandlers(server: Server): void {
     // Handle list tools requests
-    this.server.setRequestHandler(ListToolsRequestSchema, async () => {
+    server.setRequestHandler(ListToolsRequestSchema, async () => {
       return {
         tools: this.tools.map((tool) => ({
           name: tool.name,
           description: tool.description,
           inputSchema: zodToJsonSchema(z.object(tool.schema)),
+          ...('outputSchema' in tool && {
+            outputSchema: zodToJsonSchema(z.object(tool.outputSchema)),
+          }),
         })),
       };
     });
 
     // Handle tool call requests
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
       await this.ensureInitialized();
 
       const { name, arguments: args } = request.params;
@@ -178,7 +249,9 @@ class PrivMXMCPServer {
           }
 
           // Execute the tool with validated arguments
-          const result = await tool.handler(validationResult.data as never);
+          const result = await tool.handler(validationResult.data as never, {
+            sessionId: extra.sessionId,
+          });
           logger.info(`✅ Tool ${name} completed successfully`);
 
           return result as unknown as { [x: string]: unknown };
@@ -193,7 +266,77 @@ class PrivMXMCPServer {
   }
 
   /**
-   * Starts the MCP server and connects to stdio transport
+   * Sets up MCP request handlers for API and documentation resources
+   */
+  private setupResourceHandlers(server: Server): void {
+    server.setRequestHandler(ListResourcesRequestSchema, async (request) => {
+      await this.ensureInitialized();
+      return this.resources.list(request.params?.cursor);
+    });
+
+    server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+      resourceTemplates: this.resources.templates,
+    }));
+
+    server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+      await this.ensureInitialized();
+
+      const { uri } = request.params;
+      const result = this.resources.read(uri);
+      if (!result) {
+        logger.error(`Resource not found: ${uri}`);
+        throw new McpError(-32002, `Resource not found: ${uri}`, { uri });
+      }
+      return { contents: result.contents };
+    });
+  }
+
+  /**
+   * Sets up MCP request handlers for task prompts
+   */
+  private setupPromptHandlers(server: Server): void {
+    server.setRequestHandler(ListPromptsRequestSchema, async () => ({
+      prompts: Array.from(this.promptMap.values()).map((prompt) => ({
+        name: prompt.name,
+        description: prompt.description,
+        arguments: Object.entries(prompt.schema).map(([name, schema]) => ({
+          name,
+          description: schema.description,
+          required: !schema.isOptional(),
+        })),
+      })),
+    }));
+
+    server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+      await this.ensureInitialized();
+
+      const { name, arguments: args } = request.params;
+      const prompt = this.promptMap.get(name);
+
+      if (!prompt) {
+        logger.error(`Prompt not found: ${name}`);
+        throw new McpError(-32602, `Prompt not found: ${name}`);
+      }
+
+      const validationResult = z.object(prompt.schema).safeParse(args ?? {});
+      if (!validationResult.success) {
+        logger.error(`Invalid arguments for prompt ${name}`, {
+          errors: validationResult.error.flatten(),
+        });
+        throw new McpError(
+          -32602,
+          'Invalid arguments',
+          validationResult.error.flatten()
+        );
+      }
+
+      const result = await prompt.handler(validationResult.data as never);
+      return { ...result };
+    });
+  }
+
+  /**
+   * Starts the MCP server on the configured transport (stdio or HTTP)
    */
   async run(): Promise<void> {
     logger.info('🚀 Starting PrivMX MCP Server (with focused services)...');
@@ -201,23 +344,46 @@ class PrivMXMCPServer {
 
     await this.ensureInitialized();
 
-    const transport = new StdioServerTransport();
-    this.server.connect(transport);
+    if (config.MCP_TRANSPORT === 'http') {
+      this.httpTransport = await startHttpTransport({
+        port: config.MCP_HTTP_PORT,
+        host: config.MCP_HTTP_HOST,
+        allowedOrigins: config.MCP_ALLOWED_ORIGINS,
+        allowedHosts: config.MCP_ALLOWED_HOSTS,
+        createServer: () => this.createServer(),
+        onSessionClosed: (sessionId) => this.searchTuning.reset(sessionId),
+      });
+    } else {
+      await this.createServer().connect(new StdioServerTransport());
+    }
 
     logger.info('✅ PrivMX MCP Server is running and ready to assist!');
     logger.info(
       '🎯 Using focused services architecture for better performance'
     );
   }
+
+  /**
+   * Stops accepting connections and closes all client sessions
+   */
+  async shutdown(): Promise<void> {
+    this.knowledgeService.stopWatching();
+    if (this.httpTransport) {
+      await this.httpTransport.close();
+      this.httpTransport = null;
+    }
+    await Promise.all(Array.from(this.servers).map((server) => server.close()));
+  }
 }
 
+const privmxServer = new PrivMXMCPServer();
+
 /**
  * Main entry point
  */
 async function main(): Promise<void> {
   try {
-    const server = new PrivMXMCPServer();
-    await server.run();
+    await privmxServer.run();
   } catch (error) {
     logger.error('❌ Failed to start PrivMX MCP Server:', error);
     process.exit(1);
@@ -225,14 +391,17 @@ async function main(): Promise<void> {
 }
 
 // Handle graceful shutdown
-process.on('SIGINT', () => {
+const shutdown = async (): Promise<void> => {
   logger.info('👋 Shutting down PrivMX MCP Server...');
+  try {
+    await privmxServer.shutdown();
+  } catch (error) {
+    logger.error('❌ Error during shutdown:', error);
+  }
   process.exit(0);
-});
+};
 
-process.on('SIGTERM', () => {
-  logger.info('👋 Shutting down PrivMX MCP Server...');
-  process.exit(0);
-});
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
 
 main();
@@ -0,0 +1,140 @@
+import fs from 'fs';
+import path from 'path';
+import { ApiSpecIndex } from '../api-spec-index.js';
+import { PrivMXCodeAnalyzer } from '../privmx-code-analyzer.js';
+
+const spec = JSON.parse(
+  fs.readFileSync(
+    path.resolve(__dirname, '../../../../../../spec/api/js/out.js.json'),
+    'utf-8'
+  )
+);
+
+describe('PrivMXCodeAnalyzer', () => {
+  const analyzer = new PrivMXCodeAnalyzer(new ApiSpecIndex(spec));
+  const rules = (code: string) =>
+    analyzer.analyze(code, 'typescript').diagnostics.map((d) => d.rule);
+
+  it('accepts a complete connection lifecycle', () => {
+    const code = `
+import { Endpoint } from '@simplito/privmx-webendpoint';
+
+try {
+  await Endpoint.setup('/assets');
+  const connection = await Endpoint.connect(privKey, solutionId, bridgeUrl);
+  const threadApi = await Endpoint.createThreadApi(connection);
+  await threadApi.sendMessage(threadId, pub, priv, new TextEncoder().encode('hi'));
+  await connection.disconnect();
+} catch (e) {
+  handle(e);
+}`;
+
+    const report = analyzer.analyze(code, 'typescript');
+
+    expect(report.diagnostics).toEqual([]);
+    expect(report.apiCalls).toBe(5);
+  });
+
+  it('reports unknown methods with line numbers and suggestions', () => {
+    const code = `const threadApi = await Endpoint.createThreadApi(connection);
+await threadApi.sendMesage(threadId, a, b, c);`;
+
+    const diagnostic = analyzer
+      .analyze(code, 'typescript')
+      .diagnostics.find((d) => d.rule === 'unknown-method');
+
+    expect(diagnostic).toMatchObject({ line: 2, column: 17 });
+    expect(diagnostic?.message).toContain('ThreadApi.sendMesage()');
+    expect(diagnostic?.suggestion).toContain('sendMessage');
+  });
+
+  it('checks argument counts, allowing omitted policies', () => {
+    expect(
+      rules(
+        `const threadApi = await Endpoint.createThreadApi(connection);
+await threadApi.createThread(ctx, users, managers, pub, priv);
+await threadApi.getThread();`
+      )
+    ).toEqual(['missing-connect', 'missing-error-handling', 'argument-count']);
+  });
+
+  it('flags meta and data that are not serialized', () => {
+    const code = `const threadApi = await Endpoint.createThreadApi(connection);
+const meta = { name: 'chat' };
+await threadApi.sendMessage(threadId, meta, JSON.stringify(meta), 'hello');`;
+
+    const messages = analyzer
+      .analyze(code, 'typescript')
+      .diagnostics.filter((d) => d.rule === 'unserialized-data')
+      .map((d) => d.message);
+
+    expect(messages).toHaveLength(3);
+    expect(messages[0]).toContain("'publicMeta'");
+    expect(messages[2]).toContain('string');
+  });
+
+  it('requires setup before connect and a disconnect', () => {
+    const code = `const connection = await Endpoint.connect(key, solution, url);`;
+
+    expect(rules(code)).toEqual(
+      expect.arrayContaining(['missing-setup', 'missing-disconnect'])
+    );
+  });
+
+  it('resolves aliased Endpoint imports', () => {
+    const code = `import { Endpoint as PrivMX } from '@simplito/privmx-webendpoint';
+await PrivMX.setup('/assets');
+await PrivMX.conect(key, solution, url);`;
+
+    expect(rules(code)).toContain('unknown-method');
+  });
+
+  it('resolves annotations with types imported from the PrivMX package', () => {
+    const code = `import { ThreadApi as Threads } from '@simplito/privmx-webendpoint';
+function send(threadApi: Threads) {
+  return threadApi.sendMesage(threadId, a, b, c);
+}`;
+
+    expect(rules(code)).toContain('unknown-method');
+  });
+
+  it('does not report methods of other libraries with PrivMX-like names', () => {
+    const code = `import mysql from 'mysql2';
+import { Connection } from 'mysql2';
+const connection = mysql.createConnection({});
+connection.query('SELECT 1');
+const pool: Connection = mysql.createPool({});
+pool.end();
+const eventQueue = [];
+eventQueue.push(event);`;
+
+    const report = analyzer.analyze(code, 'typescript');
+
+    expect(report.summary.errors).toBe(0);
+    expect(report.apiCalls).toBe(0);
+    expect(report.diagnostics.map((d) => [d.severity, d.rule])).toEqual([
+      ['info', 'unresolved-receiver'],
+      ['info', 'unresolved-receiver'],
+    ]);
+  });
+
+  it('only hints at unknown methods on receivers it cannot trace', () => {
+    const diagnostic = analyzer
+      .analyze(`await threadApi.sendMesage(threadId, a, b, c);`, 'typescript')
+      .diagnostics.find((d) => d.rule === 'unresolved-receiver');
+
+    expect(diagnostic?.severity).toBe('info');
+    expect(diagnostic?.message).toContain('ThreadApi');
+    expect(diagnostic?.suggestion).toContain('sendMessage');
+  });
+
+  it('reports syntax errors', () => {
+    expect(rules('const = ;')).toContain('syntax-error');
+  });
+
+  it('rejects unsupported languages', () => {
+    expect(() => analyzer.analyze('fun main() {}', 'kotlin')).toThrow(
+      "Code analysis is not available for 'kotlin'"
+    );
+  });
+});
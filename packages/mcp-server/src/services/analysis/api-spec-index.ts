@@ -0,0 +1,148 @@
+/**
+ * API Spec Index
+ *
+ * Lookup tables over a raw PrivMX API spec (e.g. spec/api/js/out.js.json):
+ * classes, their methods and parameter lists.
+ */
+
+export interface SpecParameter {
+  name: string;
+  description: string;
+  type: string;
+  optional: boolean;
+}
+
+export interface SpecMethod {
+  name: string;
+  className: string;
+  namespace: string;
+  description: string;
+  snippet: string;
+  parameters: SpecParameter[];
+  returnType?: string;
+  /** Number of arguments that must be passed */
+  minArgs: number;
+  /** Maximum number of arguments accepted */
+  maxArgs: number;
+}
+
+export interface SpecClass {
+  name: string;
+  namespace: string;
+  description: string;
+  methods: Map<string, SpecMethod>;
+}
+
+interface RawSpecParam {
+  name: string;
+  description?: string;
+  type?: { name?: string; optional?: boolean };
+}
+
+interface RawSpecMethod {
+  name: string;
+  description?: string;
+  snippet?: string;
+  params?: RawSpecParam[];
+  returns?: Array<{ type?: { name?: string } }> | null;
+}
+
+interface RawSpecEntry {
+  name: string;
+  description?: string;
+  type?: string;
+  methods?: RawSpecMethod[];
+}
+
+/**
+ * Trailing parameters the bindings accept as omitted even though the spec
+ * does not mark them optional (policies default to the Context policy)
+ */
+const IMPLICITLY_OPTIONAL_TYPES = [
+  'ContainerPolicy',
+  'ContainerWithoutItemPolicy',
+  'ItemPolicy',
+];
+
+export class ApiSpecIndex {
+  private classes: Map<string, SpecClass> = new Map();
+
+  constructor(spec: Record<string, unknown>) {
+    for (const [namespace, sections] of Object.entries(spec)) {
+      if (namespace === '_meta' || !Array.isArray(sections)) continue;
+
+      for (const section of sections as Array<{ content?: RawSpecEntry[] }>) {
+        for (const entry of section.content ?? []) {
+          if (entry.type !== 'class') continue;
+          this.classes.set(entry.name, this.buildClass(namespace, entry));
+        }
+      }
+    }
+  }
+
+  /**
+   * Get all indexed classes
+   */
+  getClasses(): SpecClass[] {
+    return Array.from(this.classes.values());
+  }
+
+  getClass(className: string): SpecClass | undefined {
+    return this.classes.get(className);
+  }
+
+  getMethod(className: string, methodName: string): SpecMethod | undefined {
+    return this.classes.get(className)?.methods.get(methodName);
+  }
+
+  /**
+   * Find every class that declares a method with the given name
+   */
+  findMethod(methodName: string): SpecMethod[] {
+    return this.getClasses()
+      .map((c) => c.methods.get(methodName))
+      .filter((m): m is SpecMethod => m !== undefined);
+  }
+
+  private buildClass(namespace: string, entry: RawSpecEntry): SpecClass {
+    const methods = new Map<string, SpecMethod>();
+
+    for (const raw of entry.methods ?? []) {
+      const parameters: SpecParameter[] = (raw.params ?? []).map((p) => {
+        const type = p.type?.name ?? 'unknown';
+        return {
+          name: p.name,
+          description: p.description ?? '',
+          type,
+          optional:
+            Boolean(p.type?.optional) ||
+            type.includes('undefined') ||
+            IMPLICITLY_OPTIONAL_TYPES.includes(type),
+        };
+      });
+
+      // Only trailing optional parameters can be omitted
+      let minArgs = parameters.length;
+      while (minArgs > 0 && parameters[minArgs - 1].optional) minArgs--;
+
+      methods.set(raw.name, {
+        name: raw.name,
+        className: entry.name,
+        namespace,
+        description: raw.description ?? '',
+        snippet: raw.snippet ?? '',
+        parameters,
+        returnType: raw.returns?.[0]?.type?.name,
+        minArgs,
+        maxArgs: parameters.length,
+      });
+    }
+
+    return {
+      name: entry.name,
+      namespace,
+      description: entry.description ?? '',
+      methods,
+    };
+  }
+}
@@ -0,0 +1,581 @@
+/**
+ * PrivMX Code Analyzer
+ *
+ * Parses JavaScript/TypeScript with the TypeScript compiler API and checks
+ * PrivMX Endpoint usage against the API spec: unknown methods, argument
+ * counts, unserialized Uint8Array arguments and the setup/connect/disconnect
+ * lifecycle.
+ */
+
+import ts from 'typescript';
+import { CodeDiagnostic } from '../../types/mcp-types.js';
+import { ApiSpecIndex, SpecMethod } from './api-spec-index.js';
+
+export interface CodeAnalysisReport {
+  diagnostics: CodeDiagnostic[];
+  summary: { errors: number; warnings: number; infos: number };
+  /** Number of recognized PrivMX API calls */
+  apiCalls: number;
+}
+
+const ANALYZABLE_LANGUAGES = ['javascript', 'typescript'];
+
+const ENDPOINT_PACKAGE = '@simplito/privmx-webendpoint';
+
+const CONNECT_METHODS = ['connect', 'connectPublic'];
+
+interface RecognizedCall {
+  node: ts.CallExpression;
+  method: SpecMethod;
+}
+
+export class PrivMXCodeAnalyzer {
+  constructor(private index: ApiSpecIndex) {}
+
+  /**
+   * Analyze a code snippet and return diagnostics sorted by position
+   */
+  analyze(code: string, language: string): CodeAnalysisReport {
+    if (!ANALYZABLE_LANGUAGES.includes(language)) {
+      throw new Error(
+        `Code analysis is not available for '${language}'. Supported languages: ${ANALYZABLE_LANGUAGES.join(', ')}`
+      );
+    }
+
+    const fileName = language === 'typescript' ? 'snippet.ts' : 'snippet.js';
+    const sourceFile = ts.createSourceFile(
+      fileName,
+      code,
+      ts.ScriptTarget.Latest,
+      true,
+      language === 'typescript' ? ts.ScriptKind.TS : ts.ScriptKind.JS
+    );
+
+    const diagnostics: CodeDiagnostic[] = [...this.checkSyntax(code, fileName)];
+    const at = (
+      node: ts.Node,
+      diagnostic: Omit<CodeDiagnostic, 'line' | 'column'>
+    ) => {
+      const { line, character } = sourceFile.getLineAndCharacterOfPosition(
+        node.getStart(sourceFile)
+      );
+      diagnostics.push({
+        line: line + 1,
+        column: character + 1,
+        ...diagnostic,
+      });
+    };
+
+    const { endpointNames, typeNames } = this.collectImports(sourceFile);
+    const bindings = new Map<string, string>();
+    const plainValues = new Map<string, string>();
+    this.collectBindings(
+      sourceFile,
+      endpointNames,
+      typeNames,
+      bindings,
+      plainValues
+    );
+
+    const calls: RecognizedCall[] = [];
+    let disconnected = false;
+
+    const visit = (node: ts.Node): void => {
+      if (
+        ts.isCallExpression(node) &&
+        ts.isPropertyAccessExpression(node.expression)
+      ) {
+        const methodName = node.expression.name.text;
+        if (methodName === 'disconnect') disconnected = true;
+
+        if (
+          methodName === 'log' &&
+          node.expression.expression.getText(sourceFile) === 'console'
+        ) {
+          at(node, {
+            severity: 'info',
+            rule: 'console-log',
+            message: 'console.log() left in code',
+            suggestion: 'Use a logger or remove debugging output',
+          });
+        }
+
+        const className = this.resolveReceiver(
+          node.expression.expression,
+          sourceFile,
+          endpointNames,
+          bindings
+        );
+        if (className) {
+          const method = this.index.getMethod(className, methodName);
+          if (!method) {
+            at(node.expression.name, {
+              severity: 'error',
+              rule: 'unknown-method',
+              message: `${className}.${methodName}() does not exist in the PrivMX Endpoint API`,
+              suggestion: this.suggestMethod(className, methodName),
+            });
+          } else {
+            calls.push({ node, method });
+            this.checkArguments(node, method, sourceFile, plainValues, at);
+          }
+        } else {
+          this.hintUnresolvedReceiver(node.expression, sourceFile, at);
+        }
+      }
+      ts.forEachChild(node, visit);
+    };
+    visit(sourceFile);
+
+    this.checkLifecycle(calls, disconnected, at);
+
+    diagnostics.sort((a, b) => a.line - b.line || a.column - b.column);
+
+    return {
+      diagnostics,
+      summary: {
+        errors: diagnostics.filter((d) => d.severity === 'error').length,
+        warnings: diagnostics.filter((d) => d.severity === 'warning').length,
+        infos: diagnostics.filter((d) => d.severity === 'info').length,
+      },
+      apiCalls: calls.length,
+    };
+  }
+
+  /**
+   * Report syntax errors found by the TypeScript parser
+   */
+  private checkSyntax(code: string, fileName: string): CodeDiagnostic[] {
+    const { diagnostics = [] } = ts.transpileModule(code, {
+      fileName,
+      reportDiagnostics: true,
+      compilerOptions: { allowJs: true },
+    });
+
+    return diagnostics
+      .filter((d) => d.file && d.start !== undefined)
+      .map((d) => {
+        const { line, character } = d.file!.getLineAndCharacterOfPosition(
+          d.start!
+        );
+        return {
+          line: line + 1,
+          column: character + 1,
+          severity: 'error' as const,
+          rule: 'syntax-error',
+          message: ts.flattenDiagnosticMessageText(d.messageText, '\n'),
+        };
+      });
+  }
+
+  /**
+   * Names under which `Endpoint` is available (imports may alias it) and the
+   * PrivMX classes that type annotations can refer to. Snippets often omit
+   * imports, so `Endpoint` is assumed unless another module provides it
+   */
+  private collectImports(sourceFile: ts.SourceFile): {
+    endpointNames: Set<string>;
+    typeNames: Map<string, string>;
+  } {
+    const endpointNames = new Set<string>(['Endpoint']);
+    const typeNames = new Map<string, string>();
+
+    for (const statement of sourceFile.statements) {
+      if (
+        !ts.isImportDeclaration(statement) ||
+        !ts.isStringLiteral(statement.moduleSpecifier)
+      ) {
+        continue;
+      }
+      const bindings = statement.importClause?.namedBindings;
+      if (statement.moduleSpecifier.text !== ENDPOINT_PACKAGE) {
+        if (
+          bindings &&
+          ts.isNamedImports(bindings) &&
+          bindings.elements.some((element) => element.name.text === 'Endpoint')
+        ) {
+          endpointNames.delete('Endpoint');
+        }
+        continue;
+      }
+
+      if (bindings && ts.isNamespaceImport(bindings)) {
+        endpointNames.add(`${bindings.name.text}.Endpoint`);
+        for (const specClass of this.index.getClasses()) {
+          typeNames.set(
+            `${bindings.name.text}.${specClass.name}`,
+            specClass.name
+          );
+        }
+      } else if (bindings && ts.isNamedImports(bindings)) {
+        for (const element of bindings.elements) {
+          const imported = (element.propertyName ?? element.name).text;
+          if (imported === 'Endpoint') endpointNames.add(element.name.text);
+          if (this.index.getClass(imported)) {
+            typeNames.set(element.name.text, imported);
+          }
+        }
+      }
+    }
+
+    return { endpointNames, typeNames };
+  }
+
+  /**
+   * Record which expressions hold PrivMX objects (from annotations with
+   * imported PrivMX types or from the return types of Endpoint factory
+   * calls) and which hold plain values that still need serializing
+   */
+  private collectBindings(
+    sourceFile: ts.SourceFile,
+    endpointNames: Set<string>,
+    typeNames: Map<string, string>,
+    bindings: Map<string, string>,
+    plainValues: Map<string, string>
+  ): void {
+    const bind = (
+      target: ts.Node,
+      type: ts.TypeNode | undefined,
+      initializer: ts.Expression | undefined,
+      prefix = ''
+    ) => {
+      const key = prefix + target.getText(sourceFile);
+      const annotated =
+        type && this.classFromAnnotation(type.getText(sourceFile), typeNames);
+      if (annotated) {
+        bindings.set(key, annotated);
+        return;
+      }
+      if (!initializer) return;
+
+      const value = this.unwrap(initializer);
+      if (
+        ts.isCallExpression(value) &&
+        ts.isPropertyAccessExpression(value.expression)
+      ) {
+        const receiver = this.resolveReceiver(
+          value.expression.expression,
+          sourceFile,
+          endpointNames,
+          bindings
+        );
+        const returnType =
+          receiver &&
+          this.index.getMethod(receiver, value.expression.name.text)
+            ?.returnType;
+        const returned = returnType && this.classFromType(returnType);
+        if (returned) bindings.set(key, returned);
+      }
+
+      const plainKind = this.describePlainValue(value, sourceFile);
+      if (plainKind) plainValues.set(key, plainKind);
+    };
+
+    const visit = (node: ts.Node): void => {
+      if (ts.isVariableDeclaration(node) && ts.isIdentifier(node.name)) {
+        bind(node.name, node.type, node.initializer);
+      } else if (ts.isParameter(node) && ts.isIdentifier(node.name)) {
+        bind(node.name, node.type, undefined);
+      } else if (ts.isPropertyDeclaration(node)) {
+        bind(node.name, node.type, node.initializer, 'this.');
+      } else if (
+        ts.isBinaryExpression(node) &&
+        node.operatorToken.kind === ts.SyntaxKind.EqualsToken
+      ) {
+        bind(node.left, undefined, node.right);
+      }
+      ts.forEachChild(node, visit);
+    };
+    visit(sourceFile);
+  }
+
+  /**
+   * Work out which PrivMX class an expression refers to: `Endpoint` itself
+   * or a value traced back to it or to an imported PrivMX type
+   */
+  private resolveReceiver(
+    expression: ts.Expression,
+    sourceFile: ts.SourceFile,
+    endpointNames: Set<string>,
+    bindings: Map<string, string>
+  ): string | undefined {
+    const text = expression.getText(sourceFile);
+    if (endpointNames.has(text)) return 'Endpoint';
+
+    return bindings.get(text);
+  }
+
+  /**
+   * Point out calls that only look like PrivMX calls by the receiver's
+   * name (threadApi, storesApi, connection...). Other libraries use the
+   * same names, so this is a hint rather than an error
+   */
+  private hintUnresolvedReceiver(
+    expression: ts.PropertyAccessExpression,
+    sourceFile: ts.SourceFile,
+    at: (
+      node: ts.Node,
+      diagnostic: Omit<CodeDiagnostic, 'line' | 'column'>
+    ) => void
+  ): void {
+    const receiver = expression.expression.getText(sourceFile);
+    const methodName = expression.name.text;
+    const lastSegment = receiver.split('.').pop()?.toLowerCase() ?? '';
+    const candidates = [
+      lastSegment,
+      lastSegment.replace(/sapi$/, 'api'),
+      lastSegment.replace(/esapi$/, 'api'),
+    ];
+    const className = this.index
+      .getClasses()
+      .filter((c) => c.name !== 'Endpoint')
+      .find((c) => candidates.includes(c.name.toLowerCase()))?.name;
+    if (!className || this.index.getMethod(className, methodName)) return;
+
+    at(expression.name, {
+      severity: 'info',
+      rule: 'unresolved-receiver',
+      message: `${receiver} is not created from Endpoint in this snippet; if it is a PrivMX ${className}, ${methodName}() does not exist`,
+      suggestion: this.suggestMethod(className, methodName),
+    });
+  }
+
+  private checkArguments(
+    node: ts.CallExpression,
+    method: SpecMethod,
+    sourceFile: ts.SourceFile,
+    plainValues: Map<string, string>,
+    at: (
+      node: ts.Node,
+      diagnostic: Omit<CodeDiagnostic, 'line' | 'column'>
+    ) => void
+  ): void {
+    const args = node.arguments;
+    const qualifiedName = `${method.className}.${method.name}()`;
+
+    if (!args.some((arg) => ts.isSpreadElement(arg))) {
+      if (args.length < method.minArgs || args.length > method.maxArgs) {
+        const expected =
+          method.minArgs === method.maxArgs
+            ? `${method.maxArgs}`
+            : `${method.minArgs}-${method.maxArgs}`;
+        at(node, {
+          severity: 'error',
+          rule: 'argument-count',
+          message: `${qualifiedName} expects ${expected} argument(s) but got ${args.length}`,
+          suggestion: `Signature: ${method.name}(${method.parameters
+            .map((p) => `${p.name}${p.optional ? '?' : ''}: ${p.type}`)
+            .join(', ')})`,
+        });
+      }
+    }
+
+    method.parameters.forEach((parameter, i) => {
+      const arg = args[i];
+      if (!arg || parameter.type !== 'Uint8Array') return;
+
+      const value = this.unwrap(arg);
+      const kind =
+        this.describePlainValue(value, sourceFile) ??
+        plainValues.get(value.getText(sourceFile));
+      if (kind) {
+        at(arg, {
+          severity: 'error',
+          rule: 'unserialized-data',
+          message: `Argument '${parameter.name}' of ${qualifiedName} must be a Uint8Array, but a ${kind} is passed`,
+          suggestion:
+            'Serialize it first, e.g. new TextEncoder().encode(JSON.stringify(value))',
+        });
+      }
+    });
+  }
+
+  /**
+   * Check that the connection lifecycle is complete and in order
+   */
+  private checkLifecycle(
+    calls: RecognizedCall[],
+    disconnected: boolean,
+    at: (
+      node: ts.Node,
+      diagnostic: Omit<CodeDiagnostic, 'line' | 'column'>
+    ) => void
+  ): void {
+    const isEndpointCall = (call: RecognizedCall, names: string[]) =>
+      call.method.className === 'Endpoint' && names.includes(call.method.name);
+
+    const setup = calls.find((c) => isEndpointCall(c, ['setup']));
+    const connect = calls.find((c) => isEndpointCall(c, CONNECT_METHODS));
+    const apiUsage = calls.find(
+      (c) => !isEndpointCall(c, ['setup', ...CONNECT_METHODS])
+    );
+
+    if (connect && !setup) {
+      at(connect.node, {
+        severity: 'error',
+        rule: 'missing-setup',
+        message: `Endpoint.${connect.method.name}() is called without Endpoint.setup()`,
+        suggestion:
+          "Call await Endpoint.setup('/path/to/privmx-assets') once before connecting",
+      });
+    } else if (connect && setup && setup.node.pos > connect.node.pos) {
+      at(setup.node, {
+        severity: 'error',
+        rule: 'setup-order',
+        message: 'Endpoint.setup() must be called before connecting',
+      });
+    }
+
+    if (apiUsage && !connect) {
+      at(apiUsage.node, {
+        severity: 'warning',
+        rule: 'missing-connect',
+        message:
+          'PrivMX API is used but no connection is opened in this snippet',
+        suggestion:
+          'Open a connection with Endpoint.connect(userPrivKey, solutionId, bridgeUrl) before creating API instances',
+      });
+    } else if (apiUsage && connect && apiUsage.node.pos < connect.node.pos) {
+      at(apiUsage.node, {
+        severity: 'error',
+        rule: 'connect-order',
+        message: `${apiUsage.method.className}.${apiUsage.method.name}() is called before Endpoint.${connect.method.name}()`,
+      });
+    }
+
+    if (connect && !disconnected) {
+      at(connect.node, {
+        severity: 'warning',
+        rule: 'missing-disconnect',
+        message: 'The connection is never closed',
+        suggestion:
+          'Call connection.disconnect() when done, e.g. in a finally block',
+      });
+    }
+
+    const unguarded = calls.find(
+      (c) =>
+        c.node.parent &&
+        ts.isAwaitExpression(c.node.parent) &&
+        !this.isInsideTry(c.node)
+    );
+    if (unguarded) {
+      at(unguarded.node, {
+        severity: 'info',
+        rule: 'missing-error-handling',
+        message: `Awaited ${unguarded.method.className}.${unguarded.method.name}() is not wrapped in try/catch`,
+        suggestion:
+          'Wrap PrivMX calls in try/catch to handle connection and access errors',
+      });
+    }
+  }
+
+  /**
+   * Describe a value that is clearly not a Uint8Array, or undefined
+   */
+  private describePlainValue(
+    value: ts.Expression,
+    sourceFile: ts.SourceFile
+  ): string | undefined {
+    if (
+      ts.isStringLiteral(value) ||
+      ts.isNoSubstitutionTemplateLiteral(value) ||
+      ts.isTemplateExpression(value)
+    ) {
+      return 'string';
+    }
+    if (ts.isObjectLiteralExpression(value)) return 'plain object';
+    if (ts.isArrayLiteralExpression(value)) return 'plain array';
+    if (ts.isNumericLiteral(value)) return 'number';
+    if (
+      ts.isCallExpression(value) &&
+      value.expression.getText(sourceFile) === 'JSON.stringify'
+    ) {
+      return 'JSON string';
+    }
+    return undefined;
+  }
+
+  private unwrap(expression: ts.Expression): ts.Expression {
+    let current = expression;
+    while (
+      ts.isAwaitExpression(current) ||
+      ts.isParenthesizedExpression(current) ||
+      ts.isAsExpression(current) ||
+      ts.isNonNullExpression(current)
+    ) {
+      current = current.expression;
+    }
+    return current;
+  }
+
+  /**
+   * Map an annotation such as `Promise<ThreadApi>` to an indexed class when
+   * the type is imported from the PrivMX package
+   */
+  private classFromAnnotation(
+    typeName: string,
+    typeNames: Map<string, string>
+  ): string | undefined {
+    const imported = typeNames.get(
+      typeName.replace(/^Promise<(.+)>$/, '$1').trim()
+    );
+    return imported && this.classFromType(imported);
+  }
+
+  /**
+   * Map a type name such as `Promise<ThreadApi>` to an indexed class
+   */
+  private classFromType(typeName: string): string | undefined {
+    const name = typeName.replace(/^Promise<(.+)>$/, '$1').trim();
+    return this.index.getClass(name) ? name : undefined;
+  }
+
+  private isInsideTry(node: ts.Node): boolean {
+    for (let current = node.parent; current; current = current.parent) {
+      if (
+        ts.isTryStatement(current) &&
+        current.tryBlock.pos <= node.pos &&
+        node.end <= current.tryBlock.end
+      ) {
+        return true;
+      }
+      if (ts.isFunctionLike(current)) return false;
+    }
+    return false;
+  }
+
+  private suggestMethod(className: string, methodName: string): string {
+    const methods = Array.from(
+      this.index.getClass(className)?.methods.keys() ?? []
+    );
+    const lower = methodName.toLowerCase();
+    const close = methods.filter(
+      (m) =>
+        m.toLowerCase().includes(lower) ||
+        lower.includes(m.toLowerCase()) ||
+        levenshtein(m.toLowerCase(), lower) <= 3
+    );
+
+    if (close.length > 0) return `Did you mean ${close.join(' or ')}?`;
+    return `Available methods: ${methods.join(', ')}`;
+  }
+}
+
+function levenshtein(a: string, b: string): number {
+  const row = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let previous = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const current = row[j];
+      row[j] = Math.min(
+        row[j] + 1,
+        row[j - 1] + 1,
+        previous + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      previous = current;
+    }
+  }
+  return row[b.length];
+}
@@ -0,0 +1,134 @@
+import fs from 'fs';
+import path from 'path';
+import { APIParser } from '../../../api/parser.js';
+import { APIReferenceService } from '../api-reference-service.js';
+import type { APINamespace } from '../../../api/types.js';
+import type { ParsedMDXDocument } from '../../../types/documentation-types.js';
+
+const specPath = path.resolve(
+  __dirname,
+  '../../../../../../spec/api/js/out.js.json'
+);
+const swiftSpecPath = path.resolve(
+  __dirname,
+  '../../../../../../spec/api/swift/PrivMXEndpointSwift.json'
+);
+
+const threadsDoc = {
+  id: 'js-threads',
+  metadata: {
+    title: 'Threads',
+    language: 'javascript',
+    filePath: 'spec/mdx/js/threads.mdx',
+  },
+  content: {
+    codeBlocks: [
+      {
+        language: 'js',
+        code: 'const threadId = await threadApi.createThread(contextId, users, managers, pub, priv);',
+        title: 'Creating a Thread',
+      },
+      { language: 'js', code: 'await threadApi.listThreads(contextId);' },
+    ],
+  },
+} as unknown as ParsedMDXDocument;
+
+const swiftThreadsDoc = {
+  id: 'swift-threads',
+  metadata: {
+    title: 'Threads',
+    language: 'swift',
+    filePath: 'spec/mdx/swift/threads.mdx',
+  },
+  content: {
+    codeBlocks: [
+      {
+        language: 'swift',
+        code: 'let thread = try threadApi.getThread(threadId: threadId)',
+      },
+    ],
+  },
+} as unknown as ParsedMDXDocument;
+
+describe('APIReferenceService', () => {
+  let service: APIReferenceService;
+
+  beforeAll(async () => {
+    const namespaces = await new APIParser().parseAPISpec(
+      fs.readFileSync(specPath, 'utf-8'),
+      'javascript',
+      specPath
+    );
+    const swiftNamespaces = await new APIParser().parseAPISpec(
+      fs.readFileSync(swiftSpecPath, 'utf-8'),
+      'swift',
+      swiftSpecPath
+    );
+    service = new APIReferenceService(
+      new Map<string, APINamespace[]>([
+        ['javascript', namespaces],
+        ['swift', swiftNamespaces],
+      ]),
+      [threadsDoc, swiftThreadsDoc]
+    );
+  });
+
+  it('builds a reference card by class and method name', () => {
+    const reference = service.getMethodReference({
+      className: 'ThreadApi',
+      methodName: 'createThread',
+      language: 'typescript',
+    });
+
+    expect(reference.language).toBe('javascript');
+    expect(reference.signature).toContain('users: UserWithPubKey[]');
+    expect(reference.prerequisites).toContain('Endpoint.connect');
+    expect(reference.relatedMethods).toEqual(
+      expect.arrayContaining(['listThreads', 'getThread'])
+    );
+    expect(reference.examples).toEqual([
+      expect.objectContaining({
+        title: 'Creating a Thread',
+        sourceDocument: 'spec/mdx/js/threads.mdx',
+      }),
+    ]);
+  });
+
+  it('looks methods up by key', () => {
+    const { method } = service.getMethodReference({
+      className: 'ThreadApi',
+      methodName: 'createThread',
+    });
+
+    expect(service.getMethodReference({ key: method.key }).method).toBe(method);
+    expect(() => service.getMethodReference({ key: 'nope' })).toThrow(
+      'API method not found for key: nope'
+    );
+  });
+
+  it('reports unknown classes and methods', () => {
+    expect(() =>
+      service.getMethodReference({ className: 'Nope', methodName: 'x' })
+    ).toThrow('API class not found: Nope');
+    expect(() =>
+      service.getMethodReference({ className: 'ThreadApi', methodName: 'x' })
+    ).toThrow(/Available methods: createThread/);
+  });
+
+  it('matches Swift methods without their argument labels', () => {
+    const reference = service.getMethodReference({
+      className: 'ThreadApi',
+      methodName: 'getThread',
+      language: 'swift',
+    });
+
+    expect(reference.method.name).toBe('getThread(threadId:)');
+    expect(reference.examples).toHaveLength(1);
+    expect(
+      service.getMethodReference({
+        className: 'ThreadApi',
+        methodName: 'getThread',
+      }).otherLanguages
+    ).toEqual(['swift']);
+  });
+});
@@ -0,0 +1,104 @@
+import fs from 'fs';
+import path from 'path';
+import { APIParser } from '../../../api/parser.js';
+import { APITranslationService } from '../api-translation-service.js';
+import type { APINamespace } from '../../../api/types.js';
+
+const specRoot = path.resolve(__dirname, '../../../../../../spec/api');
+
+const parse = async (language: string, ...files: string[]) => {
+  const parser = new APIParser();
+  const namespaces: APINamespace[] = [];
+  for (const file of files) {
+    const filePath = path.join(specRoot, file);
+    namespaces.push(
+      ...(await parser.parseAPISpec(
+        fs.readFileSync(filePath, 'utf-8'),
+        language,
+        filePath
+      ))
+    );
+  }
+  return namespaces;
+};
+
+describe('APITranslationService', () => {
+  let service: APITranslationService;
+
+  beforeAll(async () => {
+    service = new APITranslationService(
+      new Map([
+        ['javascript', await parse('javascript', 'js/out.js.json')],
+        ['java', await parse('java', 'java/privmx-endpoint.json')],
+        [
+          'swift',
+          await parse(
+            'swift',
+            'swift/PrivMXEndpointSwift.json',
+            'swift/PrivMXEndpointSwiftExtra.json'
+          ),
+        ],
+      ])
+    );
+  });
+
+  it('maps a method and reports porting differences', () => {
+    const translation = service.translate({
+      from: 'typescript',
+      to: 'swift',
+      className: 'ThreadApi',
+      methodName: 'createThread',
+    });
+    const dataVariant = translation.equivalents.find((e) =>
+      e.signature.includes('publicMeta: Data')
+    );
+
+    expect(translation.sourceLanguage).toBe('typescript');
+    expect(dataVariant?.differences).toEqual(
+      expect.arrayContaining([
+        expect.stringMatching(
+          /^Call style: async .* blocking, throws in swift/
+        ),
+        '`publicMeta`: `Uint8Array` → `Data`',
+        expect.stringMatching(/^Swift argument labels: createThread\(in:for:/),
+      ])
+    );
+  });
+
+  it('renders the Java SDK with Kotlin types for Kotlin', () => {
+    const translation = service.translate({
+      from: 'javascript',
+      to: 'kotlin',
+      className: 'ThreadApi',
+      methodName: 'sendMessage',
+    });
+    const [equivalent] = translation.equivalents;
+
+    expect(translation.targetLanguage).toBe('kotlin');
+    expect(equivalent.signature).toMatch(
+      /^sendMessage\(threadId: String, publicMeta: ByteArray, .*\): String$/
+    );
+    expect(equivalent.differences).toContain(
+      '`publicMeta`: `Uint8Array` → `ByteArray`'
+    );
+  });
+
+  it('translates the PrivMX calls of a snippet', () => {
+    const { translations, unresolved } = service.translateSnippet(
+      'const id = await threadApi.createThread(ctx, users, managers, pub, priv);\n' +
+        'await threadApi.sendMesage(id, pub, priv, data);\n' +
+        'console.log(id);',
+      'javascript',
+      'swift'
+    );
+
+    expect(translations.map((t) => t.method.name)).toEqual(['createThread']);
+    expect(unresolved).toEqual(['threadApi.sendMesage']);
+  });
+
+  it('rejects languages without a loaded specification', () => {
+    expect(() =>
+      service.translate({ from: 'javascript', to: 'cpp', methodName: 'x' })
+    ).toThrow('No API specification loaded for cpp');
+  });
+});
@@ -0,0 +1,66 @@
+import fs from 'fs';
+import path from 'path';
+import { APIParser } from '../../../api/parser.js';
+import { diffApiVersions } from '../api-version-diff.js';
+import type { APIClass, APIMethod, APINamespace } from '../../../api/types.js';
+
+const specPath = path.resolve(
+  __dirname,
+  '../../../../../../spec/api/js/out.js.json'
+);
+
+describe('diffApiVersions', () => {
+  let latest: APINamespace[];
+
+  beforeAll(async () => {
+    latest = await new APIParser().parseAPISpec(
+      fs.readFileSync(specPath, 'utf-8'),
+      'javascript',
+      specPath
+    );
+  });
+
+  /** An older release without deleteThread and the createThread policies */
+  const olderRelease = (): APINamespace[] => {
+    const namespaces: APINamespace[] = structuredClone(latest);
+    const threadApi = namespaces
+      .flatMap((ns) => ns.classes)
+      .find((c) => c.name === 'ThreadApi') as APIClass;
+    threadApi.methods = threadApi.methods.filter(
+      (m) => m.name !== 'deleteThread'
+    );
+    const createThread = threadApi.methods.find(
+      (m) => m.name === 'createThread'
+    ) as APIMethod;
+    createThread.parameters = createThread.parameters.slice(0, -1);
+    return namespaces;
+  };
+
+  it('reports added, removed and changed methods with their signatures', () => {
+    const diff = diffApiVersions(
+      'javascript',
+      { version: '2.0.0', namespaces: olderRelease() },
+      { version: 'latest', namespaces: latest }
+    );
+
+    expect(diff.added.map((c) => c.method)).toEqual(['ThreadApi.deleteThread']);
+    expect(diff.added[0].after).toEqual(['deleteThread(threadId: string)']);
+    expect(diff.removed).toEqual([]);
+    expect(diff.changed).toHaveLength(1);
+    expect(diff.changed[0].method).toBe('ThreadApi.createThread');
+    expect(diff.changed[0].before[0]).not.toContain('policies');
+    expect(diff.changed[0].after[0]).toContain('policies: ContainerPolicy');
+  });
+
+  it('reports nothing between identical versions', () => {
+    const diff = diffApiVersions(
+      'javascript',
+      { version: 'latest', namespaces: latest },
+      { version: 'latest', namespaces: latest }
+    );
+
+    expect(diff.added.length + diff.removed.length + diff.changed.length).toBe(
+      0
+    );
+  });
+});
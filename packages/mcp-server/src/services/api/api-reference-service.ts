@@ -0,0 +1,322 @@
+/**
+ * APIReferenceService - Exact lookup of single API methods
+ *
+ * Resolves a method by class and name, or by its `APIMethod.key`, and
+ * assembles a reference card: signature, parameters, returns, related
+ * methods, prerequisites and examples from the MDX documentation.
+ */
+
+import { APIAnalysisService } from './api-analysis-service.js';
+import type {
+  APIClass,
+  APIMethod,
+  APIMethodReference,
+  APINamespace,
+  APIType,
+} from '../../api/types.js';
+import type { ParsedMDXDocument } from '../../types/documentation-types.js';
+import { specLanguage } from '../../api/utils.js';
+
+export interface MethodReferenceQuery {
+  /** Method key: language.namespace.className.methodName(paramTypes) */
+  key?: string;
+  className?: string;
+  methodName?: string;
+  language?: string;
+}
+
+interface MethodLocation {
+  language: string;
+  namespace: APINamespace;
+  apiClass?: APIClass;
+  overloads: APIMethod[];
+}
+
+const MAX_EXAMPLES = 3;
+
+/** Method name without Swift argument labels, e.g. getThread(threadId:) → getThread */
+const baseName = (name: string): string => name.replace(/\(.*$/, '');
+
+const sameMethodName = (a: string, b: string): boolean =>
+  baseName(a).toLowerCase() === baseName(b).toLowerCase();
+
+const escapeRegExp = (text: string): string =>
+  text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/** Matches qualified C++ names (privmx::endpoint::thread::ThreadApi) too */
+const classMatches = (apiClass: APIClass, className: string): boolean => {
+  const wanted = className.toLowerCase();
+  const name = apiClass.name.toLowerCase();
+  return name === wanted || name.split('::').pop() === wanted;
+};
+
+/** Java types as seen from Kotlin, which uses the Java SDK */
+const KOTLIN_TYPES: Record<string, string> = {
+  long: 'Long',
+  int: 'Int',
+  Integer: 'Int',
+  short: 'Short',
+  byte: 'Byte',
+  boolean: 'Boolean',
+  double: 'Double',
+  float: 'Float',
+  char: 'Char',
+  void: 'Unit',
+  Object: 'Any',
+};
+
+const kotlinType = (javaType: string): string =>
+  javaType
+    .replace(/\bbyte\[\]/g, 'ByteArray')
+    .replace(/\b(\w+)\[\]/g, 'Array<$1>')
+    .replace(/\w+/g, (name) => KOTLIN_TYPES[name] ?? name);
+
+/**
+ * Type name with generics and array marker, e.g. Promise<string>; Kotlin
+ * gets the Java types mapped, e.g. byte[] → ByteArray
+ */
+export const formatType = (type: APIType, language?: string): string => {
+  const formatted =
+    `${type.name}` +
+    (type.generics?.length
+      ? `<${type.generics.map((generic) => formatType(generic)).join(', ')}>`
+      : '') +
+    (type.isArray && !type.name.endsWith('[]') ? '[]' : '');
+  return language === 'kotlin' ? kotlinType(formatted) : formatted;
+};
+
+/** Compact signature, e.g. createThread(contextId: string, ...): Promise<string> */
+export const formatSignature = (
+  method: APIMethod,
+  language?: string
+): string => {
+  const params = method.parameters
+    .map(
+      (p) =>
+        `${p.name}${p.optional ? '?' : ''}: ${formatType(p.type, language)}`
+    )
+    .join(', ');
+  const returns = method.returns
+    .map((r) => formatType(r.type, language))
+    .join(' | ');
+  // Swift names carry argument labels, e.g. createThread(in:for:)
+  const name = method.name.replace(/\(.*$/, '');
+  return `${name}(${params})${returns ? `: ${returns}` : ''}`;
+};
+
+export class APIReferenceService {
+  private analysisService = new APIAnalysisService();
+
+  constructor(
+    private namespacesByLanguage: Map<string, APINamespace[]>,
+    private documents: ParsedMDXDocument[]
+  ) {
+    for (const [language, namespaces] of namespacesByLanguage) {
+      for (const namespace of namespaces) {
+        this.analysisService.analyzeNamespace(namespace, language);
+      }
+    }
+  }
+
+  /**
+   * Get the reference card of a single API method
+   */
+  getMethodReference(query: MethodReferenceQuery): APIMethodReference {
+    const location = query.key
+      ? this.findByKey(query.key)
+      : this.findByName(query);
+    const { language, namespace, apiClass, overloads } = location;
+    const [method] = overloads;
+
+    const analysisKey = apiClass
+      ? `${language}.${namespace.name}.${apiClass.name}.${method.name}`
+      : `${language}.${namespace.name}.${method.name}`;
+
+    return {
+      method,
+      overloads,
+      language,
+      namespace: namespace.name,
+      className: apiClass?.name,
+      signature: formatSignature(method),
+      prerequisites: this.analysisService.getPrerequisites(analysisKey),
+      relatedMethods: this.resolveRelatedMethods(method, apiClass),
+      errorPatterns: this.analysisService
+        .getErrorPatterns(analysisKey)
+        .map(({ errorType, description, solution }) => ({
+          errorType,
+          description,
+          solution,
+        })),
+      examples: this.findExamples(language, method.name),
+      otherLanguages: Array.from(this.namespacesByLanguage.keys()).filter(
+        (other) =>
+          other !== language &&
+          this.locate(
+            other,
+            (cls) =>
+              !!apiClass &&
+              classMatches(cls, apiClass.name.split('::').pop() ?? ''),
+            (m) => sameMethodName(m.name, method.name)
+          ).length > 0
+      ),
+    };
+  }
+
+  private findByKey(key: string): MethodLocation {
+    for (const language of this.namespacesByLanguage.keys()) {
+      const [location] = this.locate(
+        language,
+        () => true,
+        (method) => method.key === key,
+        true
+      );
+      if (location) {
+        // Keep the requested overload first
+        return {
+          ...location,
+          overloads: [
+            ...location.overloads.filter((m) => m.key === key),
+            ...this.siblings(location).filter((m) => m.key !== key),
+          ],
+        };
+      }
+    }
+    throw new Error(`API method not found for key: ${key}`);
+  }
+
+  private findByName(query: MethodReferenceQuery): MethodLocation {
+    const { className, methodName } = query;
+    if (!className || !methodName) {
+      throw new Error('Provide either key or both className and methodName');
+    }
+
+    const language = query.language && specLanguage(query.language);
+    const languages = language
+      ? [language]
+      : // Prefer JavaScript when no language is given
+        Array.from(this.namespacesByLanguage.keys()).sort(
+          (a, b) => Number(b === 'javascript') - Number(a === 'javascript')
+        );
+
+    const classes = languages.flatMap((lang) =>
+      this.locate(lang, (cls) => classMatches(cls, className))
+    );
+    if (classes.length === 0) {
+      throw new Error(
+        `API class not found: ${className}` +
+          (language ? ` (language: ${language})` : '')
+      );
+    }
+
+    for (const location of classes) {
+      const overloads = location.overloads.filter((m) =>
+        sameMethodName(m.name, methodName)
+      );
+      if (overloads.length > 0) return { ...location, overloads };
+    }
+
+    const available = Array.from(
+      new Set(classes[0].overloads.map((m) => m.name))
+    );
+    throw new Error(
+      `Method ${methodName} not found in ${className}. Available methods: ${available.join(', ')}`
+    );
+  }
+
+  /**
+   * Find the classes of a language matching the class filter, with their
+   * members that satisfy the method filter. Standalone functions are only
+   * searched when `includeFunctions` is set.
+   */
+  private locate(
+    language: string,
+    classFilter: (apiClass: APIClass) => boolean,
+    methodFilter: (method: APIMethod) => boolean = () => true,
+    includeFunctions = false
+  ): MethodLocation[] {
+    const locations: MethodLocation[] = [];
+
+    for (const namespace of this.namespacesByLanguage.get(language) ?? []) {
+      for (const apiClass of namespace.classes.filter(classFilter)) {
+        const overloads = this.members(apiClass).filter(methodFilter);
+        if (overloads.length > 0) {
+          locations.push({ language, namespace, apiClass, overloads });
+        }
+      }
+
+      const functions = includeFunctions
+        ? namespace.functions.filter(methodFilter)
+        : [];
+      if (functions.length > 0) {
+        locations.push({ language, namespace, overloads: functions });
+      }
+    }
+
+    return locations;
+  }
+
+  private members(apiClass: APIClass): APIMethod[] {
+    return [
+      ...apiClass.constructors,
+      ...apiClass.staticMethods,
+      ...apiClass.methods,
+    ];
+  }
+
+  private siblings(location: MethodLocation): APIMethod[] {
+    const [method] = location.overloads;
+    const members = location.apiClass
+      ? this.members(location.apiClass)
+      : location.namespace.functions;
+    return members.filter((m) => m.name === method.name);
+  }
+
+  /**
+   * Resolve the verbs inferred by the parser (list, get, ...) to sibling
+   * methods on the same entity, e.g. createThread → listThreads, getThread
+   */
+  private resolveRelatedMethods(
+    method: APIMethod,
+    apiClass?: APIClass
+  ): string[] {
+    if (!apiClass) return method.relatedMethods;
+
+    const entity = baseName(method.name).replace(/^[a-z]+/, '');
+    const names = new Set(this.members(apiClass).map((m) => m.name));
+    const related = method.relatedMethods.flatMap((verb) =>
+      Array.from(names).filter(
+        (name) =>
+          name !== method.name &&
+          name.startsWith(verb) &&
+          entity.length > 0 &&
+          name.includes(entity)
+      )
+    );
+    return Array.from(new Set(related));
+  }
+
+  /**
+   * Code blocks of the language's MDX documents that call the method
+   */
+  private findExamples(
+    language: string,
+    methodName: string
+  ): APIMethodReference['examples'] {
+    const call = new RegExp(`\\b${escapeRegExp(baseName(methodName))}\\s*\\(`);
+
+    return this.documents
+      .filter((doc) => doc.metadata.language === language)
+      .flatMap((doc) =>
+        doc.content.codeBlocks
+          .filter((block) => call.test(block.code))
+          .map((block) => ({
+            title: block.title ?? doc.metadata.title,
+            language: block.language,
+            code: block.code,
+            sourceDocument: doc.metadata.filePath,
+          }))
+      )
+      .slice(0, MAX_EXAMPLES);
+  }
+}
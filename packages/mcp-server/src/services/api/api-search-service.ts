@@ -14,19 +14,20 @@ import {
   WorkflowSuggestion,
   NextStepSuggestion,
 } from '../../types/index.js';
-import { ApiVectorService } from '../search/api-vector-service.js';
-import { setSpanAttributes, startSpan } from '../../common/otel.js';
+import type { SearchOptions } from '../search/search-options.js';
+import { startSpan } from '../../common/otel.js';
 
 export class APISearchService {
   private searchService: SearchService;
   private apiData: Map<string, unknown>;
   private initialized = false;
-  private apiVectorService: ApiVectorService;
 
-  constructor() {
-    this.searchService = new SearchService();
+  /**
+   * @param version SDK version of the indexed API, when not the latest
+   */
+  constructor(private version?: string) {
+    this.searchService = new SearchService(version);
     this.apiData = new Map();
-    this.apiVectorService = new ApiVectorService();
   }
 
   /**
@@ -39,7 +40,6 @@ export class APISearchService {
 
     this.apiData = apiData;
     await this.searchService.initialize(apiData);
-    await this.apiVectorService.initialize(apiData);
     this.initialized = true;
 
     const stats = this.searchService.getStats();
@@ -49,15 +49,32 @@ export class APISearchService {
     logger.info(`   📋 ${stats.classes} classes indexed`);
   }
 
+  /**
+   * Rebuild the search indices from updated API data. The new indices are
+   * built aside and swapped in, so searches keep working meanwhile; API
+   * vectors whose content did not change are not re-embedded.
+   */
+  async reload(apiData: Map<string, unknown>): Promise<void> {
+    return startSpan('api.reload', async () => {
+      const searchService = new SearchService(this.version);
+      await searchService.initialize(apiData);
+
+      this.searchService = searchService;
+      this.apiData = apiData;
+      this.initialized = true;
+    });
+  }
+
   /**
    * Search for APIs by functionality description
    */
   async discoverAPI(
     functionality: string,
-    language?: string
+    language?: string,
+    options: SearchOptions = {}
   ): Promise<SearchResult[]> {
     this.ensureInitialized();
-    return this.hybridSearch(functionality, language);
+    return this.hybridSearch(functionality, language, options);
   }
 
   /**
@@ -95,14 +112,15 @@ export class APISearchService {
   async searchApiMethods(
     query: string,
     className?: string,
-    limit = 10
+    limit = 10,
+    options: SearchOptions = {}
   ): Promise<SearchResult[]> {
     this.ensureInitialized();
 
     logger.info(`🔧 Searching API methods for: "${query}"`);
 
     // Search for methods, prioritizing those in the specified class
-    const results = await this.searchService.search(query);
+    const results = await this.searchService.search(query, undefined, options);
 
     // Filter by class name if specified
     const filteredResults = className
@@ -131,13 +149,14 @@ export class APISearchService {
   async searchClasses(
     query: string,
     namespace?: string,
-    limit = 10
+    limit = 10,
+    options: SearchOptions = {}
   ): Promise<SearchResult[]> {
     this.ensureInitialized();
 
     logger.info(`📋 Searching classes for: "${query}"`);
 
-    const results = await this.searchService.search(query);
+    const results = await this.searchService.search(query, undefined, options);
 
     // Filter for class results
     const classResults = results.filter(
@@ -323,11 +342,15 @@ export class APISearchService {
    */
   async search(
     query: string,
-    options?: { type?: string; namespace?: string; limit?: number }
+    options?: SearchOptions & {
+      type?: string;
+      namespace?: string;
+      limit?: number;
+    }
   ): Promise<SearchResult[]> {
     this.ensureInitialized();
 
-    const results = await this.hybridSearch(query, options?.type);
+    const results = await this.hybridSearch(query, options?.type, options);
 
     // Apply additional filters
     let filteredResults = results;
@@ -408,92 +431,11 @@ export class APISearchService {
 
   private async hybridSearch(
     query: string,
-    language?: string
+    language?: string,
+    options: SearchOptions = {}
   ): Promise<SearchResult[]> {
-    const lexicalWeight = Number(process.env.API_TEXT_WEIGHT ?? '0.5');
-    const vectorWeight = Number(
-      process.env.API_VECTOR_WEIGHT ?? 1 - lexicalWeight
+    return startSpan('api.hybridSearch', () =>
+      this.searchService.hybridSearch(query, language, 10, options)
     );
-
-    return startSpan('api.hybridSearch', async () => {
-      // Lexical (BM25/text-only) – avoid counting vector score twice
-      const lexicalResults = this.searchService.lexicalSearch(query, language);
-
-      // Semantic
-      const semanticRes = await this.apiVectorService.semanticSearch(query, 20);
-
-      // Normalise lexical scores 0..1
-      const maxLex = lexicalResults.length > 0 ? lexicalResults[0].score : 1;
-      const combined = new Map<string, { res: SearchResult; score: number }>();
-
-      for (const r of lexicalResults) {
-        const norm = r.score / (maxLex || 1);
-        combined.set(r.id, { res: r, score: norm * lexicalWeight });
-      }
-
-      for (const s of semanticRes) {
-        const existing = combined.get(s.id);
-        if (existing) {
-          existing.score += s.score * vectorWeight;
-        } else {
-          // Need to fetch SearchResult for this ID
-          const lex = lexicalResults.find((r) => r.id === s.id);
-          if (lex) {
-            combined.set(lex.id, { res: lex, score: s.score * vectorWeight });
-          } else {
-            // Handle purely semantic matches - create stub from available data
-            // Try to get metadata from the original API data if available
-            let title = `Semantic Match: ${s.id}`;
-            const content = '';
-            let type: 'api' | 'guide' | 'example' | 'class' | 'method' = 'api';
-            const metadata: Record<string, unknown> = {
-              source: 'vector_search',
-            };
-
-            // Extract information from the ID if it follows a pattern
-            if (s.id.includes(':')) {
-              const parts = s.id.split(':');
-              if (parts[0] === 'class') {
-                type = 'class';
-                title = parts[2] || parts[1] || s.id;
-                metadata.namespace = parts[1];
-                metadata.className = parts[2];
-              } else if (parts.length >= 2) {
-                type = 'method';
-                title = parts[parts.length - 1] || s.id;
-                metadata.namespace = parts[0];
-              }
-            }
-
-            const semanticResult: SearchResult = {
-              id: s.id,
-              title,
-              content,
-              type,
-              score: s.score,
-              metadata,
-            };
-
-            combined.set(s.id, {
-              res: semanticResult,
-              score: s.score * vectorWeight,
-            });
-          }
-        }
-      }
-
-      const sorted = Array.from(combined.values())
-        .sort((a, b) => b.score - a.score)
-        .map((c) => c.res);
-
-      setSpanAttributes({
-        textWeight: lexicalWeight,
-        vectorWeight,
-        lexicalCandidates: lexicalResults.length,
-        semanticCandidates: semanticRes.length,
-      });
-
-      return sorted.slice(0, 10);
-    });
   }
 }
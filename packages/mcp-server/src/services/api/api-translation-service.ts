@@ -0,0 +1,385 @@
+/**
+ * APITranslationService - Cross-language API equivalence
+ *
+ * Maps PrivMX methods between the SDKs (JavaScript, Java, Swift, C#, C++)
+ * by normalized class and method names, and reports what changes when a
+ * call is ported: async vs. blocking, byte buffer types, optional and
+ * language-specific parameters.
+ */
+
+import { formatSignature, formatType } from './api-reference-service.js';
+import { specLanguage } from '../../api/utils.js';
+import type {
+  APIClass,
+  APIMethod,
+  APIMethodEquivalent,
+  APINamespace,
+  APIParameter,
+  APITranslation,
+} from '../../api/types.js';
+
+export interface TranslationQuery {
+  from: string;
+  to: string;
+  className?: string;
+  methodName: string;
+}
+
+export interface SnippetTranslation {
+  translations: APITranslation[];
+  /** Calls on PrivMX API objects that the source SDK does not define */
+  unresolved: string[];
+}
+
+interface ClassMember {
+  apiClass: APIClass;
+  method: APIMethod;
+}
+
+type ParameterPair = APIMethodEquivalent['parameters'][number];
+
+const MAX_EQUIVALENTS = 3;
+const MAX_SNIPPET_CALLS = 10;
+
+const ASYNC_RETURN_TYPES = new Set([
+  'Promise',
+  'ValueTask',
+  'Task',
+  'CompletableFuture',
+  'Deferred',
+]);
+
+/** Binary payload types of the SDKs, compared without qualifiers */
+const BYTE_TYPES = new Set([
+  'uint8array',
+  'buffer',
+  'data',
+  'bytearray',
+  'byte[]',
+]);
+
+/**
+ * ThreadApi, AsyncThreadApi, ThreadApiAsyncExtensions and
+ * privmx::endpoint::thread::ThreadApi all share the key "threadapi"
+ */
+const classKey = (name: string): string =>
+  (name.split(/::|\./).pop() ?? name)
+    .replace(/^Async/, '')
+    .replace(/(Async)?Extensions$/, '')
+    .toLowerCase();
+
+/** Swift method names carry their argument labels: createThread(in:for:) */
+const baseName = (name: string): string => name.replace(/\(.*$/, '');
+
+/** createThread, CreateThread and CreateThreadAsync share a key */
+const methodKey = (name: string): string =>
+  baseName(name)
+    .replace(/Async$/, '')
+    .toLowerCase();
+
+const paramKey = (param: APIParameter): string =>
+  param.name.replace(/[^a-z0-9]/gi, '').toLowerCase();
+
+/** userPrivKey ~ userPrivateKey, policies ~ containerPolicy */
+const similarNames = (a: APIParameter, b: APIParameter): boolean => {
+  const stem = (key: string) => key.replace(/ies$/, 'y').replace(/s$/, '');
+  const [x, y] = [stem(paramKey(a)), stem(paramKey(b))];
+  let prefix = 0;
+  while (prefix < Math.min(x.length, y.length) && x[prefix] === y[prefix]) {
+    prefix++;
+  }
+  return prefix >= 3 || x.includes(y) || y.includes(x);
+};
+
+/** C# extension methods take the extended API object as first parameter */
+const isReceiver = (param: APIParameter): boolean =>
+  param.type.name.startsWith('this ');
+
+const isBytes = (param: APIParameter): boolean => {
+  const type = formatType(param.type).replace(/\bconst\b|[&?\s]/g, '');
+  return BYTE_TYPES.has((type.split(/::|\./).pop() ?? type).toLowerCase());
+};
+
+const isOptional = (param: APIParameter): boolean =>
+  param.optional ||
+  param.type.name.endsWith('?') ||
+  param.type.name.includes('std::optional');
+
+const isAsync = (method: APIMethod): boolean =>
+  method.returns.some((r) => ASYNC_RETURN_TYPES.has(r.type.name)) ||
+  /\b(async|suspend)\b/.test(method.snippet);
+
+const callStyle = (method: APIMethod): string => {
+  if (isAsync(method)) {
+    const [returned] = method.returns;
+    return returned ? `async (${formatType(returned.type)})` : 'async';
+  }
+  return /\bthrows\b/.test(method.snippet) ? 'blocking, throws' : 'blocking';
+};
+
+/** Swift argument labels from the method key, e.g. `in:for:managedBy:` */
+const swiftLabels = (method: APIMethod): string[] | null => {
+  const match = method.key.match(/\(((?:\w+:)+)\)\(/);
+  return match ? match[1].split(':').filter(Boolean) : null;
+};
+
+export class APITranslationService {
+  constructor(private namespacesByLanguage: Map<string, APINamespace[]>) {}
+
+  /**
+   * Map a single method to its equivalents in the target language
+   */
+  translate(query: TranslationQuery): APITranslation {
+    const from = this.requireLanguage(query.from);
+    const to = this.requireLanguage(query.to);
+
+    const [source] = this.findMembers(from, query.methodName, query.className);
+    if (!source) {
+      const name = query.className
+        ? `${query.className}.${query.methodName}`
+        : query.methodName;
+      throw new Error(`API method not found in ${from}: ${name}`);
+    }
+
+    return this.buildTranslation(from, to, source);
+  }
+
+  /**
+   * Map every PrivMX call in a code snippet to the target language
+   */
+  translateSnippet(code: string, from: string, to: string): SnippetTranslation {
+    const sourceLanguage = this.requireLanguage(from);
+    const targetLanguage = this.requireLanguage(to);
+    const translations: APITranslation[] = [];
+    const unresolved: string[] = [];
+    const seen = new Set<string>();
+
+    for (const [, receiver, name] of code.matchAll(
+      /(?:\b(\w+)\s*\.\s*)?\b([A-Za-z_]\w*)\s*\(/g
+    )) {
+      if (seen.has(name) || translations.length >= MAX_SNIPPET_CALLS) continue;
+      seen.add(name);
+
+      const members = this.findMembers(sourceLanguage, name);
+      // Prefer the class the receiver is named after (threadApi → ThreadApi)
+      const source =
+        members.find(
+          ({ apiClass }) =>
+            receiver !== undefined &&
+            classKey(apiClass.name) === classKey(receiver)
+        ) ?? members[0];
+
+      if (source) {
+        translations.push(
+          this.buildTranslation(sourceLanguage, targetLanguage, source)
+        );
+      } else if (receiver && this.isApiClass(sourceLanguage, receiver)) {
+        unresolved.push(`${receiver}.${name}`);
+      }
+    }
+
+    return { translations, unresolved };
+  }
+
+  /**
+   * Languages are reported as requested; TypeScript and Kotlin are looked
+   * up in the JavaScript and Java specs
+   */
+  private requireLanguage(language: string): string {
+    if (!this.namespacesByLanguage.has(specLanguage(language))) {
+      throw new Error(
+        `No API specification loaded for ${language}. Available: ${Array.from(
+          this.namespacesByLanguage.keys()
+        ).join(', ')}`
+      );
+    }
+    return language;
+  }
+
+  private namespaces(language: string): APINamespace[] {
+    return this.namespacesByLanguage.get(specLanguage(language)) ?? [];
+  }
+
+  private isApiClass(language: string, name: string): boolean {
+    return this.namespaces(language).some((namespace) =>
+      namespace.classes.some((cls) => classKey(cls.name) === classKey(name))
+    );
+  }
+
+  /**
+   * Methods (not constructors) with the given name, exact spelling first
+   */
+  private findMembers(
+    language: string,
+    methodName: string,
+    className?: string
+  ): ClassMember[] {
+    const members: ClassMember[] = [];
+
+    for (const namespace of this.namespaces(language)) {
+      for (const apiClass of namespace.classes) {
+        if (className && classKey(apiClass.name) !== classKey(className)) {
+          continue;
+        }
+        for (const method of [...apiClass.methods, ...apiClass.staticMethods]) {
+          if (methodKey(method.name) === methodKey(methodName)) {
+            members.push({ apiClass, method });
+          }
+        }
+      }
+    }
+
+    return members.sort(
+      (a, b) =>
+        Number(baseName(b.method.name) === methodName) -
+        Number(baseName(a.method.name) === methodName)
+    );
+  }
+
+  private buildTranslation(
+    from: string,
+    to: string,
+    source: ClassMember
+  ): APITranslation {
+    const equivalents = this.findMembers(to, baseName(source.method.name))
+      .map((target) => this.compare(from, to, source, target))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, MAX_EQUIVALENTS);
+
+    return {
+      sourceLanguage: from,
+      targetLanguage: to,
+      className: source.apiClass.name,
+      method: source.method,
+      signature: formatSignature(source.method, from),
+      equivalents,
+    };
+  }
+
+  private compare(
+    from: string,
+    to: string,
+    source: ClassMember,
+    target: ClassMember
+  ): APIMethodEquivalent {
+    const parameters = this.alignParameters(
+      source.method.parameters,
+      target.method.parameters
+    );
+    const sameName = parameters.filter(
+      ({ source: s, target: t }) => s && t && paramKey(s) === paramKey(t)
+    ).length;
+    const sameClass =
+      classKey(source.apiClass.name) === classKey(target.apiClass.name);
+
+    return {
+      className: target.apiClass.name,
+      method: target.method,
+      signature: formatSignature(target.method, to),
+      score:
+        Number(sameClass) +
+        (parameters.length > 0 ? sameName / parameters.length : 1),
+      parameters,
+      differences: this.describeDifferences(
+        from,
+        to,
+        source.method,
+        target.method,
+        parameters
+      ),
+    };
+  }
+
+  /**
+   * Pair parameters by normalized name, then by similar names, preferring
+   * the same position
+   */
+  private alignParameters(
+    sourceParams: APIParameter[],
+    targetParams: APIParameter[]
+  ): ParameterPair[] {
+    const sources = sourceParams.filter((p) => !isReceiver(p));
+    const targets = targetParams.filter((p) => !isReceiver(p));
+    const unmatched = new Set(targets);
+
+    const byName = sources.map((source) => {
+      const target = targets.find(
+        (t) => unmatched.has(t) && paramKey(t) === paramKey(source)
+      );
+      if (target) unmatched.delete(target);
+      return { source, target };
+    });
+
+    const pairs: ParameterPair[] = byName.map((pair, index) => {
+      if (pair.target) return pair;
+      const similar = targets.filter(
+        (t) => unmatched.has(t) && similarNames(pair.source, t)
+      );
+      const target = similar.includes(targets[index])
+        ? targets[index]
+        : similar[0];
+      if (!target) return { source: pair.source };
+      unmatched.delete(target);
+      return { source: pair.source, target };
+    });
+
+    return [...pairs, ...Array.from(unmatched).map((target) => ({ target }))];
+  }
+
+  private describeDifferences(
+    from: string,
+    to: string,
+    source: APIMethod,
+    target: APIMethod,
+    parameters: ParameterPair[]
+  ): string[] {
+    const differences: string[] = [];
+    const type = (param: APIParameter, language: string) =>
+      `\`${formatType(param.type, language)}\``;
+
+    if (baseName(source.name) !== baseName(target.name)) {
+      differences.push(`Named \`${baseName(target.name)}\` in ${to}`);
+    }
+    if (isAsync(source) !== isAsync(target)) {
+      differences.push(
+        `Call style: ${callStyle(source)} in ${from}, ${callStyle(target)} in ${to}`
+      );
+    }
+
+    for (const { source: s, target: t } of parameters) {
+      if (s && t) {
+        if (
+          (isBytes(s) || isBytes(t)) &&
+          formatType(s.type) !== formatType(t.type)
+        ) {
+          differences.push(`\`${s.name}\`: ${type(s, from)} → ${type(t, to)}`);
+        }
+        if (isOptional(s) !== isOptional(t)) {
+          differences.push(
+            `\`${t.name}\` is ${isOptional(t) ? 'optional' : 'required'} in ${to} but ${isOptional(s) ? 'optional' : 'required'} in ${from}`
+          );
+        }
+      } else if (t) {
+        differences.push(
+          `Extra ${isOptional(t) ? 'optional' : 'required'} parameter \`${t.name}\`: ${type(t, to)} in ${to}`
+        );
+      } else if (s) {
+        differences.push(
+          `\`${s.name}\`${isOptional(s) ? ' (optional)' : ''} has no counterpart in ${to}`
+        );
+      }
+    }
+
+    const labels = to === 'swift' ? swiftLabels(target) : null;
+    if (
+      labels &&
+      labels.some((label, i) => label !== target.parameters[i]?.name)
+    ) {
+      differences.push(
+        `Swift argument labels: ${baseName(target.name)}(${labels.map((l) => `${l}:`).join('')})`
+      );
+    }
+
+    return differences;
+  }
+}
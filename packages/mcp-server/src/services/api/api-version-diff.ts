@@ -0,0 +1,89 @@
+/**
+ * API version diff
+ *
+ * Compares the methods of two parsed spec sets of one language. Methods are
+ * matched by class and name; a method whose set of overload signatures
+ * differs is reported as changed.
+ */
+
+import type {
+  APIMethod,
+  APIMethodChange,
+  APINamespace,
+  APIVersionDiff,
+} from '../../api/types.js';
+import { formatSignature } from './api-reference-service.js';
+
+/**
+ * Signatures of every method and function, keyed by `Class.method`
+ */
+export const collectSignatures = (
+  namespaces: APINamespace[]
+): Map<string, string[]> => {
+  const signatures = new Map<string, string[]>();
+  const add = (method: APIMethod, className?: string) => {
+    // Swift names carry argument labels, e.g. createThread(in:for:)
+    const name = method.name.replace(/\(.*$/, '');
+    const key = className ? `${className}.${name}` : name;
+    signatures.set(key, [
+      ...(signatures.get(key) ?? []),
+      formatSignature(method),
+    ]);
+  };
+
+  for (const namespace of namespaces) {
+    for (const fn of namespace.functions ?? []) add(fn);
+    for (const apiClass of namespace.classes ?? []) {
+      for (const method of [
+        ...(apiClass.constructors ?? []),
+        ...(apiClass.methods ?? []),
+        ...(apiClass.staticMethods ?? []),
+      ]) {
+        add(method, apiClass.name);
+      }
+    }
+  }
+
+  for (const [key, list] of signatures) {
+    signatures.set(key, Array.from(new Set(list)).sort());
+  }
+  return signatures;
+};
+
+/**
+ * Added, removed and changed methods from `before` to `after`
+ */
+export const diffApiVersions = (
+  language: string,
+  from: { version: string; namespaces: APINamespace[] },
+  to: { version: string; namespaces: APINamespace[] }
+): APIVersionDiff => {
+  const before = collectSignatures(from.namespaces);
+  const after = collectSignatures(to.namespaces);
+  const diff: APIVersionDiff = {
+    language,
+    from: from.version,
+    to: to.version,
+    added: [],
+    removed: [],
+    changed: [],
+  };
+
+  const methods = Array.from(
+    new Set([...before.keys(), ...after.keys()])
+  ).sort();
+  for (const method of methods) {
+    const change: APIMethodChange = {
+      method,
+      before: before.get(method) ?? [],
+      after: after.get(method) ?? [],
+    };
+    if (change.before.length === 0) diff.added.push(change);
+    else if (change.after.length === 0) diff.removed.push(change);
+    else if (change.before.join('\n') !== change.after.join('\n')) {
+      diff.changed.push(change);
+    }
+  }
+
+  return diff;
+};
@@ -0,0 +1,66 @@
+import { createCodeGenerator, getSupportedLanguages } from '../index.js';
+
+// paths.ts locates the package via import.meta, which jest's CommonJS
+// transform does not support
+jest.mock('../../../common/paths.js', () => {
+  const path = jest.requireActual<typeof import('path')>('path');
+  const packageRoot = path.resolve(__dirname, '../../../..');
+  return {
+    packageRoot,
+    specRoot: path.resolve(packageRoot, '../../spec'),
+    templatesRoot: path.resolve(packageRoot, 'src/templates'),
+  };
+});
+
+const FEATURES = ['threads', 'stores', 'inboxes', 'crypto'];
+
+const renderAll = (languages: string[]) =>
+  Object.fromEntries(
+    languages.map((language) => [
+      language,
+      createCodeGenerator(language).generateSetup(FEATURES),
+    ])
+  );
+
+describe('registered code generators', () => {
+  const languages = getSupportedLanguages();
+
+  it('includes the built-in languages', () => {
+    expect(languages).toEqual(
+      expect.arrayContaining([
+        'javascript',
+        'typescript',
+        'java',
+        'swift',
+        'csharp',
+        'cpp',
+        'kotlin',
+      ])
+    );
+  });
+
+  it.each(languages)('renders %s setup and feature code', (language) => {
+    const generator = createCodeGenerator(language);
+
+    for (const features of [FEATURES, ['crypto']]) {
+      const setup = generator.generateSetup(features);
+      expect(setup.trim()).not.toBe('');
+      expect(setup).not.toMatch(/\{\{|\}\}/);
+    }
+    expect(() => {
+      generator.generateThreadsFeature();
+      generator.generateStoresFeature();
+      generator.generateInboxesFeature();
+      generator.generateCryptoFeature();
+      generator.generateThreadsExample();
+      generator.generateStoresExample();
+      generator.generateInboxesExample();
+      generator.generateCryptoExample();
+    }).not.toThrow();
+  });
+
+  it('does not mix partials of languages rendered before', () => {
+    // Partials are registered by name, so each render must use its own
+    expect(renderAll([...languages].reverse())).toEqual(renderAll(languages));
+  });
+});
@@ -1,5 +1,6 @@
 import fs from 'fs';
 import path from 'path';
+import { specRoot } from '../../common/paths.js';
 
 interface MethodSpec {
   name: string;
@@ -12,21 +13,27 @@ function languageToSpecPath(lang: string): string {
   switch (lang) {
     case 'javascript':
     case 'js':
-      return 'spec/api/js/out.js.json';
+      return 'api/js/out.js.json';
     case 'typescript':
-      return 'spec/api/js/out.js.json';
+      return 'api/js/out.js.json';
     case 'java':
-      return 'spec/api/java/privmx-endpoint.json';
+    case 'kotlin':
+      return 'api/java/privmx-endpoint.json';
     case 'swift':
-      return 'spec/api/swift/PrivMXEndpointSwift.json';
+      return 'api/swift/PrivMXEndpointSwift.json';
+    case 'cpp':
+      return 'api/cpp/out.cpp.json';
+    case 'csharp':
+      // The Extra package holds the async API the templates wrap
+      return 'api/csharp/csharp-extra.json';
     default:
-      return 'spec/api/js/out.js.json';
+      return 'api/js/out.js.json';
   }
 }
 
 function loadSpec(lang = 'js'): any {
   if (specCache[lang]) return specCache[lang];
-  const specPath = path.resolve(process.cwd(), languageToSpecPath(lang));
+  const specPath = path.join(specRoot, languageToSpecPath(lang));
   try {
     const raw = fs.readFileSync(specPath, 'utf-8');
     specCache[lang] = JSON.parse(raw);
@@ -43,13 +50,24 @@ interface MethodInfo {
   returns: { type: { name: string }; description: string }[] | null;
 }
 
+/**
+ * Class entry by name; spec namespaces hold `{ title, content }` sections and
+ * C++ class names are namespace qualified (privmx::endpoint::thread::ThreadApi)
+ */
 function findClassObj(spec: any, className: string): any | null {
-  const section = Object.values(spec).find(
-    (sec: any) =>
-      Array.isArray(sec) && sec.some((c: any) => c.name === className)
-  ) as any[] | undefined;
-  if (!section) return null;
-  return section.find((c) => c.name === className) || null;
+  const matches = (c: any) =>
+    c?.name === className || c?.name?.split('::').pop() === className;
+  for (const namespace of Object.values(spec)) {
+    if (!Array.isArray(namespace)) continue;
+    const entries = namespace.flatMap((sec: any) =>
+      Array.isArray(sec?.content) ? sec.content : [sec]
+    );
+    const classObj = entries.find(
+      (c: any) => c?.type !== 'type' && matches(c) && c.methods
+    );
+    if (classObj) return classObj;
+  }
+  return null;
 }
 
 export function getMethodInfo(
@@ -100,6 +118,41 @@ export function generateJsDoc(
   return lines.join('\n');
 }
 
+/**
+ * Doc comment with the method's description, parameters and return value:
+ * XML documentation for C#, Doxygen/JSDoc style for the other languages
+ */
+export function generateDocComment(
+  lang: string,
+  className: string,
+  methodName: string
+): string {
+  const info = getMethodInfo(className, methodName, lang);
+  if (!info) return '';
+  // Spec descriptions keep the line breaks of the SDK sources
+  const text = (description: string) => description.replace(/\s+/g, ' ').trim();
+  const params = info.params.filter((p) => text(p.description));
+  const returns = text(info.returns?.[0]?.description ?? '');
+
+  if (lang === 'csharp') {
+    return [
+      `/// <summary>${text(info.description)}</summary>`,
+      ...params.map(
+        (p) => `/// <param name="${p.name}">${text(p.description)}</param>`
+      ),
+      ...(returns ? [`/// <returns>${returns}</returns>`] : []),
+    ].join('\n');
+  }
+
+  return [
+    '/**',
+    ` * ${text(info.description)}`,
+    ...params.map((p) => ` * @param ${p.name} ${text(p.description)}`),
+    ...(returns ? [` * @return ${returns}`] : []),
+    ' */',
+  ].join('\n');
+}
+
 export function getReturnType(
   lang: string,
   className: string,
@@ -0,0 +1,44 @@
+import { BaseCodeGenerator } from './base-generator.js';
+import { renderTemplate } from './template-renderer.js';
+
+export class CppTemplateGenerator extends BaseCodeGenerator {
+  generateSetup(features: string[]): string {
+    return renderTemplate('codegen/cpp/setup.hbs', {
+      language: 'cpp',
+      features,
+      // Inboxes are built on the Thread and Store modules
+      modules: {
+        thread: features.includes('threads') || features.includes('inboxes'),
+        store: features.includes('stores') || features.includes('inboxes'),
+        inbox: features.includes('inboxes'),
+        crypto: features.includes('crypto'),
+      },
+    });
+  }
+
+  // Template handles implementation
+  generateThreadsFeature() {
+    return '';
+  }
+  generateStoresFeature() {
+    return '';
+  }
+  generateInboxesFeature() {
+    return '';
+  }
+  generateCryptoFeature() {
+    return '';
+  }
+  generateThreadsExample() {
+    return '';
+  }
+  generateStoresExample() {
+    return '';
+  }
+  generateInboxesExample() {
+    return '';
+  }
+  generateCryptoExample() {
+    return '';
+  }
+}
@@ -9,35 +9,44 @@ export class CSharpTemplateGenerator extends BaseCodeGenerator {
     });
   }
 
+  /**
+   * Render one of the partials the setup template is built from
+   */
+  private renderPartial(name: string): string {
+    return renderTemplate(`codegen/csharp/partials/${name}.hbs`, {
+      language: 'csharp',
+    });
+  }
+
   generateThreadsFeature() {
-    return '// Threads feature handled via template';
+    return this.renderPartial('thread');
   }
 
   generateStoresFeature() {
-    return '// Stores feature handled via template';
+    return this.renderPartial('store');
   }
 
   generateInboxesFeature() {
-    return '// Inboxes feature handled via template';
+    return this.renderPartial('inbox');
   }
 
   generateCryptoFeature() {
-    return '// Crypto feature handled via template';
+    return this.renderPartial('crypto');
   }
 
   generateThreadsExample() {
-    return '// Example: create thread';
+    return this.renderPartial('thread-example');
   }
 
   generateStoresExample() {
-    return '// Example: upload file';
+    return this.renderPartial('store-example');
   }
 
   generateInboxesExample() {
-    return '// Example: send inbox entry';
+    return this.renderPartial('inbox-example');
   }
 
   generateCryptoExample() {
-    return '// Example: sign data';
+    return this.renderPartial('crypto-example');
   }
 }
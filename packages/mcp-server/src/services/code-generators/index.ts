@@ -9,6 +9,8 @@ import { JavaTemplateGenerator } from './java-template-generator.js';
 import { SwiftTemplateGenerator } from './swift-template-generator.js';
 import { CSharpTemplateGenerator } from './csharp-template-generator.js';
 import { TypeScriptGenerator } from './typescript-generator.js';
+import { CppTemplateGenerator } from './cpp-template-generator.js';
+import { KotlinTemplateGenerator } from './kotlin-template-generator.js';
 import {
   getCodeGenerator as getPluginGenerator,
   registerCodeGeneratorPlugin,
@@ -36,6 +38,14 @@ registerCodeGeneratorPlugin({
   language: 'typescript',
   create: () => new TypeScriptGenerator(),
 });
+registerCodeGeneratorPlugin({
+  language: 'cpp',
+  create: () => new CppTemplateGenerator(),
+});
+registerCodeGeneratorPlugin({
+  language: 'kotlin',
+  create: () => new KotlinTemplateGenerator(),
+});
 
 export type SupportedLanguage = string; // now dynamic based on plugin registry
 
@@ -72,5 +82,7 @@ export {
   SwiftTemplateGenerator,
   CSharpTemplateGenerator,
   TypeScriptGenerator,
+  CppTemplateGenerator,
+  KotlinTemplateGenerator,
   registerCodeGeneratorPlugin,
 };
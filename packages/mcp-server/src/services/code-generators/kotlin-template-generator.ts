@@ -0,0 +1,46 @@
+import { BaseCodeGenerator } from './base-generator.js';
+import { renderTemplate } from './template-renderer.js';
+
+export class KotlinTemplateGenerator extends BaseCodeGenerator {
+  generateSetup(features: string[]): string {
+    const inboxes = features.includes('inboxes');
+    // Inboxes are built on the Thread and Store modules
+    const modules = [
+      (features.includes('threads') || inboxes) && 'Modules.THREAD',
+      (features.includes('stores') || inboxes) && 'Modules.STORE',
+      inboxes && 'Modules.INBOX',
+    ].filter(Boolean);
+
+    return renderTemplate('codegen/kotlin/setup.hbs', {
+      language: 'kotlin',
+      features,
+      modules,
+    });
+  }
+
+  // Template handles implementation
+  generateThreadsFeature() {
+    return '';
+  }
+  generateStoresFeature() {
+    return '';
+  }
+  generateInboxesFeature() {
+    return '';
+  }
+  generateCryptoFeature() {
+    return '';
+  }
+  generateThreadsExample() {
+    return '';
+  }
+  generateStoresExample() {
+    return '';
+  }
+  generateInboxesExample() {
+    return '';
+  }
+  generateCryptoExample() {
+    return '';
+  }
+}
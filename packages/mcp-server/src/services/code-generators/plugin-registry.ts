@@ -10,7 +10,8 @@ export interface CodeGeneratorPlugin {
 
 const registry = new Map<string, () => BaseCodeGenerator>();
 
-const require = createRequire(import.meta.url);
+// Plugins are resolved like the host project's own dependencies
+const requirePlugin = createRequire(path.join(process.cwd(), 'package.json'));
 
 /**
  * Attempt to load external code-generator plugins automatically.
@@ -36,7 +37,7 @@ function autoLoadExternalPlugins(): void {
       for (const pkg of readdirSync(scopeDir)) {
         if (pkg.startsWith('codegen-')) {
           try {
-            require(path.join(scopeDir, pkg));
+            requirePlugin(path.join(scopeDir, pkg));
             console.log(`[CodeGen] Loaded external plugin: ${entry}/${pkg}`);
           } catch (err) {
             console.warn(
@@ -56,7 +57,7 @@ function autoLoadExternalPlugins(): void {
       try {
         const stats = statSync(candidatePath);
         if (stats.isDirectory()) {
-          require(candidatePath);
+          requirePlugin(candidatePath);
           console.log(`[CodeGen] Loaded external plugin: ${entry}`);
         }
       } catch (err) {
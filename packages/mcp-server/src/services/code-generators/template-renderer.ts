@@ -4,46 +4,63 @@ import Handlebars from 'handlebars';
 import {
   getMethodSnippet,
   generateJsDoc,
+  generateDocComment,
   getMethodInfo,
   getReturnType,
 } from './api-spec-loader.js';
+import { templatesRoot } from '../../common/paths.js';
 
 /**
- * Render a Handlebars template relative to the project root.
- * Templates live under `src/templates` to be bundled by ts-node/tsc.
+ * Partials of a template directory by name. They are passed to each render
+ * rather than registered globally, as every language has its own `thread`,
+ * `store`, ... partials.
  */
-
-function registerPartials(baseDir: string) {
-  const partialsDir = path.join(path.dirname(baseDir), 'partials');
+function loadPartials(
+  partialsDir: string
+): Record<string, HandlebarsTemplateDelegate> {
   let files: string[] = [];
   try {
     files = readdirSync(partialsDir);
   } catch {
-    return; // no partials
-  }
-  for (const file of files) {
-    if (file.endsWith('.hbs')) {
-      const partialPath = path.join(partialsDir, file);
-      const source = readFileSync(partialPath, 'utf-8');
-      const name = path.basename(file, '.hbs');
-      Handlebars.registerPartial(name, source);
-    }
+    return {}; // no partials
   }
+  return Object.fromEntries(
+    files
+      .filter((file) => file.endsWith('.hbs'))
+      .map((file) => [
+        path.basename(file, '.hbs'),
+        Handlebars.compile(
+          readFileSync(path.join(partialsDir, file), 'utf-8'),
+          { noEscape: true }
+        ),
+      ])
+  );
+}
+
+export interface RenderOptions {
+  /** Template directory whose partials to use instead of the template's own */
+  partialsFrom?: string;
 }
 
+/**
+ * Render a Handlebars template relative to `src/templates`, which is read
+ * from the source tree by both tsx and the compiled build. Partials come
+ * from the `partials` directory next to the template.
+ */
 export function renderTemplate(
   relPath: string,
-  data: Record<string, unknown>
+  data: Record<string, unknown>,
+  options: RenderOptions = {}
 ): string {
-  const templatePath = path.resolve(
-    path.dirname(new URL(import.meta.url).pathname),
-    '../../templates',
-    relPath
+  const templatePath = path.resolve(templatesRoot, relPath);
+  const partials = loadPartials(
+    options.partialsFrom
+      ? path.resolve(templatesRoot, options.partialsFrom, 'partials')
+      : path.join(path.dirname(templatePath), 'partials')
   );
-  registerPartials(templatePath);
   const source = readFileSync(templatePath, 'utf-8');
   const template = Handlebars.compile(source, { noEscape: true });
-  return template(data);
+  return template(data, { partials });
 }
 
 // Register helpers once at module load
@@ -52,55 +69,51 @@ Handlebars.registerHelper('includes', (arr: any[], item: any) => {
   return arr.includes(item);
 });
 
-Handlebars.registerHelper('methodSnippet', function (...args) {
-  // args: [lang?, className, methodName]
-  let lang = 'js';
-  let className: string;
-  let methodName: string;
-  if (args.length === 3) {
-    [lang, className, methodName] = args as string[];
-  } else {
-    [className, methodName] = args as string[];
-  }
+/**
+ * `[lang?, className, methodName]` helper arguments, without the options
+ * hash Handlebars appends
+ */
+const methodArgs = (args: unknown[]) => {
+  const values = args.slice(0, -1) as string[];
+  return values.length === 3
+    ? { lang: values[0], className: values[1], methodName: values[2] }
+    : { lang: 'js', className: values[0], methodName: values[1] };
+};
+
+Handlebars.registerHelper('methodSnippet', (...args: unknown[]) => {
+  const { lang, className, methodName } = methodArgs(args);
   const snippet = getMethodSnippet(lang, className, methodName);
   return snippet || `${className}.${methodName}()`;
 });
 
-Handlebars.registerHelper('jsDoc', function (...args) {
-  let lang = 'js';
-  let className: string;
-  let methodName: string;
-  if (args.length === 3) {
-    [lang, className, methodName] = args as string[];
-  } else {
-    [className, methodName] = args as string[];
-  }
+Handlebars.registerHelper('jsDoc', (...args: unknown[]) => {
+  const { lang, className, methodName } = methodArgs(args);
   return generateJsDoc(lang, className, methodName);
 });
 
-Handlebars.registerHelper('paramList', function (...args) {
-  let lang = 'js';
-  let className: string;
-  let methodName: string;
-  if (args.length === 3) {
-    [lang, className, methodName] = args as string[];
-  } else {
-    [className, methodName] = args as string[];
-  }
-  const info = generateJsDoc(lang, className, methodName); // we actually need param list
+// `indent=N` indents the lines after the first, which the template positions
+Handlebars.registerHelper(
+  'docComment',
+  (
+    lang: string,
+    className: string,
+    methodName: string,
+    options: Handlebars.HelperOptions
+  ) =>
+    generateDocComment(lang, className, methodName).replace(
+      /\n/g,
+      `\n${' '.repeat(options.hash.indent ?? 0)}`
+    )
+);
+
+Handlebars.registerHelper('paramList', (...args: unknown[]) => {
+  const { lang, className, methodName } = methodArgs(args);
   const mi = getMethodInfo(className, methodName, lang);
   if (!mi) return '';
-  return mi.params.map((p: any) => p.name).join(', ');
+  return mi.params.map((p) => p.name).join(', ');
 });
 
-Handlebars.registerHelper('returnType', function (...args) {
-  let lang = 'js';
-  let className: string;
-  let methodName: string;
-  if (args.length === 3) {
-    [lang, className, methodName] = args as string[];
-  } else {
-    [className, methodName] = args as string[];
-  }
+Handlebars.registerHelper('returnType', (...args: unknown[]) => {
+  const { lang, className, methodName } = methodArgs(args);
   return getReturnType(lang, className, methodName) || 'void';
 });
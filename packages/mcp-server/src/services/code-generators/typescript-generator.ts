@@ -4,10 +4,12 @@ import { renderTemplate } from './template-renderer.js';
 export class TypeScriptGenerator extends JavaScriptGenerator {
   generateSetup(features: string[]): string {
     try {
-      return renderTemplate('codegen/typescript/setup.hbs', {
-        language: 'typescript',
-        features,
-      });
+      return renderTemplate(
+        'codegen/typescript/setup.hbs',
+        { language: 'typescript', features },
+        // The JavaScript feature code is valid TypeScript
+        { partialsFrom: 'codegen/javascript' }
+      );
     } catch (err) {
       console.warn('[CodeGen] TS template missing, fallback to JS template');
       return super.generateSetup(features);
@@ -0,0 +1,90 @@
+import { CodeExampleIndex, extractImports } from '../code-example-index.js';
+import type { ParsedMDXDocument } from '../../../types/documentation-types.js';
+
+const document = (
+  id: string,
+  language: string | undefined,
+  blocks: Array<{ language: string; code: string }>
+) =>
+  ({
+    id,
+    metadata: { title: id, language, filePath: `spec/mdx/${id}.mdx` },
+    content: {
+      markdown: blocks
+        .map(
+          (b) => `## ${b.language}\n\n\`\`\`${b.language}\n${b.code}\n\`\`\``
+        )
+        .join('\n\n'),
+      codeBlocks: blocks,
+    },
+  }) as unknown as ParsedMDXDocument;
+
+const documents = [
+  document('java-inboxes', 'java', [
+    {
+      language: 'kotlin',
+      code: 'val inboxId = inboxApi.createInbox(contextId, users, managers, pub, priv)',
+    },
+  ]),
+  document('java-entries', 'java', [
+    { language: 'kotlin', code: 'publicInboxApi.sendEntry(inboxHandle)' },
+  ]),
+  document('js-inboxes', 'javascript', [
+    {
+      language: 'ts',
+      code: "import { Endpoint } from '@simplito/privmx-webendpoint';\nconst inboxId = await inboxApi.createInbox(contextId, users, managers, pub, priv);\nconst handle = await inboxApi.prepareEntry(inboxId, data);\nawait inboxApi.sendEntry(handle);",
+    },
+    {
+      language: 'js',
+      code: 'await threadApi.sendMessage(threadId, meta, data);',
+    },
+  ]),
+];
+
+const apiMethods = [
+  'InboxApi.createInbox',
+  'InboxApi.prepareEntry',
+  'InboxApi.sendEntry',
+  'ThreadApi.sendMessage',
+];
+
+describe('CodeExampleIndex', () => {
+  const index = new CodeExampleIndex(documents, apiMethods);
+
+  it('indexes the PrivMX calls and imports of each block', () => {
+    const [match] = index.search({ apis: ['threadApi.sendMessage'] });
+
+    expect(match.examples).toHaveLength(1);
+    expect(match.examples[0]).toMatchObject({
+      id: 'js-inboxes#code-1',
+      language: 'javascript',
+      apis: ['ThreadApi.sendMessage'],
+      calls: ['threadApi.sendMessage'],
+    });
+    expect(
+      extractImports(documents[2].content.codeBlocks[0].code, 'typescript')
+    ).toEqual(['@simplito/privmx-webendpoint']);
+  });
+
+  it('prefers a single block using all methods of a query', () => {
+    const [match] = index.search({
+      query: 'examples that use both createInbox and sendEntry',
+    });
+
+    expect(match.apis).toEqual(['InboxApi.createInbox', 'InboxApi.sendEntry']);
+    expect(match.examples.map((e) => e.id)).toEqual(['js-inboxes#code-0']);
+  });
+
+  it('combines pages of one SDK when no page uses all methods', () => {
+    const matches = index.search({
+      query: 'createInbox and sendEntry in Java',
+    });
+
+    expect(matches).toHaveLength(1);
+    expect(matches[0].examples.map((e) => e.id)).toEqual([
+      'java-inboxes#code-0',
+      'java-entries#code-0',
+    ]);
+    expect(matches[0].examples[1].apis).toEqual(['InboxApi.sendEntry']);
+  });
+});
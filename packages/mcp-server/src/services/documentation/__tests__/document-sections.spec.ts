@@ -0,0 +1,86 @@
+import {
+  getDocumentSections,
+  splitMarkdownSections,
+} from '../document-sections.js';
+import type { ParsedMDXDocument } from '../../../types/documentation-types.js';
+
+const markdown = `# Threads
+
+Threads hold messages.
+
+## Sending messages
+
+\`\`\`js
+await threadApi.sendMessage(threadId, meta, data);
+\`\`\`
+
+### With custom meta
+
+Pass any bytes as \`meta\`.
+
+\`\`\`js
+// # not a heading
+await threadApi.sendMessage(threadId, customMeta, data);
+\`\`\`
+
+## Sending messages
+
+## Listing messages
+
+Use \`listMessages\`.`;
+
+const doc = {
+  id: 'js-threads',
+  metadata: { title: 'Threads' },
+  content: {
+    markdown,
+    codeBlocks: [
+      { code: 'await threadApi.sendMessage(threadId, meta, data);' },
+      {
+        code: '// # not a heading\nawait threadApi.sendMessage(threadId, customMeta, data);',
+      },
+    ],
+  },
+} as unknown as ParsedMDXDocument;
+
+describe('document sections', () => {
+  it('splits at headings outside code fences with unique anchors', () => {
+    const sections = splitMarkdownSections(markdown);
+
+    expect(sections.map((s) => s.anchor)).toEqual([
+      '',
+      'threads',
+      'sending-messages',
+      'with-custom-meta',
+      'sending-messages-1',
+      'listing-messages',
+    ]);
+    expect(sections[3].headings).toEqual([
+      'Threads',
+      'Sending messages',
+      'With custom meta',
+    ]);
+    expect(sections[3].content).toContain('// # not a heading');
+  });
+
+  it('returns sections with heading paths, exact text and code blocks', () => {
+    const sections = getDocumentSections(doc);
+
+    expect(sections.map((s) => s.id)).toEqual([
+      'js-threads#threads',
+      'js-threads#sending-messages',
+      'js-threads#with-custom-meta',
+      'js-threads#listing-messages',
+    ]);
+
+    const customMeta = sections[2];
+    expect(customMeta.headingPath).toEqual([
+      'Threads',
+      'Sending messages',
+      'With custom meta',
+    ]);
+    expect(customMeta.content.startsWith('### With custom meta')).toBe(true);
+    expect(customMeta.codeBlocks).toEqual([doc.content.codeBlocks[1]]);
+    expect(sections[1].codeBlocks).toEqual([doc.content.codeBlocks[0]]);
+  });
+});
@@ -0,0 +1,366 @@
+/**
+ * Code example index
+ *
+ * Indexes every fenced code block of the documentation by the PrivMX
+ * methods it calls, its imports and its language, so examples can be found
+ * by the APIs they use ("createInbox and sendEntry in Java") rather than by
+ * the surrounding prose.
+ */
+
+import type {
+  CodeExampleMatch,
+  CodeExampleQuery,
+  IndexedCodeExample,
+  ParsedMDXDocument,
+} from '../../types/documentation-types.js';
+import { getDocumentSections } from './document-sections.js';
+import { countTokens, tokenize } from '../search/identifier-tokenizer.js';
+import { specLanguage } from '../../api/utils.js';
+
+/** Fence languages of code blocks, mapped to SDK language names */
+const CODE_LANGUAGES: Record<string, string> = {
+  js: 'javascript',
+  jsx: 'javascript',
+  javascript: 'javascript',
+  ts: 'typescript',
+  tsx: 'typescript',
+  typescript: 'typescript',
+  java: 'java',
+  kotlin: 'kotlin',
+  kt: 'kotlin',
+  swift: 'swift',
+  cpp: 'cpp',
+  'c++': 'cpp',
+  csharp: 'csharp',
+  cs: 'csharp',
+  'c#': 'csharp',
+};
+
+/** Language names as written in queries */
+const QUERY_LANGUAGES: Record<string, string> = {
+  ...CODE_LANGUAGES,
+  node: 'javascript',
+  nodejs: 'javascript',
+};
+
+const IMPORT_PATTERNS: Record<string, RegExp[]> = {
+  javascript: [
+    /\bimport\s+(?:[\w*{}\s,]+\s+from\s+)?['"]([^'"]+)['"]/g,
+    /\brequire\(\s*['"]([^'"]+)['"]\s*\)/g,
+  ],
+  java: [/^\s*import\s+(?:static\s+)?([\w.*]+)/gm],
+  swift: [/^\s*import\s+(\w+)/gm],
+  cpp: [/^\s*#include\s*[<"]([^>"]+)[>"]/gm],
+  csharp: [/^\s*using\s+(?:static\s+)?([\w.]+)\s*;/gm],
+};
+IMPORT_PATTERNS.typescript = IMPORT_PATTERNS.javascript;
+IMPORT_PATTERNS.kotlin = IMPORT_PATTERNS.java;
+
+/** `receiver.method(`, `receiver->method(`, `Class::method(` */
+const CALL_PATTERN =
+  /\b([A-Za-z_]\w*)\s*(?:\?\.|\.|->|::)\s*([A-Za-z_]\w*)\s*(?:<[^<>()]*>)?\s*\(/g;
+
+const groupBy = <T>(items: T[], key: (item: T) => string) => {
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    const group = groups.get(key(item)) ?? [];
+    group.push(item);
+    groups.set(key(item), group);
+  }
+  return groups;
+};
+
+interface RequestedApi {
+  className?: string;
+  method: string;
+}
+
+/**
+ * Imported modules, packages and headers of a code block
+ */
+export const extractImports = (code: string, language: string): string[] => {
+  const imports = new Set<string>();
+  for (const pattern of IMPORT_PATTERNS[language] ?? []) {
+    for (const match of code.matchAll(pattern)) imports.add(match[1]);
+  }
+  return Array.from(imports);
+};
+
+export class CodeExampleIndex {
+  private examples: IndexedCodeExample[] = [];
+  /** Lowercase method name → classes declaring it */
+  private methodClasses = new Map<string, string[]>();
+
+  /**
+   * @param documents - Parsed documentation
+   * @param apiMethods - Known PrivMX methods as `Class.method`
+   */
+  constructor(documents: ParsedMDXDocument[], apiMethods: Iterable<string>) {
+    for (const api of apiMethods) {
+      const [qualifiedName, method] = api.split('.');
+      if (!method) continue;
+      // C++ classes are namespace qualified: privmx::endpoint::inbox::InboxApi
+      const className = qualifiedName.split('::').pop()!;
+      const key = method.toLowerCase();
+      const classes = this.methodClasses.get(key) ?? [];
+      if (!classes.includes(className)) classes.push(className);
+      this.methodClasses.set(key, classes);
+    }
+
+    for (const doc of documents) {
+      this.examples.push(...this.indexDocument(doc));
+    }
+  }
+
+  get size(): number {
+    return this.examples.length;
+  }
+
+  /**
+   * Find examples by the methods they call, their language and free text.
+   * With several methods, a document matches when its blocks use all of
+   * them together and the fewest such blocks are returned. When no single
+   * document does, blocks from several pages of one SDK are combined.
+   */
+  search(query: CodeExampleQuery): CodeExampleMatch[] {
+    const parsed = this.parseQuery(query.query ?? '');
+    const requested = (query.apis?.length ? query.apis : parsed.apis).map(
+      (api) => this.parseApi(api)
+    );
+    const language = query.language
+      ? (QUERY_LANGUAGES[query.language.toLowerCase()] ??
+        query.language.toLowerCase())
+      : parsed.language;
+    const terms = tokenize(parsed.text);
+    const textScore = (list: IndexedCodeExample[]) => {
+      if (terms.length === 0) return 0;
+      const counts = countTokens(
+        list.map((e) => `${e.title}\n${e.code}`).join('\n')
+      );
+      return terms.filter((term) => counts.has(term)).length / terms.length;
+    };
+
+    const candidates = this.examples.filter(
+      (example) => !language || this.matchesLanguage(example, language)
+    );
+
+    if (requested.length === 0) {
+      // Text only: every block is its own match
+      return candidates
+        .map((example) => this.toMatch([example], [], textScore([example])))
+        .filter((match) => match.score > 0)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, query.limit ?? 5);
+    }
+
+    const matches: CodeExampleMatch[] = [];
+    const covered = new Set<string>();
+    const addCover = (examples: IndexedCodeExample[], weight: number) => {
+      const cover = this.coverRequested(examples, requested);
+      if (!cover) return false;
+      const apis = requested.map(
+        (api) =>
+          cover
+            .flatMap((e) => e.apis)
+            .find((found) => this.matchesApi(found, api))!
+      );
+      // Prefer a single block doing everything, then closer text matches
+      const score = weight / cover.length + textScore(cover);
+      matches.push(this.toMatch(cover, apis, score));
+      return true;
+    };
+
+    for (const examples of groupBy(candidates, (e) => e.documentId).values()) {
+      if (addCover(examples, 1)) {
+        covered.add(this.sdkOf(examples[0]));
+      }
+    }
+    if (requested.length > 1) {
+      for (const [sdk, examples] of groupBy(candidates, (e) => this.sdkOf(e))) {
+        if (!covered.has(sdk)) addCover(examples, 0.5);
+      }
+    }
+
+    return matches.sort((a, b) => b.score - a.score).slice(0, query.limit ?? 5);
+  }
+
+  /**
+   * Method names and a language mentioned in a natural language query, and
+   * the remaining text
+   */
+  parseQuery(text: string): {
+    apis: string[];
+    language?: string;
+    text: string;
+  } {
+    const apis: string[] = [];
+    let language: string | undefined;
+    const rest: string[] = [];
+
+    for (const [match] of text.matchAll(/[A-Za-z_#+][\w.#+]*/g)) {
+      const word = match.replace(/\.+$/, '');
+      const lower = word.toLowerCase();
+      const method = lower.split('.').pop()!;
+      if (
+        (lower.includes('.') || /[a-z][A-Z]/.test(word)) &&
+        this.methodClasses.has(method)
+      ) {
+        if (!apis.includes(word)) apis.push(word);
+      } else if (!language && QUERY_LANGUAGES[lower]) {
+        language = QUERY_LANGUAGES[lower];
+      } else {
+        rest.push(word);
+      }
+    }
+
+    return { apis, language, text: rest.join(' ') };
+  }
+
+  private indexDocument(doc: ParsedMDXDocument): IndexedCodeExample[] {
+    const sections = getDocumentSections(doc);
+
+    return doc.content.codeBlocks.flatMap((block, i) => {
+      const language = CODE_LANGUAGES[(block.language ?? '').toLowerCase()];
+      if (!language || !block.code.trim()) return [];
+
+      const section = sections.find((s) => s.codeBlocks.includes(block));
+      const apis = new Set<string>();
+      const calls = new Set<string>();
+      for (const [, receiver, method] of block.code.matchAll(CALL_PATTERN)) {
+        const className = this.resolveClass(receiver, method);
+        if (className) {
+          apis.add(`${className}.${method}`);
+          calls.add(`${receiver}.${method}`);
+        }
+      }
+
+      return [
+        {
+          id: `${doc.id}#code-${i}`,
+          documentId: doc.id,
+          title: block.title || section?.heading || doc.metadata.title,
+          documentTitle: doc.metadata.title,
+          sourceFile: doc.metadata.filePath,
+          anchor: section?.anchor ?? '',
+          language,
+          sdkLanguage: doc.metadata.language,
+          code: block.code,
+          apis: Array.from(apis),
+          calls: Array.from(calls),
+          imports: extractImports(block.code, language),
+        },
+      ];
+    });
+  }
+
+  /**
+   * Class of a called method: the one named like the receiver
+   * (`threadApi` → ThreadApi, `publicInboxApi` → InboxApi), or the only
+   * class declaring the method
+   */
+  private resolveClass(receiver: string, method: string): string | null {
+    const classes =
+      this.methodClasses.get(method.toLowerCase()) ??
+      // C# methods may carry an Async suffix
+      this.methodClasses.get(method.toLowerCase().replace(/async$/, ''));
+    if (!classes) return null;
+
+    const name = receiver.toLowerCase();
+    const named = classes
+      .filter((className) => name.endsWith(className.toLowerCase()))
+      .sort((a, b) => b.length - a.length)[0];
+    if (named) return named;
+    return classes.length === 1 ? classes[0] : null;
+  }
+
+  private parseApi(api: string): RequestedApi {
+    const parts = api.split(/\.|::|->/);
+    const method = parts.pop()!.replace(/\(.*$/, '').toLowerCase();
+    return parts.length > 0
+      ? { className: parts.pop()!.toLowerCase(), method }
+      : { method };
+  }
+
+  private matchesApi(api: string, requested: RequestedApi): boolean {
+    const [className, method] = api.toLowerCase().split('.');
+    return (
+      (method === requested.method || method === `${requested.method}async`) &&
+      (!requested.className || className === requested.className)
+    );
+  }
+
+  private matchesLanguage(
+    example: IndexedCodeExample,
+    language: string
+  ): boolean {
+    const sdk = specLanguage(language);
+    return [example.language, example.sdkLanguage].some(
+      (candidate) =>
+        candidate === language || (candidate && specLanguage(candidate) === sdk)
+    );
+  }
+
+  /**
+   * Fewest blocks using all requested methods (greedy), or null when the
+   * blocks do not use all of them
+   */
+  private coverRequested(
+    examples: IndexedCodeExample[],
+    requested: RequestedApi[]
+  ): IndexedCodeExample[] | null {
+    const uses = (example: IndexedCodeExample, api: RequestedApi) =>
+      example.apis.some((found) => this.matchesApi(found, api));
+    let missing = requested;
+    const cover: IndexedCodeExample[] = [];
+
+    while (missing.length > 0) {
+      let best: IndexedCodeExample | null = null;
+      let bestCount = 0;
+      for (const example of examples) {
+        const count = missing.filter((api) => uses(example, api)).length;
+        // Ties go to the shorter block
+        if (
+          count > bestCount ||
+          (count === bestCount &&
+            count > 0 &&
+            best &&
+            example.code.length < best.code.length)
+        ) {
+          best = example;
+          bestCount = count;
+        }
+      }
+      if (!best) return null;
+      cover.push(best);
+      missing = missing.filter((api) => !uses(best!, api));
+    }
+
+    // In the order the methods were requested
+    const firstUse = (example: IndexedCodeExample) =>
+      requested.findIndex((api) => uses(example, api));
+    return cover.sort((a, b) => firstUse(a) - firstUse(b));
+  }
+
+  /**
+   * SDK of an example: its page's language, else its own
+   */
+  private sdkOf(example: IndexedCodeExample): string {
+    const language = example.sdkLanguage ?? example.language;
+    return specLanguage(language);
+  }
+
+  private toMatch(
+    examples: IndexedCodeExample[],
+    apis: string[],
+    score: number
+  ): CodeExampleMatch {
+    return {
+      title: Array.from(new Set(examples.map((e) => e.documentTitle))).join(
+        ' + '
+      ),
+      score,
+      apis,
+      examples,
+    };
+  }
+}
@@ -0,0 +1,128 @@
+import type {
+  DocumentSection,
+  ParsedMDXDocument,
+} from '../../types/documentation-types.js';
+
+interface MarkdownSection {
+  heading: string;
+  /** GitHub-style anchor; empty for text before the first heading */
+  anchor: string;
+  /** Heading level (1-6), 0 for text before the first heading */
+  level: number;
+  /** Enclosing headings, outermost first, ending with this heading */
+  headings: string[];
+  content: string;
+}
+
+const HEADING_PATTERN = /^(#{1,6})\s+(.+?)\s*#*\s*$/;
+
+/**
+ * GitHub-style slug of a heading
+ */
+export const slugify = (heading: string): string =>
+  heading
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s-]/gu, '')
+    .trim()
+    .replace(/\s/g, '-');
+
+/**
+ * Split markdown at every heading outside code fences. Each section holds
+ * its heading line and the text up to the next heading of any level.
+ */
+export const splitMarkdownSections = (markdown: string): MarkdownSection[] => {
+  const sections: MarkdownSection[] = [];
+  const seen = new Map<string, number>();
+  const stack: { level: number; heading: string }[] = [];
+  let current: MarkdownSection = {
+    heading: '',
+    anchor: '',
+    level: 0,
+    headings: [],
+    content: '',
+  };
+  let lines: string[] = [];
+  let inCodeBlock = false;
+
+  const close = () => {
+    sections.push({ ...current, content: lines.join('\n').trim() });
+  };
+
+  for (const line of markdown.split('\n')) {
+    if (line.trimStart().startsWith('```')) {
+      inCodeBlock = !inCodeBlock;
+    }
+
+    const match = !inCodeBlock && HEADING_PATTERN.exec(line);
+    if (!match) {
+      lines.push(line);
+      continue;
+    }
+
+    close();
+
+    const level = match[1].length;
+    const heading = match[2].replace(/[`*_]/g, '');
+    const slug = slugify(heading);
+    const count = seen.get(slug) ?? 0;
+    seen.set(slug, count + 1);
+
+    while (stack.length > 0 && stack[stack.length - 1].level >= level) {
+      stack.pop();
+    }
+    stack.push({ level, heading });
+
+    current = {
+      heading,
+      anchor: count > 0 ? `${slug}-${count}` : slug,
+      level,
+      headings: stack.map((entry) => entry.heading),
+      content: '',
+    };
+    lines = [line];
+  }
+  close();
+
+  return sections;
+};
+
+/**
+ * Searchable sections of a document: sections with text besides their
+ * heading, with the heading path from the document title down and the code
+ * blocks they contain
+ */
+export const getDocumentSections = (
+  doc: ParsedMDXDocument
+): DocumentSection[] => {
+  const title = doc.metadata.title;
+
+  return splitMarkdownSections(doc.content.markdown)
+    .filter((section) => {
+      // Skip headings directly followed by a subheading
+      const body =
+        section.level > 0
+          ? section.content.split('\n').slice(1).join('\n')
+          : section.content;
+      return body.trim().length > 0;
+    })
+    .map((section) => {
+      // A leading H1 usually repeats the title
+      const headings =
+        section.headings[0]?.toLowerCase() === title.toLowerCase()
+          ? section.headings.slice(1)
+          : section.headings;
+
+      return {
+        id: section.anchor ? `${doc.id}#${section.anchor}` : doc.id,
+        documentId: doc.id,
+        anchor: section.anchor,
+        heading: section.heading || title,
+        headingPath: [title, ...headings],
+        level: section.level,
+        content: section.content,
+        codeBlocks: doc.content.codeBlocks.filter(
+          (block) => block.code.trim() && section.content.includes(block.code)
+        ),
+      };
+    });
+};
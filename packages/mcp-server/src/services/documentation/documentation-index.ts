@@ -6,7 +6,7 @@
  */
 
 import { readdir, stat } from 'fs/promises';
-import { join } from 'path';
+import { join, resolve } from 'path';
 import { RecursiveCharacterTextSplitter } from '@langchain/textsplitters';
 import { HierarchicalTextSplitter } from './hierarchical-text-splitter.js';
 import type {
@@ -14,21 +14,47 @@ import type {
   DocumentationResult,
   DocumentationSearchFilters,
   IndexResult,
+  DocumentUpdateResult,
   DocumentationStats,
   CodeExample,
   RelatedDocument,
   AIInsights,
+  DocumentAnchor,
+  DocumentSection,
+  VectorSearchResult,
 } from '../../types/documentation-types.js';
 import { MDXProcessorService } from './mdx-processor.js';
 import { VectorService } from './vector-service.js';
 import { createVectorAdapter } from '../vector/adapter-factory.js';
+import { countTokens, tokenize } from '../search/identifier-tokenizer.js';
+import {
+  getDocumentSections,
+  splitMarkdownSections,
+} from './document-sections.js';
+import { fuseRankings, resolveFusionMethod } from '../search/score-fusion.js';
+import {
+  boostLanguage,
+  matchesResultType,
+  resolveWeights,
+  type SearchOptions,
+} from '../search/search-options.js';
 import { startSpan, setSpanAttributes } from '../../common/otel.js';
 import { trace, SpanStatusCode } from '@opentelemetry/api';
 
+/** Sections of one document returned by a single search at most */
+const MAX_SECTIONS_PER_DOCUMENT = 2;
+
 export class DocumentationIndexService {
   private mdxProcessor: MDXProcessorService;
   private vectorService: VectorService;
   private documents: Map<string, ParsedMDXDocument> = new Map();
+  /** Sections per document, split on first search */
+  private sections = new WeakMap<ParsedMDXDocument, DocumentSection[]>();
+  /** Token frequencies per section and document, computed on first search */
+  private tokenCounts = new WeakMap<
+    DocumentSection | ParsedMDXDocument,
+    Map<string, number>
+  >();
   private textSplitter:
     | RecursiveCharacterTextSplitter
     | HierarchicalTextSplitter;
@@ -121,17 +147,76 @@ export class DocumentationIndexService {
   }
 
   /**
-   * Search documents using semantic similarity and filters
+   * Re-parse changed MDX files and drop removed ones. Only documents whose
+   * content hash differs from the indexed version are re-embedded.
+   */
+  async updateDocuments(
+    changedFiles: string[],
+    removedFiles: string[] = []
+  ): Promise<DocumentUpdateResult> {
+    return startSpan('docs.updateDocuments', async () => {
+      const updated: ParsedMDXDocument[] = [];
+      const errors: string[] = [];
+
+      for (const filePath of changedFiles) {
+        try {
+          const parsedDoc = await this.mdxProcessor.parseMDXFile(filePath);
+          if (
+            this.documents.get(parsedDoc.id)?.contentHash ===
+            parsedDoc.contentHash
+          ) {
+            continue;
+          }
+          this.documents.set(parsedDoc.id, parsedDoc);
+          updated.push(parsedDoc);
+        } catch (error) {
+          errors.push(
+            `Failed to process ${filePath}: ${error instanceof Error ? error.message : 'Unknown error'}`
+          );
+        }
+      }
+
+      const removedPaths = new Set(removedFiles.map((file) => resolve(file)));
+      const removed = Array.from(this.documents.values())
+        .filter((doc) => removedPaths.has(resolve(doc.metadata.filePath)))
+        .map((doc) => doc.id);
+      for (const id of removed) {
+        this.documents.delete(id);
+      }
+
+      if (await this.vectorService.isAvailable()) {
+        if (updated.length > 0) {
+          await this.vectorService.indexDocuments(updated);
+        }
+        await this.vectorService.removeDocuments(removed);
+      }
+
+      setSpanAttributes({
+        updatedDocuments: updated.length,
+        removedDocuments: removed.length,
+      });
+
+      return { updated: updated.map((doc) => doc.id), removed, errors };
+    });
+  }
+
+  /**
+   * Search documentation sections using semantic similarity and filters.
+   * Each result is one section of a document, with its heading path and code.
    */
   async searchDocuments(
     query: string,
     filters?: DocumentationSearchFilters,
-    limit: number = 5
+    limit: number = 5,
+    options: SearchOptions = {}
   ): Promise<DocumentationResult[]> {
     this.ensureInitialized();
+    const fusionMethod = resolveFusionMethod(options.fusion);
 
     // First, filter documents based on metadata filters
-    let candidateDocuments = Array.from(this.documents.values());
+    let candidateDocuments = Array.from(this.documents.values()).filter((doc) =>
+      matchesResultType(options, doc.metadata.category)
+    );
 
     if (filters) {
       candidateDocuments = this.applyFilters(candidateDocuments, filters);
@@ -140,10 +225,7 @@ export class DocumentationIndexService {
     // ----- Hybrid search: combine semantic (vector) and lexical (BM25-ish) -----
     return startSpan('docs.hybridSearch', async () => {
       // 1. Semantic search (vector embeddings)
-      let semanticResults: {
-        documentId: string;
-        score: number;
-      }[] = [];
+      let semanticResults: VectorSearchResult[] = [];
       let semanticSearchFailed = false;
 
       if (
@@ -151,15 +233,11 @@ export class DocumentationIndexService {
         candidateDocuments.length > 0
       ) {
         try {
-          const vecRes = await this.vectorService.semanticSearch(
+          semanticResults = await this.vectorService.semanticSearch(
             query,
             filters,
             limit * 2 // fetch more to merge later
           );
-          semanticResults = vecRes.map((r) => ({
-            documentId: r.documentId,
-            score: r.score,
-          }));
         } catch (error) {
           semanticSearchFailed = true;
           console.warn(
@@ -178,89 +256,77 @@ export class DocumentationIndexService {
         }
       }
 
-      // 2. Lexical BM25-ish text search
-      const lowerQuery = query.toLowerCase();
-      const textScores = candidateDocuments.map((doc) => {
-        const content =
-          `${doc.metadata.title} ${doc.content.markdown}`.toLowerCase();
-        const score = this.calculateTextScore(content, lowerQuery);
-        return { doc, score };
-      });
-
-      const maxTextScore = Math.max(1, ...textScores.map((t) => t.score));
-
-      // Constants for default weights
-      const DEFAULT_LEXICAL_WEIGHT = 0.5;
-      const DEFAULT_SEMANTIC_WEIGHT = 0.5;
-
-      // 3. Combine scores
-      const lexicalWeight = Math.max(
-        0,
-        Math.min(1, Number(process.env.TEXT_WEIGHT ?? DEFAULT_LEXICAL_WEIGHT))
+      // 2. Lexical BM25-ish text search over sections
+      const queryTokens = tokenize(query);
+      const textScores = candidateDocuments.flatMap((doc) =>
+        this.getSections(doc).map((section) => ({
+          section,
+          score: this.calculateTextScore(section, queryTokens),
+        }))
       );
-      const semanticWeight = Math.max(
-        0,
-        Math.min(
-          1,
-          Number(process.env.VECTOR_WEIGHT ?? DEFAULT_SEMANTIC_WEIGHT)
-        )
+      const lexicalScores = new Map(
+        textScores.map(({ section, score }) => [section.id, score])
       );
 
-      // Ensure weights sum to 1 for stability
-      // Edge case: if both weights are 0 (user set both TEXT_WEIGHT and VECTOR_WEIGHT to 0),
-      // we fall back to equal weighting (0.5 each) to prevent division by zero and ensure
-      // the search still functions with balanced scoring
-      const weightSum = lexicalWeight + semanticWeight;
-      const lexW =
-        weightSum === 0 ? DEFAULT_LEXICAL_WEIGHT : lexicalWeight / weightSum;
-      const semW =
-        weightSum === 0 ? DEFAULT_SEMANTIC_WEIGHT : semanticWeight / weightSum;
-
-      const combinedMap = new Map<
-        string,
-        { doc: ParsedMDXDocument; score: number }
-      >();
-
-      // Add lexical scores
-      for (const { doc, score } of textScores) {
-        if (score === 0) continue;
-        const normalized = score / maxTextScore; // 0..1
-        combinedMap.set(doc.id, { doc, score: normalized * lexW });
-      }
+      // Vectors are per document or code block; attribute each to a section
+      const sections = new Map(
+        textScores.map(({ section }) => [section.id, section])
+      );
+      const categoryOf = (section: DocumentSection) =>
+        this.documents.get(section.documentId)?.metadata.category;
+      const semanticSections = semanticResults.flatMap((sem) => {
+        const section = this.findSection(sem, lexicalScores);
+        if (!section || !matchesResultType(options, categoryOf(section))) {
+          return [];
+        }
+        sections.set(section.id, section);
+        return [{ id: section.id, score: sem.score }];
+      });
 
-      // Add semantic scores
-      for (const sem of semanticResults) {
-        const doc = this.documents.get(sem.documentId);
-        if (!doc) continue;
-        const current = combinedMap.get(doc.id)?.score ?? 0;
-        combinedMap.set(doc.id, {
-          doc,
-          score: current + sem.score * semW,
-        });
-      }
+      // 3. Fuse rankings (weights default to TEXT_WEIGHT/VECTOR_WEIGHT)
+      const { textWeight: lexicalWeight, vectorWeight: semanticWeight } =
+        resolveWeights(options, 'docs');
+
+      const fused = fuseRankings(
+        [
+          {
+            results: textScores
+              .filter(({ score }) => score > 0)
+              .map(({ section, score }) => ({ id: section.id, score })),
+            weight: lexicalWeight,
+          },
+          { results: semanticSections, weight: semanticWeight },
+        ],
+        { method: fusionMethod }
+      );
+      const top = this.limitSectionsPerDocument(
+        boostLanguage(
+          fused.map(({ id, score }) => ({ section: sections.get(id)!, score })),
+          ({ section }) =>
+            this.documents.get(section.documentId)?.metadata.language,
+          options
+        ),
+        limit
+      );
 
       // Fallback: if semantic unavailable and no lexical results, run performTextSearch
-      if (combinedMap.size === 0) {
+      if (top.length === 0) {
         return this.performTextSearch(candidateDocuments, query, limit);
       }
 
-      // Sort and return top
-      const combinedSorted = Array.from(combinedMap.values())
-        .sort((a, b) => b.score - a.score)
-        .slice(0, limit);
-
       // Set span attributes for observability
       setSpanAttributes({
-        textWeight: lexW,
-        vectorWeight: semW,
+        fusion: fusionMethod,
+        textWeight: lexicalWeight,
+        vectorWeight: semanticWeight,
         lexicalCandidates: textScores.length,
         semanticCandidates: semanticResults.length,
         semanticSearchFailed,
-        combinedResultsCount: combinedSorted.length,
+        combinedResultsCount: top.length,
       });
 
-      return combinedSorted.map((item) =>
-        this.convertToDocumentationResult(item.doc, item.score)
+      return top.map(({ section, score }) =>
+        this.convertSectionToResult(section, score)
       );
     });
   }
@@ -305,6 +371,14 @@ export class DocumentationIndexService {
     );
   }
 
+  /**
+   * Get all indexed documents
+   */
+  getAllDocuments(): ParsedMDXDocument[] {
+    this.ensureInitialized();
+    return Array.from(this.documents.values());
+  }
+
   /**
    * Get service statistics
    */
@@ -400,55 +474,132 @@ export class DocumentationIndexService {
     query: string,
     limit: number
   ): DocumentationResult[] {
-    const lowerQuery = query.toLowerCase();
-    const scored = documents.map((doc) => {
-      const content =
-        `${doc.metadata.title} ${doc.content.markdown}`.toLowerCase();
-      const score = this.calculateTextScore(content, lowerQuery);
-      return { doc, score };
-    });
+    const queryTokens = tokenize(query);
+    const scored = documents.flatMap((doc) =>
+      this.getSections(doc).map((section) => ({
+        section,
+        score: this.calculateTextScore(section, queryTokens),
+      }))
+    );
 
-    return scored
-      .filter((item) => item.score > 0)
-      .sort((a, b) => b.score - a.score)
-      .slice(0, limit)
-      .map((item) => this.convertToDocumentationResult(item.doc, item.score));
+    return this.limitSectionsPerDocument(
+      scored.filter((item) => item.score > 0).sort((a, b) => b.score - a.score),
+      limit
+    ).map((item) => this.convertSectionToResult(item.section, item.score));
   }
 
   /**
-   * Calculate text-based similarity score
+   * Take the first `limit` ranked sections, at most
+   * MAX_SECTIONS_PER_DOCUMENT from any one document so other documents
+   * still make the list
    */
-  private calculateTextScore(content: string, query: string): number {
-    const queryWords = query.split(/\s+/);
-    let score = 0;
+  private limitSectionsPerDocument<T extends { section: DocumentSection }>(
+    ranked: T[],
+    limit: number
+  ): T[] {
+    const perDocument = new Map<string, number>();
+    return ranked
+      .filter(({ section }) => {
+        const count = perDocument.get(section.documentId) ?? 0;
+        perDocument.set(section.documentId, count + 1);
+        return count < MAX_SECTIONS_PER_DOCUMENT;
+      })
+      .slice(0, limit);
+  }
 
-    for (const word of queryWords) {
-      if (word.length < 3) continue; // Skip very short words
+  /**
+   * Sections of a document, split on first use
+   */
+  private getSections(doc: ParsedMDXDocument): DocumentSection[] {
+    let sections = this.sections.get(doc);
+    if (!sections) {
+      sections = getDocumentSections(doc);
+      this.sections.set(doc, sections);
+    }
+    return sections;
+  }
 
-      try {
-        // Escape special regex characters to handle things like "C++"
-        const escapedWord = word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-        const regex = new RegExp(escapedWord, 'gi');
-        const matches = content.match(regex);
-        if (matches) {
-          score += matches.length;
-        }
-      } catch (error) {
-        // If regex still fails, fall back to simple string matching
-        console.warn(
-          `Regex failed for word "${word}", using string matching:`,
-          error
-        );
-        const lowerWord = word.toLowerCase();
-        const lowerContent = content.toLowerCase();
-        let index = 0;
-        while ((index = lowerContent.indexOf(lowerWord, index)) !== -1) {
-          score++;
-          index += lowerWord.length;
-        }
+  /**
+   * Section a vector hit belongs to: the section holding a code block hit,
+   * otherwise the best lexical match of the document, otherwise its first
+   * section
+   */
+  private findSection(
+    hit: VectorSearchResult,
+    lexicalScores: Map<string, number>
+  ): DocumentSection | undefined {
+    // Code block vectors are stored as `<document>_code_<n>`
+    const doc = this.documents.get(
+      hit.type === 'code' ? hit.metadata.parentId : hit.documentId
+    );
+    if (!doc) return undefined;
+    const sections = this.getSections(doc);
+
+    if (hit.type === 'code') {
+      const section = sections.find((s) =>
+        s.codeBlocks.some((block) => hit.content.endsWith(block.code))
+      );
+      if (section) return section;
+    }
+
+    let best: DocumentSection | undefined;
+    for (const section of sections) {
+      if (
+        (lexicalScores.get(section.id) ?? 0) >
+        (best ? (lexicalScores.get(best.id) ?? 0) : 0)
+      ) {
+        best = section;
       }
     }
+    return best ?? sections[0];
+  }
 
+  /**
+   * Calculate text-based similarity score: occurrences of the query tokens
+   * in the section and its heading path, with identifiers split into words.
+   * Matches elsewhere in the document count too, so a section of a document
+   * about the query outranks a passing mention in another one.
+   */
+  private calculateTextScore(
+    section: DocumentSection,
+    queryTokens: string[]
+  ): number {
+    const doc = this.documents.get(section.documentId);
+    return (
+      this.countMatches(
+        section,
+        `${section.headingPath.join(' ')} ${section.content}`,
+        queryTokens
+      ) +
+      (doc
+        ? this.countMatches(
+            doc,
+            `${doc.metadata.title} ${doc.content.markdown}`,
+            queryTokens
+          )
+        : 0)
+    );
+  }
+
+  /**
+   * Occurrences of the query tokens in a text, with token frequencies cached
+   * per section or document
+   */
+  private countMatches(
+    key: DocumentSection | ParsedMDXDocument,
+    text: string,
+    queryTokens: string[]
+  ): number {
+    let counts = this.tokenCounts.get(key);
+    if (!counts) {
+      counts = countTokens(text);
+      this.tokenCounts.set(key, counts);
+    }
+
+    let score = 0;
+    for (const token of queryTokens) {
+      score += counts.get(token) ?? 0;
+    }
     return score;
   }
 
@@ -588,9 +739,45 @@ export class DocumentationIndexService {
       relatedDocs: [], // Will be populated by getRelatedDocuments if needed
       score,
       aiInsights,
+      anchors: this.extractAnchors(markdownContent),
+    };
+  }
+
+  /**
+   * Convert a document section to a section-level documentation result
+   */
+  private convertSectionToResult(
+    section: DocumentSection,
+    score: number
+  ): DocumentationResult {
+    const doc = this.documents.get(section.documentId)!;
+    const result = this.convertToDocumentationResult(doc, score);
+
+    return {
+      ...result,
+      id: section.id,
+      content: section.content,
+      codeExamples: result.codeExamples.filter((example) =>
+        section.codeBlocks.some((block) => block.code === example.code)
+      ),
+      section: {
+        anchor: section.anchor,
+        heading: section.heading,
+        headingPath: section.headingPath,
+        level: section.level,
+      },
     };
   }
 
+  /**
+   * Extract section headings and their GitHub-style anchors
+   */
+  private extractAnchors(markdown: string): DocumentAnchor[] {
+    return splitMarkdownSections(markdown)
+      .filter((section) => section.level > 0)
+      .map(({ heading, anchor, level }) => ({ heading, anchor, level }));
+  }
+
   /**
    * Determine code complexity level
    */
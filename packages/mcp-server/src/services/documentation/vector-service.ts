@@ -1,8 +1,8 @@
 /**
  * Vector Service for Documentation
  *
- * Handles vector embeddings and semantic search using OpenAI embeddings
- * and Qdrant vector database for MDX documentation.
+ * Handles vector embeddings and semantic search using the configured
+ * embedding provider and Qdrant vector database for MDX documentation.
  * Uses dynamic imports to handle optional dependencies gracefully.
  */
 
@@ -11,20 +11,24 @@ import type {
   DocumentationSearchFilters,
   VectorSearchResult,
 } from '../../types/documentation-types.js';
-import { OpenAIEmbeddings } from '@langchain/openai';
 import { QdrantVectorStore } from '@langchain/qdrant';
 import { Document } from '@langchain/core/documents';
 import fs from 'fs';
 import path from 'path';
 import {
+  getEmbeddingModel,
   getVectorConfig,
+  type EmbeddingProviderName,
   type VectorConfig,
 } from '../../config/vector-config.js';
 import { VectorStoreAdapter } from '../vector/vector-adapter.js';
+import { EmbeddingProvider } from '../vector/embedding-provider.js';
+import { createEmbeddingProvider } from '../vector/embedding-provider-factory.js';
 import eventBus from '../../common/event-bus.js';
 import { startSpan } from '../../common/otel.js';
 
 export interface VectorServiceConfig {
+  embeddingProvider?: EmbeddingProviderName;
   openaiApiKey?: string;
   qdrantUrl?: string;
   qdrantApiKey?: string;
@@ -43,7 +47,7 @@ export interface DocumentIndexStatus {
 }
 
 export class VectorService implements VectorStoreAdapter {
-  private embeddings: any = null;
+  private embeddings: EmbeddingProvider | null = null;
   private vectorStore: any = null;
   private adapter?: VectorStoreAdapter;
   public config: VectorServiceConfig; // Made public for configuration access
@@ -55,11 +59,20 @@ export class VectorService implements VectorStoreAdapter {
     // Use the centralized configuration with fallback to passed config
     const defaultConfig = getVectorConfig();
 
+    const embeddingProvider =
+      config.embeddingProvider || defaultConfig.embedding.provider;
+
     this.config = {
+      embeddingProvider,
       openaiApiKey: config.openaiApiKey || defaultConfig.openai.apiKey,
       qdrantUrl: config.qdrantUrl || defaultConfig.qdrant.url,
       qdrantApiKey: config.qdrantApiKey || defaultConfig.qdrant.apiKey,
-      embeddingModel: config.embeddingModel || defaultConfig.openai.model,
+      embeddingModel:
+        config.embeddingModel ||
+        getEmbeddingModel({
+          ...defaultConfig,
+          embedding: { provider: embeddingProvider },
+        }),
       collectionName:
         config.collectionName || defaultConfig.qdrant.collectionName,
       forceReindex: config.forceReindex || defaultConfig.caching.forceReindex,
@@ -81,28 +94,37 @@ export class VectorService implements VectorStoreAdapter {
     console.log(`   - Collection: ${this.config.collectionName}`);
     console.log(`   - Cache file: ${this.indexCacheFile}`);
     console.log(`   - Force reindex: ${this.config.forceReindex}`);
-    console.log(`   - OpenAI enabled: ${!!this.config.openaiApiKey}`);
+    console.log(
+      `   - Embeddings: ${this.config.embeddingProvider} (${this.config.embeddingModel})`
+    );
   }
 
   /**
-   * Initialize the vector service with OpenAI embeddings and Qdrant
+   * Initialize the vector service with the configured embeddings and Qdrant
    */
   async initialize(): Promise<void> {
     try {
-      if (!this.config.openaiApiKey) {
+      if (
+        this.config.embeddingProvider === 'openai' &&
+        !this.config.openaiApiKey
+      ) {
         console.warn(
           'OpenAI API key not provided. Vector search will be disabled.'
         );
         return;
       }
 
-      // Initialize OpenAI embeddings
-      this.embeddings = new OpenAIEmbeddings({
-        openAIApiKey: this.config.openaiApiKey,
-        modelName: this.config.embeddingModel,
-        batchSize: 512, // Optimize for performance
-        stripNewLines: true,
-      });
+      // A pluggable store brings its own embeddings
+      if (this.adapter) {
+        await this.adapter.initialize();
+        this.initialized = true;
+        eventBus.emit('vector.initialized');
+        console.log('✅ Vector service initialized with pluggable adapter');
+        return;
+      }
+
+      this.embeddings = createEmbeddingProvider(this.buildEmbeddingConfig());
+      await this.embeddings.initialize();
 
       // Initialize Qdrant vector store
       this.vectorStore = new QdrantVectorStore(this.embeddings, {
@@ -124,6 +146,33 @@ export class VectorService implements VectorStoreAdapter {
     }
   }
 
+  /**
+   * Vector config with the embedding settings of this service applied
+   */
+  private buildEmbeddingConfig(): VectorConfig {
+    const vectorConfig = getVectorConfig();
+    const provider = this.config.embeddingProvider!;
+    const model = this.config.embeddingModel!;
+
+    return {
+      ...vectorConfig,
+      embedding: { provider },
+      openai: {
+        ...vectorConfig.openai,
+        apiKey: this.config.openaiApiKey,
+        ...(provider === 'openai' && { model }),
+      },
+      local: {
+        ...vectorConfig.local,
+        ...(provider === 'local' && { model }),
+      },
+      ollama: {
+        ...vectorConfig.ollama,
+        ...(provider === 'ollama' && { model }),
+      },
+    };
+  }
+
   /**
    * Check if vector service is available
    */
@@ -245,6 +294,27 @@ export class VectorService implements VectorStoreAdapter {
     });
   }
 
+  /**
+   * Remove the vectors of deleted documents
+   */
+  async removeDocuments(documentIds: string[]): Promise<void> {
+    return startSpan('vector.removeDocuments', async () => {
+      if (documentIds.length === 0 || !(await this.isAvailable())) return;
+
+      if (this.adapter) {
+        await this.adapter.removeDocuments?.(documentIds);
+      } else {
+        await this.loadDocumentIndex();
+        for (const documentId of documentIds) {
+          await this.removeDocumentFromIndex(documentId);
+        }
+        await this.saveDocumentIndex();
+      }
+
+      eventBus.emit('vector.index.removed', documentIds);
+    });
+  }
+
   /**
    * Perform semantic search using vector embeddings
    */
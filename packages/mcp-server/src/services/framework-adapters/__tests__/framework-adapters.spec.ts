@@ -0,0 +1,88 @@
+import { NodeAdapter } from '../node-adapter.js';
+import { VanillaAdapter } from '../vanilla-adapter.js';
+import { VueAdapter } from '../vue-adapter.js';
+
+const CONNECT = `import { Endpoint } from '@simplito/privmx-webendpoint';
+await Endpoint.setup('/privmx-assets');
+const connection = await Endpoint.connect(userPrivateKey, solutionId, bridgeUrl);`;
+
+describe('framework adapters', () => {
+  it.each([
+    ['vue', new VueAdapter()],
+    ['vanilla', new VanillaAdapter()],
+    ['nodejs', new NodeAdapter()],
+  ])('%s generates a project configuration', async (_name, adapter) => {
+    const configs = await adapter.generateProjectConfiguration('My App', {
+      language: 'javascript',
+    });
+
+    expect(JSON.parse(configs['package.json']).name).toBe('my-app');
+    expect(adapter.getProjectStructure().requiredFiles).toContain(
+      'package.json'
+    );
+  });
+
+  describe('VueAdapter', () => {
+    const adapter = new VueAdapter();
+
+    it('wraps plain code in a composable with imports at module level', async () => {
+      const code = await adapter.adaptCode(CONNECT, { language: 'typescript' });
+
+      expect(code).toMatch(/^import /);
+      expect(code).toContain('export function usePrivMX()');
+      expect(code).toContain('connection.value = await Endpoint.connect');
+      expect(code.match(/from '@simplito\/privmx-webendpoint'/g)).toHaveLength(
+        1
+      );
+    });
+
+    it('rejects SDK objects in deep refs', async () => {
+      const result = await adapter.validateCode(
+        'const connection = ref(await Endpoint.connect(key, id, url));'
+      );
+
+      expect(result.isValid).toBe(false);
+    });
+  });
+
+  describe('VanillaAdapter', () => {
+    const adapter = new VanillaAdapter();
+
+    it('replaces SDK imports with the bundle global', async () => {
+      const code = await adapter.adaptCode(CONNECT, { language: 'javascript' });
+
+      expect(code).not.toContain('@simplito/privmx-webendpoint');
+      expect(code).toContain('window.PrivmxWebEndpoint');
+      expect(code).toContain('export async function start(');
+    });
+
+    it('rejects code needing a bundler', async () => {
+      const result = await adapter.validateCode(CONNECT);
+
+      expect(result.isValid).toBe(false);
+    });
+  });
+
+  describe('NodeAdapter', () => {
+    const adapter = new NodeAdapter();
+
+    it('serves plain code from a Fastify route when Fastify is a dependency', async () => {
+      const code = await adapter.adaptCode(
+        "await bridge.call('context/list', {});",
+        { language: 'javascript', existingDependencies: ['fastify'] }
+      );
+
+      expect(code).toContain("import Fastify from 'fastify';");
+      expect(code).toContain("app.post('/api/privmx'");
+    });
+
+    it('rejects the browser-only Web Endpoint and hard-coded API keys', async () => {
+      const result = await adapter.validateCode(
+        `${CONNECT}\nconst auth = { apiKeySecret: 'secret' };`
+      );
+
+      expect(result.isValid).toBe(false);
+      expect(result.issues).toHaveLength(2);
+    });
+  });
+});
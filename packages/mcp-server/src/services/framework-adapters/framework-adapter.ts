@@ -0,0 +1,38 @@
+/**
+ * Framework Adapter contract
+ * Adapters turn generic PrivMX code and projects into framework-specific ones
+ */
+
+import { CodeContext, ValidationResult } from '../../types/index.js';
+
+export interface ConfigFile {
+  filename: string;
+  content: string;
+  description: string;
+}
+
+export interface ProjectStructure {
+  directories: string[];
+  requiredFiles: string[];
+  conventions: CodeConvention[];
+}
+
+export interface CodeConvention {
+  rule: string;
+  description: string;
+  example?: string;
+}
+
+export interface FrameworkAdapter {
+  name: string;
+  supportedLanguages: string[];
+  adaptCode(code: string, context: CodeContext): Promise<string>;
+  generateImports(dependencies: string[]): string;
+  generateConfig(): ConfigFile[];
+  generateProjectConfiguration(
+    projectName: string,
+    context: CodeContext
+  ): Promise<Record<string, string>>;
+  validateCode(code: string): Promise<ValidationResult>;
+  getProjectStructure(): ProjectStructure;
+}
@@ -0,0 +1,626 @@
+/**
+ * Node.js Framework Adapter
+ * Adapts generic PrivMX code to an Express or Fastify server calling the
+ * PrivMX Bridge API
+ */
+
+import { CodeContext, ValidationResult } from '../../types/index.js';
+import {
+  ConfigFile,
+  FrameworkAdapter,
+  ProjectStructure,
+} from './framework-adapter.js';
+
+type ServerFramework = 'express' | 'fastify';
+
+export class NodeAdapter implements FrameworkAdapter {
+  name = 'Node.js';
+  supportedLanguages = ['javascript', 'typescript'];
+
+  /**
+   * Adapt generic code to a server route
+   */
+  async adaptCode(code: string, context: CodeContext): Promise<string> {
+    let adaptedCode = code;
+
+    // The Web Endpoint needs a browser; servers manage users and
+    // containers through the Bridge API
+    if (this.usesWebEndpoint(adaptedCode)) {
+      adaptedCode = this.addWebEndpointNote(adaptedCode);
+    }
+
+    // Serve plain code from a route
+    if (!this.isServerCode(adaptedCode)) {
+      adaptedCode = this.wrapInRoute(
+        adaptedCode,
+        this.serverFramework(context),
+        context.language === 'typescript'
+      );
+    }
+
+    return adaptedCode;
+  }
+
+  /**
+   * Generate server imports
+   */
+  generateImports(dependencies: string[]): string {
+    const imports = dependencies.includes('fastify')
+      ? ["import Fastify from 'fastify';"]
+      : ["import express from 'express';"];
+    imports.push("import { BridgeClient } from './bridge-client.js';");
+
+    if (dependencies.includes('threads')) {
+      imports.push('// Thread management through thread/* Bridge methods');
+    }
+    if (dependencies.includes('stores')) {
+      imports.push('// Store management through store/* Bridge methods');
+    }
+    if (dependencies.includes('inboxes')) {
+      imports.push('// Inbox management through inbox/* Bridge methods');
+    }
+
+    return imports.join('\n');
+  }
+
+  /**
+   * Generate Node.js project configuration files
+   */
+  generateConfig(): ConfigFile[] {
+    return [
+      {
+        filename: 'package.json',
+        content: this.generatePackageJson('privmx-server', 'express', true),
+        description: 'Server dependencies and scripts',
+      },
+      {
+        filename: 'src/bridge-client.ts',
+        content: this.generateBridgeClient(true),
+        description: 'PrivMX Bridge JSON-RPC client with access tokens',
+      },
+      {
+        filename: 'src/server.ts',
+        content: this.generateServer('express', true),
+        description: 'Express server registering users in a Context',
+      },
+      {
+        filename: '.env.example',
+        content: this.generateEnvExample(),
+        description: 'Bridge URL and API key settings',
+      },
+      {
+        filename: 'README.md',
+        content: this.generateReadme(),
+        description: 'Project setup and usage instructions',
+      },
+    ];
+  }
+
+  /**
+   * Validate Node.js server code for common issues
+   */
+  async validateCode(code: string): Promise<ValidationResult> {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+    const suggestions: string[] = [];
+
+    if (this.usesWebEndpoint(code)) {
+      errors.push(
+        'The PrivMX Web Endpoint runs in the browser only. Call the PrivMX Bridge API from Node.js'
+      );
+    }
+
+    if (/apiKey(?:Id|Secret)\s*[:=]\s*['"`]/.test(code)) {
+      errors.push(
+        'Read the Bridge API key from environment variables instead of hard-coding it'
+      );
+    }
+
+    // Express 4 does not catch rejected promises of route handlers
+    if (
+      /\b(?:app|router)\.(?:get|post|put|patch|delete)\([^)]*async\b/.test(
+        code
+      ) &&
+      !code.includes('fastify') &&
+      !code.includes('try {')
+    ) {
+      warnings.push(
+        'Async Express handlers must catch errors and pass them to next()'
+      );
+    }
+
+    if (code.includes('jsonrpc') && !/\.error\b|'error' in/.test(code)) {
+      warnings.push(
+        'Check the error field of Bridge JSON-RPC responses before using the result'
+      );
+    }
+
+    if (/manager\/auth/.test(code) && !/expir/i.test(code)) {
+      suggestions.push(
+        'Reuse the Bridge access token until it expires instead of authenticating on every call'
+      );
+    }
+
+    if (/\.listen\(\s*\d+/.test(code)) {
+      suggestions.push('Read the port from process.env.PORT');
+    }
+
+    if (
+      code.includes('req.body') &&
+      code.includes('express') &&
+      !code.includes('express.json()')
+    ) {
+      suggestions.push('Parse JSON bodies with app.use(express.json())');
+    }
+
+    return {
+      isValid: errors.length === 0,
+      issues: [...errors, ...warnings],
+      suggestions,
+    };
+  }
+
+  /**
+   * Get Node.js project structure
+   */
+  getProjectStructure(): ProjectStructure {
+    return {
+      directories: ['src', 'src/routes', 'src/services', 'src/config'],
+      requiredFiles: [
+        'package.json',
+        '.env.example',
+        'tsconfig.json',
+        'src/server.ts',
+        'src/bridge-client.ts',
+      ],
+      conventions: [
+        {
+          rule: 'All Bridge calls go through one BridgeClient',
+          description:
+            'It owns the access token and turns JSON-RPC errors into exceptions',
+          example: "await bridge.call('context/addUserToContext', { ... })",
+        },
+        {
+          rule: 'Configuration comes from environment variables',
+          description: 'API keys and the Bridge URL never live in source code',
+          example: 'process.env.PRIVMX_API_KEY_SECRET',
+        },
+        {
+          rule: 'Routes are grouped by resource in src/routes',
+          description: 'One module per resource keeps handlers small',
+          example: 'src/routes/users.ts',
+        },
+      ],
+    };
+  }
+
+  /**
+   * Check if code imports the browser-only Web Endpoint
+   */
+  private usesWebEndpoint(code: string): boolean {
+    return /privmx-webendpoint/.test(code);
+  }
+
+  /**
+   * Check if code already sets up a server
+   */
+  private isServerCode(code: string): boolean {
+    return /\b(?:express|Fastify|fastify)\(|\.listen\(/.test(code);
+  }
+
+  /**
+   * Framework of the project: Fastify when it is already a dependency
+   */
+  private serverFramework(context: CodeContext): ServerFramework {
+    return context.existingDependencies?.includes('fastify')
+      ? 'fastify'
+      : 'express';
+  }
+
+  /**
+   * Point out Web Endpoint code, which belongs in the client app
+   */
+  private addWebEndpointNote(code: string): string {
+    return `// The PrivMX Web Endpoint only runs in browsers: move this code to the client
+// and use bridge.call() with the Bridge API methods on the server
+${code}`;
+  }
+
+  /**
+   * Wrap generic code in a server with a single route
+   */
+  private wrapInRoute(
+    code: string,
+    framework: ServerFramework,
+    isTypeScript: boolean
+  ): string {
+    const port = 'Number(process.env.PORT) || 3000';
+    const { imports, body } = this.splitImports(code);
+    const codeImports = imports.map((line) => `${line}\n`).join('');
+
+    if (framework === 'fastify') {
+      return `import Fastify from 'fastify';
+import { BridgeClient } from './bridge-client.js';
+${codeImports}
+const bridge = BridgeClient.fromEnv();
+const app = Fastify({ logger: true });
+
+// Fastify sends rejected handlers as error responses
+app.post('/api/privmx', async (request) => {
+  ${this.indentCode(body, 2).trimStart()}
+
+  return { ok: true };
+});
+
+await app.listen({ port: ${port}, host: '0.0.0.0' });
+`;
+    }
+
+    return `import express from 'express';
+import { BridgeClient } from './bridge-client.js';
+${codeImports}
+const bridge = BridgeClient.fromEnv();
+const app = express();
+app.use(express.json());
+
+app.post('/api/privmx', async (req${isTypeScript ? ': express.Request' : ''}, res${isTypeScript ? ': express.Response' : ''}, next${isTypeScript ? ': express.NextFunction' : ''}) => {
+  try {
+    ${this.indentCode(body, 4).trimStart()}
+
+    res.json({ ok: true });
+  } catch (err) {
+    next(err);
+  }
+});
+
+app.listen(${port}, () => {
+  console.log('PrivMX server listening');
+});
+`;
+  }
+
+  /**
+   * Separate import statements, which must stay at module level
+   */
+  private splitImports(code: string): { imports: string[]; body: string } {
+    const imports = code.match(/^import\s.*$/gm) ?? [];
+    const body = code.replace(/^import\s.*$\n?/gm, '').trim();
+    return { imports: imports.map((line) => line.trim()), body };
+  }
+
+  /**
+   * Generate package.json for Node.js project
+   */
+  private generatePackageJson(
+    projectName: string,
+    framework: ServerFramework,
+    isTypeScript: boolean
+  ): string {
+    const scripts = isTypeScript
+      ? {
+          dev: 'tsx watch --env-file=.env src/server.ts',
+          build: 'tsc',
+          start: 'node --env-file=.env dist/server.js',
+        }
+      : {
+          dev: 'node --watch --env-file=.env src/server.js',
+          start: 'node --env-file=.env src/server.js',
+        };
+    const frameworkDependencies: Record<string, string> =
+      framework === 'fastify' ? { fastify: '^4.26.0' } : { express: '^4.19.0' };
+    const typeDependencies: Record<string, string> = isTypeScript
+      ? {
+          '@types/node': '^20.11.0',
+          ...(framework === 'express' ? { '@types/express': '^4.17.21' } : {}),
+          tsx: '^4.7.0',
+          typescript: '^5.4.0',
+        }
+      : {};
+
+    return JSON.stringify(
+      {
+        name: projectName.toLowerCase().replace(/\s+/g, '-'),
+        version: '1.0.0',
+        private: true,
+        type: 'module',
+        engines: { node: '>=20.6' },
+        scripts,
+        dependencies: frameworkDependencies,
+        devDependencies: typeDependencies,
+      },
+      null,
+      2
+    );
+  }
+
+  /**
+   * Generate the Bridge JSON-RPC client. It authenticates with API key
+   * credentials and reuses the access token until shortly before it expires.
+   */
+  private generateBridgeClient(isTypeScript: boolean): string {
+    const ts = (annotation: string) => (isTypeScript ? annotation : '');
+
+    return `/**
+ * PrivMX Bridge API client (https://bridge.privmx.dev)
+ */
+${ts(`
+interface BridgeResponse<T> {
+  result?: T;
+  error?: { code: number; message: string };
+}
+
+interface AccessToken {
+  accessToken: string;
+  accessTokenExpiry: number;
+}
+`)}
+export class BridgeClient {
+${ts(`  private token: AccessToken | null = null;
+  private requestId = 0;
+
+`)}  constructor(${ts('private readonly ')}bridgeUrl${ts(': string')}, ${ts('private readonly ')}apiKeyId${ts(': string')}, ${ts('private readonly ')}apiKeySecret${ts(': string')}) {${
+      isTypeScript
+        ? ''
+        : `
+    this.bridgeUrl = bridgeUrl;
+    this.apiKeyId = apiKeyId;
+    this.apiKeySecret = apiKeySecret;
+    this.token = null;
+    this.requestId = 0;
+  `
+    }}
+
+  static fromEnv() {
+    const { PRIVMX_BRIDGE_URL, PRIVMX_API_KEY_ID, PRIVMX_API_KEY_SECRET } = process.env;
+    if (!PRIVMX_BRIDGE_URL || !PRIVMX_API_KEY_ID || !PRIVMX_API_KEY_SECRET) {
+      throw new Error('Set PRIVMX_BRIDGE_URL, PRIVMX_API_KEY_ID and PRIVMX_API_KEY_SECRET');
+    }
+    return new BridgeClient(PRIVMX_BRIDGE_URL, PRIVMX_API_KEY_ID, PRIVMX_API_KEY_SECRET);
+  }
+
+  /**
+   * Call a Bridge method with a valid access token
+   */
+  async call${ts('<T = unknown>')}(method${ts(': string')}, params${ts(': Record<string, unknown>')} = {})${ts(': Promise<T>')} {
+    const token = await this.accessToken();
+    return this.request${ts('<T>')}(method, params, { Authorization: \`Bearer \${token}\` });
+  }
+
+  private async accessToken()${ts(': Promise<string>')} {
+    // Renew a minute early so no call races the expiry
+    if (!this.token || this.token.accessTokenExpiry - 60_000 < Date.now()) {
+      this.token = await this.request${ts('<AccessToken>')}('manager/auth', {
+        scope: ['solution:*', 'context'],
+        grantType: 'api_key_credentials',
+        apiKeyId: this.apiKeyId,
+        apiKeySecret: this.apiKeySecret,
+      });
+    }
+    return this.token.accessToken;
+  }
+
+  private async request${ts('<T>')}(method${ts(': string')}, params${ts(': Record<string, unknown>')}, headers${ts(': Record<string, string>')} = {})${ts(': Promise<T>')} {
+    const response = await fetch(new URL('/api', this.bridgeUrl), {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify({ jsonrpc: '2.0', id: ++this.requestId, method, params }),
+    });
+    const body${ts(': BridgeResponse<T>')} = await response.json();
+    if (body.error) {
+      throw new Error(\`Bridge \${method} failed: \${body.error.message} (\${body.error.code})\`);
+    }
+    if (!response.ok) {
+      throw new Error(\`Bridge \${method} failed with HTTP \${response.status}\`);
+    }
+    return body.result${ts(' as T')};
+  }
+}
+`;
+  }
+
+  /**
+   * Generate the server, which registers users' public keys in a Context
+   * so they can connect with their Endpoint
+   */
+  private generateServer(
+    framework: ServerFramework,
+    isTypeScript: boolean
+  ): string {
+    const userBody = isTypeScript
+      ? ' as { userId: string; userPubKey: string }'
+      : '';
+
+    if (framework === 'fastify') {
+      return `import Fastify from 'fastify';
+import { BridgeClient } from './bridge-client.js';
+
+const bridge = BridgeClient.fromEnv();
+const contextId = process.env.PRIVMX_CONTEXT_ID;
+const app = Fastify({ logger: true });
+
+app.get('/health', async () => ({ status: 'ok' }));
+
+// Give a user access to the Context so their Endpoint can connect
+app.post('/api/users', async (request, reply) => {
+  const { userId, userPubKey } = request.body${userBody};
+  await bridge.call('context/addUserToContext', { contextId, userId, userPubKey });
+  reply.code(201);
+  return { userId };
+});
+
+app.get('/api/users', async () =>
+  bridge.call('context/listUsersFromContext', { contextId, skip: 0, limit: 100, sortOrder: 'desc' })
+);
+
+await app.listen({ port: Number(process.env.PORT) || 3000, host: '0.0.0.0' });
+`;
+    }
+
+    const handlerTypes = isTypeScript
+      ? {
+          req: ': Request',
+          res: ': Response',
+          next: ': NextFunction',
+          err: ': Error',
+        }
+      : { req: '', res: '', next: '', err: '' };
+
+    return `import express${isTypeScript ? ', { type NextFunction, type Request, type Response }' : ''} from 'express';
+import { BridgeClient } from './bridge-client.js';
+
+const bridge = BridgeClient.fromEnv();
+const contextId = process.env.PRIVMX_CONTEXT_ID;
+const app = express();
+app.use(express.json());
+
+app.get('/health', (_req${handlerTypes.req}, res${handlerTypes.res}) => {
+  res.json({ status: 'ok' });
+});
+
+// Give a user access to the Context so their Endpoint can connect
+app.post('/api/users', async (req${handlerTypes.req}, res${handlerTypes.res}, next${handlerTypes.next}) => {
+  try {
+    const { userId, userPubKey } = req.body${userBody};
+    await bridge.call('context/addUserToContext', { contextId, userId, userPubKey });
+    res.status(201).json({ userId });
+  } catch (err) {
+    next(err);
+  }
+});
+
+app.get('/api/users', async (_req${handlerTypes.req}, res${handlerTypes.res}, next${handlerTypes.next}) => {
+  try {
+    res.json(
+      await bridge.call('context/listUsersFromContext', { contextId, skip: 0, limit: 100, sortOrder: 'desc' })
+    );
+  } catch (err) {
+    next(err);
+  }
+});
+
+// Express 4 needs all four parameters to recognize an error handler
+app.use((err${handlerTypes.err}, _req${handlerTypes.req}, res${handlerTypes.res}, _next${handlerTypes.next}) => {
+  console.error(err);
+  res.status(502).json({ error: err.message });
+});
+
+const port = Number(process.env.PORT) || 3000;
+app.listen(port, () => {
+  console.log(\`PrivMX server listening on port \${port}\`);
+});
+`;
+  }
+
+  /**
+   * Generate the environment template
+   */
+  private generateEnvExample(): string {
+    return `PORT=3000
+PRIVMX_BRIDGE_URL=http://localhost:9111
+PRIVMX_API_KEY_ID=your-api-key-id
+PRIVMX_API_KEY_SECRET=your-api-key-secret
+PRIVMX_CONTEXT_ID=your-context-id
+`;
+  }
+
+  /**
+   * Generate README for Node.js project
+   */
+  private generateReadme(): string {
+    return `# PrivMX Node.js Server
+
+A server managing PrivMX users through the PrivMX Bridge API. Clients connect with
+their own PrivMX Endpoint once the server has added their public key to a Context.
+
+## Quick Start
+
+1. **Install dependencies:**
+   \`\`\`bash
+   npm install
+   \`\`\`
+
+2. **Configure PrivMX:** copy \`.env.example\` to \`.env\` and fill in the Bridge URL,
+   an API key and the Context ID. PrivMX Bridge Docker prints the first API key
+   after its setup.
+
+3. **Start the server:**
+   \`\`\`bash
+   npm run dev
+   \`\`\`
+
+4. **Register a user:**
+   \`\`\`bash
+   curl -X POST localhost:3000/api/users -H 'Content-Type: application/json' \\
+     -d '{"userId": "alice", "userPubKey": "PUBLIC_KEY_BASE58"}'
+   \`\`\`
+
+## Security Notes
+
+- Never commit \`.env\` or API key secrets
+- Give the API key only the scopes the server needs
+- Authenticate your own users before registering their public keys
+
+## Learn More
+
+- [PrivMX Documentation](https://docs.privmx.dev)
+- [PrivMX Bridge API](https://bridge.privmx.dev)
+`;
+  }
+
+  /**
+   * Indent code by specified number of spaces
+   */
+  private indentCode(code: string, spaces: number): string {
+    const indent = ' '.repeat(spaces);
+    return code
+      .split('\n')
+      .map((line) => (line.trim() ? indent + line : line))
+      .join('\n');
+  }
+
+  /**
+   * Generate project configuration files
+   */
+  async generateProjectConfiguration(
+    projectName: string,
+    context: CodeContext
+  ): Promise<Record<string, string>> {
+    const isTypeScript = context.language !== 'javascript';
+    const framework = this.serverFramework(context);
+    const ext = isTypeScript ? 'ts' : 'js';
+    const configs: Record<string, string> = {};
+
+    configs['package.json'] = this.generatePackageJson(
+      projectName,
+      framework,
+      isTypeScript
+    );
+    configs['.env.example'] = this.generateEnvExample();
+    configs['.gitignore'] = 'node_modules\ndist\n.env\n';
+    configs[`src/bridge-client.${ext}`] =
+      this.generateBridgeClient(isTypeScript);
+    configs[`src/server.${ext}`] = this.generateServer(framework, isTypeScript);
+
+    if (isTypeScript) {
+      configs['tsconfig.json'] = JSON.stringify(
+        {
+          compilerOptions: {
+            target: 'ES2022',
+            module: 'NodeNext',
+            moduleResolution: 'NodeNext',
+            outDir: 'dist',
+            rootDir: 'src',
+            strict: true,
+            esModuleInterop: true,
+            skipLibCheck: true,
+          },
+          include: ['src'],
+        },
+        null,
+        2
+      );
+    }
+
+    return configs;
+  }
+}
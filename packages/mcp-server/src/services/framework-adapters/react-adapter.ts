@@ -4,39 +4,11 @@
  */
 
 import { CodeContext, ValidationResult } from '../../types/index.js';
-
-// Local type definitions for framework adapter
-interface ConfigFile {
-  filename: string;
-  content: string;
-  description: string;
-}
-
-interface ProjectStructure {
-  directories: string[];
-  requiredFiles: string[];
-  conventions: CodeConvention[];
-}
-
-interface CodeConvention {
-  rule: string;
-  description: string;
-  example?: string;
-}
-
-interface FrameworkAdapter {
-  name: string;
-  supportedLanguages: string[];
-  adaptCode(code: string, context: CodeContext): Promise<string>;
-  generateImports(dependencies: string[]): string;
-  generateConfig(): ConfigFile[];
-  generateProjectConfiguration(
-    projectName: string,
-    context: CodeContext
-  ): Promise<Record<string, string>>;
-  validateCode(code: string): Promise<ValidationResult>;
-  getProjectStructure(): ProjectStructure;
-}
+import {
+  ConfigFile,
+  FrameworkAdapter,
+  ProjectStructure,
+} from './framework-adapter.js';
 
 export class ReactAdapter implements FrameworkAdapter {
   name = 'React';
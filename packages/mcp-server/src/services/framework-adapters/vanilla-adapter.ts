@@ -0,0 +1,408 @@
+/**
+ * Vanilla JavaScript Framework Adapter
+ * Adapts generic PrivMX code to native ES modules served without a bundler
+ */
+
+import { CodeContext, ValidationResult } from '../../types/index.js';
+import {
+  ConfigFile,
+  FrameworkAdapter,
+  ProjectStructure,
+} from './framework-adapter.js';
+
+/**
+ * Without a bundler the SDK comes from its browser bundle, which defines
+ * the PrivmxWebEndpoint global
+ */
+const ENDPOINT_FROM_BUNDLE = 'const { Endpoint } = window.PrivmxWebEndpoint;';
+
+export class VanillaAdapter implements FrameworkAdapter {
+  name = 'Vanilla';
+  supportedLanguages = ['javascript'];
+
+  /**
+   * Adapt generic code to browser-native ES modules
+   */
+  async adaptCode(code: string, context: CodeContext): Promise<string> {
+    let adaptedCode = code;
+
+    // Browsers cannot resolve package imports or require()
+    adaptedCode = this.useBundleGlobal(adaptedCode);
+
+    // Give plain scripts a module entry point
+    if (!this.isModule(adaptedCode)) {
+      adaptedCode = this.wrapInModule(adaptedCode);
+    }
+
+    // Type annotations do not run in the browser
+    if (context.language === 'typescript') {
+      adaptedCode = this.addTypeScriptNote(adaptedCode);
+    }
+
+    return adaptedCode;
+  }
+
+  /**
+   * Generate imports for an ES module using the bundle global
+   */
+  generateImports(dependencies: string[]): string {
+    const imports = [ENDPOINT_FROM_BUNDLE];
+
+    if (dependencies.includes('threads')) {
+      imports.push('// Thread management for secure messaging');
+    }
+    if (dependencies.includes('stores')) {
+      imports.push('// Store management for file sharing');
+    }
+    if (dependencies.includes('inboxes')) {
+      imports.push('// Inbox management for anonymous submissions');
+    }
+
+    return imports.join('\n');
+  }
+
+  /**
+   * Generate vanilla project configuration files
+   */
+  generateConfig(): ConfigFile[] {
+    return [
+      {
+        filename: 'package.json',
+        content: this.generatePackageJson('privmx-vanilla-app'),
+        description: 'SDK dependency and scripts to copy assets and serve',
+      },
+      {
+        filename: 'public/index.html',
+        content: this.generateIndexHtml('PrivMX App'),
+        description: 'Page loading the SDK bundle and the app module',
+      },
+      {
+        filename: 'server.js',
+        content: this.generateServer(),
+        description: 'Static server sending the cross-origin isolation headers',
+      },
+      {
+        filename: 'README.md',
+        content: this.generateReadme(),
+        description: 'Project setup and usage instructions',
+      },
+    ];
+  }
+
+  /**
+   * Validate vanilla JavaScript code for common issues
+   */
+  async validateCode(code: string): Promise<ValidationResult> {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+    const suggestions: string[] = [];
+
+    if (/\brequire\s*\(/.test(code)) {
+      errors.push(
+        'require() is not available in the browser. Use ES module imports'
+      );
+    }
+
+    // Bare specifiers only resolve with a bundler or an import map
+    if (
+      /\bfrom\s+['"](?![./]|https?:)[^'"]+['"]/.test(code) &&
+      !code.includes('importmap')
+    ) {
+      errors.push(
+        'Browsers cannot resolve package imports without a bundler. Use window.PrivmxWebEndpoint from the SDK bundle or relative paths'
+      );
+    }
+
+    if (/\bimport\s+[^'"]*from\s+['"]\.{1,2}\/[^'"]*(?<!\.js)['"]/.test(code)) {
+      errors.push(
+        'Relative imports need the file extension in the browser (e.g. ./chat.js)'
+      );
+    }
+
+    if (/\.innerHTML\s*[+]?=/.test(code)) {
+      warnings.push(
+        'innerHTML renders decrypted content as HTML. Use textContent for message data'
+      );
+    }
+
+    if (code.includes('Endpoint.connect') && !code.includes('Endpoint.setup')) {
+      warnings.push(
+        'Call Endpoint.setup() with the assets path before Endpoint.connect()'
+      );
+    }
+
+    if (code.includes('addEventListener') && !code.includes('disconnect')) {
+      suggestions.push(
+        "Disconnect on 'pagehide' so the Bridge connection is closed with the page"
+      );
+    }
+
+    return {
+      isValid: errors.length === 0,
+      issues: [...errors, ...warnings],
+      suggestions,
+    };
+  }
+
+  /**
+   * Get vanilla project structure
+   */
+  getProjectStructure(): ProjectStructure {
+    return {
+      directories: ['public', 'public/privmx-assets', 'public/js'],
+      requiredFiles: [
+        'package.json',
+        'server.js',
+        'public/index.html',
+        'public/js/main.js',
+        'public/css/style.css',
+      ],
+      conventions: [
+        {
+          rule: 'Every script is an ES module loaded with <script type="module">',
+          description: 'Modules are deferred and scoped without a bundler',
+          example: '<script type="module" src="/js/main.js"></script>',
+        },
+        {
+          rule: 'Relative imports include the .js extension',
+          description: 'Browsers resolve module URLs literally',
+          example: "import { ChatService } from './chat-service.js';",
+        },
+        {
+          rule: 'The SDK is loaded from its browser bundle',
+          description:
+            'privmx-endpoint-web.js defines window.PrivmxWebEndpoint for the modules',
+          example: ENDPOINT_FROM_BUNDLE,
+        },
+      ],
+    };
+  }
+
+  /**
+   * Check if code is already an ES module
+   */
+  private isModule(code: string): boolean {
+    return /^\s*(?:import|export)\s/m.test(code);
+  }
+
+  /**
+   * Replace SDK imports and requires with the bundle global
+   */
+  private useBundleGlobal(code: string): string {
+    const sdkImport =
+      /^\s*import\s*\{[^}]*\}\s*from\s*['"]@(?:simplito|privmx)\/privmx-webendpoint[^'"]*['"];?[ \t]*$/gm;
+    const sdkRequire =
+      /^\s*const\s*\{?\s*Endpoint\s*\}?\s*=\s*require\(\s*['"][^'"]*privmx-webendpoint[^'"]*['"]\s*\)(?:\.Endpoint)?;?[ \t]*$/gm;
+
+    const adapted = code.replace(sdkImport, '').replace(sdkRequire, '');
+    if (adapted === code) return code;
+
+    return `${ENDPOINT_FROM_BUNDLE}\n${adapted.trimStart()}`;
+  }
+
+  /**
+   * Point out TypeScript syntax, which needs a compile step
+   */
+  private addTypeScriptNote(code: string): string {
+    return `// Vanilla projects run without a build step: remove TypeScript annotations
+// or compile with \`tsc\` into public/js
+${code}`;
+  }
+
+  /**
+   * Wrap a plain script in an ES module with a start function
+   */
+  private wrapInModule(code: string): string {
+    return `${ENDPOINT_FROM_BUNDLE}
+
+export async function start({ bridgeUrl, solutionId, userPrivateKey }) {
+  const status = document.querySelector('#status');
+  try {
+    status.textContent = 'Connecting to PrivMX...';
+
+    ${this.indentCode(code.replace(ENDPOINT_FROM_BUNDLE, '').trim(), 4).trimStart()}
+
+    status.textContent = 'Connected';
+  } catch (err) {
+    console.error('PrivMX initialization failed:', err);
+    status.textContent = \`Connection error: \${err instanceof Error ? err.message : err}\`;
+  }
+}
+`;
+  }
+
+  /**
+   * Generate package.json for vanilla project
+   */
+  private generatePackageJson(projectName: string): string {
+    return JSON.stringify(
+      {
+        name: projectName.toLowerCase().replace(/\s+/g, '-'),
+        version: '1.0.0',
+        private: true,
+        type: 'module',
+        scripts: {
+          start: 'node server.js',
+          'copy-assets':
+            'mkdir -p public/privmx-assets && cp -r node_modules/@simplito/privmx-webendpoint/dist/assets/. node_modules/@simplito/privmx-webendpoint/dist/bundle/privmx-endpoint-web.js public/privmx-assets/',
+          postinstall: 'npm run copy-assets',
+        },
+        dependencies: {
+          '@simplito/privmx-webendpoint': '^2.0.0',
+        },
+      },
+      null,
+      2
+    );
+  }
+
+  /**
+   * Generate the page loading the SDK bundle before the app module
+   */
+  private generateIndexHtml(title: string): string {
+    return `<!doctype html>
+<html lang="en">
+  <head>
+    <meta charset="UTF-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+    <title>${title}</title>
+    <link rel="stylesheet" href="/css/style.css" />
+    <!-- Defines window.PrivmxWebEndpoint -->
+    <script src="/privmx-assets/privmx-endpoint-web.js"></script>
+  </head>
+  <body>
+    <p id="status">Not connected</p>
+    <main id="app"></main>
+    <script type="module">
+      import { start } from '/js/main.js';
+
+      start({
+        bridgeUrl: 'http://localhost:9111',
+        solutionId: 'SOLUTION_ID',
+        userPrivateKey: 'USER_PRIVATE_KEY',
+      });
+    </script>
+  </body>
+</html>
+`;
+  }
+
+  /**
+   * Generate a dependency-free static server; the Web Endpoint needs
+   * cross-origin isolation, which static file servers rarely set up
+   */
+  private generateServer(): string {
+    return `import { createServer } from 'node:http';
+import { readFile } from 'node:fs/promises';
+import { extname, join, normalize } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const root = fileURLToPath(new URL('./public', import.meta.url));
+const port = Number(process.env.PORT) || 3000;
+
+const contentTypes = {
+  '.html': 'text/html; charset=utf-8',
+  '.js': 'text/javascript',
+  '.css': 'text/css',
+  '.wasm': 'application/wasm',
+  '.json': 'application/json',
+};
+
+createServer(async (req, res) => {
+  const url = new URL(req.url, 'http://localhost');
+  const filePath = normalize(join(root, url.pathname === '/' ? 'index.html' : url.pathname));
+  if (!filePath.startsWith(root)) {
+    res.writeHead(403).end();
+    return;
+  }
+
+  try {
+    const body = await readFile(filePath);
+    res.writeHead(200, {
+      'Content-Type': contentTypes[extname(filePath)] ?? 'application/octet-stream',
+      // The PrivMX Web Endpoint uses SharedArrayBuffer, which requires cross-origin isolation
+      'Cross-Origin-Embedder-Policy': 'require-corp',
+      'Cross-Origin-Opener-Policy': 'same-origin',
+    });
+    res.end(body);
+  } catch {
+    res.writeHead(404).end('Not found');
+  }
+}).listen(port, () => {
+  console.log(\`Serving on http://localhost:\${port}\`);
+});
+`;
+  }
+
+  /**
+   * Generate README for vanilla project
+   */
+  private generateReadme(): string {
+    return `# PrivMX Vanilla JavaScript Application
+
+A secure browser application built with PrivMX and plain ES modules: no bundler, no build step.
+
+## Quick Start
+
+1. **Install the SDK** (also copies its bundle and assets to \`public/privmx-assets\`):
+   \`\`\`bash
+   npm install
+   \`\`\`
+
+2. **Configure PrivMX** in \`public/index.html\`: Bridge URL, Solution ID and the user's private key.
+
+3. **Start the server:**
+   \`\`\`bash
+   npm start
+   \`\`\`
+
+## Project Structure
+
+\`\`\`
+public/
+├── index.html          # Loads the SDK bundle and the app module
+├── js/                 # ES modules
+├── css/                # Styles
+└── privmx-assets/      # SDK bundle and WebAssembly assets
+server.js               # Static server with cross-origin isolation headers
+\`\`\`
+
+## Security Notes
+
+- Never ship real private keys in \`index.html\`; load them after the user signs in
+- Render decrypted data with \`textContent\`, not \`innerHTML\`
+- Serve the app with the \`Cross-Origin-Embedder-Policy\` and \`Cross-Origin-Opener-Policy\` headers
+
+## Learn More
+
+- [PrivMX Documentation](https://docs.privmx.dev)
+- [JavaScript modules (MDN)](https://developer.mozilla.org/en-US/docs/Web/JavaScript/Guide/Modules)
+`;
+  }
+
+  /**
+   * Indent code by specified number of spaces
+   */
+  private indentCode(code: string, spaces: number): string {
+    const indent = ' '.repeat(spaces);
+    return code
+      .split('\n')
+      .map((line) => (line.trim() ? indent + line : line))
+      .join('\n');
+  }
+
+  /**
+   * Generate project configuration files
+   */
+  async generateProjectConfiguration(
+    projectName: string,
+    _context: CodeContext
+  ): Promise<Record<string, string>> {
+    return {
+      'package.json': this.generatePackageJson(projectName),
+      'public/index.html': this.generateIndexHtml(projectName),
+      'server.js': this.generateServer(),
+      '.gitignore': 'node_modules\npublic/privmx-assets\n',
+    };
+  }
+}
@@ -0,0 +1,620 @@
+/**
+ * Vue Framework Adapter
+ * Adapts generic PrivMX code to Vue 3 composables, a Pinia store and Vite
+ */
+
+import { CodeContext, ValidationResult } from '../../types/index.js';
+import {
+  ConfigFile,
+  FrameworkAdapter,
+  ProjectStructure,
+} from './framework-adapter.js';
+
+export class VueAdapter implements FrameworkAdapter {
+  name = 'Vue';
+  supportedLanguages = ['javascript', 'typescript'];
+
+  /**
+   * Adapt generic code to Vue composition API patterns
+   */
+  async adaptCode(code: string, context: CodeContext): Promise<string> {
+    let adaptedCode = code;
+
+    // Move plain code into a composable
+    if (!this.isVueCode(code)) {
+      adaptedCode = this.wrapInComposable(adaptedCode, context);
+    }
+
+    // SDK objects must not become deep reactive proxies
+    adaptedCode = this.useShallowRefs(adaptedCode);
+
+    // Surface failures through the composable's error ref
+    adaptedCode = this.addErrorHandling(adaptedCode);
+
+    return adaptedCode;
+  }
+
+  /**
+   * Generate Vue-specific imports
+   */
+  generateImports(dependencies: string[]): string {
+    const vueImports = [
+      "import { ref, shallowRef, computed, onUnmounted } from 'vue';",
+      "import { Endpoint } from '@simplito/privmx-webendpoint';",
+    ];
+
+    if (dependencies.includes('pinia')) {
+      vueImports.push("import { defineStore } from 'pinia';");
+    }
+    if (dependencies.includes('threads')) {
+      vueImports.push('// Thread management for secure messaging');
+    }
+    if (dependencies.includes('stores')) {
+      vueImports.push('// Store management for file sharing');
+    }
+    if (dependencies.includes('inboxes')) {
+      vueImports.push('// Inbox management for anonymous submissions');
+    }
+
+    return vueImports.join('\n');
+  }
+
+  /**
+   * Generate Vue project configuration files
+   */
+  generateConfig(): ConfigFile[] {
+    return [
+      {
+        filename: 'package.json',
+        content: this.generatePackageJson('privmx-vue-app'),
+        description: 'Vue project dependencies and scripts',
+      },
+      {
+        filename: 'vite.config.ts',
+        content: this.generateViteConfig(),
+        description: 'Vite configuration serving the PrivMX assets',
+      },
+      {
+        filename: 'src/stores/privmx.ts',
+        content: this.generatePiniaStore(),
+        description: 'Pinia store holding the PrivMX connection',
+      },
+      {
+        filename: 'src/composables/usePrivMX.ts',
+        content: this.generateComposable(),
+        description: 'Composable exposing the connection to components',
+      },
+      {
+        filename: 'README.md',
+        content: this.generateReadme(),
+        description: 'Project setup and usage instructions',
+      },
+    ];
+  }
+
+  /**
+   * Validate Vue code for common issues
+   */
+  async validateCode(code: string): Promise<ValidationResult> {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+    const suggestions: string[] = [];
+
+    // Deep proxies break the WebAssembly-backed SDK objects
+    if (
+      /\b(?:reactive|ref)\s*\(\s*(?:await\s+)?Endpoint\./.test(code) ||
+      /\b(?:connection|endpoint|\w+Api)\s*=\s*ref\s*[(<]/i.test(code)
+    ) {
+      errors.push(
+        'Keep PrivMX connections and APIs in shallowRef or markRaw; deep reactive proxies break the SDK objects'
+      );
+    }
+
+    if (
+      (code.includes('onMounted') || code.includes('Endpoint.connect')) &&
+      !code.includes('onUnmounted') &&
+      !code.includes('onBeforeUnmount') &&
+      !code.includes('defineStore')
+    ) {
+      warnings.push(
+        'Disconnect and stop event listeners in onUnmounted to avoid leaking connections'
+      );
+    }
+
+    if (/const\s*\{[^}]+\}\s*=\s*use\w+Store\(\)/.test(code)) {
+      warnings.push(
+        'Destructuring a Pinia store loses reactivity. Use storeToRefs() for state'
+      );
+    }
+
+    if (/async\s+setup\s*\(/.test(code) && !code.includes('Suspense')) {
+      warnings.push(
+        'An async setup() only renders inside <Suspense>. Connect in onMounted instead'
+      );
+    }
+
+    if (code.includes('v-html')) {
+      warnings.push(
+        'v-html renders decrypted content as HTML. Prefer text interpolation'
+      );
+    }
+
+    if (code.includes('v-for') && !code.includes(':key')) {
+      suggestions.push(
+        'Give v-for lists a :key, e.g. the messageId of thread messages'
+      );
+    }
+
+    return {
+      isValid: errors.length === 0,
+      issues: [...errors, ...warnings],
+      suggestions,
+    };
+  }
+
+  /**
+   * Get Vue project structure
+   */
+  getProjectStructure(): ProjectStructure {
+    return {
+      directories: [
+        'src',
+        'src/components',
+        'src/composables',
+        'src/stores',
+        'src/services',
+        'src/types',
+        'src/assets',
+        'public',
+        'public/privmx-assets',
+      ],
+      requiredFiles: [
+        'package.json',
+        'vite.config.ts',
+        'index.html',
+        'src/main.ts',
+        'src/App.vue',
+        'src/stores/privmx.ts',
+      ],
+      conventions: [
+        {
+          rule: 'Components are single-file components in PascalCase (e.g., ChatRoom.vue)',
+          description: 'Vue style guide naming for multi-word components',
+          example: 'src/components/PrivMXChat.vue',
+        },
+        {
+          rule: 'Composables start with the "use" prefix',
+          description:
+            'Reusable composition functions follow the useXxx pattern',
+          example: 'src/composables/usePrivMX.ts',
+        },
+        {
+          rule: 'Shared connection state lives in a Pinia store',
+          description:
+            'One connection per app, shared by components through the store',
+          example: 'src/stores/privmx.ts',
+        },
+        {
+          rule: 'Use <script setup> with the composition API',
+          description: 'Modern Vue development favors the composition API',
+          example: '<script setup lang="ts">',
+        },
+      ],
+    };
+  }
+
+  /**
+   * Check if code is already Vue code
+   */
+  private isVueCode(code: string): boolean {
+    return (
+      code.includes('<script setup') ||
+      code.includes('defineComponent') ||
+      code.includes('defineStore') ||
+      /export\s+(?:function|const)\s+use[A-Z]/.test(code)
+    );
+  }
+
+  /**
+   * Wrap generic code in a composable
+   */
+  private wrapInComposable(code: string, context: CodeContext): string {
+    const isTypeScript = context.language === 'typescript';
+    const wrapperImports = [
+      "import { ref, shallowRef, onUnmounted } from 'vue';",
+      "import { Endpoint } from '@simplito/privmx-webendpoint';",
+    ];
+    const { imports, body } = this.splitImports(code);
+    // The connection goes into the composable's ref
+    const connectBody = body.replace(
+      /\b(?:const|let)\s+connection\s*=/g,
+      'connection.value ='
+    );
+
+    return `${[...new Set([...wrapperImports, ...imports])].join('\n')}
+
+export function usePrivMX() {
+  const connection = shallowRef${isTypeScript ? '<Awaited<ReturnType<typeof Endpoint.connect>> | null>' : ''}(null);
+  const isConnected = ref(false);
+  const error = ref${isTypeScript ? '<string | null>' : ''}(null);
+  const loading = ref(false);
+
+  const connect = async (
+    bridgeUrl${isTypeScript ? ': string' : ''},
+    solutionId${isTypeScript ? ': string' : ''},
+    userPrivateKey${isTypeScript ? ': string' : ''}
+  ) => {
+    try {
+      loading.value = true;
+      error.value = null;
+
+      ${this.indentCode(connectBody, 6).trimStart()}
+
+      isConnected.value = true;
+    } catch (err) {
+      console.error('PrivMX initialization failed:', err);
+      error.value = err instanceof Error ? err.message : 'Unknown error occurred';
+    } finally {
+      loading.value = false;
+    }
+  };
+
+  const disconnect = async () => {
+    await connection.value?.disconnect();
+    connection.value = null;
+    isConnected.value = false;
+  };
+
+  onUnmounted(disconnect);
+
+  return { connection, isConnected, error, loading, connect, disconnect };
+}
+`;
+  }
+
+  /**
+   * Separate import statements, which must stay at module level
+   */
+  private splitImports(code: string): { imports: string[]; body: string } {
+    const imports = code.match(/^import\s.*$/gm) ?? [];
+    const body = code.replace(/^import\s.*$\n?/gm, '').trim();
+    return { imports: imports.map((line) => line.trim()), body };
+  }
+
+  /**
+   * Hold SDK objects in shallowRef instead of ref
+   */
+  private useShallowRefs(code: string): string {
+    return code.replace(
+      /\b(const\s+\w*(?:[cC]onnection|[eE]ndpoint|Api)\w*\s*=\s*)ref\b/g,
+      '$1shallowRef'
+    );
+  }
+
+  /**
+   * Wrap bare awaits of composables in error handling
+   */
+  private addErrorHandling(code: string): string {
+    if (!code.includes('try {') && code.includes('await')) {
+      code = code.replace(
+        /(await .*?;)/g,
+        `try {
+        $1
+      } catch (err) {
+        console.error('PrivMX operation failed:', err);
+        error.value = err instanceof Error ? err.message : 'Operation failed';
+      }`
+      );
+    }
+
+    return code;
+  }
+
+  /**
+   * Generate package.json for Vue project
+   */
+  private generatePackageJson(
+    projectName: string,
+    isTypeScript = true
+  ): string {
+    const typeScriptDependencies: Record<string, string> = isTypeScript
+      ? {
+          '@vue/eslint-config-typescript': '^13.0.0',
+          typescript: '^5.4.0',
+          'vue-tsc': '^2.0.0',
+        }
+      : {};
+
+    return JSON.stringify(
+      {
+        name: projectName.toLowerCase().replace(/\s+/g, '-'),
+        version: '1.0.0',
+        private: true,
+        type: 'module',
+        scripts: {
+          dev: 'vite',
+          build: isTypeScript ? 'vue-tsc --noEmit && vite build' : 'vite build',
+          preview: 'vite preview',
+          test: 'vitest',
+          lint: `eslint . --ext .vue,.${isTypeScript ? 'ts' : 'js'}`,
+          'copy-assets':
+            'mkdir -p public/privmx-assets && cp -r node_modules/@simplito/privmx-webendpoint/dist/assets/. public/privmx-assets/',
+          postinstall: 'npm run copy-assets',
+        },
+        dependencies: {
+          vue: '^3.4.0',
+          pinia: '^2.1.7',
+          '@simplito/privmx-webendpoint': '^2.0.0',
+        },
+        devDependencies: {
+          '@vitejs/plugin-vue': '^5.0.0',
+          eslint: '^8.57.0',
+          'eslint-plugin-vue': '^9.23.0',
+          vite: '^5.2.0',
+          vitest: '^1.4.0',
+          ...typeScriptDependencies,
+        },
+      },
+      null,
+      2
+    );
+  }
+
+  /**
+   * Generate Vite configuration with the headers the WebAssembly
+   * endpoint needs
+   */
+  private generateViteConfig(): string {
+    return `import { defineConfig } from 'vite'
+import vue from '@vitejs/plugin-vue'
+
+// The PrivMX Web Endpoint uses SharedArrayBuffer, which requires cross-origin isolation
+const crossOriginIsolation = {
+  'Cross-Origin-Embedder-Policy': 'require-corp',
+  'Cross-Origin-Opener-Policy': 'same-origin'
+}
+
+export default defineConfig({
+  plugins: [vue()],
+  server: {
+    port: 3000,
+    headers: crossOriginIsolation
+  },
+  preview: {
+    headers: crossOriginIsolation
+  },
+  build: {
+    outDir: 'dist',
+    sourcemap: true
+  }
+})
+`;
+  }
+
+  /**
+   * Generate the Pinia store owning the connection
+   */
+  private generatePiniaStore(isTypeScript = true): string {
+    const types = isTypeScript
+      ? `
+type Connection = Awaited<ReturnType<typeof Endpoint.connect>>;
+type ThreadApi = Awaited<ReturnType<typeof Endpoint.createThreadApi>>;
+type StoreApi = Awaited<ReturnType<typeof Endpoint.createStoreApi>>;
+`
+      : '';
+    const type = (name: string) => (isTypeScript ? `<${name}>` : '');
+
+    return `import { defineStore } from 'pinia';
+import { ref, shallowRef, computed } from 'vue';
+import { Endpoint } from '@simplito/privmx-webendpoint';
+${types}
+export const usePrivmxStore = defineStore('privmx', () => {
+  // SDK objects stay shallow: deep proxies break them
+  const connection = shallowRef${type('Connection | null')}(null);
+  const threadApi = shallowRef${type('ThreadApi | null')}(null);
+  const storeApi = shallowRef${type('StoreApi | null')}(null);
+  const error = ref${type('string | null')}(null);
+  const connecting = ref(false);
+
+  const isConnected = computed(() => connection.value !== null);
+
+  async function connect(userPrivateKey${isTypeScript ? ': string' : ''}) {
+    if (connection.value) return;
+    connecting.value = true;
+    error.value = null;
+    try {
+      await Endpoint.setup('/privmx-assets');
+      connection.value = await Endpoint.connect(
+        userPrivateKey,
+        import.meta.env.VITE_PRIVMX_SOLUTION_ID,
+        import.meta.env.VITE_PRIVMX_BRIDGE_URL
+      );
+      threadApi.value = await Endpoint.createThreadApi(connection.value);
+      storeApi.value = await Endpoint.createStoreApi(connection.value);
+    } catch (err) {
+      error.value = err instanceof Error ? err.message : 'Connection failed';
+      throw err;
+    } finally {
+      connecting.value = false;
+    }
+  }
+
+  async function disconnect() {
+    await connection.value?.disconnect();
+    connection.value = null;
+    threadApi.value = null;
+    storeApi.value = null;
+  }
+
+  return { connection, threadApi, storeApi, error, connecting, isConnected, connect, disconnect };
+});
+`;
+  }
+
+  /**
+   * Generate the composable components use to reach the store
+   */
+  private generateComposable(): string {
+    return `import { onUnmounted } from 'vue';
+import { storeToRefs } from 'pinia';
+import { usePrivmxStore } from '../stores/privmx';
+
+/**
+ * PrivMX connection state for a component. Pass \`disconnectOnUnmount\`
+ * from the root component only: the connection is shared by the app.
+ */
+export function usePrivMX({ disconnectOnUnmount = false } = {}) {
+  const store = usePrivmxStore();
+  const { connection, threadApi, storeApi, error, connecting, isConnected } = storeToRefs(store);
+
+  if (disconnectOnUnmount) {
+    onUnmounted(() => store.disconnect());
+  }
+
+  return {
+    connection,
+    threadApi,
+    storeApi,
+    error,
+    connecting,
+    isConnected,
+    connect: store.connect,
+    disconnect: store.disconnect,
+  };
+}
+`;
+  }
+
+  /**
+   * Generate README for Vue project
+   */
+  private generateReadme(): string {
+    return `# PrivMX Vue Application
+
+A secure Vue 3 application built with PrivMX for end-to-end encrypted communication.
+
+## Quick Start
+
+1. **Install dependencies** (also copies the PrivMX assets to \`public/privmx-assets\`):
+   \`\`\`bash
+   npm install
+   \`\`\`
+
+2. **Configure PrivMX** in \`.env.local\`:
+   \`\`\`bash
+   VITE_PRIVMX_BRIDGE_URL=https://your-bridge.privmx.dev
+   VITE_PRIVMX_SOLUTION_ID=your-solution-id
+   \`\`\`
+
+3. **Start development server:**
+   \`\`\`bash
+   npm run dev
+   \`\`\`
+
+## Project Structure
+
+\`\`\`
+src/
+├── components/         # Single-file components
+├── composables/        # usePrivMX and other composables
+├── stores/             # Pinia store holding the connection
+├── services/           # PrivMX service integration
+└── types/              # TypeScript type definitions
+\`\`\`
+
+## Security Notes
+
+- Never commit private keys to version control
+- The dev and preview servers send the cross-origin isolation headers the
+  Web Endpoint needs; configure your production server the same way
+- Keep SDK objects in \`shallowRef\`: deep reactive proxies break them
+
+## Learn More
+
+- [PrivMX Documentation](https://docs.privmx.dev)
+- [Vue Documentation](https://vuejs.org)
+- [Pinia Documentation](https://pinia.vuejs.org)
+`;
+  }
+
+  /**
+   * Indent code by specified number of spaces
+   */
+  private indentCode(code: string, spaces: number): string {
+    const indent = ' '.repeat(spaces);
+    return code
+      .split('\n')
+      .map((line) => (line.trim() ? indent + line : line))
+      .join('\n');
+  }
+
+  /**
+   * Generate project configuration files
+   */
+  async generateProjectConfiguration(
+    projectName: string,
+    context: CodeContext
+  ): Promise<Record<string, string>> {
+    const isTypeScript = context.language !== 'javascript';
+    const ext = isTypeScript ? 'ts' : 'js';
+    const configs: Record<string, string> = {};
+
+    configs['package.json'] = this.generatePackageJson(
+      projectName,
+      isTypeScript
+    );
+    configs[`vite.config.${ext}`] = this.generateViteConfig();
+    configs['.env.example'] =
+      'VITE_PRIVMX_BRIDGE_URL=http://localhost:9111\nVITE_PRIVMX_SOLUTION_ID=your-solution-id\n';
+
+    if (isTypeScript) {
+      configs['tsconfig.json'] = JSON.stringify(
+        {
+          compilerOptions: {
+            target: 'ES2020',
+            useDefineForClassFields: true,
+            lib: ['ES2020', 'DOM', 'DOM.Iterable'],
+            module: 'ESNext',
+            skipLibCheck: true,
+            moduleResolution: 'bundler',
+            resolveJsonModule: true,
+            isolatedModules: true,
+            noEmit: true,
+            jsx: 'preserve',
+            strict: true,
+            types: ['vite/client'],
+          },
+          include: ['src/**/*.ts', 'src/**/*.vue'],
+        },
+        null,
+        2
+      );
+    }
+
+    configs[`src/stores/privmx.${ext}`] = this.generatePiniaStore(isTypeScript);
+    configs[`src/composables/usePrivMX.${ext}`] = this.generateComposable();
+
+    configs[`src/main.${ext}`] = `import { createApp } from 'vue'
+import { createPinia } from 'pinia'
+import App from './App.vue'
+
+createApp(App).use(createPinia()).mount('#app')
+`;
+
+    configs['index.html'] = `<!doctype html>
+<html lang="en">
+  <head>
+    <meta charset="UTF-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+    <title>${projectName}</title>
+  </head>
+  <body>
+    <div id="app"></div>
+    <script type="module" src="/src/main.${ext}"></script>
+  </body>
+</html>
+`;
+
+    return configs;
+  }
+}
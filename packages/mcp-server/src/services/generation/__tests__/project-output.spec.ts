@@ -0,0 +1,170 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { gunzipSync, inflateRawSync } from 'zlib';
+import {
+  createProjectPatch,
+  createTarArchive,
+  createZipArchive,
+  resolveWorkspaceDirectory,
+  writeProjectToWorkspace,
+} from '../project-output.js';
+
+const files = [
+  { path: 'package.json', content: '{}\n', description: 'Manifest' },
+  {
+    path: 'src/App.tsx',
+    content: 'export const App = () => null;',
+    description: 'Root component',
+  },
+];
+
+describe('project output', () => {
+  let workspace: string;
+
+  beforeEach(() => {
+    workspace = fs.mkdtempSync(path.join(os.tmpdir(), 'project-output-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(workspace, { recursive: true, force: true });
+  });
+
+  it('packs files below the project directory in a tar archive', () => {
+    const tar = gunzipSync(createTarArchive(files, 'My Chat'));
+    const entries: Array<[string, string]> = [];
+
+    for (let offset = 0; tar[offset] !== 0; ) {
+      const name = tar.toString('utf-8', offset, offset + 100).split('\0')[0];
+      const size = parseInt(
+        tar.toString('utf-8', offset + 124, offset + 135),
+        8
+      );
+      entries.push([
+        name,
+        tar.toString('utf-8', offset + 512, offset + 512 + size),
+      ]);
+      offset += 512 + Math.ceil(size / 512) * 512;
+    }
+
+    expect(entries).toEqual([
+      ['My-Chat/package.json', '{}\n'],
+      ['My-Chat/src/App.tsx', 'export const App = () => null;'],
+    ]);
+  });
+
+  it('packs deflated files with their CRC-32 and sizes in a zip archive', () => {
+    const zip = createZipArchive(files, 'My Chat');
+    const end = zip.length - 22;
+    const count = zip.readUInt16LE(end + 10);
+    const centralOffset = zip.readUInt32LE(end + 16);
+    const entries: Array<[string, string, number]> = [];
+
+    expect(zip.readUInt32LE(end)).toBe(0x06054b50);
+    expect(centralOffset + zip.readUInt32LE(end + 12)).toBe(end);
+
+    for (let i = 0, entry = centralOffset; i < count; i++) {
+      expect(zip.readUInt32LE(entry)).toBe(0x02014b50);
+      const nameLength = zip.readUInt16LE(entry + 28);
+      const name = zip.toString('utf-8', entry + 46, entry + 46 + nameLength);
+      const local = zip.readUInt32LE(entry + 42);
+
+      expect(zip.readUInt32LE(local)).toBe(0x04034b50);
+      // The central directory repeats the local header fields
+      expect(zip.subarray(entry + 6, entry + 32)).toEqual(
+        zip.subarray(local + 4, local + 30)
+      );
+      expect(zip.toString('utf-8', local + 30, local + 30 + nameLength)).toBe(
+        name
+      );
+
+      const dataStart = local + 30 + nameLength;
+      const compressedSize = zip.readUInt32LE(local + 18);
+      const content = inflateRawSync(
+        zip.subarray(dataStart, dataStart + compressedSize)
+      );
+      expect(content.length).toBe(zip.readUInt32LE(local + 22));
+
+      entries.push([
+        name,
+        content.toString('utf-8'),
+        zip.readUInt32LE(local + 14),
+      ]);
+      entry += 46 + nameLength;
+    }
+
+    expect(entries).toEqual([
+      ['My-Chat/package.json', '{}\n', 0xdda1b006],
+      ['My-Chat/src/App.tsx', 'export const App = () => null;', 0x9ad459fd],
+    ]);
+  });
+
+  it('creates a new-file patch', () => {
+    expect(createProjectPatch(files, 'chat')).toBe(
+      [
+        'diff --git a/chat/package.json b/chat/package.json',
+        'new file mode 100644',
+        '--- /dev/null',
+        '+++ b/chat/package.json',
+        '@@ -0,0 +1,1 @@',
+        '+{}',
+        'diff --git a/chat/src/App.tsx b/chat/src/App.tsx',
+        'new file mode 100644',
+        '--- /dev/null',
+        '+++ b/chat/src/App.tsx',
+        '@@ -0,0 +1,1 @@',
+        '+export const App = () => null;',
+        '\\ No newline at end of file',
+        '',
+      ].join('\n')
+    );
+  });
+
+  it('reports conflicts and writes nothing unless overwriting', async () => {
+    fs.writeFileSync(path.join(workspace, 'package.json'), '{"name":"x"}');
+
+    const blocked = await writeProjectToWorkspace(files, workspace);
+    expect(blocked).toMatchObject({
+      written: false,
+      conflicts: ['package.json'],
+      created: ['src/App.tsx'],
+    });
+    expect(fs.existsSync(path.join(workspace, 'src/App.tsx'))).toBe(false);
+
+    const dryRun = await writeProjectToWorkspace(files, workspace, {
+      dryRun: true,
+      overwrite: true,
+    });
+    expect(dryRun).toMatchObject({ written: true, updated: ['package.json'] });
+    expect(fs.existsSync(path.join(workspace, 'src/App.tsx'))).toBe(false);
+
+    await writeProjectToWorkspace(files, workspace, { overwrite: true });
+    expect(fs.readFileSync(path.join(workspace, 'package.json'), 'utf-8')).toBe(
+      '{}\n'
+    );
+    expect(
+      (await writeProjectToWorkspace(files, workspace)).unchanged
+    ).toHaveLength(2);
+  });
+
+  it('keeps writes inside the project and the workspace root', async () => {
+    await expect(
+      writeProjectToWorkspace(
+        [{ path: '../outside.txt', content: '', description: '' }],
+        workspace
+      )
+    ).rejects.toThrow('escapes the project');
+    expect(() => resolveWorkspaceDirectory('../elsewhere', workspace)).toThrow(
+      'outside the workspace root'
+    );
+    expect(resolveWorkspaceDirectory('apps/chat', workspace)).toBe(
+      path.join(workspace, 'apps/chat')
+    );
+  });
+
+  it('refuses workspace writes without a workspace root', () => {
+    expect(() => resolveWorkspaceDirectory(workspace)).toThrow(
+      'set GENERATION_WORKSPACE_ROOT'
+    );
+  });
+});
@@ -20,6 +20,9 @@ import { SmartTemplateEngine } from '../template-engine/smart-template-engine.js
 import { WorkflowGeneratorFactory } from './workflow-generator-factory.js';
 import { WorkflowRequest } from './generation-types.js';
 import { ReactAdapter } from '../framework-adapters/react-adapter.js';
+import { VueAdapter } from '../framework-adapters/vue-adapter.js';
+import { VanillaAdapter } from '../framework-adapters/vanilla-adapter.js';
+import { NodeAdapter } from '../framework-adapters/node-adapter.js';
 import {
   GeneratedCode,
   CodeContext,
@@ -30,15 +33,23 @@ import {
   PrivMXAppRequest,
   PrivMXTemplate,
   GeneratedFile,
+  CodeDiagnostic,
 } from '../../types/mcp-types.js';
 import { LanguageSchema, FeatureSchema } from '../../common/schemas.js';
 import { z } from 'zod';
 import { codegenCounter, codegenDuration } from '../../common/metrics.js';
+import { config } from '../../common/config.js';
+import { specRoot } from '../../common/paths.js';
+import { ApiSpecIndex } from '../analysis/api-spec-index.js';
+import { PrivMXCodeAnalyzer } from '../analysis/privmx-code-analyzer.js';
+import fs from 'fs';
+import path from 'path';
 
 export class CodeGenerationService {
   private templates: WorkflowTemplate[];
   private smartTemplateEngine: SmartTemplateEngine;
   private workflowGenerator: WorkflowGeneratorFactory;
+  private codeAnalyzer?: PrivMXCodeAnalyzer;
   private initialized = false;
 
   constructor() {
@@ -56,6 +67,15 @@ export class CodeGenerationService {
       'react',
       new ReactAdapter()
     );
+    this.smartTemplateEngine.registerFrameworkAdapter('vue', new VueAdapter());
+    this.smartTemplateEngine.registerFrameworkAdapter(
+      'vanilla',
+      new VanillaAdapter()
+    );
+    this.smartTemplateEngine.registerFrameworkAdapter(
+      'nodejs',
+      new NodeAdapter()
+    );
   }
 
   /**
@@ -322,6 +342,7 @@ export class CodeGenerationService {
     language: string,
     errorMessage?: string
   ): Promise<{
+    diagnostics: CodeDiagnostic[];
     issues: string[];
     suggestions: string[];
     fixes: string[];
@@ -331,39 +352,39 @@ export class CodeGenerationService {
 
     logger.info(`🔍 Analyzing ${language} code`);
 
-    const issues: string[] = [];
-    const suggestions: string[] = [];
-    const fixes: string[] = [];
+    const { diagnostics } = this.getCodeAnalyzer().analyze(code, language);
 
-    // Basic code analysis
-    if (code.includes('console.log')) {
-      issues.push('Contains console.log statements');
-      suggestions.push('Replace console.log with proper logging');
-      fixes.push('Use logger.info() instead of console.log()');
-    }
-
-    if (!code.includes('try') && !code.includes('catch')) {
-      issues.push('No error handling found');
-      suggestions.push('Add try-catch blocks for error handling');
-      fixes.push('Wrap async operations in try-catch blocks');
-    }
+    const issues = diagnostics.map(
+      (d) => `Line ${d.line}: ${d.message} [${d.rule}]`
+    );
+    const suggestions = Array.from(
+      new Set(
+        diagnostics
+          .map((d) => d.suggestion)
+          .filter((s): s is string => Boolean(s))
+      )
+    );
 
     if (errorMessage) {
       issues.push(`Runtime error: ${errorMessage}`);
       suggestions.push('Fix the reported runtime error');
     }
 
-    // Generate improved code if issues found
-    let improvedCode: string | undefined;
-    if (issues.length > 0) {
-      improvedCode = this.applyBasicFixes(code, language);
-    }
+    // Only logging and error handling can be fixed mechanically
+    const fixable = diagnostics.filter((d) =>
+      ['console-log', 'missing-error-handling'].includes(d.rule)
+    );
+    const fixes = Array.from(
+      new Set(fixable.map((d) => d.suggestion).filter((s): s is string => !!s))
+    );
 
     return {
+      diagnostics,
       issues,
       suggestions,
       fixes,
-      improvedCode,
+      improvedCode:
+        fixable.length > 0 ? this.applyBasicFixes(code, language) : undefined,
     };
   }
 
@@ -550,6 +571,23 @@ initializePrivMX().catch(console.error);
     }
   }
 
+  /**
+   * Lazily build the analyzer from the JavaScript API spec
+   */
+  private getCodeAnalyzer(): PrivMXCodeAnalyzer {
+    if (!this.codeAnalyzer) {
+      const specPath = path.join(
+        config.SPEC_PATH || specRoot,
+        'api',
+        'js',
+        'out.js.json'
+      );
+      const spec = JSON.parse(fs.readFileSync(specPath, 'utf-8'));
+      this.codeAnalyzer = new PrivMXCodeAnalyzer(new ApiSpecIndex(spec));
+    }
+    return this.codeAnalyzer;
+  }
+
   private applyBasicFixes(code: string, language: string): string {
     let fixedCode = code;
 
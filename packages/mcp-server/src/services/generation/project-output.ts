@@ -0,0 +1,378 @@
+/**
+ * Delivery of generated projects
+ *
+ * Turns the files of a generated project into something a client can use:
+ * a tar.gz or zip archive, a unified patch creating the project, or files
+ * written into a workspace directory. Archive and patch paths are prefixed
+ * with the project directory name.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { deflateRawSync, gzipSync } from 'zlib';
+import type { GeneratedFile } from '../../types/mcp-types.js';
+
+export type ProjectOutputFormat = 'files' | 'tar' | 'zip' | 'patch';
+
+export interface WorkspaceWriteOptions {
+  /** Report what would be written without touching the disk */
+  dryRun?: boolean;
+  /** Replace existing files whose content differs */
+  overwrite?: boolean;
+}
+
+export interface WorkspaceWriteResult {
+  directory: string;
+  dryRun: boolean;
+  /** Whether files were (or, in a dry run, would be) written */
+  written: boolean;
+  created: string[];
+  updated: string[];
+  unchanged: string[];
+  /** Existing files with different content, left alone without `overwrite` */
+  conflicts: string[];
+}
+
+const MIME_TYPES: Record<string, string> = {
+  '.ts': 'text/x-typescript',
+  '.tsx': 'text/x-typescript',
+  '.js': 'text/javascript',
+  '.jsx': 'text/javascript',
+  '.mjs': 'text/javascript',
+  '.json': 'application/json',
+  '.md': 'text/markdown',
+  '.html': 'text/html',
+  '.css': 'text/css',
+  '.vue': 'text/x-vue',
+  '.java': 'text/x-java',
+  '.kt': 'text/x-kotlin',
+  '.cs': 'text/x-csharp',
+  '.cpp': 'text/x-c++src',
+  '.hpp': 'text/x-c++hdr',
+  '.h': 'text/x-c++hdr',
+  '.swift': 'text/x-swift',
+  '.yml': 'text/yaml',
+  '.yaml': 'text/yaml',
+  '.xml': 'application/xml',
+};
+
+/**
+ * Resource URI of a generated file, e.g. privmx://generated/my-chat/src/App.tsx
+ */
+export const generatedFileUri = (
+  projectName: string,
+  filePath: string
+): string =>
+  `privmx://generated/${encodeURIComponent(projectDirectory(projectName))}/${normalizePath(
+    filePath
+  )
+    .split('/')
+    .map(encodeURIComponent)
+    .join('/')}`;
+
+export const mimeTypeOf = (filePath: string): string =>
+  MIME_TYPES[path.extname(filePath).toLowerCase()] ?? 'text/plain';
+
+/**
+ * Project-relative path with forward slashes; rejects paths leaving the
+ * project directory
+ */
+const normalizePath = (filePath: string): string => {
+  const normalized = path.posix.normalize(filePath.replace(/\\/g, '/'));
+  if (
+    path.posix.isAbsolute(normalized) ||
+    normalized === '..' ||
+    normalized.startsWith('../')
+  ) {
+    throw new Error(`Generated file path escapes the project: ${filePath}`);
+  }
+  return normalized;
+};
+
+/**
+ * Directory name of a project in archives and patches
+ */
+export const projectDirectory = (projectName: string): string =>
+  projectName
+    .trim()
+    .replace(/[^\w.-]+/g, '-')
+    .replace(/^[.-]+/, '') || 'privmx-app';
+
+const tarHeader = (
+  name: string,
+  size: number,
+  mtime: number,
+  type = '0'
+): Buffer => {
+  const header = Buffer.alloc(512);
+  const field = (value: string, offset: number, length: number) =>
+    header.write(value, offset, length, 'utf-8');
+  const octal = (value: number, offset: number, length: number) =>
+    field(value.toString(8).padStart(length - 1, '0'), offset, length - 1);
+
+  field(name, 0, 100);
+  octal(0o644, 100, 8);
+  octal(0, 108, 8);
+  octal(0, 116, 8);
+  octal(size, 124, 12);
+  octal(mtime, 136, 12);
+  field(' '.repeat(8), 148, 8);
+  field(type, 156, 1);
+  field('ustar\0', 257, 6);
+  field('00', 263, 2);
+
+  const checksum = header.reduce((sum, byte) => sum + byte, 0);
+  field(`${checksum.toString(8).padStart(6, '0')}\0 `, 148, 8);
+  return header;
+};
+
+const tarPadding = (size: number): Buffer =>
+  Buffer.alloc((512 - (size % 512)) % 512);
+
+/**
+ * Header blocks of a tar entry; names over 100 bytes go into a PAX
+ * extended header
+ */
+const tarEntryHeader = (name: string, size: number, mtime: number) => {
+  if (Buffer.byteLength(name) <= 100) return [tarHeader(name, size, mtime)];
+
+  // "<length> path=<name>\n", the length counting its own digits
+  const body = ` path=${name}\n`;
+  let length = Buffer.byteLength(body);
+  length += String(length + String(length).length).length;
+  const record = Buffer.from(`${length}${body}`, 'utf-8');
+
+  return [
+    tarHeader('PaxHeader', record.length, mtime, 'x'),
+    record,
+    tarPadding(record.length),
+    tarHeader(name.slice(0, 100), size, mtime),
+  ];
+};
+
+/**
+ * Gzipped tar archive of the project
+ */
+export const createTarArchive = (
+  files: GeneratedFile[],
+  projectName: string
+): Buffer => {
+  const root = projectDirectory(projectName);
+  const mtime = Math.floor(Date.now() / 1000);
+  const blocks: Buffer[] = [];
+
+  for (const file of files) {
+    const data = Buffer.from(file.content, 'utf-8');
+    blocks.push(
+      ...tarEntryHeader(
+        `${root}/${normalizePath(file.path)}`,
+        data.length,
+        mtime
+      ),
+      data,
+      tarPadding(data.length)
+    );
+  }
+  // Two empty blocks end the archive
+  blocks.push(Buffer.alloc(1024));
+
+  return gzipSync(Buffer.concat(blocks));
+};
+
+/** Lookup table of the CRC-32 used by zip (reversed polynomial 0xEDB88320) */
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+/**
+ * CRC-32 of the data; zlib.crc32 needs Node 20.15 or 22.2
+ */
+const crc32 = (data: Buffer): number => {
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+/**
+ * Zip archive of the project (deflate compressed)
+ */
+export const createZipArchive = (
+  files: GeneratedFile[],
+  projectName: string
+): Buffer => {
+  const root = projectDirectory(projectName);
+  const now = new Date();
+  const dosTime =
+    (now.getHours() << 11) |
+    (now.getMinutes() << 5) |
+    Math.floor(now.getSeconds() / 2);
+  const dosDate =
+    ((now.getFullYear() - 1980) << 9) |
+    ((now.getMonth() + 1) << 5) |
+    now.getDate();
+
+  const local: Buffer[] = [];
+  const central: Buffer[] = [];
+  let offset = 0;
+
+  for (const file of files) {
+    const name = Buffer.from(`${root}/${normalizePath(file.path)}`, 'utf-8');
+    const data = Buffer.from(file.content, 'utf-8');
+    const compressed = deflateRawSync(data);
+    const checksum = crc32(data);
+
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(0x04034b50, 0);
+    header.writeUInt16LE(20, 4);
+    // Bit 11: names are UTF-8
+    header.writeUInt16LE(0x0800, 6);
+    header.writeUInt16LE(8, 8);
+    header.writeUInt16LE(dosTime, 10);
+    header.writeUInt16LE(dosDate, 12);
+    header.writeUInt32LE(checksum, 14);
+    header.writeUInt32LE(compressed.length, 18);
+    header.writeUInt32LE(data.length, 22);
+    header.writeUInt16LE(name.length, 26);
+    header.writeUInt16LE(0, 28);
+
+    const entry = Buffer.alloc(46);
+    entry.writeUInt32LE(0x02014b50, 0);
+    entry.writeUInt16LE(20, 4);
+    header.copy(entry, 6, 4, 30);
+    // Extra field, comment, disk number and attributes stay zero
+    entry.writeUInt32LE(offset, 42);
+
+    local.push(header, name, compressed);
+    central.push(entry, name);
+    offset += header.length + name.length + compressed.length;
+  }
+
+  const centralDirectory = Buffer.concat(central);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(files.length, 8);
+  end.writeUInt16LE(files.length, 10);
+  end.writeUInt32LE(centralDirectory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...local, centralDirectory, end]);
+};
+
+/**
+ * Unified patch creating the project, applicable with `git apply` or
+ * `patch -p1` in the parent directory of the project
+ */
+export const createProjectPatch = (
+  files: GeneratedFile[],
+  projectName: string
+): string => {
+  const root = projectDirectory(projectName);
+
+  return files
+    .map((file) => {
+      const filePath = `${root}/${normalizePath(file.path)}`;
+      const header = [
+        `diff --git a/${filePath} b/${filePath}`,
+        'new file mode 100644',
+      ];
+      // Empty files have no hunk
+      if (!file.content) return `${header.join('\n')}\n`;
+
+      const lines = file.content.split('\n');
+      const endsWithNewline = file.content.endsWith('\n');
+      if (endsWithNewline) lines.pop();
+
+      return `${[
+        ...header,
+        '--- /dev/null',
+        `+++ b/${filePath}`,
+        `@@ -0,0 +1,${lines.length} @@`,
+        ...lines.map((line) => `+${line}`),
+        ...(endsWithNewline ? [] : ['\\ No newline at end of file']),
+      ].join('\n')}\n`;
+    })
+    .join('');
+};
+
+/**
+ * Absolute workspace directory, resolved against the workspace root.
+ * Without a root, workspace writes are disabled: any client of the server
+ * could otherwise write anywhere the server process can.
+ */
+export const resolveWorkspaceDirectory = (
+  directory: string,
+  root?: string
+): string => {
+  if (!root) {
+    throw new Error(
+      'Writing to a workspace is disabled; set GENERATION_WORKSPACE_ROOT to enable it'
+    );
+  }
+
+  const resolvedRoot = path.resolve(root);
+  const resolved = path.resolve(resolvedRoot, directory);
+  const relative = path.relative(resolvedRoot, resolved);
+  if (relative.startsWith('..') || path.isAbsolute(relative)) {
+    throw new Error(
+      `Workspace directory ${directory} is outside the workspace root ${resolvedRoot}`
+    );
+  }
+  return resolved;
+};
+
+/**
+ * Write the project into a workspace directory. Nothing is written while
+ * any file conflicts and `overwrite` is off, so a project is never left
+ * half-written.
+ */
+export const writeProjectToWorkspace = async (
+  files: GeneratedFile[],
+  directory: string,
+  options: WorkspaceWriteOptions = {}
+): Promise<WorkspaceWriteResult> => {
+  const result: WorkspaceWriteResult = {
+    directory,
+    dryRun: options.dryRun ?? false,
+    written: false,
+    created: [],
+    updated: [],
+    unchanged: [],
+    conflicts: [],
+  };
+  const pending: Array<{ target: string; content: string }> = [];
+
+  for (const file of files) {
+    const relative = normalizePath(file.path);
+    const target = path.join(directory, relative);
+    const existing = await fs.readFile(target, 'utf-8').catch(() => null);
+
+    if (existing === null) {
+      result.created.push(relative);
+    } else if (existing === file.content) {
+      result.unchanged.push(relative);
+      continue;
+    } else if (options.overwrite) {
+      result.updated.push(relative);
+    } else {
+      result.conflicts.push(relative);
+      continue;
+    }
+    pending.push({ target, content: file.content });
+  }
+
+  if (result.conflicts.length > 0) return result;
+  result.written = true;
+  if (result.dryRun) return result;
+
+  for (const { target, content } of pending) {
+    await fs.mkdir(path.dirname(target), { recursive: true });
+    await fs.writeFile(target, content, 'utf-8');
+  }
+  return result;
+};
@@ -0,0 +1,41 @@
+import path from 'path';
+import { KnowledgeBuilder } from '../knowledge-builder.js';
+import { specRoot } from '../../../common/paths.js';
+
+jest.mock('../../../common/paths.js', () => {
+  const path = jest.requireActual<typeof import('path')>('path');
+  const packageRoot = path.resolve(__dirname, '../../../..');
+  return {
+    packageRoot,
+    specRoot: path.resolve(packageRoot, '../../spec'),
+    templatesRoot: path.resolve(packageRoot, 'src/templates'),
+  };
+});
+
+describe('KnowledgeBuilder', () => {
+  const builder = new KnowledgeBuilder();
+
+  // JavaScript and C++ references are named out.*.json, C# ones csharp*.json
+  it.each([
+    ['api/js/out.js.json', 'javascript-out.js', 'ThreadApi'],
+    ['api/cpp/out.cpp.json', 'cpp-out.cpp', 'ThreadApi'],
+    ['api/csharp/csharp.json', 'csharp-csharp', 'ThreadApi'],
+    ['api/csharp/csharp-extra.json', 'csharp-csharp-extra', 'AsyncThreadApi'],
+  ])('loads %s', async (file, key, className) => {
+    const filePath = path.join(specRoot, file);
+
+    expect(builder.isSpecificationFile(path.basename(filePath))).toBe(true);
+
+    const entry = await builder.buildFromFile(filePath, specRoot);
+    const classes = entry.namespaces.flatMap((ns) =>
+      ns.classes.map((cls) => cls.name.split(/::|\./).pop())
+    );
+    expect(entry.key).toBe(key);
+    expect(classes).toContain(className);
+  });
+
+  it('skips other JSON files', () => {
+    expect(builder.isSpecificationFile('package.json')).toBe(false);
+    expect(builder.isSpecificationFile('tsconfig.json')).toBe(false);
+  });
+});
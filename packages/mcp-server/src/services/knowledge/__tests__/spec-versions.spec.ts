@@ -0,0 +1,33 @@
+import path from 'path';
+import {
+  compareVersions,
+  getSpecVersion,
+  normalizeVersion,
+  parseEntryKey,
+} from '../spec-versions.js';
+
+describe('spec versions', () => {
+  const specPath = path.resolve('/spec');
+
+  it('reads the version from the spec directory layout', () => {
+    expect(getSpecVersion('/spec/api/js/out.js.json', specPath)).toBe('latest');
+    expect(getSpecVersion('/spec/api/js/2.1.0/out.js.json', specPath)).toBe(
+      '2.1.0'
+    );
+    expect(getSpecVersion('/spec/api/java/v2.0/sdk.json', specPath)).toBe(
+      '2.0'
+    );
+    expect(parseEntryKey('javascript-out.js@2.1.0')).toEqual({
+      language: 'javascript',
+      version: '2.1.0',
+    });
+    expect(normalizeVersion(' V2.1.0 ')).toBe('2.1.0');
+    expect(normalizeVersion('')).toBe('latest');
+  });
+
+  it('orders versions oldest first with latest last', () => {
+    expect(
+      ['latest', '2.10.0', '2.2.0', '2.2.0-rc1', '2.1'].sort(compareVersions)
+    ).toEqual(['2.1', '2.2.0-rc1', '2.2.0', '2.10.0', 'latest']);
+  });
+});
@@ -0,0 +1,80 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { SpecWatcher, type SpecChanges } from '../spec-watcher.js';
+
+describe('SpecWatcher', () => {
+  let root: string;
+  let watcher: SpecWatcher;
+  let reported: SpecChanges[];
+
+  const write = (file: string, content: string) => {
+    fs.mkdirSync(path.dirname(path.join(root, file)), { recursive: true });
+    fs.writeFileSync(path.join(root, file), content);
+  };
+
+  beforeEach(async () => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'spec-watcher-'));
+    write('mdx/js/threads.mdx', '# Threads');
+    write('mdx/js/inboxes.mdx', '# Inboxes');
+    write('api/js/out.js.json', '{}');
+    write('notes.txt', 'ignored');
+
+    reported = [];
+    watcher = new SpecWatcher(root, {
+      include: (filePath) => /\.(mdx|json)$/.test(filePath),
+      onChange: async (changes) => {
+        reported.push(changes);
+      },
+      // Changes are checked explicitly below
+      debounceMs: 60_000,
+    });
+    await watcher.start();
+  });
+
+  afterEach(() => {
+    watcher.stop();
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('reports added, changed and removed files by content hash', async () => {
+    write('mdx/js/threads.mdx', '# Threads\n\nSending messages');
+    write('mdx/js/inboxes.mdx', '# Inboxes');
+    write('mdx/js/stores.mdx', '# Stores');
+    write('notes.txt', 'still ignored');
+    fs.rmSync(path.join(root, 'api/js/out.js.json'));
+
+    const changes = await watcher.check();
+
+    expect(changes).toEqual({
+      added: [path.join(root, 'mdx/js/stores.mdx')],
+      changed: [path.join(root, 'mdx/js/threads.mdx')],
+      removed: [path.join(root, 'api/js/out.js.json')],
+    });
+    expect(reported).toEqual([changes]);
+  });
+
+  it('does not report unchanged files again', async () => {
+    write('mdx/js/threads.mdx', '# Threads v2');
+    await watcher.check();
+    await watcher.check();
+
+    expect(reported).toHaveLength(1);
+  });
+
+  it('reports the changes again when applying them failed', async () => {
+    const failing = new SpecWatcher(root, {
+      include: (filePath) => filePath.endsWith('.mdx'),
+      onChange: async () => {
+        throw new Error('embedding provider unavailable');
+      },
+      debounceMs: 60_000,
+    });
+    await failing.start();
+    write('mdx/js/threads.mdx', '# Threads v2');
+
+    await expect(failing.check()).rejects.toThrow('unavailable');
+    await expect(failing.check()).rejects.toThrow('unavailable');
+    failing.stop();
+  });
+});
@@ -8,6 +8,8 @@
 import path from 'path';
 import { APIParser } from '../../api/parser.js';
 import { specRoot } from '../../common/paths.js';
+import type { APINamespace } from '../../api/types.js';
+import { getSpecVersion, versionedKey } from './spec-versions.js';
 
 export class KnowledgeBuilder {
   private apiParser: APIParser;
@@ -37,22 +39,10 @@ export class KnowledgeBuilder {
 
       for (const filePath of manifestFiles) {
         try {
-          const content = await import('fs').then((fs) =>
-            fs.promises.readFile(filePath, 'utf-8')
+          const { key, namespaces } = await this.buildFromFile(
+            filePath,
+            resolvedSpecPath
           );
-
-          // Determine language from file path
-          const language = this.extractLanguageFromPath(filePath);
-
-          // Parse the specification file
-          const namespaces = await this.apiParser.parseAPISpec(
-            content,
-            language,
-            filePath
-          );
-
-          // Store in API data map
-          const key = `${language}-${path.basename(filePath, '.json')}`;
           apiData.set(key, namespaces);
 
           totalNamespaces += namespaces.length;
@@ -89,6 +79,41 @@ export class KnowledgeBuilder {
     }
   }
 
+  /**
+   * Parse a single specification file into its repository entry
+   */
+  async buildFromFile(
+    filePath: string,
+    specPath: string
+  ): Promise<{ key: string; namespaces: APINamespace[] }> {
+    const resolvedSpecPath = path.resolve(specRoot, specPath);
+    const content = await import('fs').then((fs) =>
+      fs.promises.readFile(filePath, 'utf-8')
+    );
+
+    const namespaces = await this.apiParser.parseAPISpec(
+      content,
+      this.extractLanguageFromPath(filePath),
+      path.relative(resolvedSpecPath, filePath)
+    );
+
+    return {
+      key: this.getEntryKey(filePath, resolvedSpecPath),
+      namespaces,
+    };
+  }
+
+  /**
+   * Repository key of a specification file: `${language}-${specFileName}`,
+   * suffixed with `@${version}` for versioned spec sets
+   */
+  getEntryKey(filePath: string, specPath: string): string {
+    return versionedKey(
+      `${this.extractLanguageFromPath(filePath)}-${path.basename(filePath, '.json')}`,
+      getSpecVersion(filePath, path.resolve(specRoot, specPath))
+    );
+  }
+
   /**
    * Find all manifest/specification files in the spec directory
    */
@@ -121,12 +146,16 @@ export class KnowledgeBuilder {
   /**
    * Check if file is a specification file we should process
    */
-  private isSpecificationFile(filename: string): boolean {
+  isSpecificationFile(filename: string): boolean {
+    // Swift references are named PrivMXEndpointSwift*.json, C# ones csharp*.json
+    const name = filename.toLowerCase();
     return (
-      filename.endsWith('.json') &&
-      (filename.includes('spec') ||
-        filename.includes('privmx') ||
-        filename.includes('endpoint'))
+      name.endsWith('.json') &&
+      (name.includes('spec') ||
+        name.includes('privmx') ||
+        name.includes('endpoint') ||
+        name.startsWith('out.') ||
+        name.startsWith('csharp'))
     );
   }
 
@@ -55,6 +55,28 @@ export class KnowledgeRepository {
     }
   }
 
+  /**
+   * Add or replace a single entry, e.g. after its spec file changed
+   */
+  set(key: string, value: unknown): void {
+    this.indexedData.delete(key.toLowerCase());
+    this.knowledgeData.set(key, value);
+    this.indexEntry(key, value);
+    this.refreshStats();
+  }
+
+  /**
+   * Remove a single entry, e.g. after its spec file was deleted
+   */
+  delete(key: string): boolean {
+    const deleted = this.knowledgeData.delete(key);
+    if (deleted) {
+      this.indexedData.delete(key.toLowerCase());
+      this.refreshStats();
+    }
+    return deleted;
+  }
+
   /**
    * Retrieve all stored knowledge data
    */
@@ -147,6 +169,17 @@ export class KnowledgeRepository {
     return this.knowledgeData.size === 0;
   }
 
+  /**
+   * Recompute entry count and languages after a single-entry update
+   */
+  private refreshStats(): void {
+    this.stats.languages = new Set(
+      Array.from(this.knowledgeData.keys()).map((key) => key.split('-')[0])
+    );
+    this.stats.totalEntries = this.knowledgeData.size;
+    this.stats.lastUpdated = new Date();
+  }
+
   /**
    * Create searchable index for an entry
    */
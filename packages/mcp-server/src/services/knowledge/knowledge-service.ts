@@ -8,11 +8,15 @@
  * - Documentation search and indexing
  */
 
+import path from 'path';
 import { APISearchService } from '../api/api-search-service.js';
 import { CodeGenerationService } from '../generation/code-generation-service.js';
 import { KnowledgeBuilder } from './knowledge-builder.js';
 import { KnowledgeRepository } from './knowledge-repository.js';
 import { DocumentationIndexService } from '../documentation/documentation-index.js';
+import { APIReferenceService } from '../api/api-reference-service.js';
+import { APITranslationService } from '../api/api-translation-service.js';
+import { CodeExampleIndex } from '../documentation/code-example-index.js';
 import type {
   SearchResult,
   CodeContext,
@@ -23,8 +27,44 @@ import type {
   DocumentationSearchFilters,
   SearchContext,
   CodeExample,
+  CodeExampleMatch,
+  CodeExampleQuery,
+  ParsedMDXDocument,
+  IndexResult,
 } from '../../types/documentation-types.js';
+import type {
+  APIMethodReference,
+  APINamespace,
+  APITranslation,
+  APIVersionDiff,
+} from '../../api/types.js';
+import type { MethodReferenceQuery } from '../api/api-reference-service.js';
+import type { SearchOptions } from '../search/search-options.js';
+import type {
+  SnippetTranslation,
+  TranslationQuery,
+} from '../api/api-translation-service.js';
 import { startSpan } from '../../common/otel.js';
+import eventBus from '../../common/event-bus.js';
+import { specRoot } from '../../common/paths.js';
+import { SpecWatcher, type SpecChanges } from './spec-watcher.js';
+import {
+  LATEST_VERSION,
+  compareVersions,
+  normalizeVersion,
+  parseEntryKey,
+} from './spec-versions.js';
+import { collectSignatures, diffApiVersions } from '../api/api-version-diff.js';
+import { specLanguage } from '../../api/utils.js';
+
+export interface SpecUpdateResult {
+  /** IDs of re-indexed and removed MDX documents */
+  documents: { updated: string[]; removed: string[] };
+  /** Repository keys of re-parsed and removed API specifications */
+  apiSpecs: { updated: string[]; removed: string[] };
+  errors: string[];
+  durationMs: number;
+}
 
 export class KnowledgeService {
   private knowledgeBuilder: KnowledgeBuilder;
@@ -32,8 +72,17 @@ export class KnowledgeService {
   private apiSearchService: APISearchService;
   private codeGenerationService: CodeGenerationService;
   private documentationIndexService: DocumentationIndexService;
+  /** Reference lookups per API version */
+  private apiReferenceServices = new Map<string, APIReferenceService>();
+  private codeExampleIndex: CodeExampleIndex | null = null;
+  /** Search indices of older or newer API versions, built on first use */
+  private versionSearchServices = new Map<string, Promise<APISearchService>>();
+  private apiTranslationService: APITranslationService | null = null;
   private initialized = false;
   private initializationPromise: Promise<void> | null = null;
+  private specPath = '';
+  private mdxPath = '';
+  private specWatcher: SpecWatcher | null = null;
 
   constructor() {
     this.knowledgeBuilder = new KnowledgeBuilder();
@@ -81,17 +130,20 @@ export class KnowledgeService {
       // Store in repository
       await this.knowledgeRepository.store(apiData);
 
-      // Initialize search service with API data
-      await this.apiSearchService.initialize(apiData);
+      // Initialize search service with the latest API data
+      await this.apiSearchService.initialize(
+        this.filterByVersion(apiData, LATEST_VERSION)
+      );
 
       // Initialize code generation service
       await this.codeGenerationService.initialize();
 
       // Initialize documentation index service with correct MDX path
-      const mdxPath = specPath.endsWith('/spec')
+      this.specPath = path.resolve(specRoot, specPath);
+      this.mdxPath = specPath.endsWith('/spec')
         ? `${specPath}/mdx`
         : `${specPath}/spec/mdx`;
-      await this.documentationIndexService.indexDocuments(mdxPath);
+      await this.documentationIndexService.indexDocuments(this.mdxPath);
 
       this.initialized = true;
     } catch (error) {
@@ -100,16 +152,128 @@ export class KnowledgeService {
     }
   }
 
+  /**
+   * Re-index all MDX documentation
+   */
+  async reindexDocumentation(forceReindex = true): Promise<IndexResult> {
+    this.ensureInitialized();
+    return startSpan('knowledge.reindexDocumentation', () =>
+      this.documentationIndexService.indexDocuments(this.mdxPath, forceReindex)
+    );
+  }
+
+  /**
+   * Watch the spec directory and apply MDX and API specification changes
+   * as they are saved
+   */
+  async watchSpecifications(debounceMs?: number): Promise<void> {
+    this.ensureInitialized();
+    if (this.specWatcher) return;
+
+    const watcher = new SpecWatcher(this.specPath, {
+      include: (filePath) =>
+        filePath.endsWith('.mdx') ||
+        this.knowledgeBuilder.isSpecificationFile(path.basename(filePath)),
+      onChange: async (changes) => {
+        await this.applySpecChanges(changes);
+      },
+      debounceMs,
+    });
+    await watcher.start();
+    this.specWatcher = watcher;
+    console.log(`👀 Watching ${this.specPath} for specification changes`);
+  }
+
+  /**
+   * Stop watching the spec directory
+   */
+  stopWatching(): void {
+    this.specWatcher?.stop();
+    this.specWatcher = null;
+  }
+
+  /**
+   * Re-parse and re-index changed specification files: MDX documents are
+   * re-embedded one by one, API specifications update the repository and
+   * rebuild the API search indices
+   */
+  async applySpecChanges(changes: SpecChanges): Promise<SpecUpdateResult> {
+    this.ensureInitialized();
+    return startSpan('knowledge.applySpecChanges', async () => {
+      const startTime = Date.now();
+      const isMdx = (filePath: string) => filePath.endsWith('.mdx');
+      const changed = [...changes.added, ...changes.changed];
+
+      const documents = await this.documentationIndexService.updateDocuments(
+        changed.filter(isMdx),
+        changes.removed.filter(isMdx)
+      );
+      const errors = [...documents.errors];
+
+      const apiSpecs: SpecUpdateResult['apiSpecs'] = {
+        updated: [],
+        removed: [],
+      };
+      for (const filePath of changed.filter((file) => !isMdx(file))) {
+        try {
+          const { key, namespaces } = await this.knowledgeBuilder.buildFromFile(
+            filePath,
+            this.specPath
+          );
+          this.knowledgeRepository.set(key, namespaces);
+          apiSpecs.updated.push(key);
+        } catch (error) {
+          errors.push(
+            `Failed to process ${filePath}: ${error instanceof Error ? error.message : 'Unknown error'}`
+          );
+        }
+      }
+      for (const filePath of changes.removed.filter((file) => !isMdx(file))) {
+        const key = this.knowledgeBuilder.getEntryKey(filePath, this.specPath);
+        if (this.knowledgeRepository.delete(key)) {
+          apiSpecs.removed.push(key);
+        }
+      }
+
+      if (apiSpecs.updated.length + apiSpecs.removed.length > 0) {
+        await this.apiSearchService.reload(this.getApiData());
+        this.versionSearchServices.clear();
+        this.apiTranslationService = null;
+      }
+      // Reference cards and code examples link API specs and documents
+      this.apiReferenceServices.clear();
+      this.codeExampleIndex = null;
+
+      const result: SpecUpdateResult = {
+        documents: { updated: documents.updated, removed: documents.removed },
+        apiSpecs,
+        errors,
+        durationMs: Date.now() - startTime,
+      };
+      eventBus.emit('vector.index.updated', result);
+      console.log(
+        `🔄 Re-indexed ${result.documents.updated.length} documents (${result.documents.removed.length} removed) and ${apiSpecs.updated.length} API specs (${apiSpecs.removed.length} removed) in ${result.durationMs}ms`
+      );
+      return result;
+    });
+  }
+
   /**
    * Discover API methods and classes based on functionality description
    */
   async discoverAPI(
     functionality: string,
-    language?: string
+    language?: string,
+    options: SearchOptions = {},
+    version?: string
   ): Promise<SearchResult[]> {
     this.ensureInitialized();
-    return startSpan('knowledge.discoverAPI', () =>
-      this.apiSearchService.discoverAPI(functionality, language)
+    return startSpan('knowledge.discoverAPI', async () =>
+      (await this.getApiSearchService(version)).discoverAPI(
+        functionality,
+        language,
+        options
+      )
     );
   }
 
@@ -119,11 +283,18 @@ export class KnowledgeService {
   async searchApiMethods(
     query: string,
     className?: string,
-    limit = 10
+    limit = 10,
+    options: SearchOptions = {},
+    version?: string
   ): Promise<SearchResult[]> {
     this.ensureInitialized();
-    return startSpan('knowledge.searchApiMethods', () =>
-      this.apiSearchService.searchApiMethods(query, className, limit)
+    return startSpan('knowledge.searchApiMethods', async () =>
+      (await this.getApiSearchService(version)).searchApiMethods(
+        query,
+        className,
+        limit,
+        options
+      )
     );
   }
 
@@ -133,11 +304,18 @@ export class KnowledgeService {
   async searchClasses(
     query: string,
     namespace?: string,
-    limit = 10
+    limit = 10,
+    options: SearchOptions = {},
+    version?: string
   ): Promise<SearchResult[]> {
     this.ensureInitialized();
-    return startSpan('knowledge.searchClasses', () =>
-      this.apiSearchService.searchClasses(query, namespace, limit)
+    return startSpan('knowledge.searchClasses', async () =>
+      (await this.getApiSearchService(version)).searchClasses(
+        query,
+        namespace,
+        limit,
+        options
+      )
     );
   }
 
@@ -168,11 +346,17 @@ export class KnowledgeService {
   async searchDocumentation(
     query: string,
     filters?: DocumentationSearchFilters,
-    limit = 5
+    limit = 5,
+    options: SearchOptions = {}
   ): Promise<DocumentationResult[]> {
     this.ensureInitialized();
     return startSpan('knowledge.searchDocs', () =>
-      this.documentationIndexService.searchDocuments(query, filters, limit)
+      this.documentationIndexService.searchDocuments(
+        query,
+        filters,
+        limit,
+        options
+      )
     );
   }
 
@@ -227,6 +411,27 @@ export class KnowledgeService {
     return codeExamples;
   }
 
+  /**
+   * Find documentation code blocks by the PrivMX methods they call, their
+   * language and free text
+   */
+  searchCodeExamples(query: CodeExampleQuery): CodeExampleMatch[] {
+    this.ensureInitialized();
+    if (!this.codeExampleIndex) {
+      const apiMethods = new Set<string>();
+      for (const namespaces of this.getApiNamespaces().values()) {
+        for (const method of collectSignatures(namespaces).keys()) {
+          apiMethods.add(method);
+        }
+      }
+      this.codeExampleIndex = new CodeExampleIndex(
+        this.getDocuments(),
+        apiMethods
+      );
+    }
+    return this.codeExampleIndex.search(query);
+  }
+
   /**
    * Get documents by programming language
    */
@@ -237,6 +442,175 @@ export class KnowledgeService {
     return this.documentationIndexService.getDocumentsByLanguage(language);
   }
 
+  /**
+   * Get parsed API namespaces of one SDK version (default: latest) grouped
+   * by language
+   */
+  getApiNamespaces(version?: string): Map<string, APINamespace[]> {
+    this.ensureInitialized();
+    const byLanguage = new Map<string, APINamespace[]>();
+
+    for (const [key, value] of this.getApiData(version)) {
+      const { language } = parseEntryKey(key);
+      const namespaces = (value as APINamespace[]).filter(
+        (ns) => ns.name !== '_meta'
+      );
+      byLanguage.set(language, [
+        ...(byLanguage.get(language) ?? []),
+        ...namespaces,
+      ]);
+    }
+
+    return byLanguage;
+  }
+
+  /**
+   * Get the raw API specifications of one SDK version (default: latest)
+   * keyed by `${language}-${specFileName}`
+   */
+  getApiData(version?: string): Map<string, unknown> {
+    this.ensureInitialized();
+    return this.filterByVersion(
+      this.knowledgeRepository.getAll(),
+      this.resolveVersion(version)
+    );
+  }
+
+  /**
+   * SDK versions with API specifications and their languages, oldest first
+   * and `latest` last
+   */
+  getApiVersions(): Array<{ version: string; languages: string[] }> {
+    this.ensureInitialized();
+    const versions = new Map<string, Set<string>>();
+
+    for (const key of this.knowledgeRepository.getAll().keys()) {
+      const { language, version } = parseEntryKey(key);
+      versions.set(version, (versions.get(version) ?? new Set()).add(language));
+    }
+
+    return Array.from(versions.keys())
+      .sort(compareVersions)
+      .map((version) => ({
+        version,
+        languages: Array.from(versions.get(version)!).sort(),
+      }));
+  }
+
+  /**
+   * Methods added, removed or changed between two SDK versions, per
+   * language present in both
+   */
+  diffApiVersions(
+    from: string,
+    to: string,
+    language?: string
+  ): APIVersionDiff[] {
+    const before = this.getApiNamespaces(from);
+    const after = this.getApiNamespaces(to);
+    const languages = Array.from(before.keys()).filter(
+      (lang) => after.has(lang) && (!language || lang === language)
+    );
+
+    if (languages.length === 0) {
+      const scope = language ? `${language} ` : '';
+      throw new Error(
+        `No ${scope}API specifications in both ${normalizeVersion(from)} and ${normalizeVersion(to)}`
+      );
+    }
+
+    return languages
+      .sort()
+      .map((lang) =>
+        diffApiVersions(
+          lang,
+          { version: normalizeVersion(from), namespaces: before.get(lang)! },
+          { version: normalizeVersion(to), namespaces: after.get(lang)! }
+        )
+      );
+  }
+
+  /**
+   * PrivMX methods called in code that exist in some SDK version of the
+   * language but not in the given one, as `Class.method`
+   */
+  findUnavailableApis(
+    code: string,
+    language: string,
+    version: string
+  ): string[] {
+    const apiLanguage = specLanguage(language);
+    const available = new Set(
+      Array.from(
+        collectSignatures(
+          this.getApiNamespaces(version).get(apiLanguage) ?? []
+        ).keys()
+      ).map((method) => method.split('.').pop())
+    );
+
+    const called = new Set(
+      Array.from(code.matchAll(/\b([A-Za-z_]\w*)\s*\(/g), (m) => m[1])
+    );
+    const unavailable = new Set<string>();
+
+    for (const { version: other } of this.getApiVersions()) {
+      for (const method of collectSignatures(
+        this.getApiNamespaces(other).get(apiLanguage) ?? []
+      ).keys()) {
+        const name = method.split('.').pop()!;
+        if (called.has(name) && !available.has(name)) unavailable.add(method);
+      }
+    }
+
+    return Array.from(unavailable).sort();
+  }
+
+  /**
+   * Get all indexed MDX documents
+   */
+  getDocuments(): ParsedMDXDocument[] {
+    this.ensureInitialized();
+    return this.documentationIndexService.getAllDocuments();
+  }
+
+  /**
+   * Get the reference card of a single API method by class and name or key
+   */
+  getApiMethodReference(
+    query: MethodReferenceQuery,
+    version?: string
+  ): APIMethodReference {
+    this.ensureInitialized();
+    const resolved = this.resolveVersion(version);
+    let service = this.apiReferenceServices.get(resolved);
+    if (!service) {
+      service = new APIReferenceService(
+        this.getApiNamespaces(resolved),
+        this.getDocuments()
+      );
+      this.apiReferenceServices.set(resolved, service);
+    }
+    return service.getMethodReference(query);
+  }
+
+  /**
+   * Map an API method to its equivalents in another language
+   */
+  translateApiUsage(query: TranslationQuery): APITranslation {
+    return this.getTranslationService().translate(query);
+  }
+
+  /**
+   * Map the PrivMX calls of a code snippet to another language
+   */
+  translateApiSnippet(
+    code: string,
+    from: string,
+    to: string
+  ): SnippetTranslation {
+    return this.getTranslationService().translateSnippet(code, from, to);
+  }
+
   /**
    * Get knowledge service statistics
    */
@@ -250,6 +624,62 @@ export class KnowledgeService {
     };
   }
 
+  private getTranslationService(): APITranslationService {
+    this.ensureInitialized();
+    this.apiTranslationService ??= new APITranslationService(
+      this.getApiNamespaces()
+    );
+    return this.apiTranslationService;
+  }
+
+  /**
+   * Search service over the API of one SDK version
+   */
+  private getApiSearchService(version?: string): Promise<APISearchService> {
+    const resolved = this.resolveVersion(version);
+    if (resolved === LATEST_VERSION) {
+      return Promise.resolve(this.apiSearchService);
+    }
+
+    let service = this.versionSearchServices.get(resolved);
+    if (!service) {
+      service = (async () => {
+        const versioned = new APISearchService(resolved);
+        await versioned.initialize(this.getApiData(resolved));
+        return versioned;
+      })();
+      // Allow a retry when building the indices failed
+      service.catch(() => this.versionSearchServices.delete(resolved));
+      this.versionSearchServices.set(resolved, service);
+    }
+    return service;
+  }
+
+  /**
+   * Normalized version, rejecting versions without API specifications
+   */
+  private resolveVersion(version?: string): string {
+    const resolved = normalizeVersion(version);
+    const known = this.getApiVersions().map((v) => v.version);
+    if (resolved !== LATEST_VERSION && !known.includes(resolved)) {
+      throw new Error(
+        `Unknown API version '${version}'. Available versions: ${known.join(', ')}`
+      );
+    }
+    return resolved;
+  }
+
+  private filterByVersion(
+    apiData: Map<string, unknown>,
+    version: string
+  ): Map<string, unknown> {
+    return new Map(
+      Array.from(apiData).filter(
+        ([key]) => parseEntryKey(key).version === version
+      )
+    );
+  }
+
   private ensureInitialized(): void {
     if (!this.initialized) {
       throw new Error(
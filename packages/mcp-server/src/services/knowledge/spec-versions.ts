@@ -0,0 +1,83 @@
+/**
+ * Versioned API specification sets
+ *
+ * The spec files directly in `spec/api/<language>/` are the current SDK
+ * snapshot (`latest`). Older or newer releases live side by side in a
+ * version-named directory, e.g. `spec/api/js/2.1.0/out.js.json` or
+ * `spec/api/java/v2.0/privmx-endpoint.json`. Their repository keys carry
+ * the version: `javascript-out.js@2.1.0`.
+ */
+
+import path from 'path';
+
+export const LATEST_VERSION = 'latest';
+
+/** A.B, A.B.C or A.B.C-rcX, optionally prefixed with `v` */
+const VERSION_DIRECTORY = /^v?(\d+\.\d+(?:\.\d+)?(?:-rc\d+)?)$/i;
+
+/**
+ * Version of a spec file from its path below the spec root
+ */
+export const getSpecVersion = (filePath: string, specPath: string): string => {
+  const parts = path.relative(specPath, path.dirname(filePath)).split(path.sep);
+  for (const part of parts) {
+    const match = VERSION_DIRECTORY.exec(part);
+    if (match) return match[1].toLowerCase();
+  }
+  return LATEST_VERSION;
+};
+
+/**
+ * Repository key of a spec entry in a given version
+ */
+export const versionedKey = (key: string, version: string): string =>
+  version === LATEST_VERSION ? key : `${key}@${version}`;
+
+/**
+ * Language and version of a repository key
+ */
+export const parseEntryKey = (
+  key: string
+): { language: string; version: string } => {
+  const [name, version = LATEST_VERSION] = key.split('@');
+  return { language: name.split('-')[0], version };
+};
+
+/**
+ * Normalize a user supplied version (`v2.1.0` → `2.1.0`, empty → latest)
+ */
+export const normalizeVersion = (version?: string): string =>
+  version
+    ?.trim()
+    .replace(/^v(?=\d)/i, '')
+    .toLowerCase() || LATEST_VERSION;
+
+/**
+ * Order versions oldest first; release candidates precede their release and
+ * `latest` sorts last
+ */
+export const compareVersions = (a: string, b: string): number => {
+  if (a === b) return 0;
+  if (a === LATEST_VERSION) return 1;
+  if (b === LATEST_VERSION) return -1;
+
+  const parse = (version: string) => {
+    const [release, rc] = version.split('-rc');
+    return {
+      numbers: release.split('.').map(Number),
+      rc: rc === undefined ? Infinity : Number(rc),
+    };
+  };
+  const left = parse(a);
+  const right = parse(b);
+
+  for (
+    let i = 0;
+    i < Math.max(left.numbers.length, right.numbers.length);
+    i++
+  ) {
+    const diff = (left.numbers[i] ?? 0) - (right.numbers[i] ?? 0);
+    if (diff !== 0) return diff;
+  }
+  return left.rc === right.rc ? 0 : left.rc < right.rc ? -1 : 1;
+};
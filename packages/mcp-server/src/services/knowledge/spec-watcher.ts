@@ -0,0 +1,145 @@
+/**
+ * SpecWatcher - Detects added, changed and removed specification files
+ *
+ * Watches the spec directory and, after a short quiet period, compares the
+ * content hashes of the tracked files with the previous scan. Saving a file
+ * without edits or touching it does not report a change.
+ */
+
+import { createHash } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+
+export interface SpecChanges {
+  added: string[];
+  changed: string[];
+  removed: string[];
+}
+
+export interface SpecWatcherOptions {
+  /** Whether a file (absolute path) is tracked */
+  include: (filePath: string) => boolean;
+  /** Called with every non-empty change set; calls never overlap */
+  onChange: (changes: SpecChanges) => Promise<void>;
+  /** Quiet period after the last file event before rescanning */
+  debounceMs?: number;
+}
+
+export class SpecWatcher {
+  private rootPath: string;
+  private options: SpecWatcherOptions;
+  private hashes = new Map<string, string>();
+  private watcher: fs.FSWatcher | null = null;
+  private timer: NodeJS.Timeout | null = null;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(rootPath: string, options: SpecWatcherOptions) {
+    this.rootPath = path.resolve(rootPath);
+    this.options = options;
+  }
+
+  /**
+   * Record the current file hashes and start watching
+   */
+  async start(): Promise<void> {
+    if (this.watcher) return;
+
+    this.hashes = await this.scan();
+    this.watcher = fs.watch(this.rootPath, { recursive: true }, () =>
+      this.schedule()
+    );
+    this.watcher.on('error', (error) =>
+      console.warn('⚠️  Spec watcher error:', error)
+    );
+  }
+
+  stop(): void {
+    this.watcher?.close();
+    this.watcher = null;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Rescan now and report the changes since the last scan. Checks are
+   * queued, so a change is reported once even if events keep arriving.
+   */
+  check(): Promise<SpecChanges> {
+    const run = this.queue.then(() => this.detectChanges());
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  private schedule(): void {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.check().catch((error) =>
+        console.error('❌ Failed to apply specification changes:', error)
+      );
+    }, this.options.debounceMs ?? 300);
+  }
+
+  private async detectChanges(): Promise<SpecChanges> {
+    const hashes = await this.scan();
+    const changes: SpecChanges = { added: [], changed: [], removed: [] };
+
+    for (const [filePath, hash] of hashes) {
+      const previous = this.hashes.get(filePath);
+      if (previous === undefined) changes.added.push(filePath);
+      else if (previous !== hash) changes.changed.push(filePath);
+    }
+    for (const filePath of this.hashes.keys()) {
+      if (!hashes.has(filePath)) changes.removed.push(filePath);
+    }
+
+    if (
+      changes.added.length + changes.changed.length + changes.removed.length >
+      0
+    ) {
+      // Keep the old hashes on failure so the next check retries
+      await this.options.onChange(changes);
+    }
+    this.hashes = hashes;
+    return changes;
+  }
+
+  /**
+   * Content hashes of all tracked files below the root
+   */
+  private async scan(): Promise<Map<string, string>> {
+    const hashes = new Map<string, string>();
+
+    const walkDir = async (dir: string): Promise<void> => {
+      let entries: fs.Dirent[];
+      try {
+        entries = await fs.promises.readdir(dir, { withFileTypes: true });
+      } catch {
+        // Directory removed while scanning
+        return;
+      }
+
+      for (const entry of entries) {
+        const fullPath = path.join(dir, entry.name);
+        if (entry.isDirectory()) {
+          await walkDir(fullPath);
+        } else if (entry.isFile() && this.options.include(fullPath)) {
+          try {
+            const content = await fs.promises.readFile(fullPath);
+            hashes.set(
+              fullPath,
+              createHash('sha256').update(content).digest('hex')
+            );
+          } catch {
+            // File removed while scanning
+          }
+        }
+      }
+    };
+
+    await walkDir(this.rootPath);
+    return hashes;
+  }
+}
@@ -49,4 +49,48 @@ describe('BM25 SearchEngine', () => {
     expect(results.length).toBeGreaterThan(0);
     expect(results[0].id).toContain('sendMessage');
   });
+
+  it('matches identifiers typed in another form', () => {
+    const engine = new SearchEngine();
+    const method = (name: string, description: string): APIMethod =>
+      ({
+        name,
+        key: `js:privmx:${name}()`,
+        description,
+        snippet: '',
+        methodType: 'method',
+        parameters: [],
+        returns: [],
+        language: 'javascript',
+        namespace: 'privmx',
+        examples: [],
+        prerequisites: [],
+        relatedMethods: [],
+        usagePatterns: [],
+      }) as unknown as APIMethod;
+
+    engine.addNamespace(
+      {
+        name: 'privmx',
+        description: 'PrivMX core namespace',
+        language: 'javascript',
+        classes: [],
+        functions: [
+          method('createThread', 'Creates a new Thread in given Context'),
+          method('deleteThread', 'Deletes a Thread by given Thread ID'),
+          method('createStore', 'Creates a new Store in given Context'),
+          method('listInboxes', 'Gets a list of Inboxes in given Context'),
+        ],
+        constants: [],
+        types: [],
+        commonPatterns: [],
+      } as unknown as APINamespace,
+      'javascript'
+    );
+    engine.buildIndices();
+
+    for (const query of ['create thread', 'create_thread', 'CreateThread']) {
+      expect(engine.search(query)[0].id).toContain('createThread');
+    }
+  });
 });
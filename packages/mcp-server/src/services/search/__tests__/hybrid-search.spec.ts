@@ -1,4 +1,5 @@
 import { SearchService } from '../search-service.js';
+import { SearchEngine } from '../core-search-engine.js';
 import { APIMethod, APINamespace } from '../../../api/types.js';
 
 describe('Hybrid Search Engine', () => {
@@ -47,4 +48,44 @@ describe('Hybrid Search Engine', () => {
     const results = await service.search('send message');
     expect(results[0]).toBeDefined();
   });
+
+  it('merges semantic hits into the matching lexical results', () => {
+    const method = (name: string, description: string): APIMethod =>
+      ({
+        ...apiMethod,
+        name,
+        key: `js.privmx.${name}()`,
+        description,
+      }) as APIMethod;
+
+    const engine = new SearchEngine();
+    engine.addNamespace(
+      {
+        ...namespace,
+        functions: [
+          method('sendMessage', 'Send a message to a thread'),
+          method('listMessages', 'Gets a list of messages in a thread'),
+          method('createStore', 'Creates a new Store'),
+        ],
+      },
+      'javascript'
+    );
+    engine.buildIndices();
+
+    const results = engine.fuseWithSemantic(
+      engine.search('send message'),
+      [
+        { id: 'js.privmx.listMessages()', score: 0.82 },
+        { id: 'js.privmx.sendMessage()', score: 0.8 },
+        { id: 'js.unknown.method()', score: 0.79 },
+      ],
+      { fusion: 'rrf' }
+    );
+
+    expect(results.map((r) => r.title)).toEqual([
+      'sendMessage',
+      'listMessages',
+    ]);
+    expect(results[0].id).toBe('method:javascript:privmx::sendMessage');
+  });
 });
@@ -0,0 +1,57 @@
+import { splitIdentifier, stem, tokenize } from '../identifier-tokenizer.js';
+
+describe('identifier tokenizer', () => {
+  it('splits camelCase, PascalCase, snake_case and acronyms', () => {
+    expect(splitIdentifier('createThread')).toEqual(['create', 'thread']);
+    expect(splitIdentifier('CreateThreadAsync')).toEqual([
+      'create',
+      'thread',
+      'async',
+    ]);
+    expect(splitIdentifier('create_thread')).toEqual(['create', 'thread']);
+    expect(splitIdentifier('getHTTPResponse')).toEqual([
+      'get',
+      'http',
+      'response',
+    ]);
+  });
+
+  it('applies light stemming', () => {
+    expect(
+      ['create', 'creates', 'created', 'creating'].map((word) => stem(word))
+    ).toEqual(['creat', 'creat', 'creat', 'creat']);
+    expect(['threads', 'policies', 'inboxes', 'getting'].map(stem)).toEqual([
+      'thread',
+      'policy',
+      'inbox',
+      'get',
+    ]);
+    expect(stem('access')).toBe('access');
+  });
+
+  it('matches identifier spellings against prose queries', () => {
+    const query = tokenize('create thread');
+
+    for (const text of [
+      'createThread',
+      'ThreadApi.createThread',
+      'create_thread',
+      'CreateThread',
+    ]) {
+      expect(tokenize(text)).toEqual(expect.arrayContaining(query));
+    }
+  });
+
+  it('keeps boosted identifiers, dotted paths and short words', () => {
+    const tokens = tokenize('ThreadApi.createThread(id)');
+
+    expect(tokens.filter((t) => t === 'createthread')).toHaveLength(2);
+    expect(tokens).toContain('threadapi.createthread');
+    expect(tokens).toContain('id');
+    expect(tokenize('how to send a message')).toEqual([
+      'send',
+      'sendmessage',
+      'messag',
+    ]);
+  });
+});
@@ -0,0 +1,81 @@
+import { fuseRankings, resolveFusionMethod } from '../score-fusion.js';
+
+// An exact lexical match that the embeddings rank mid-field, against
+// paraphrases that all score a similar, high cosine
+const lexical = [
+  { id: 'createThread', score: 12.4 },
+  { id: 'createThreadApi', score: 3.1 },
+  { id: 'sendMessage', score: 1.2 },
+];
+const semantic = [
+  { id: 'listThreads', score: 0.82 },
+  { id: 'sendMessage', score: 0.81 },
+  { id: 'createThread', score: 0.8 },
+  { id: 'getThread', score: 0.79 },
+];
+
+const ids = (results: { id: string }[]) => results.map((r) => r.id);
+
+describe('score fusion', () => {
+  it('keeps exact lexical matches on top with reciprocal rank fusion', () => {
+    const fused = fuseRankings([{ results: lexical }, { results: semantic }], {
+      method: 'rrf',
+    });
+
+    expect(ids(fused).slice(0, 2)).toEqual(['createThread', 'sendMessage']);
+    expect(fused[0].score).toBeLessThanOrEqual(1);
+  });
+
+  it('blends standardized scores with z-score fusion', () => {
+    const fused = fuseRankings([{ results: lexical }, { results: semantic }], {
+      method: 'zscore',
+    });
+
+    expect(fused[0].id).toBe('createThread');
+    for (const { score } of fused) {
+      expect(score).toBeGreaterThan(0);
+      expect(score).toBeLessThan(1);
+    }
+  });
+
+  it('applies list weights to the linear blend', () => {
+    const semanticOnly = fuseRankings(
+      [
+        { results: lexical, weight: 0 },
+        { results: semantic, weight: 1 },
+      ],
+      { method: 'linear' }
+    );
+
+    expect(ids(semanticOnly).slice(0, 2)).toEqual([
+      'listThreads',
+      'sendMessage',
+    ]);
+    expect(semanticOnly[0].score).toBe(1);
+  });
+
+  it('keeps the order of a single list and ignores empty ones', () => {
+    for (const method of ['rrf', 'zscore', 'linear'] as const) {
+      const fused = fuseRankings([{ results: lexical }, { results: [] }], {
+        method,
+      });
+      expect(ids(fused)).toEqual(ids(lexical));
+    }
+    expect(fuseRankings([{ results: [] }])).toEqual([]);
+  });
+
+  it('resolves the method from the call, then SEARCH_FUSION', () => {
+    const previous = process.env.SEARCH_FUSION;
+    try {
+      process.env.SEARCH_FUSION = 'linear';
+      expect(resolveFusionMethod()).toBe('linear');
+      expect(resolveFusionMethod('zscore')).toBe('zscore');
+
+      process.env.SEARCH_FUSION = 'unknown';
+      expect(resolveFusionMethod()).toBe('rrf');
+    } finally {
+      if (previous === undefined) delete process.env.SEARCH_FUSION;
+      else process.env.SEARCH_FUSION = previous;
+    }
+  });
+});
@@ -0,0 +1,108 @@
+import { SearchTuning } from '../search-tuning.js';
+import { boostLanguage, resolveWeights } from '../search-options.js';
+
+describe('SearchTuning', () => {
+  const tuning = () =>
+    new SearchTuning({
+      exact: { textWeight: 0.9, api: { fusion: 'linear' } },
+      semantic: { textWeight: 0.2, preferredLanguage: 'java' },
+    });
+
+  it('layers session profile, session overrides and request options', () => {
+    const searchTuning = tuning();
+    searchTuning.useProfile('a', 'exact');
+    searchTuning.setOverrides('a', 'api', { vectorWeight: 0.4 });
+
+    expect(searchTuning.resolve('a', 'api')).toEqual({
+      textWeight: 0.9,
+      fusion: 'linear',
+      vectorWeight: 0.4,
+    });
+    expect(searchTuning.resolve('a', 'docs', { fusion: 'rrf' })).toEqual({
+      textWeight: 0.9,
+      fusion: 'rrf',
+    });
+    expect(
+      searchTuning.resolve('a', 'api', {
+        profile: 'semantic',
+        textWeight: undefined,
+      })
+    ).toEqual({
+      textWeight: 0.2,
+      fusion: 'linear',
+      vectorWeight: 0.4,
+      preferredLanguage: 'java',
+    });
+  });
+
+  it('keeps sessions apart and forgets reset ones', () => {
+    const searchTuning = tuning();
+    searchTuning.setOverrides('a', 'docs', { textWeight: 1 });
+
+    expect(searchTuning.resolve('b', 'docs')).toEqual({});
+    expect(searchTuning.resolve(undefined, 'docs')).toEqual({});
+
+    searchTuning.reset('a');
+    expect(searchTuning.resolve('a', 'docs')).toEqual({});
+  });
+
+  it('forgets sessions that have been idle too long', () => {
+    const now = jest.spyOn(Date, 'now').mockReturnValue(0);
+    const searchTuning = new SearchTuning({}, 1000);
+    searchTuning.setOverrides('a', 'docs', { textWeight: 1 });
+    searchTuning.setOverrides('b', 'docs', { textWeight: 0 });
+
+    now.mockReturnValue(800);
+    expect(searchTuning.resolve('a', 'docs')).toEqual({ textWeight: 1 });
+
+    now.mockReturnValue(1500);
+    expect(searchTuning.resolve('a', 'docs')).toEqual({ textWeight: 1 });
+    expect(searchTuning.resolve('b', 'docs')).toEqual({});
+
+    now.mockRestore();
+  });
+
+  it('rejects unknown profiles', () => {
+    expect(() => tuning().useProfile('a', 'fuzzy')).toThrow(
+      "Unknown search profile 'fuzzy'. Available profiles: exact, semantic"
+    );
+  });
+});
+
+describe('search options', () => {
+  const originalEnv = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+  });
+
+  it('falls back to the environment defaults per surface', () => {
+    process.env.TEXT_WEIGHT = '0.7';
+    process.env.VECTOR_WEIGHT = '0.3';
+    process.env.API_TEXT_WEIGHT = '0.2';
+    delete process.env.API_VECTOR_WEIGHT;
+
+    expect(resolveWeights({}, 'docs')).toEqual({
+      textWeight: 0.7,
+      vectorWeight: 0.3,
+    });
+    expect(resolveWeights({}, 'api')).toEqual({
+      textWeight: 0.2,
+      vectorWeight: 0.8,
+    });
+    expect(resolveWeights({ textWeight: 0.4 }, 'docs').vectorWeight).toBe(0.6);
+  });
+
+  it('boosts preferred-language results without dropping others', () => {
+    const results = boostLanguage(
+      [
+        { id: 'js', language: 'javascript', score: 1 },
+        { id: 'java', language: 'java', score: 0.8 },
+      ],
+      (result) => result.language,
+      { preferredLanguage: 'Java' }
+    );
+
+    expect(results.map((r) => r.id)).toEqual(['java', 'js']);
+  });
+});
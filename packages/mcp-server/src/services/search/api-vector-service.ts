@@ -1,9 +1,12 @@
-import { OpenAIEmbeddings } from '@langchain/openai';
+import { createHash } from 'crypto';
 import { Document } from '@langchain/core/documents';
 import { QdrantVectorStore } from '@langchain/qdrant';
 import type { APINamespace, APIMethod, APIClass } from '../../api/types.js';
 import { startSpan } from '../../common/otel.js';
 import { getVectorConfig } from '../../config/vector-config.js';
+import { EmbeddingProvider } from '../vector/embedding-provider.js';
+import { createEmbeddingProvider } from '../vector/embedding-provider-factory.js';
+import { FileVectorStore } from '../vector/file-vector-store.js';
 
 export interface ApiVectorSearchResult {
   id: string;
@@ -12,37 +15,56 @@ export interface ApiVectorSearchResult {
 
 /**
  * Light-weight vector store for API methods & classes.
- * Uses the same Qdrant backend if configured, otherwise falls back to in-memory cosine search.
+ * Uses the Qdrant backend if configured, otherwise an embedded store that is
+ * persisted to a file with VECTOR_BACKEND=file and kept in memory otherwise.
  */
 export class ApiVectorService {
-  private embeddings: OpenAIEmbeddings | null = null;
+  private embeddings: EmbeddingProvider | null = null;
   private vectorStore: QdrantVectorStore | null = null;
-  private inMemoryStore: { id: string; vector: number[] }[] = [];
+  private localStore: FileVectorStore | null = null;
   private initialized = false;
 
+  /**
+   * @param version SDK version of the indexed API; versioned indices are
+   *   stored apart from the latest one
+   */
+  constructor(private version?: string) {}
+
   async initialize(apiData: Map<string, unknown>): Promise<void> {
     if (this.initialized) return;
 
     const cfg = getVectorConfig();
-    if (!cfg.openai.apiKey) {
+    if (cfg.embedding.provider === 'openai' && !cfg.openai.apiKey) {
       console.warn('OpenAI key missing – API semantic search disabled');
       return;
     }
 
-    this.embeddings = new OpenAIEmbeddings({
-      openAIApiKey: cfg.openai.apiKey,
-      modelName: cfg.openai.model,
-    });
-
+    const embeddings = createEmbeddingProvider(cfg);
     try {
-      this.vectorStore = new QdrantVectorStore(this.embeddings, {
-        url: cfg.qdrant.url,
-        apiKey: cfg.qdrant.apiKey,
-        collectionName: cfg.qdrant.collectionName + '-api',
-      });
-    } catch {
-      // Qdrant not reachable – fallback to memory
-      this.vectorStore = null;
+      await embeddings.initialize();
+    } catch (error) {
+      console.warn(
+        `Embedding provider "${cfg.embedding.provider}" unavailable – API semantic search disabled:`,
+        (error as Error).message
+      );
+      return;
+    }
+    this.embeddings = embeddings;
+
+    if (cfg.store.backend === 'qdrant') {
+      try {
+        this.vectorStore = new QdrantVectorStore(this.embeddings, {
+          url: cfg.qdrant.url,
+          apiKey: cfg.qdrant.apiKey,
+          collectionName:
+            cfg.qdrant.collectionName +
+            '-api' +
+            (this.version ? `-${this.version}` : ''),
+        });
+      } catch {
+        // Qdrant not reachable – fallback to memory
+        this.vectorStore = null;
+      }
     }
 
     // Build document list
@@ -68,19 +90,40 @@ export class ApiVectorService {
     if (this.vectorStore) {
       await this.vectorStore.addDocuments(docs);
     } else {
+      const store = new FileVectorStore(
+        cfg.store.backend === 'file'
+          ? this.version
+            ? cfg.store.apiPath.replace(/(\.json)?$/, `-${this.version}$1`)
+            : cfg.store.apiPath
+          : undefined,
+        embeddings.getModelName()
+      );
+      await store.load();
+
+      // Only embed methods that are new or whose description changed
+      const records = docs.map((d) => ({
+        id: d.metadata.id as string,
+        content: d.pageContent,
+        contentHash: createHash('sha256').update(d.pageContent).digest('hex'),
+        metadata: d.metadata,
+      }));
+      const ids = new Set(records.map((r) => r.id));
+      store.delete(store.findIds((r) => !ids.has(r.id)));
+      const pending = records.filter(
+        (r) => !store.isCurrent(r.id, r.contentHash)
+      );
+
       const BATCH = 256;
-      for (let i = 0; i < docs.length; i += BATCH) {
-        const slice = docs.slice(i, i + BATCH);
-        const vectors = await this.embeddings.embedDocuments(
-          slice.map((d) => d.pageContent)
+      for (let i = 0; i < pending.length; i += BATCH) {
+        const slice = pending.slice(i, i + BATCH);
+        const vectors = await embeddings.embedDocuments(
+          slice.map((r) => r.content)
         );
-        vectors.forEach((v, idx) => {
-          this.inMemoryStore.push({
-            id: slice[idx].metadata.id as string,
-            vector: v,
-          });
-        });
+        store.upsert(slice.map((r, idx) => ({ ...r, vector: vectors[idx] })));
       }
+
+      await store.save();
+      this.localStore = store;
     }
 
     this.initialized = true;
@@ -136,26 +179,11 @@ export class ApiVectorService {
           }))
           .slice(0, limit);
       }
-      // in-memory cosine
-      const emb = this.embeddings!;
-      const qVec = await emb.embedQuery(query);
-      const scored = this.inMemoryStore.map((item) => ({
-        id: item.id,
-        score: cosineSim(qVec, item.vector),
-      }));
-      return scored.sort((a, b) => b.score - a.score).slice(0, limit);
+      // embedded store, exact cosine
+      const qVec = await this.embeddings!.embedQuery(query);
+      return (this.localStore?.search(qVec, limit) ?? []).map(
+        ({ record, score }) => ({ id: record.id, score })
+      );
     });
   }
 }
-
-function cosineSim(a: number[], b: number[]): number {
-  let dot = 0,
-    normA = 0,
-    normB = 0;
-  for (let i = 0; i < a.length; i++) {
-    dot += a[i] * b[i];
-    normA += a[i] * a[i];
-    normB += b[i] * b[i];
-  }
-  return dot / (Math.sqrt(normA) * Math.sqrt(normB) + 1e-5);
-}
@@ -7,8 +7,15 @@ import { APINamespace, APIMethod, APIClass } from '../../api/types.js';
 import { SearchResult } from '../../types/index.js';
 // @ts-expect-error – wink-bm25 has no TS declarations yet
 import bm25Factory from 'wink-bm25-text-search';
-// @ts-expect-error – wink-tokenizer has no TS declarations yet
-import winkTokenizer from 'wink-tokenizer';
+import { tokenize } from './identifier-tokenizer.js';
+import { fuseRankings } from './score-fusion.js';
+import {
+  boostLanguage,
+  matchesResultType,
+  resolveWeights,
+  type SearchOptions,
+} from './search-options.js';
+import type { ApiVectorSearchResult } from './api-vector-service.js';
 
 // Select lexical scoring algorithm via env: bm25 (default) or tfidf
 const TEXT_ALGO =
@@ -17,6 +24,9 @@ const TEXT_ALGO =
 
 const USE_BM25 = TEXT_ALGO === 'bm25';
 
+// wink-bm25 refuses to consolidate smaller collections
+const MIN_BM25_DOCS = 3;
+
 interface SearchStats {
   namespaces: number;
   methods: number;
@@ -34,16 +44,15 @@ export class SearchEngine {
   private keywordIndex: Map<string, SearchResult[]> = new Map();
   // BM25 engine & doc map (optional)
   private bm25 = USE_BM25 ? bm25Factory() : null;
+  private bm25Ready = false;
   private docMap: Map<string, SearchResult> = new Map();
+  /** ApiVectorService ids (method keys, class:<namespace>:<name>) → result ids */
+  private vectorIdIndex: Map<string, string> = new Map();
 
   constructor() {
     if (this.bm25) {
-      const tokenizer = winkTokenizer();
       this.bm25.defineConfig({ fldWeights: { text: 1 } });
-      this.bm25.definePrepTasks([
-        (t: string) => t.toLowerCase(),
-        tokenizer.tokenize,
-      ]);
+      this.bm25.definePrepTasks([tokenize]);
     }
   }
 
@@ -57,8 +66,10 @@ export class SearchEngine {
     this.languageIndex.clear();
     this.keywordIndex.clear();
     this.docMap.clear();
+    this.vectorIdIndex.clear();
     if (this.bm25) {
       this.bm25.reset();
+      this.bm25Ready = false;
     }
   }
 
@@ -87,34 +98,26 @@ export class SearchEngine {
 
       // Index methods
       for (const method of namespace.functions) {
-        this.indexMethod(method, language, namespace.name);
+        this.indexMethod(method, language, namespace);
       }
 
       // Index class methods
       for (const apiClass of namespace.classes) {
-        this.indexClass(apiClass, language, namespace.name);
-
-        for (const method of apiClass.methods) {
-          this.indexMethod(method, language, namespace.name, apiClass.name);
-        }
-
-        for (const method of apiClass.staticMethods) {
-          this.indexMethod(method, language, namespace.name, apiClass.name);
-        }
-
-        for (const constructor of apiClass.constructors) {
-          this.indexMethod(
-            constructor,
-            language,
-            namespace.name,
-            apiClass.name
-          );
+        this.indexClass(apiClass, language, namespace);
+
+        for (const method of [
+          ...apiClass.methods,
+          ...apiClass.staticMethods,
+          ...apiClass.constructors,
+        ]) {
+          this.indexMethod(method, language, namespace, apiClass.name);
         }
       }
     }
 
-    if (this.bm25) {
+    if (this.bm25 && this.docMap.size >= MIN_BM25_DOCS) {
       this.bm25.consolidate();
+      this.bm25Ready = true;
     }
   }
 
@@ -122,10 +125,10 @@ export class SearchEngine {
    * Search for APIs by functionality description
    */
   search(functionality: string, language?: string): SearchResult[] {
-    if (this.bm25) {
+    if (this.bm25Ready) {
       const hits = this.bm25.search(functionality, 15);
       return hits
-        .map(({ id, score }: { id: string; score: number }) => {
+        .map(([id, score]: [string, number]) => {
           const doc = this.docMap.get(id);
           if (!doc) return null;
           return { ...doc, score } as SearchResult;
@@ -140,13 +143,11 @@ export class SearchEngine {
         })
         .slice(0, 10) as SearchResult[];
     }
-    const words = functionality.toLowerCase().split(/\s+/);
+    const words = tokenize(functionality);
     const results = new Map<string, SearchResult>();
     const scores = new Map<string, number>();
 
     for (const word of words) {
-      if (word.length < 3) continue;
-
       const matches = this.keywordIndex.get(word) || [];
 
       for (const match of matches) {
@@ -181,6 +182,56 @@ export class SearchEngine {
     return sortedResults;
   }
 
+  /**
+   * Fuse lexical results with semantic hits from ApiVectorService. Vector ids
+   * are mapped onto indexed results so that both rankings vote for the same
+   * entry. Weights default to API_TEXT_WEIGHT/API_VECTOR_WEIGHT.
+   */
+  fuseWithSemantic(
+    lexicalResults: SearchResult[],
+    semanticResults: ApiVectorSearchResult[],
+    options: SearchOptions & { language?: string; limit?: number } = {}
+  ): SearchResult[] {
+    const { language, limit = 10 } = options;
+    const { textWeight, vectorWeight } = resolveWeights(options, 'api');
+
+    const candidates = new Map(lexicalResults.map((r) => [r.id, r]));
+    const semantic: { id: string; score: number }[] = [];
+    for (const { id, score } of semanticResults) {
+      const result = this.docMap.get(this.vectorIdIndex.get(id) ?? '');
+      if (
+        !result ||
+        (language &&
+          !this.isLanguageCompatible(
+            language,
+            result.metadata.language as string
+          ))
+      ) {
+        continue;
+      }
+      if (!candidates.has(result.id)) candidates.set(result.id, result);
+      semantic.push({ id: result.id, score });
+    }
+
+    const fused = fuseRankings(
+      [
+        { results: lexicalResults, weight: textWeight },
+        { results: semantic, weight: vectorWeight },
+      ],
+      { method: options.fusion }
+    )
+      .map(({ id, score }) => ({ ...candidates.get(id)!, score }))
+      .filter((result) =>
+        matchesResultType(options, result.metadata.type as string)
+      );
+
+    return boostLanguage(
+      fused,
+      (result) => result.metadata.language as string,
+      options
+    ).slice(0, limit);
+  }
+
   /**
    * Search for methods
    */
@@ -239,7 +290,7 @@ export class SearchEngine {
   private indexMethod(
     method: APIMethod,
     language: string,
-    namespace: string,
+    { name: namespace, sourceFile }: APINamespace,
     className?: string
   ): void {
     const methodKey = method.key;
@@ -263,10 +314,27 @@ export class SearchEngine {
         title: `${method.name}${className ? ` (${className})` : ''}`,
         methodType: method.methodType,
         className,
+        name: method.name,
+        key: method.key,
+        description: method.description,
+        signature: method.snippet,
+        parameters: method.parameters.map((p) => ({
+          name: p.name,
+          type: p.type.name,
+          optional: p.optional,
+          description: p.description,
+        })),
+        returns: method.returns.map((r) => ({
+          type: r.type.name,
+          description: r.description,
+        })),
+        sourceFile,
       },
       score: 1.0,
     };
 
+    this.vectorIdIndex.set(method.key, searchResult.id);
+
     // Prevent duplicate IDs which cause winkBM25S to throw an error
     if (this.docMap.has(searchResult.id)) {
       // If a document with the same ID already exists we simply skip re-indexing it.
@@ -294,7 +362,7 @@ export class SearchEngine {
   private indexClass(
     apiClass: APIClass,
     language: string,
-    namespace: string
+    { name: namespace, sourceFile }: APINamespace
   ): void {
     const key = apiClass.name.toLowerCase();
 
@@ -316,10 +384,18 @@ export class SearchEngine {
         language,
         title: apiClass.name,
         className: apiClass.name,
+        description: apiClass.description,
+        sourceFile,
       },
       score: 1.0,
     };
 
+    // Vectors are keyed without language; keep the first language indexed
+    const vectorId = `class:${namespace}:${apiClass.name}`;
+    if (!this.vectorIdIndex.has(vectorId)) {
+      this.vectorIdIndex.set(vectorId, searchResult.id);
+    }
+
     // Prevent duplicate IDs which cause winkBM25S to throw an error
     if (this.docMap.has(searchResult.id)) {
       return;
@@ -343,11 +419,7 @@ export class SearchEngine {
       return; // Skip if text is undefined, null, or not a string
     }
 
-    const words = text.toLowerCase().split(/\s+/);
-
-    for (const word of words) {
-      if (word.length < 3) continue; // Skip short words
-
+    for (const word of tokenize(text)) {
       if (!this.keywordIndex.has(word)) {
         this.keywordIndex.set(word, []);
       }
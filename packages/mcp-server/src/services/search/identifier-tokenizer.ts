@@ -0,0 +1,138 @@
+/**
+ * Identifier-aware tokenizer for lexical search
+ *
+ * Splits code identifiers so that `createThread`, `CreateThread`,
+ * `create_thread` and `ThreadApi.createThread` all match "create thread".
+ * The original identifier is kept as an extra, boosted token so that exact
+ * method names still rank first; adjacent prose words are joined to meet it.
+ */
+
+/** How often a compound identifier is emitted as a whole */
+const IDENTIFIER_BOOST = 2;
+
+/** Identifiers with optional `.`, `::` or `->` separated segments */
+const IDENTIFIER_PATTERN = /[A-Za-z0-9_$]+(?:(?:\.|::|->)[A-Za-z0-9_$]+)*/g;
+
+const STOPWORDS = new Set([
+  'a',
+  'an',
+  'and',
+  'are',
+  'as',
+  'at',
+  'be',
+  'by',
+  'for',
+  'from',
+  'how',
+  'i',
+  'in',
+  'is',
+  'it',
+  'of',
+  'on',
+  'or',
+  'the',
+  'this',
+  'that',
+  'to',
+  'with',
+]);
+
+/**
+ * Split an identifier segment into lower-case words:
+ * `getHTTPResponse_v2` → get, http, response, v2
+ */
+export const splitIdentifier = (identifier: string): string[] =>
+  identifier
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+    .split(/[\s_$]+/)
+    .filter(Boolean)
+    .map((word) => word.toLowerCase());
+
+/**
+ * Light suffix stemming so plural and verb forms share a token:
+ * threads → thread, creating/created/creates → creat, policies → policy
+ */
+export const stem = (word: string): string => {
+  if (word.length <= 2 || /\d/.test(word)) return word;
+
+  if (word.endsWith('ies') && word.length > 4) return `${word.slice(0, -3)}y`;
+
+  for (const suffix of ['ing', 'ed']) {
+    if (word.endsWith(suffix) && word.length - suffix.length >= 3) {
+      const base = word.slice(0, -suffix.length);
+      // stopped → stop, getting → get (but not fill → fil)
+      return /([^aeioulsz])\1$/.test(base) ? base.slice(0, -1) : base;
+    }
+  }
+
+  if (word.endsWith('es') && /(ss|x|ch|sh)es$/.test(word)) {
+    return word.slice(0, -2);
+  }
+  if (word.endsWith('s') && !/(ss|us|is)$/.test(word)) {
+    word = word.slice(0, -1);
+  }
+
+  // create/creates → creat, to meet creating/created
+  return word.endsWith('e') && word.length >= 4 ? word.slice(0, -1) : word;
+};
+
+const isIndexable = (word: string): boolean =>
+  word.length > 1 && !STOPWORDS.has(word);
+
+/**
+ * Tokenize text containing prose and code identifiers
+ */
+export const tokenize = (text: string): string[] => {
+  const tokens: string[] = [];
+  let previousWord: string | null = null;
+
+  for (const [match] of text.matchAll(IDENTIFIER_PATTERN)) {
+    const segments = match.split(/\.|::|->/).filter(Boolean);
+
+    // Plain prose words: also emit adjacent pairs joined ("create thread"
+    // → createthread), which meets the identifier token of createThread
+    if (segments.length === 1 && /^[a-zA-Z][a-z]*$/.test(match)) {
+      const word = match.toLowerCase();
+      if (STOPWORDS.has(word)) continue;
+      if (previousWord) tokens.push(previousWord + word);
+      previousWord = word;
+      if (isIndexable(word)) tokens.push(stem(word));
+      continue;
+    }
+    previousWord = null;
+
+    for (const segment of segments) {
+      const words = splitIdentifier(segment);
+
+      if (words.length > 1) {
+        const identifier = words.join('');
+        for (let i = 0; i < IDENTIFIER_BOOST; i++) tokens.push(identifier);
+      }
+      for (const word of words) {
+        if (isIndexable(word)) tokens.push(stem(word));
+      }
+    }
+
+    if (segments.length > 1) {
+      tokens.push(
+        segments.map((segment) => splitIdentifier(segment).join('')).join('.')
+      );
+    }
+  }
+
+  return tokens;
+};
+
+/**
+ * Token frequencies of a text
+ */
+export const countTokens = (text: string): Map<string, number> => {
+  const counts = new Map<string, number>();
+  for (const token of tokenize(text)) {
+    counts.set(token, (counts.get(token) ?? 0) + 1);
+  }
+  return counts;
+};
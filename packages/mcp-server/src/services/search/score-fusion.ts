@@ -0,0 +1,165 @@
+/**
+ * Score fusion for hybrid search
+ *
+ * Lexical (BM25) and semantic (cosine) scores live on different scales, so
+ * blending them raw lets cosine scores of 0.7–0.8 outweigh exact lexical
+ * matches regardless of weights. The methods below merge rankings instead:
+ *
+ * - `rrf`: reciprocal rank fusion, Σ weight / (k + rank); ignores raw scores
+ * - `zscore`: scores standardized per list, then blended by weight
+ * - `linear`: scores min-max normalized per list, then blended by weight
+ *
+ * All methods return scores in 0..1.
+ */
+
+export const FUSION_METHODS = ['rrf', 'zscore', 'linear'] as const;
+
+export type FusionMethod = (typeof FUSION_METHODS)[number];
+
+/** Rank constant from the original RRF paper */
+export const DEFAULT_RRF_K = 60;
+
+export interface ScoredCandidate {
+  id: string;
+  score: number;
+}
+
+export interface RankedList {
+  /** Candidates with their native scores; higher is better */
+  results: ScoredCandidate[];
+  /** Relative weight of this list (default 1) */
+  weight?: number;
+}
+
+export interface FusionOptions {
+  method?: FusionMethod;
+  /** RRF rank constant; larger values flatten the head of each list */
+  rrfK?: number;
+}
+
+const isFusionMethod = (value: unknown): value is FusionMethod =>
+  FUSION_METHODS.includes(value as FusionMethod);
+
+/**
+ * Fusion method for a search call: the requested one, else SEARCH_FUSION, else rrf
+ */
+export const resolveFusionMethod = (method?: string): FusionMethod => {
+  if (isFusionMethod(method)) return method;
+  const configured = process.env.SEARCH_FUSION;
+  return isFusionMethod(configured) ? configured : 'rrf';
+};
+
+/** Best score per id, sorted descending */
+const rank = (results: ScoredCandidate[]): ScoredCandidate[] => {
+  const best = new Map<string, number>();
+  for (const { id, score } of results) {
+    if (!best.has(id) || score > best.get(id)!) best.set(id, score);
+  }
+  return Array.from(best, ([id, score]) => ({ id, score })).sort(
+    (a, b) => b.score - a.score
+  );
+};
+
+/**
+ * Per-list scorer: the fused contribution of an id, or of a missing id
+ */
+interface ListScorer {
+  score(id: string): number | undefined;
+  missing: number;
+}
+
+const rrfScorer = (results: ScoredCandidate[], k: number): ListScorer => {
+  const ranks = new Map(results.map(({ id }, i) => [id, i + 1]));
+  return {
+    // Normalized so that the top of a list scores 1
+    score: (id) => (ranks.has(id) ? (k + 1) / (k + ranks.get(id)!) : undefined),
+    missing: 0,
+  };
+};
+
+const zscoreScorer = (results: ScoredCandidate[]): ListScorer => {
+  const scores = results.map((r) => r.score);
+  const mean = scores.reduce((sum, s) => sum + s, 0) / scores.length;
+  const std = Math.sqrt(
+    scores.reduce((sum, s) => sum + (s - mean) ** 2, 0) / scores.length
+  );
+  const z = (s: number) => (std === 0 ? 0 : (s - mean) / std);
+  const byId = new Map(results.map(({ id, score }) => [id, z(score)]));
+  return {
+    score: (id) => byId.get(id),
+    // Absent from the list: as bad as its worst candidate
+    missing: z(Math.min(...scores)),
+  };
+};
+
+const linearScorer = (results: ScoredCandidate[]): ListScorer => {
+  const scores = results.map((r) => r.score);
+  const max = Math.max(...scores);
+  const min = Math.min(...scores);
+  const byId = new Map(
+    results.map(({ id, score }) => [
+      id,
+      max === min ? 1 : (score - min) / (max - min),
+    ])
+  );
+  return { score: (id) => byId.get(id), missing: 0 };
+};
+
+/**
+ * Merge ranked candidate lists into one ranking.
+ * Empty lists are ignored, so a single list keeps its own order.
+ */
+export const fuseRankings = (
+  lists: RankedList[],
+  options: FusionOptions = {}
+): ScoredCandidate[] => {
+  const method = options.method ?? resolveFusionMethod();
+  const k = options.rrfK ?? DEFAULT_RRF_K;
+
+  const ranked = lists
+    .filter((list) => list.results.length > 0)
+    .map((list) => ({
+      results: rank(list.results),
+      weight: Math.max(0, list.weight ?? 1),
+    }));
+  if (ranked.length === 0) return [];
+
+  // Weights are relative; all-zero weights count equally
+  const weightSum = ranked.reduce((sum, list) => sum + list.weight, 0);
+  const weights = ranked.map((list) =>
+    weightSum === 0 ? 1 / ranked.length : list.weight / weightSum
+  );
+
+  const scorers = ranked.map(({ results }) => {
+    switch (method) {
+      case 'zscore':
+        return zscoreScorer(results);
+      case 'linear':
+        return linearScorer(results);
+      case 'rrf':
+      default:
+        return rrfScorer(results, k);
+    }
+  });
+
+  // First appearance breaks ties
+  const ids = new Set(
+    ranked.flatMap(({ results }) => results.map((r) => r.id))
+  );
+  const fused = Array.from(ids, (id) => ({
+    id,
+    score: scorers.reduce(
+      (sum, scorer, i) =>
+        sum + weights[i] * (scorer.score(id) ?? scorer.missing),
+      0
+    ),
+  }));
+
+  if (method === 'zscore') {
+    // Map the blended z-score onto 0..1
+    for (const result of fused)
+      result.score = 1 / (1 + Math.exp(-result.score));
+  }
+
+  return fused.sort((a, b) => b.score - a.score);
+};
@@ -0,0 +1,88 @@
+/**
+ * Per-request search tuning
+ *
+ * Options travel with a single search call. Unset options fall back to the
+ * process-wide defaults from the environment (TEXT_WEIGHT/VECTOR_WEIGHT for
+ * documentation, API_TEXT_WEIGHT/API_VECTOR_WEIGHT for the API, and
+ * SEARCH_FUSION), which are read but never written at runtime.
+ */
+
+import type { FusionMethod } from './score-fusion.js';
+
+export interface SearchOptions {
+  /** How lexical and semantic rankings are merged */
+  fusion?: FusionMethod;
+  /** Weight of the lexical ranking (0-1) */
+  textWeight?: number;
+  /** Weight of the semantic ranking (0-1); defaults to 1 - textWeight */
+  vectorWeight?: number;
+  /** Language whose results are boosted (not filtered) */
+  preferredLanguage?: string;
+  /** Score multiplier for results in the preferred language */
+  languageBoost?: number;
+  /**
+   * Only results of these types: `method` or `class` for API search,
+   * document categories (tutorial, guide, api, ...) for documentation
+   */
+  resultTypes?: string[];
+}
+
+/** Environment variable prefix of the default weights per search surface */
+const WEIGHT_ENV_PREFIX = { docs: '', api: 'API_' } as const;
+
+/** Boost applied to preferred-language results when none is configured */
+const DEFAULT_LANGUAGE_BOOST = 1.5;
+
+const clamp = (weight: number): number => Math.max(0, Math.min(1, weight));
+
+/**
+ * Lexical and semantic weights of a search surface
+ */
+export const resolveWeights = (
+  options: SearchOptions,
+  surface: keyof typeof WEIGHT_ENV_PREFIX
+): { textWeight: number; vectorWeight: number } => {
+  const prefix = WEIGHT_ENV_PREFIX[surface];
+  const textWeight = clamp(
+    options.textWeight ?? Number(process.env[`${prefix}TEXT_WEIGHT`] ?? 0.5)
+  );
+  const configuredVector =
+    options.textWeight === undefined
+      ? process.env[`${prefix}VECTOR_WEIGHT`]
+      : undefined;
+  const vectorWeight = clamp(
+    options.vectorWeight ?? Number(configuredVector ?? 1 - textWeight)
+  );
+  return { textWeight, vectorWeight };
+};
+
+/**
+ * Whether a result type passes the `resultTypes` filter
+ */
+export const matchesResultType = (
+  options: SearchOptions,
+  type: string | undefined
+): boolean =>
+  !options.resultTypes?.length ||
+  (type !== undefined && options.resultTypes.includes(type));
+
+/**
+ * Multiply the scores of preferred-language results and re-sort
+ */
+export const boostLanguage = <T extends { score: number }>(
+  results: T[],
+  languageOf: (result: T) => string | undefined,
+  options: SearchOptions
+): T[] => {
+  const preferred = options.preferredLanguage?.toLowerCase();
+  if (!preferred) return results;
+
+  const boost = options.languageBoost ?? DEFAULT_LANGUAGE_BOOST;
+  return results
+    .map((result) =>
+      languageOf(result)?.toLowerCase() === preferred
+        ? { ...result, score: result.score * boost }
+        : result
+    )
+    .sort((a, b) => b.score - a.score);
+};
@@ -11,9 +11,11 @@ import {
 } from '../../types/index.js';
 import { APINamespace } from '../../api/types.js';
 import eventBus from '../../common/event-bus.js';
-import { startSpan } from '../../common/otel.js';
+import { setSpanAttributes, startSpan } from '../../common/otel.js';
 import { ApiVectorService } from './api-vector-service.js';
 import { searchDuration, searchCounter } from '../../common/metrics.js';
+import { resolveFusionMethod } from './score-fusion.js';
+import type { SearchOptions } from './search-options.js';
 
 export class SearchService {
   private searchEngine: SearchEngine;
@@ -21,10 +23,13 @@ export class SearchService {
   private apiVectorService: ApiVectorService;
   private initialized = false;
 
-  constructor() {
+  /**
+   * @param version SDK version of the indexed API, when not the latest
+   */
+  constructor(version?: string) {
     this.searchEngine = new SearchEngine();
-    this.workflowSearchEngine = new WorkflowSearchEngine();
-    this.apiVectorService = new ApiVectorService();
+    this.workflowSearchEngine = new WorkflowSearchEngine(version);
+    this.apiVectorService = new ApiVectorService(version);
   }
 
   public async initialize(apiData: Map<string, unknown>): Promise<void> {
@@ -74,12 +79,13 @@ export class SearchService {
 
   public async search(
     query: string,
-    language?: string
+    language?: string,
+    options: SearchOptions = {}
   ): Promise<SearchResult[]> {
     return startSpan('search.generic', async () => {
       eventBus.emit('search.started', { query, language });
       const start = Date.now();
-      const results = await this.hybridSearch(query, language);
+      const results = await this.hybridSearch(query, language, 10, options);
       const duration = Date.now() - start;
       searchCounter.inc({ type: 'generic' });
       searchDuration.observe({ type: 'generic' }, duration);
@@ -95,14 +101,20 @@ export class SearchService {
   public async searchMethods(
     query: string,
     className?: string,
-    limit = 10
+    limit = 10,
+    options: SearchOptions = {}
   ): Promise<SearchResult[]> {
     return startSpan('search.methods', async () => {
       eventBus.emit('search.started', { query, type: 'methods', className });
       const start = Date.now();
 
       // Use hybrid search first, then filter method results
-      const hybrid = await this.hybridSearch(query, undefined, limit * 2);
+      const hybrid = await this.hybridSearch(
+        query,
+        undefined,
+        limit * 2,
+        options
+      );
 
       const filtered = hybrid.filter((r) => {
         const isMethod =
@@ -131,13 +143,19 @@ export class SearchService {
   public async searchClasses(
     query: string,
     namespace?: string,
-    limit = 10
+    limit = 10,
+    options: SearchOptions = {}
   ): Promise<SearchResult[]> {
     return startSpan('search.classes', async () => {
       eventBus.emit('search.started', { query, type: 'classes', namespace });
       const start = Date.now();
 
-      const hybrid = await this.hybridSearch(query, undefined, limit * 2);
+      const hybrid = await this.hybridSearch(
+        query,
+        undefined,
+        limit * 2,
+        options
+      );
 
       const filtered = hybrid.filter((r) => {
         const isClass = r.metadata.type === 'class';
@@ -162,9 +180,10 @@ export class SearchService {
 
   public async searchWithContext(
     query: string,
-    context?: SearchContext
+    context?: SearchContext,
+    options: SearchOptions = {}
   ): Promise<EnhancedSearchResult[]> {
-    return this.workflowSearchEngine.searchWithContext(query, context);
+    return this.workflowSearchEngine.searchWithContext(query, context, options);
   }
 
   public async findWorkflowsForGoal(
@@ -189,91 +208,36 @@ export class SearchService {
   }
 
   /**
-   * Perform a pure lexical search (BM25 or keyword). Exposed for consumers that want
-   * to apply their own hybrid logic (e.g. ApiSearchService).
+   * Perform a pure lexical search (BM25 or keyword).
    */
   public lexicalSearch(query: string, language?: string): SearchResult[] {
     return this.searchEngine.search(query, language);
   }
 
   /**
-   * Hybrid search – combine lexical & vector scores using configurable weights.
+   * Hybrid search – fuse lexical and vector rankings (see score-fusion.ts).
    */
-  private async hybridSearch(
+  public async hybridSearch(
     query: string,
     language?: string,
-    limit = 10
+    limit = 10,
+    options: SearchOptions = {}
   ): Promise<SearchResult[]> {
-    // Obtain lexical candidates
+    const method = resolveFusionMethod(options.fusion);
     const lexicalResults = this.lexicalSearch(query, language);
-
-    // Semantic candidates (if available)
     const semanticRes = await this.apiVectorService.semanticSearch(query, 20);
 
-    const lexicalWeight = Number(process.env.API_TEXT_WEIGHT ?? '0.5');
-    const vectorWeight = Number(
-      process.env.API_VECTOR_WEIGHT ?? 1 - lexicalWeight
-    );
-
-    // Normalise lexical scores 0..1 based on best hit
-    const maxLex = lexicalResults.length > 0 ? lexicalResults[0].score : 1;
-    const combined = new Map<string, { res: SearchResult; score: number }>();
-
-    for (const r of lexicalResults) {
-      const norm = r.score / (maxLex || 1);
-      combined.set(r.id, { res: r, score: norm * lexicalWeight });
-    }
-
-    for (const s of semanticRes) {
-      const existing = combined.get(s.id);
-      if (existing) {
-        existing.score += s.score * vectorWeight;
-      } else {
-        const lex = lexicalResults.find((r) => r.id === s.id);
-        if (lex) {
-          combined.set(lex.id, { res: lex, score: s.score * vectorWeight });
-        } else {
-          // Handle purely semantic matches - create stub SearchResult from available data
-          let title = `Semantic Match: ${s.id}`;
-          const content = '';
-          let type: 'api' | 'guide' | 'example' | 'class' | 'method' = 'api';
-          const metadata: Record<string, unknown> = { source: 'vector_search' };
-
-          // Extract information from the ID if it follows a pattern
-          if (s.id.includes(':')) {
-            const parts = s.id.split(':');
-            if (parts[0] === 'class') {
-              type = 'class';
-              title = parts[2] || parts[1] || s.id;
-              metadata.namespace = parts[1];
-              metadata.className = parts[2];
-            } else if (parts.length >= 2) {
-              type = 'method';
-              title = parts[parts.length - 1] || s.id;
-              metadata.namespace = parts[0];
-            }
-          }
-
-          const semanticResult: SearchResult = {
-            id: s.id,
-            title,
-            content,
-            type,
-            score: s.score,
-            metadata,
-          };
-
-          combined.set(s.id, {
-            res: semanticResult,
-            score: s.score * vectorWeight,
-          });
-        }
-      }
-    }
+    setSpanAttributes({
+      fusion: method,
+      lexicalCandidates: lexicalResults.length,
+      semanticCandidates: semanticRes.length,
+    });
 
-    return Array.from(combined.values())
-      .sort((a, b) => b.score - a.score)
-      .map((c) => c.res)
-      .slice(0, limit);
+    return this.searchEngine.fuseWithSemantic(lexicalResults, semanticRes, {
+      ...options,
+      language,
+      fusion: method,
+      limit,
+    });
   }
 }
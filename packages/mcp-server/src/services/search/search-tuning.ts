@@ -0,0 +1,170 @@
+/**
+ * Search tuning profiles and per-session overrides
+ *
+ * Named profiles come from a JSON file (SEARCH_PROFILES_PATH) mapping profile
+ * names to search options, optionally with `docs` and `api` sections for the
+ * documentation and API search. Each MCP session may select a profile and
+ * override single options; nothing is shared between sessions. Servers drop
+ * a session's tuning when it closes or, without close events, after it has
+ * been idle for a while.
+ */
+
+import fs from 'fs';
+import { z } from 'zod';
+import { SearchProfileSchema } from '../../common/schemas.js';
+import type { SearchOptions } from './search-options.js';
+
+export type SearchSurface = 'docs' | 'api';
+
+export type SearchProfile = z.infer<typeof SearchProfileSchema>;
+
+/** Session of the stdio transport, which serves a single client */
+export const DEFAULT_SESSION = 'default';
+
+interface SessionTuning {
+  profile?: string;
+  overrides: Partial<Record<SearchSurface, SearchOptions>>;
+}
+
+/**
+ * Read named profiles from a JSON file; no path means no profiles
+ */
+export const loadSearchProfiles = (
+  filePath?: string
+): Record<string, SearchProfile> => {
+  if (!filePath) return {};
+  const parsed = z
+    .record(SearchProfileSchema)
+    .safeParse(JSON.parse(fs.readFileSync(filePath, 'utf-8')));
+  if (!parsed.success) {
+    throw new Error(
+      `Invalid search profiles in ${filePath}: ${parsed.error.message}`
+    );
+  }
+  return parsed.data;
+};
+
+const definedOnly = (options: SearchOptions): SearchOptions =>
+  Object.fromEntries(
+    Object.entries(options).filter(([, value]) => value !== undefined)
+  );
+
+export class SearchTuning {
+  private sessions = new Map<string, SessionTuning>();
+  private usedAt = new Map<string, number>();
+
+  /**
+   * @param idleMs - Forget sessions unused for this long; by default they
+   * are kept until reset
+   */
+  constructor(
+    private profiles: Record<string, SearchProfile> = {},
+    private idleMs?: number
+  ) {}
+
+  listProfiles(): Record<string, SearchProfile> {
+    return this.profiles;
+  }
+
+  getSession(sessionId = DEFAULT_SESSION): SessionTuning {
+    this.evictIdle();
+    const session = this.sessions.get(sessionId);
+    if (session) this.usedAt.set(sessionId, Date.now());
+    return session ?? { overrides: {} };
+  }
+
+  /**
+   * Select a profile for the session, or clear it with `undefined`
+   */
+  useProfile(sessionId = DEFAULT_SESSION, name?: string): void {
+    if (name !== undefined) this.getProfile(name);
+    this.store(sessionId, {
+      ...this.getSession(sessionId),
+      profile: name,
+    });
+  }
+
+  /**
+   * Override options of one search surface for the session
+   */
+  setOverrides(
+    sessionId = DEFAULT_SESSION,
+    surface: SearchSurface,
+    options: SearchOptions
+  ): void {
+    const session = this.getSession(sessionId);
+    this.store(sessionId, {
+      ...session,
+      overrides: {
+        ...session.overrides,
+        [surface]: { ...session.overrides[surface], ...definedOnly(options) },
+      },
+    });
+  }
+
+  /**
+   * Drop the profile and overrides of a session
+   */
+  reset(sessionId = DEFAULT_SESSION): void {
+    this.sessions.delete(sessionId);
+    this.usedAt.delete(sessionId);
+  }
+
+  /**
+   * Options of one search call. Later sources win: the session profile, the
+   * session overrides, the profile named in the request, the request options.
+   */
+  resolve(
+    sessionId: string | undefined,
+    surface: SearchSurface,
+    request: SearchOptions & { profile?: string } = {}
+  ): SearchOptions {
+    const { profile, ...options } = request;
+    const session = this.getSession(sessionId);
+    return {
+      ...(session.profile
+        ? this.forSurface(this.getProfile(session.profile), surface)
+        : {}),
+      ...session.overrides[surface],
+      ...(profile ? this.forSurface(this.getProfile(profile), surface) : {}),
+      ...definedOnly(options),
+    };
+  }
+
+  private store(sessionId: string, tuning: SessionTuning): void {
+    this.sessions.set(sessionId, tuning);
+    this.usedAt.set(sessionId, Date.now());
+  }
+
+  private evictIdle(): void {
+    if (this.idleMs === undefined) return;
+    const cutoff = Date.now() - this.idleMs;
+    for (const [sessionId, usedAt] of this.usedAt) {
+      if (usedAt < cutoff) this.reset(sessionId);
+    }
+  }
+
+  private getProfile(name: string): SearchProfile {
+    const profile = this.profiles[name];
+    if (!profile) {
+      const available = Object.keys(this.profiles);
+      throw new Error(
+        `Unknown search profile '${name}'. Available profiles: ${
+          available.length ? available.join(', ') : 'none'
+        }`
+      );
+    }
+    return profile;
+  }
+
+  private forSurface(
+    profile: SearchProfile,
+    surface: SearchSurface
+  ): SearchOptions {
+    const { docs, api, ...shared } = profile;
+    return {
+      ...definedOnly(shared),
+      ...definedOnly((surface === 'docs' ? docs : api) ?? {}),
+    };
+  }
+}
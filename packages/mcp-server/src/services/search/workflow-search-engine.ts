@@ -8,6 +8,7 @@
 import { SearchEngine } from './core-search-engine.js';
 import { APIAnalysisService } from '../api/api-analysis-service.js';
 import { ApiVectorService } from './api-vector-service.js';
+import type { SearchOptions } from './search-options.js';
 import {
   SearchResult,
   EnhancedSearchResult,
@@ -46,10 +47,10 @@ export class WorkflowSearchEngine extends SearchEngine {
   private contextCache: Map<string, EnhancedSearchResult[]> = new Map();
   private isVectorAvailable = false;
 
-  constructor() {
+  constructor(version?: string) {
     super();
     this.relationshipAnalyzer = new APIAnalysisService();
-    this.apiVectorService = new ApiVectorService();
+    this.apiVectorService = new ApiVectorService(version);
   }
 
   /**
@@ -86,9 +87,10 @@ export class WorkflowSearchEngine extends SearchEngine {
    */
   async searchWithContext(
     query: string,
-    context?: SearchContext
+    context?: SearchContext,
+    options: SearchOptions = {}
   ): Promise<EnhancedSearchResult[]> {
-    const cacheKey = `${query}:${JSON.stringify(context)}`;
+    const cacheKey = `${query}:${JSON.stringify(context)}:${JSON.stringify(options)}`;
 
     // Check cache first
     if (this.contextCache.has(cacheKey)) {
@@ -98,7 +100,9 @@ export class WorkflowSearchEngine extends SearchEngine {
     // Hybrid search results for better relevance
     const basicResults = await this.hybridSearch(
       query,
-      context?.userContext?.language
+      context?.userContext?.language,
+      20,
+      options
     );
 
     // Enhance results with context intelligence
@@ -582,7 +586,8 @@ ${steps}
   private async hybridSearch(
     query: string,
     language?: string,
-    limit = 20
+    limit = 20,
+    options: SearchOptions = {}
   ): Promise<SearchResult[]> {
     const lexicalResults = super.search(query, language);
 
@@ -591,33 +596,10 @@ ${steps}
       ? await this.apiVectorService.semanticSearch(query, 2 * limit)
       : [];
 
-    const lexicalWeight = Number(process.env.API_TEXT_WEIGHT ?? '0.5');
-    const vectorWeight = Number(
-      process.env.API_VECTOR_WEIGHT ?? 1 - lexicalWeight
-    );
-
-    const maxLex = lexicalResults.length > 0 ? lexicalResults[0].score : 1;
-    const combined = new Map<string, { res: SearchResult; score: number }>();
-
-    for (const r of lexicalResults) {
-      const norm = r.score / (maxLex || 1);
-      combined.set(r.id, { res: r, score: norm * lexicalWeight });
-    }
-
-    for (const s of semanticRes) {
-      const existing = combined.get(s.id);
-      if (existing) {
-        existing.score += s.score * vectorWeight;
-      } else {
-        const lex = lexicalResults.find((r) => r.id === s.id);
-        if (lex)
-          combined.set(lex.id, { res: lex, score: s.score * vectorWeight });
-      }
-    }
-
-    return Array.from(combined.values())
-      .sort((a, b) => b.score - a.score)
-      .map((c) => c.res)
-      .slice(0, limit);
+    return this.fuseWithSemantic(lexicalResults, semanticRes, {
+      ...options,
+      language,
+      limit,
+    });
   }
 }
@@ -10,6 +10,7 @@ import {
   ValidationResult,
   GeneratedCode,
 } from '../../types/index.js';
+import { FrameworkAdapter } from '../framework-adapters/framework-adapter.js';
 
 // Local minimal type definitions for template engine
 interface SmartTemplate {
@@ -58,20 +59,6 @@ enum ProjectType {
   LIBRARY = 'library',
 }
 
-interface FrameworkAdapter {
-  name: string;
-  supportedLanguages: string[];
-  adaptCode(code: string, context: CodeContext): Promise<string>;
-  generateImports(dependencies: string[]): string;
-  generateConfig(): any[];
-  generateProjectConfiguration(
-    projectName: string,
-    context: CodeContext
-  ): Promise<Record<string, string>>;
-  validateCode(code: string): Promise<ValidationResult>;
-  getProjectStructure(): any;
-}
-
 // Extended UserContext with additional properties for backward compatibility
 interface ExtendedUserContext extends UserContext {
   preferredFramework?: string;
@@ -0,0 +1,131 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { FileVectorAdapter } from '../file-vector-adapter.js';
+import type { EmbeddingProvider } from '../embedding-provider.js';
+import type { ParsedMDXDocument } from '../../../types/documentation-types.js';
+
+const VOCABULARY = ['thread', 'store', 'inbox', 'file', 'message'];
+
+/** Bag-of-words embeddings over a tiny vocabulary */
+class FakeEmbeddingProvider implements EmbeddingProvider {
+  embedded: string[] = [];
+
+  constructor(private model = 'fake-model') {}
+
+  async initialize(): Promise<void> {}
+
+  async embedDocuments(texts: string[]): Promise<number[][]> {
+    this.embedded.push(...texts);
+    return texts.map((text) => this.vectorize(text));
+  }
+
+  async embedQuery(text: string): Promise<number[]> {
+    return this.vectorize(text);
+  }
+
+  getModelName(): string {
+    return this.model;
+  }
+
+  private vectorize(text: string): number[] {
+    const lower = text.toLowerCase();
+    return VOCABULARY.map((word) => (lower.includes(word) ? 1 : 0.01));
+  }
+}
+
+const createDoc = (
+  id: string,
+  markdown: string,
+  language: string,
+  codeBlocks: string[] = []
+): ParsedMDXDocument =>
+  ({
+    id,
+    metadata: { title: id, language, filePath: `${id}.mdx` },
+    content: {
+      markdown,
+      codeBlocks: codeBlocks.map((code) => ({ language, code })),
+    },
+  }) as unknown as ParsedMDXDocument;
+
+describe('FileVectorAdapter', () => {
+  let dir: string;
+  let filePath: string;
+
+  const createAdapter = async (embeddings = new FakeEmbeddingProvider()) => {
+    const adapter = new FileVectorAdapter({ filePath, embeddings });
+    await adapter.initialize();
+    return { adapter, embeddings };
+  };
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'privmx-vectors-'));
+    filePath = path.join(dir, 'vectors.json');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('searches documents with metadata filters', async () => {
+    const { adapter } = await createAdapter();
+    await adapter.indexDocuments([
+      createDoc('threads-js', 'Send a message to a thread', 'javascript', [
+        'threadApi.sendMessage(threadId, pub, priv, data)',
+      ]),
+      createDoc('stores-js', 'Upload a file to a store', 'javascript'),
+      createDoc('threads-java', 'Send a message to a thread', 'java'),
+    ]);
+
+    const results = await adapter.semanticSearch(
+      'thread message',
+      { language: 'javascript' },
+      5
+    );
+
+    expect(results.map((r) => r.documentId)).toEqual([
+      'threads-js',
+      'stores-js',
+    ]);
+    expect(await adapter.getStats()).toEqual({
+      totalVectors: 4,
+      isAvailable: true,
+    });
+  });
+
+  it('persists vectors and only re-embeds changed chunks', async () => {
+    const { adapter } = await createAdapter();
+    await adapter.indexDocuments([
+      createDoc('threads', 'Threads', 'javascript', ['a()', 'b()']),
+      createDoc('stores', 'Stores', 'javascript'),
+    ]);
+
+    const { adapter: restarted, embeddings } = await createAdapter();
+    await restarted.indexDocuments([
+      createDoc('threads', 'Threads and messages', 'javascript', ['a()']),
+      createDoc('stores', 'Stores', 'javascript'),
+    ]);
+
+    expect(embeddings.embedded).toEqual(['threads\n\nThreads and messages']);
+    // threads_code_1 was removed with its code block
+    expect((await restarted.getStats()).totalVectors).toBe(3);
+    expect(
+      (await restarted.findSimilarDocuments('stores')).map((r) => r.documentId)
+    ).toEqual(['threads']);
+  });
+
+  it('re-embeds everything when the embedding model changes', async () => {
+    const { adapter } = await createAdapter();
+    await adapter.indexDocuments([createDoc('stores', 'Stores', 'javascript')]);
+
+    const { adapter: restarted, embeddings } = await createAdapter(
+      new FakeEmbeddingProvider('other-model')
+    );
+    await restarted.indexDocuments([
+      createDoc('stores', 'Stores', 'javascript'),
+    ]);
+
+    expect(embeddings.embedded).toHaveLength(1);
+  });
+});
@@ -0,0 +1,48 @@
+import { LocalEmbeddingProvider } from '../local-embedding-provider.js';
+
+const env = { cacheDir: null as string | null };
+const extractor = jest.fn(async (texts: string[]) => ({
+  tolist: () => texts.map((text) => [text.length, 1]),
+}));
+const pipeline = jest.fn(async () => extractor);
+
+// The optional dependency is not installed for the tests
+jest.mock('@huggingface/transformers', () => ({ env, pipeline }), {
+  virtual: true,
+});
+
+describe('LocalEmbeddingProvider', () => {
+  it('embeds documents in batches with a feature extraction pipeline', async () => {
+    const provider = new LocalEmbeddingProvider({
+      model: 'Xenova/bge-small-en-v1.5',
+      cacheDir: '/models',
+      batchSize: 2,
+    });
+    await provider.initialize();
+
+    const vectors = await provider.embedDocuments(['a', 'bb', 'ccc']);
+
+    expect(env.cacheDir).toBe('/models');
+    expect(pipeline).toHaveBeenCalledWith(
+      'feature-extraction',
+      'Xenova/bge-small-en-v1.5'
+    );
+    expect(vectors).toEqual([
+      [1, 1],
+      [2, 1],
+      [3, 1],
+    ]);
+    expect(extractor).toHaveBeenCalledTimes(2);
+    expect(extractor).toHaveBeenCalledWith(['a', 'bb'], {
+      pooling: 'mean',
+      normalize: true,
+    });
+    expect(await provider.embedQuery('four')).toEqual([4, 1]);
+  });
+
+  it('requires initialization before embedding', async () => {
+    await expect(new LocalEmbeddingProvider().embedQuery('x')).rejects.toThrow(
+      'LocalEmbeddingProvider not initialized'
+    );
+  });
+});
@@ -0,0 +1,75 @@
+import { OllamaEmbeddingProvider } from '../ollama-embedding-provider.js';
+
+const jsonResponse = (status: number, body: unknown) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+
+describe('OllamaEmbeddingProvider', () => {
+  const fetchMock = jest.fn();
+  const originalFetch = global.fetch;
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    global.fetch = fetchMock as unknown as typeof fetch;
+  });
+
+  afterAll(() => {
+    global.fetch = originalFetch;
+  });
+
+  const respondWithVectors = () =>
+    fetchMock.mockImplementation(async (_url, init: { body: string }) => {
+      const { input } = JSON.parse(init.body) as { input: string[] };
+      return jsonResponse(200, {
+        embeddings: input.map((text) => [text.length, 1]),
+      });
+    });
+
+  it('embeds documents in batches against /api/embed', async () => {
+    respondWithVectors();
+    const provider = new OllamaEmbeddingProvider({
+      url: 'http://ollama:11434/',
+      model: 'all-minilm',
+      batchSize: 2,
+    });
+    await provider.initialize();
+
+    const vectors = await provider.embedDocuments(['a', 'bb', 'ccc']);
+
+    expect(vectors).toEqual([
+      [1, 1],
+      [2, 1],
+      [3, 1],
+    ]);
+    // initialize probe + two batches
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    expect(fetchMock.mock.calls[1][0]).toBe('http://ollama:11434/api/embed');
+    expect(JSON.parse(fetchMock.mock.calls[1][1].body)).toEqual({
+      model: 'all-minilm',
+      input: ['a', 'bb'],
+    });
+    expect(await provider.embedQuery('four')).toEqual([4, 1]);
+  });
+
+  it('fails initialization with the server error', async () => {
+    fetchMock.mockResolvedValue(
+      jsonResponse(404, { error: 'model "nomic-embed-text" not found' })
+    );
+    const provider = new OllamaEmbeddingProvider();
+
+    await expect(provider.initialize()).rejects.toThrow(
+      'Ollama embedding request failed (404): model "nomic-embed-text" not found'
+    );
+    await expect(provider.embedQuery('x')).rejects.toThrow('not initialized');
+  });
+
+  it('reports an unreachable server', async () => {
+    fetchMock.mockRejectedValue(new TypeError('fetch failed'));
+
+    await expect(
+      new OllamaEmbeddingProvider({ url: 'http://nowhere:1' }).initialize()
+    ).rejects.toThrow('Ollama server not reachable at http://nowhere:1');
+  });
+});
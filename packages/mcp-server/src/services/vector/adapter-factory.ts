@@ -1,14 +1,18 @@
 import { VectorStoreAdapter } from './vector-adapter.js';
 import { QdrantVectorAdapter } from './qdrant-adapter.js';
+import { FileVectorAdapter } from './file-vector-adapter.js';
+import { getVectorConfig } from '../../config/vector-config.js';
 
 // Future: import other adapters (e.g., PineconeVectorAdapter) here
 
 export function createVectorAdapter(): VectorStoreAdapter {
-  const backend = (process.env.VECTOR_BACKEND || 'qdrant').toLowerCase();
+  const backend = getVectorConfig().store.backend;
 
   switch (backend) {
     case 'qdrant':
       return new QdrantVectorAdapter();
+    case 'file':
+      return new FileVectorAdapter();
     // case 'pinecone':
     //   return new PineconeVectorAdapter();
     default:
@@ -0,0 +1,32 @@
+import {
+  getVectorConfig,
+  type VectorConfig,
+} from '../../config/vector-config.js';
+import { EmbeddingProvider } from './embedding-provider.js';
+import { LocalEmbeddingProvider } from './local-embedding-provider.js';
+import { OllamaEmbeddingProvider } from './ollama-embedding-provider.js';
+import { OpenAIEmbeddingProvider } from './openai-embedding-provider.js';
+
+/**
+ * Create the embedding provider selected by EMBEDDING_PROVIDER
+ * (not yet initialized)
+ */
+export function createEmbeddingProvider(
+  config: VectorConfig = getVectorConfig()
+): EmbeddingProvider {
+  const provider = config.embedding.provider;
+
+  switch (provider) {
+    case 'openai':
+      return new OpenAIEmbeddingProvider(config.openai);
+    case 'local':
+      return new LocalEmbeddingProvider(config.local);
+    case 'ollama':
+      return new OllamaEmbeddingProvider(config.ollama);
+    default:
+      console.warn(
+        `Unknown EMBEDDING_PROVIDER="${provider}". Falling back to OpenAI.`
+      );
+      return new OpenAIEmbeddingProvider(config.openai);
+  }
+}
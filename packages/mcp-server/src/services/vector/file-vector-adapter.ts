@@ -0,0 +1,244 @@
+import { createHash } from 'crypto';
+import type {
+  ParsedMDXDocument,
+  DocumentationSearchFilters,
+  VectorSearchResult,
+} from '../../types/documentation-types.js';
+import { getVectorConfig } from '../../config/vector-config.js';
+import { VectorStoreAdapter } from './vector-adapter.js';
+import { EmbeddingProvider } from './embedding-provider.js';
+import { createEmbeddingProvider } from './embedding-provider-factory.js';
+import {
+  FileVectorStore,
+  type VectorMatch,
+  type VectorRecordInfo,
+} from './file-vector-store.js';
+
+export interface FileVectorAdapterConfig {
+  filePath?: string;
+  embeddings?: EmbeddingProvider;
+}
+
+interface Chunk {
+  id: string;
+  content: string;
+  metadata: Record<string, unknown>;
+}
+
+const hashContent = (content: string): string =>
+  createHash('sha256').update(content).digest('hex');
+
+/**
+ * Vector store adapter backed by a local index file, so semantic search
+ * works without a Qdrant server. Each document is indexed as one chunk plus
+ * one chunk per code block; unchanged chunks are not re-embedded.
+ */
+export class FileVectorAdapter implements VectorStoreAdapter {
+  private store: FileVectorStore | null = null;
+  private embeddings: EmbeddingProvider;
+  private filePath: string;
+
+  constructor(config: FileVectorAdapterConfig = {}) {
+    this.filePath = config.filePath || getVectorConfig().store.path;
+    this.embeddings = config.embeddings ?? createEmbeddingProvider();
+  }
+
+  async initialize(): Promise<void> {
+    await this.embeddings.initialize();
+
+    const store = new FileVectorStore(
+      this.filePath,
+      this.embeddings.getModelName()
+    );
+    await store.load();
+    this.store = store;
+  }
+
+  private ensureReady(): FileVectorStore {
+    if (!this.store) {
+      throw new Error('FileVectorAdapter not initialized');
+    }
+    return this.store;
+  }
+
+  async indexDocuments(documents: ParsedMDXDocument[]): Promise<void> {
+    const store = this.ensureReady();
+    const chunks = documents.flatMap((doc) => this.toChunks(doc));
+
+    // Drop chunks of re-indexed documents that no longer exist (removed code blocks)
+    const indexedDocs = new Set(documents.map((doc) => doc.id));
+    const currentIds = new Set(chunks.map((chunk) => chunk.id));
+    store.delete(
+      store.findIds(
+        (record) =>
+          !currentIds.has(record.id) &&
+          indexedDocs.has(record.metadata.documentId as string)
+      )
+    );
+
+    const pending = chunks
+      .map((chunk) => ({ ...chunk, contentHash: hashContent(chunk.content) }))
+      .filter((chunk) => !store.isCurrent(chunk.id, chunk.contentHash));
+
+    if (pending.length > 0) {
+      const vectors = await this.embeddings.embedDocuments(
+        pending.map((chunk) => chunk.content),
+        pending.map((chunk) => chunk.metadata)
+      );
+      store.upsert(
+        pending.map((chunk, i) => ({ ...chunk, vector: vectors[i] }))
+      );
+    }
+
+    await store.save();
+    console.log(
+      `📁 File vector store: embedded ${pending.length}/${chunks.length} chunks (${store.size} total)`
+    );
+  }
+
+  async removeDocuments(documentIds: string[]): Promise<void> {
+    const store = this.ensureReady();
+    const ids = new Set(documentIds);
+    const removed = store.delete(
+      store.findIds((record) => ids.has(record.metadata.documentId as string))
+    );
+    await store.save();
+    console.log(`📁 File vector store: removed ${removed} chunks`);
+  }
+
+  async semanticSearch(
+    query: string,
+    filters?: DocumentationSearchFilters,
+    limit = 5
+  ): Promise<VectorSearchResult[]> {
+    const store = this.ensureReady();
+    const vector = await this.embeddings.embedQuery(query);
+
+    // Several chunks of a document may match; keep the best one per document
+    const matches = store.search(vector, store.size, (record) =>
+      this.matchesFilters(record, filters)
+    );
+    return this.toResults(matches, limit);
+  }
+
+  async findSimilarDocuments(
+    documentId: string,
+    limit = 5
+  ): Promise<VectorSearchResult[]> {
+    const store = this.ensureReady();
+    const source = store.get(documentId);
+    if (!source) return [];
+
+    const matches = store.search(
+      source.vector,
+      store.size,
+      (record) => record.metadata.documentId !== documentId
+    );
+    return this.toResults(matches, limit);
+  }
+
+  async getStats(): Promise<{ totalVectors: number; isAvailable: boolean }> {
+    return {
+      totalVectors: this.store?.size ?? 0,
+      isAvailable: this.store !== null,
+    };
+  }
+
+  async clearCollection(): Promise<void> {
+    const store = this.ensureReady();
+    store.clear();
+    await store.save();
+    console.log(`🗑️  Cleared file vector store '${this.filePath}'`);
+  }
+
+  private toChunks(doc: ParsedMDXDocument): Chunk[] {
+    const shared = {
+      documentId: doc.id,
+      title: doc.metadata.title,
+      language: doc.metadata.language,
+      framework: doc.metadata.framework,
+      namespace: doc.metadata.namespace,
+      category: doc.metadata.category,
+      skillLevel: doc.metadata.skillLevel,
+      tags: doc.metadata.tags ?? [],
+      filePath: doc.metadata.filePath,
+      hasCodeExamples: doc.content.codeBlocks.length > 0,
+    };
+
+    return [
+      {
+        id: doc.id,
+        content: [
+          doc.metadata.title,
+          doc.metadata.description || '',
+          doc.content.markdown,
+        ]
+          .filter(Boolean)
+          .join('\n\n'),
+        metadata: { ...shared, type: 'document' },
+      },
+      ...doc.content.codeBlocks.map((block, i) => ({
+        id: `${doc.id}_code_${i}`,
+        content: `${block.title || 'Code Example'}\n\n${block.code}`,
+        metadata: {
+          ...shared,
+          title: `${doc.metadata.title} - Code Example`,
+          type: 'code',
+          codeLanguage: block.language,
+        },
+      })),
+    ];
+  }
+
+  private matchesFilters(
+    record: VectorRecordInfo,
+    filters?: DocumentationSearchFilters
+  ): boolean {
+    if (!filters) return true;
+    const metadata = record.metadata;
+
+    for (const key of [
+      'language',
+      'framework',
+      'namespace',
+      'category',
+      'skillLevel',
+    ] as const) {
+      if (filters[key] && metadata[key] !== filters[key]) return false;
+    }
+    if (filters.hasCodeExamples && !metadata.hasCodeExamples) return false;
+    if (
+      filters.tags?.length &&
+      !filters.tags.some((tag) => (metadata.tags as string[]).includes(tag))
+    ) {
+      return false;
+    }
+    return true;
+  }
+
+  private toResults(
+    matches: VectorMatch[],
+    limit: number
+  ): VectorSearchResult[] {
+    const results: VectorSearchResult[] = [];
+    const seen = new Set<string>();
+
+    for (const { record, score } of matches) {
+      const documentId = record.metadata.documentId as string;
+      if (seen.has(documentId)) continue;
+      seen.add(documentId);
+
+      results.push({
+        documentId,
+        title: record.metadata.title as string,
+        content: record.content,
+        metadata: record.metadata,
+        score,
+        type: record.metadata.type as 'document' | 'code',
+      });
+      if (results.length >= limit) break;
+    }
+
+    return results;
+  }
+}
@@ -0,0 +1,213 @@
+import { randomUUID } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+
+export interface VectorRecord {
+  id: string;
+  vector: number[];
+  /** Hash of the embedded text; unchanged records are not re-embedded */
+  contentHash: string;
+  content: string;
+  metadata: Record<string, unknown>;
+}
+
+/** Record without its vector, as returned by searches */
+export type VectorRecordInfo = Omit<VectorRecord, 'vector'>;
+
+export interface VectorMatch {
+  record: VectorRecordInfo;
+  /** Cosine similarity */
+  score: number;
+}
+
+interface StoredRecord extends VectorRecordInfo {
+  /** Float32 little-endian, base64 encoded */
+  vector: string;
+}
+
+interface StoreFile {
+  version: number;
+  model: string;
+  records: StoredRecord[];
+}
+
+interface Entry {
+  record: VectorRecordInfo;
+  vector: Float32Array;
+  norm: number;
+}
+
+const FORMAT_VERSION = 1;
+
+const encodeVector = (vector: Float32Array): string =>
+  Buffer.from(vector.buffer, vector.byteOffset, vector.byteLength).toString(
+    'base64'
+  );
+
+const decodeVector = (encoded: string): Float32Array => {
+  const bytes = Buffer.from(encoded, 'base64');
+  return new Float32Array(
+    bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength)
+  );
+};
+
+const norm = (vector: Float32Array): number => {
+  let sum = 0;
+  for (let i = 0; i < vector.length; i++) sum += vector[i] * vector[i];
+  return Math.sqrt(sum);
+};
+
+/**
+ * Embedded vector store persisted to a single JSON file.
+ *
+ * Search is exact (brute-force cosine): the documentation and API corpora are
+ * a few thousand vectors, which scans in milliseconds without a native index.
+ * Vectors of another embedding model are discarded on load.
+ */
+export class FileVectorStore {
+  private entries = new Map<string, Entry>();
+  private filePath?: string;
+  private dirty = false;
+
+  /**
+   * @param filePath index file; in-memory only when omitted
+   * @param model embedding model the vectors were created with
+   */
+  constructor(
+    filePath: string | undefined,
+    private model: string
+  ) {
+    this.filePath = filePath && path.resolve(process.cwd(), filePath);
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Load persisted vectors; a missing or foreign-model file starts empty
+   */
+  async load(): Promise<void> {
+    this.entries.clear();
+    if (!this.filePath) return;
+
+    let stored: StoreFile;
+    try {
+      stored = JSON.parse(await fs.promises.readFile(this.filePath, 'utf-8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return;
+      throw new Error(
+        `Failed to read vector store ${this.filePath}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+
+    if (stored.version !== FORMAT_VERSION || stored.model !== this.model) {
+      console.warn(
+        `Vector store ${this.filePath} was built with ${stored.model}, re-indexing for ${this.model}`
+      );
+      this.dirty = true;
+      return;
+    }
+
+    for (const { vector, ...rest } of stored.records) {
+      const decoded = decodeVector(vector);
+      this.entries.set(rest.id, {
+        record: rest,
+        vector: decoded,
+        norm: norm(decoded),
+      });
+    }
+  }
+
+  get(id: string): VectorRecord | undefined {
+    const entry = this.entries.get(id);
+    return entry && { ...entry.record, vector: Array.from(entry.vector) };
+  }
+
+  /** True when the record exists with the same content hash */
+  isCurrent(id: string, contentHash: string): boolean {
+    return this.entries.get(id)?.record.contentHash === contentHash;
+  }
+
+  /** Ids of the records matching a predicate */
+  findIds(predicate: (record: VectorRecordInfo) => boolean): string[] {
+    return Array.from(this.entries.values())
+      .filter((entry) => predicate(entry.record))
+      .map((entry) => entry.record.id);
+  }
+
+  upsert(records: VectorRecord[]): void {
+    for (const { vector: values, ...record } of records) {
+      const vector = Float32Array.from(values);
+      this.entries.set(record.id, { record, vector, norm: norm(vector) });
+    }
+    if (records.length > 0) this.dirty = true;
+  }
+
+  /** Remove records by id; returns how many existed */
+  delete(ids: Iterable<string>): number {
+    let removed = 0;
+    for (const id of ids) {
+      if (this.entries.delete(id)) removed++;
+    }
+    if (removed > 0) this.dirty = true;
+    return removed;
+  }
+
+  clear(): void {
+    this.entries.clear();
+    this.dirty = true;
+  }
+
+  /**
+   * Most similar records, optionally restricted by a metadata predicate
+   */
+  search(
+    query: number[],
+    limit: number,
+    filter?: (record: VectorRecordInfo) => boolean
+  ): VectorMatch[] {
+    const queryVector = Float32Array.from(query);
+    const queryNorm = norm(queryVector);
+    const matches: VectorMatch[] = [];
+
+    for (const entry of this.entries.values()) {
+      if (filter && !filter(entry.record)) continue;
+      if (entry.vector.length !== queryVector.length) continue;
+
+      let dot = 0;
+      for (let i = 0; i < queryVector.length; i++) {
+        dot += queryVector[i] * entry.vector[i];
+      }
+      matches.push({
+        record: entry.record,
+        score: dot / (queryNorm * entry.norm + 1e-8),
+      });
+    }
+
+    return matches.sort((a, b) => b.score - a.score).slice(0, limit);
+  }
+
+  /**
+   * Persist pending changes; writes a temp file and renames it into place
+   */
+  async save(): Promise<void> {
+    if (!this.filePath || !this.dirty) return;
+
+    const stored: StoreFile = {
+      version: FORMAT_VERSION,
+      model: this.model,
+      records: Array.from(this.entries.values()).map(({ record, vector }) => ({
+        ...record,
+        vector: encodeVector(vector),
+      })),
+    };
+
+    await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+    // Several services may save the same store concurrently
+    const tmpPath = `${this.filePath}.${randomUUID()}.tmp`;
+    await fs.promises.writeFile(tmpPath, JSON.stringify(stored), 'utf-8');
+    await fs.promises.rename(tmpPath, this.filePath);
+    this.dirty = false;
+  }
+}
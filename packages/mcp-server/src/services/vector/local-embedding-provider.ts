@@ -0,0 +1,102 @@
+import { EmbeddingProvider } from './embedding-provider.js';
+
+export interface LocalEmbeddingProviderConfig {
+  model?: string;
+  cacheDir?: string;
+  batchSize?: number;
+}
+
+type FeatureExtractor = (
+  texts: string[],
+  options: { pooling: 'mean'; normalize: boolean }
+) => Promise<{ tolist(): number[][] }>;
+
+/** The part of the transformers.js module used here */
+interface TransformersModule {
+  env: { cacheDir: string | null };
+  pipeline(task: 'feature-extraction', model: string): Promise<unknown>;
+}
+
+/**
+ * Optional dependency, loaded on first use so that deployments using
+ * OpenAI or Ollama do not need the ONNX runtime installed
+ */
+const TRANSFORMERS_MODULE = '@huggingface/transformers';
+
+/**
+ * In-process sentence embeddings with an ONNX model via transformers.js.
+ * Needs no API key; once the model is in the cache directory no network
+ * access is needed either.
+ */
+export class LocalEmbeddingProvider implements EmbeddingProvider {
+  private extractor: FeatureExtractor | null = null;
+  private config: Required<Omit<LocalEmbeddingProviderConfig, 'cacheDir'>> &
+    Pick<LocalEmbeddingProviderConfig, 'cacheDir'>;
+
+  constructor(config: LocalEmbeddingProviderConfig = {}) {
+    this.config = {
+      model: config.model || 'Xenova/all-MiniLM-L6-v2',
+      cacheDir: config.cacheDir,
+      batchSize: config.batchSize ?? 32,
+    };
+  }
+
+  async initialize(): Promise<void> {
+    let transformers: TransformersModule;
+    try {
+      transformers = (await import(TRANSFORMERS_MODULE)) as TransformersModule;
+    } catch {
+      throw new Error(
+        `Local embeddings require the optional "${TRANSFORMERS_MODULE}" package. Install it with: pnpm add ${TRANSFORMERS_MODULE}`
+      );
+    }
+
+    if (this.config.cacheDir) {
+      transformers.env.cacheDir = this.config.cacheDir;
+    }
+
+    this.extractor = (await transformers.pipeline(
+      'feature-extraction',
+      this.config.model
+    )) as FeatureExtractor;
+  }
+
+  private ensureReady() {
+    if (!this.extractor) {
+      throw new Error('LocalEmbeddingProvider not initialized');
+    }
+  }
+
+  async embedDocuments(
+    texts: string[],
+    _metadata: Record<string, unknown>[] = []
+  ): Promise<number[][]> {
+    this.ensureReady();
+
+    const vectors: number[][] = [];
+    for (let i = 0; i < texts.length; i += this.config.batchSize) {
+      vectors.push(
+        ...(await this.embed(texts.slice(i, i + this.config.batchSize)))
+      );
+    }
+    return vectors;
+  }
+
+  async embedQuery(text: string): Promise<number[]> {
+    this.ensureReady();
+    const [vector] = await this.embed([text]);
+    return vector;
+  }
+
+  getModelName(): string {
+    return this.config.model;
+  }
+
+  private async embed(texts: string[]): Promise<number[][]> {
+    const output = await (this.extractor as FeatureExtractor)(texts, {
+      pooling: 'mean',
+      normalize: true,
+    });
+    return output.tolist();
+  }
+}
@@ -0,0 +1,96 @@
+import { EmbeddingProvider } from './embedding-provider.js';
+
+export interface OllamaEmbeddingProviderConfig {
+  url?: string;
+  model?: string;
+  batchSize?: number;
+}
+
+interface OllamaEmbedResponse {
+  embeddings?: number[][];
+  error?: string;
+}
+
+/**
+ * Embeddings from an Ollama-compatible server (POST /api/embed), for
+ * deployments without access to OpenAI
+ */
+export class OllamaEmbeddingProvider implements EmbeddingProvider {
+  private config: Required<OllamaEmbeddingProviderConfig>;
+  private initialized = false;
+
+  constructor(config: OllamaEmbeddingProviderConfig = {}) {
+    this.config = {
+      url: (config.url || 'http://localhost:11434').replace(/\/+$/, ''),
+      model: config.model || 'nomic-embed-text',
+      batchSize: config.batchSize ?? 64,
+    };
+  }
+
+  async initialize(): Promise<void> {
+    // Fail early when the server is down or the model has not been pulled
+    await this.embed(['ping']);
+    this.initialized = true;
+  }
+
+  private ensureReady() {
+    if (!this.initialized) {
+      throw new Error('OllamaEmbeddingProvider not initialized');
+    }
+  }
+
+  async embedDocuments(
+    texts: string[],
+    _metadata: Record<string, unknown>[] = []
+  ): Promise<number[][]> {
+    this.ensureReady();
+
+    const vectors: number[][] = [];
+    for (let i = 0; i < texts.length; i += this.config.batchSize) {
+      vectors.push(
+        ...(await this.embed(texts.slice(i, i + this.config.batchSize)))
+      );
+    }
+    return vectors;
+  }
+
+  async embedQuery(text: string): Promise<number[]> {
+    this.ensureReady();
+    const [vector] = await this.embed([text]);
+    return vector;
+  }
+
+  getModelName(): string {
+    return this.config.model;
+  }
+
+  private async embed(input: string[]): Promise<number[][]> {
+    const endpoint = `${this.config.url}/api/embed`;
+
+    let res: Response;
+    try {
+      res = await fetch(endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ model: this.config.model, input }),
+      });
+    } catch (error) {
+      throw new Error(
+        `Ollama server not reachable at ${this.config.url}: ${(error as Error).message}`
+      );
+    }
+
+    const body = (await res.json().catch(() => ({}))) as OllamaEmbedResponse;
+    if (!res.ok) {
+      throw new Error(
+        `Ollama embedding request failed (${res.status}): ${body.error ?? res.statusText}`
+      );
+    }
+    if (body.embeddings?.length !== input.length) {
+      throw new Error(
+        `Ollama returned ${body.embeddings?.length ?? 0} embeddings for ${input.length} texts`
+      );
+    }
+    return body.embeddings;
+  }
+}
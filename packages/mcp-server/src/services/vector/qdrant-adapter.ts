@@ -8,7 +8,8 @@ import { Document } from '@langchain/core/documents';
 import { QdrantClient } from '@qdrant/js-client-rest';
 import { VectorStoreAdapter } from './vector-adapter.js';
 import { EmbeddingProvider } from './embedding-provider.js';
-import { OpenAIEmbeddingProvider } from './openai-embedding-provider.js';
+import { createEmbeddingProvider } from './embedding-provider-factory.js';
+import { getVectorConfig } from '../../config/vector-config.js';
 
 /**
  * Minimal config for Qdrant adapter
@@ -40,10 +41,15 @@ export class QdrantVectorAdapter implements VectorStoreAdapter {
       embeddingModel: config.embeddingModel || 'text-embedding-3-small',
     } as Required<QdrantAdapterConfig>;
 
-    // default embedding provider
-    this.embeddings = new OpenAIEmbeddingProvider({
-      apiKey: this.config.openaiApiKey,
-      model: this.config.embeddingModel,
+    // embedding provider selected by EMBEDDING_PROVIDER
+    const vectorConfig = getVectorConfig();
+    this.embeddings = createEmbeddingProvider({
+      ...vectorConfig,
+      openai: {
+        ...vectorConfig.openai,
+        apiKey: this.config.openaiApiKey,
+        model: this.config.embeddingModel,
+      },
     });
 
     // Initialize Qdrant client for direct API access
@@ -92,6 +98,16 @@ export class QdrantVectorAdapter implements VectorStoreAdapter {
     await (this.vectorStore as QdrantVectorStore).addDocuments(langchainDocs);
   }
 
+  async removeDocuments(documentIds: string[]): Promise<void> {
+    this.ensureReady();
+
+    // LangChain stores document metadata under the `metadata` payload key
+    await this.qdrantClient.delete(this.config.collectionName, {
+      wait: true,
+      filter: { must: [{ key: 'metadata.id', match: { any: documentIds } }] },
+    });
+  }
+
   async semanticSearch(
     query: string,
     _filters?: DocumentationSearchFilters,
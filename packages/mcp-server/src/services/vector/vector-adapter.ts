@@ -28,6 +28,9 @@ export interface VectorStoreAdapter {
     limit?: number
   ): Promise<VectorSearchResult[]>;
 
+  /** Optional: drop all vectors of the given documents */
+  removeDocuments?(documentIds: string[]): Promise<void>;
+
   /** Find documents similar to an existing document */
   findSimilarDocuments(
     documentId: string,
@@ -0,0 +1,142 @@
+import { InteractiveWorkflowBuilder } from '../interactive-workflow-builder.js';
+import { WorkflowDefinition } from '../../../api/types.js';
+import { renderTemplate } from '../../code-generators/template-renderer.js';
+
+jest.mock('../../code-generators/template-renderer.js', () => ({
+  renderTemplate: jest.fn(
+    (relPath: string, data: Record<string, unknown>) =>
+      `// ${relPath}\nEndpoint.connect('${data.bridgeUrl}'); createFile();`
+  ),
+}));
+
+const connection = {
+  solutionId: 'solution-1',
+  bridgeUrl: 'https://bridge.example.com',
+  userPrivKey: 'L1privkey',
+  contextId: 'context-1',
+  userId: 'alice',
+  userPubKey: '5pubkey',
+};
+
+describe('InteractiveWorkflowBuilder', () => {
+  const builder = new InteractiveWorkflowBuilder();
+
+  it('orders steps after their prerequisites', () => {
+    const steps = builder.getOrderedSteps('secure-chat');
+
+    expect(steps.map((s) => s.step.id)).toEqual([
+      'connect',
+      'create-thread',
+      'send-message',
+    ]);
+    expect(steps[1].prerequisites).toEqual(['connect']);
+  });
+
+  it('rejects workflows with step cycles', () => {
+    const cyclic: WorkflowDefinition = {
+      id: 'cyclic',
+      name: 'Cyclic',
+      description: '',
+      languages: ['javascript'],
+      steps: [
+        {
+          id: 'a',
+          name: 'A',
+          description: '',
+          apiMethod: 'X.a',
+          parameters: {},
+          nextSteps: ['b'],
+        },
+        {
+          id: 'b',
+          name: 'B',
+          description: '',
+          apiMethod: 'X.b',
+          parameters: {},
+          nextSteps: ['a'],
+        },
+      ],
+      prerequisites: [],
+      outcomes: [],
+      template: 'steps',
+      parameters: [],
+      validation: [],
+      examples: [],
+      troubleshooting: [],
+    };
+
+    expect(() =>
+      new InteractiveWorkflowBuilder([cyclic]).getOrderedSteps('cyclic')
+    ).toThrow('step cycle');
+  });
+
+  it('resolves a workflow from a free-form goal', () => {
+    expect(builder.resolveWorkflow('upload and share files').id).toBe(
+      'file-sharing'
+    );
+  });
+
+  it('validates prerequisites and required parameters', () => {
+    const result = builder.validateStep('secure-chat', 2, [], {});
+
+    expect(result.isValid).toBe(false);
+    expect(result.issues).toContain(
+      "Prerequisite step 'connect' is not completed"
+    );
+    expect(result.issues).toContain("Missing required parameter 'contextId'");
+
+    expect(
+      builder.validateStep('secure-chat', 2, ['connect'], connection).isValid
+    ).toBe(true);
+  });
+
+  it('renders step code with the provided parameters', () => {
+    const result = builder.generateStepCode(
+      'secure-chat',
+      1,
+      'typescript',
+      connection
+    );
+
+    expect(renderTemplate).toHaveBeenLastCalledWith(
+      'codegen/typescript/steps/connect.hbs',
+      expect.objectContaining({ bridgeUrl: 'https://bridge.example.com' })
+    );
+    expect(result.code).toContain('https://bridge.example.com');
+    expect(result.files[0].path).toBe('src/connect.ts');
+    expect(result.validationResults?.isValid).toBe(true);
+  });
+
+  it('fills missing parameters with placeholders', () => {
+    builder.generateStepCode('secure-chat', 1, 'javascript', {});
+
+    expect(renderTemplate).toHaveBeenLastCalledWith(
+      'codegen/javascript/steps/connect.hbs',
+      expect.objectContaining({
+        solutionId: 'YOUR_SOLUTION_ID',
+        assetsPath: '/privmx-assets',
+      })
+    );
+  });
+
+  it('uses PascalCase file names for Java steps', () => {
+    const result = builder.generateStepCode(
+      'file-sharing',
+      3,
+      'java',
+      connection,
+      ['connect', 'create-store']
+    );
+
+    expect(result.files[0].path).toBe(
+      'src/main/java/com/privmx/demo/UploadFile.java'
+    );
+    expect(result.code).toContain('createFile');
+  });
+
+  it('rejects languages the workflow does not support', () => {
+    expect(() =>
+      builder.generateStepCode('secure-chat', 1, 'cobol', connection)
+    ).toThrow("Language 'cobol' is not supported");
+  });
+});
@@ -1,139 +1,321 @@
 /**
- * Interactive Workflow Builder - Stub Implementation
- * This service was part of the previous architecture but is not currently used.
+ * Interactive Workflow Builder
+ *
+ * Step engine behind interactive sessions. Turns a WorkflowDefinition into
+ * ordered steps with prerequisites, validates the parameters each step needs
+ * and renders per-step code in the session's language.
  */
 
-import { UserContext } from '../../types/index.js';
+import { WorkflowDefinition, WorkflowStep } from '../../api/types.js';
+import {
+  CodeGenerationResult,
+  ValidationResult,
+} from '../../types/mcp-types.js';
+import { renderTemplate } from '../code-generators/template-renderer.js';
+import { workflowDefinitions } from './workflow-definitions.js';
+
+export interface OrderedWorkflowStep {
+  /** 1-based position of the step in the workflow */
+  index: number;
+  step: WorkflowStep;
+  /** IDs of the steps that must be completed first */
+  prerequisites: string[];
+}
+
+export type WorkflowParameterValues = Record<string, string | number | boolean>;
+
+/**
+ * Output location and template fallback for each supported language
+ */
+const LANGUAGE_LAYOUT: Record<
+  string,
+  { extension: string; directory: string; fallback?: string }
+> = {
+  javascript: { extension: 'js', directory: 'src' },
+  typescript: { extension: 'ts', directory: 'src', fallback: 'javascript' },
+  java: { extension: 'java', directory: 'src/main/java/com/privmx/demo' },
+};
+
+const GOAL_KEYWORDS: Record<string, string[]> = {
+  'secure-chat': ['chat', 'message', 'messaging', 'thread', 'conversation'],
+  'file-sharing': ['file', 'upload', 'store', 'storage', 'document', 'share'],
+  'feedback-inbox': ['feedback', 'inbox', 'form', 'anonymous', 'survey'],
+};
 
 export class InteractiveWorkflowBuilder {
-  constructor() {
-    console.log('InteractiveWorkflowBuilder initialized (stub implementation)');
-  }
+  private workflows: Map<string, WorkflowDefinition>;
+  private orderCache: Map<string, OrderedWorkflowStep[]> = new Map();
 
-  /**
-   * Start a new interactive workflow session (stub)
-   */
-  startWorkflow(goal: string, context: UserContext): any {
-    return {
-      id: 'stub-session',
-      goal,
-      status: 'not-implemented',
-      message: 'InteractiveWorkflowBuilder is a stub implementation',
-    };
+  constructor(definitions: WorkflowDefinition[] = workflowDefinitions) {
+    this.workflows = new Map(definitions.map((d) => [d.id, d]));
   }
 
   /**
-   * Get the next step in the workflow (stub)
+   * Get all registered workflows
    */
-  getNextStep(sessionId: string): any {
-    return null;
+  getWorkflows(): WorkflowDefinition[] {
+    return Array.from(this.workflows.values());
   }
 
   /**
-   * Validate and complete a step (stub)
+   * Get a workflow by ID
    */
-  async validateStep(sessionId: string, stepData: any): Promise<any> {
-    return {
-      isValid: false,
-      errors: ['InteractiveWorkflowBuilder is not implemented'],
-      warnings: [],
-    };
+  getWorkflow(workflowId: string): WorkflowDefinition {
+    const workflow = this.workflows.get(workflowId);
+    if (!workflow) {
+      throw new Error(
+        `Workflow '${workflowId}' not found. Available workflows: ${Array.from(this.workflows.keys()).join(', ')}`
+      );
+    }
+    return workflow;
   }
 
   /**
-   * Get session progress and status (stub)
+   * Pick the workflow that best matches a free-form goal
    */
-  getSessionProgress(sessionId: string): any {
-    return null;
-  }
+  resolveWorkflow(goal: string): WorkflowDefinition {
+    const goalLower = goal.toLowerCase();
+    let best = this.getWorkflows()[0];
+    let bestScore = 0;
 
-  /**
-   * Pause a workflow session (stub)
-   */
-  pauseSession(sessionId: string): boolean {
-    return false;
+    for (const workflow of this.getWorkflows()) {
+      const keywords = GOAL_KEYWORDS[workflow.id] ?? [];
+      const score = keywords.filter((k) => goalLower.includes(k)).length;
+      if (score > bestScore) {
+        best = workflow;
+        bestScore = score;
+      }
+    }
+
+    return best;
   }
 
   /**
-   * Resume a paused workflow session (stub)
+   * Order workflow steps so every step comes after its prerequisites.
+   * A step's prerequisites are the steps that list it in `nextSteps`.
    */
-  resumeSession(sessionId: string): boolean {
-    return false;
+  getOrderedSteps(workflowId: string): OrderedWorkflowStep[] {
+    const cached = this.orderCache.get(workflowId);
+    if (cached) return cached;
+
+    const workflow = this.getWorkflow(workflowId);
+    const stepsById = new Map(workflow.steps.map((s) => [s.id, s]));
+    const prerequisites = new Map<string, string[]>(
+      workflow.steps.map((s) => [s.id, []])
+    );
+
+    for (const step of workflow.steps) {
+      for (const next of step.nextSteps) {
+        if (!stepsById.has(next)) {
+          throw new Error(
+            `Step '${step.id}' in workflow '${workflowId}' references unknown step '${next}'`
+          );
+        }
+        prerequisites.get(next)?.push(step.id);
+      }
+    }
+
+    const ordered: OrderedWorkflowStep[] = [];
+    const done = new Set<string>();
+
+    while (ordered.length < workflow.steps.length) {
+      // Keep definition order among steps that are ready
+      const ready = workflow.steps.find(
+        (s) =>
+          !done.has(s.id) &&
+          (prerequisites.get(s.id) ?? []).every((p) => done.has(p))
+      );
+      if (!ready) {
+        throw new Error(`Workflow '${workflowId}' contains a step cycle`);
+      }
+      done.add(ready.id);
+      ordered.push({
+        index: ordered.length + 1,
+        step: ready,
+        prerequisites: prerequisites.get(ready.id) ?? [],
+      });
+    }
+
+    this.orderCache.set(workflowId, ordered);
+    return ordered;
   }
 
   /**
-   * Get all active sessions (stub)
+   * Get a single step by its 1-based index
    */
-  getActiveSessions(): any[] {
-    return [];
+  getStep(workflowId: string, stepIndex: number): OrderedWorkflowStep {
+    const steps = this.getOrderedSteps(workflowId);
+    const step = steps[stepIndex - 1];
+    if (!step) {
+      throw new Error(
+        `Step ${stepIndex} not found in workflow '${workflowId}' (${steps.length} steps)`
+      );
+    }
+    return step;
   }
 
   /**
-   * Cancel a workflow session (stub)
+   * Validate that a step can run: prerequisites are completed and the
+   * parameters it maps to are present and well-formed
    */
-  cancelSession(sessionId: string): boolean {
-    return false;
+  validateStep(
+    workflowId: string,
+    stepIndex: number,
+    completedSteps: string[],
+    values: WorkflowParameterValues
+  ): ValidationResult {
+    const workflow = this.getWorkflow(workflowId);
+    const { step, prerequisites } = this.getStep(workflowId, stepIndex);
+    const issues: string[] = [];
+    const suggestions: string[] = [];
+
+    for (const prerequisite of prerequisites) {
+      if (!completedSteps.includes(prerequisite)) {
+        issues.push(`Prerequisite step '${prerequisite}' is not completed`);
+      }
+    }
+
+    const resolved = this.resolveParameters(workflow, values);
+    for (const name of this.getStepParameterNames(step)) {
+      const definition = workflow.parameters.find((p) => p.name === name);
+      const value = resolved[name];
+
+      if (value === undefined || value === '') {
+        if (definition?.required) {
+          issues.push(`Missing required parameter '${name}'`);
+          suggestions.push(
+            `Provide '${name}' (${definition.description}) in the session customizations`
+          );
+        }
+        continue;
+      }
+
+      if (
+        definition?.validation &&
+        !new RegExp(definition.validation).test(String(value))
+      ) {
+        issues.push(
+          `Parameter '${name}' does not match ${definition.validation}`
+        );
+      }
+    }
+
+    if (step.validation) {
+      suggestions.push(`Verify: ${step.validation}`);
+    }
+
+    return { isValid: issues.length === 0, issues, suggestions };
   }
 
   /**
-   * Start session (stub)
+   * Render the code for a step in the given language
    */
-  async startSession(goal: string, userContext: any): Promise<any> {
-    return {
-      sessionId: 'stub',
-      currentStep: 0,
-      totalSteps: 0,
-      nextAction: {
-        type: 'completion',
-        description: 'InteractiveWorkflowBuilder is not implemented',
-      },
+  generateStepCode(
+    workflowId: string,
+    stepIndex: number,
+    language: string,
+    values: WorkflowParameterValues,
+    completedSteps: string[] = []
+  ): CodeGenerationResult {
+    const workflow = this.getWorkflow(workflowId);
+    const { step } = this.getStep(workflowId, stepIndex);
+    const layout = LANGUAGE_LAYOUT[language];
+
+    if (!layout || !workflow.languages.includes(language)) {
+      throw new Error(
+        `Language '${language}' is not supported by workflow '${workflowId}'. Supported languages: ${workflow.languages.join(', ')}`
+      );
+    }
+
+    const validationResults = this.validateStep(
+      workflowId,
+      stepIndex,
+      completedSteps,
+      values
+    );
+
+    const data = {
+      ...this.resolveParameters(workflow, values, true),
+      language,
+      workflow: { id: workflow.id, name: workflow.name },
+      step,
     };
-  }
 
-  /**
-   * Process user response (stub)
-   */
-  async processUserResponse(
-    sessionId: string,
-    userResponse: any
-  ): Promise<any> {
+    let code: string;
+    try {
+      code = renderTemplate(
+        `codegen/${language}/${workflow.template}/${step.id}.hbs`,
+        data
+      );
+    } catch (err) {
+      if (!layout.fallback) throw err;
+      code = renderTemplate(
+        `codegen/${layout.fallback}/${workflow.template}/${step.id}.hbs`,
+        data
+      );
+    }
+
+    const methodName = step.apiMethod.split('.').pop() ?? step.apiMethod;
+    if (!code.includes(methodName)) {
+      validationResults.isValid = false;
+      validationResults.issues.push(
+        `Generated code does not call ${step.apiMethod}`
+      );
+    }
+
+    const path = `${layout.directory}/${this.toFileName(step.id, layout.extension)}`;
+
     return {
-      currentStep: 0,
-      totalSteps: 0,
-      nextAction: {
-        type: 'completion',
-        description: 'InteractiveWorkflowBuilder is not implemented',
-      },
-      isComplete: true,
+      code,
+      files: [{ path, content: code, description: step.description }],
+      instructions: [
+        `Step ${stepIndex}: ${step.name}`,
+        step.description,
+        ...(step.errorHandling ? [`On failure: ${step.errorHandling}`] : []),
+      ],
+      validationResults,
     };
   }
 
   /**
-   * Get session status (stub)
+   * Workflow parameter names referenced by a step's API argument mapping
    */
-  getSessionStatus(sessionId: string): any {
-    return {
-      currentStep: 0,
-      totalSteps: 0,
-      progress: 0,
-      status: 'cancelled',
-      generatedFiles: [],
-    };
+  private getStepParameterNames(step: WorkflowStep): string[] {
+    return Object.values(step.parameters).map(String);
   }
 
   /**
-   * Generate step code (stub)
+   * Merge defaults with provided values; optionally fill missing required
+   * values with placeholders so templates still render
    */
-  async generateStepCode(sessionId: string, stepIndex: number): Promise<any> {
-    return {
-      code: '// InteractiveWorkflowBuilder is not implemented',
-      files: [],
-      instructions: ['This service is not implemented'],
-      validationResults: {
-        isValid: false,
-        issues: ['Service not implemented'],
-        suggestions: ['Use alternative workflow services'],
-      },
-    };
+  private resolveParameters(
+    workflow: WorkflowDefinition,
+    values: WorkflowParameterValues,
+    withPlaceholders = false
+  ): WorkflowParameterValues {
+    const resolved: WorkflowParameterValues = {};
+
+    for (const parameter of workflow.parameters) {
+      const value = values[parameter.name] ?? parameter.defaultValue;
+      if (value !== undefined && value !== null) {
+        resolved[parameter.name] = value;
+      } else if (withPlaceholders) {
+        resolved[parameter.name] =
+          `YOUR_${parameter.name.replace(/([a-z])([A-Z])/g, '$1_$2').toUpperCase()}`;
+      }
+    }
+
+    return resolved;
+  }
+
+  private toFileName(stepId: string, extension: string): string {
+    if (extension === 'java') {
+      const pascal = stepId
+        .split('-')
+        .map((part) => part.charAt(0).toUpperCase() + part.slice(1))
+        .join('');
+      return `${pascal}.${extension}`;
+    }
+    return `${stepId}.${extension}`;
   }
 }
@@ -0,0 +1,284 @@
+/**
+ * Built-in workflow definitions for interactive sessions
+ *
+ * Each step maps its API arguments to workflow parameter names; the step
+ * order is derived from `nextSteps`, and code is rendered from
+ * `codegen/<language>/<template>/<step.id>.hbs`.
+ */
+
+import {
+  WorkflowDefinition,
+  WorkflowParameter,
+  WorkflowStep,
+} from '../../api/types.js';
+
+const CONNECTION_PARAMETERS: WorkflowParameter[] = [
+  {
+    name: 'solutionId',
+    description: 'PrivMX Solution ID from the PrivMX Bridge panel',
+    type: 'string',
+    required: true,
+  },
+  {
+    name: 'bridgeUrl',
+    description: 'URL of your PrivMX Bridge instance',
+    type: 'string',
+    required: true,
+    validation: '^https?://',
+  },
+  {
+    name: 'userPrivKey',
+    description: 'Private key (WIF) of the connecting user',
+    type: 'string',
+    required: true,
+  },
+  {
+    name: 'assetsPath',
+    description: 'Public path to the PrivMX WebEndpoint WASM assets',
+    type: 'string',
+    required: false,
+    defaultValue: '/privmx-assets',
+  },
+];
+
+const CONTAINER_PARAMETERS: WorkflowParameter[] = [
+  {
+    name: 'contextId',
+    description: 'Context in which the container is created',
+    type: 'string',
+    required: true,
+  },
+  {
+    name: 'userId',
+    description: 'ID of the user given access to the container',
+    type: 'string',
+    required: true,
+  },
+  {
+    name: 'userPubKey',
+    description: 'Public key of the user given access to the container',
+    type: 'string',
+    required: true,
+  },
+];
+
+const CONNECT_STEP = (nextStep: string): WorkflowStep => ({
+  id: 'connect',
+  name: 'Connect to PrivMX Bridge',
+  description:
+    'Initialize the endpoint and open an authenticated connection to PrivMX Bridge',
+  apiMethod: 'Endpoint.connect',
+  parameters: {
+    userPrivKey: 'userPrivKey',
+    solutionId: 'solutionId',
+    bridgeUrl: 'bridgeUrl',
+    assetsBasePath: 'assetsPath',
+  },
+  validation: 'connect() resolves to a Connection without throwing',
+  errorHandling:
+    'Verify the Bridge URL, Solution ID and that the user key is registered in the Context',
+  nextSteps: [nextStep],
+});
+
+export const SECURE_CHAT_WORKFLOW: WorkflowDefinition = {
+  id: 'secure-chat',
+  name: 'Secure Chat Application',
+  description: 'Connect to PrivMX Bridge, create a Thread and send a message',
+  languages: ['javascript', 'typescript', 'java'],
+  steps: [
+    CONNECT_STEP('create-thread'),
+    {
+      id: 'create-thread',
+      name: 'Create a Thread',
+      description: 'Create an encrypted Thread shared with the given user',
+      apiMethod: 'ThreadApi.createThread',
+      parameters: {
+        contextId: 'contextId',
+        userId: 'userId',
+        pubKey: 'userPubKey',
+        privateMeta: 'threadName',
+      },
+      validation: 'createThread() resolves to the new Thread ID',
+      errorHandling:
+        'Make sure every user exists in the Context and the public keys match',
+      nextSteps: ['send-message'],
+    },
+    {
+      id: 'send-message',
+      name: 'Send a message',
+      description: 'Send an encrypted message to the Thread',
+      apiMethod: 'ThreadApi.sendMessage',
+      parameters: { data: 'messageText' },
+      validation: 'sendMessage() resolves to the new message ID',
+      errorHandling: 'Check that the sender is a member of the Thread',
+      nextSteps: [],
+    },
+  ],
+  prerequisites: ['PrivMX Bridge instance', 'Solution and Context IDs'],
+  outcomes: ['Encrypted Thread with a first message'],
+  template: 'steps',
+  parameters: [
+    ...CONNECTION_PARAMETERS,
+    ...CONTAINER_PARAMETERS,
+    {
+      name: 'threadName',
+      description: 'Name stored in the Thread private meta',
+      type: 'string',
+      required: false,
+      defaultValue: 'Secure chat',
+    },
+    {
+      name: 'messageText',
+      description: 'Text of the first message',
+      type: 'string',
+      required: false,
+      defaultValue: 'Hello from PrivMX!',
+    },
+  ],
+  validation: ['Connection is established before creating the Thread'],
+  examples: [],
+  troubleshooting: [
+    'Serialize meta and data to Uint8Array before sending',
+    'Disconnect when the application closes',
+  ],
+};
+
+export const FILE_SHARING_WORKFLOW: WorkflowDefinition = {
+  id: 'file-sharing',
+  name: 'File Sharing Platform',
+  description: 'Connect to PrivMX Bridge, create a Store and upload a file',
+  languages: ['javascript', 'typescript', 'java'],
+  steps: [
+    CONNECT_STEP('create-store'),
+    {
+      id: 'create-store',
+      name: 'Create a Store',
+      description: 'Create an encrypted Store shared with the given user',
+      apiMethod: 'StoreApi.createStore',
+      parameters: {
+        contextId: 'contextId',
+        userId: 'userId',
+        pubKey: 'userPubKey',
+        privateMeta: 'storeName',
+      },
+      validation: 'createStore() resolves to the new Store ID',
+      errorHandling:
+        'Make sure every user exists in the Context and the public keys match',
+      nextSteps: ['upload-file'],
+    },
+    {
+      id: 'upload-file',
+      name: 'Upload a file',
+      description: 'Create a file in the Store and write its content',
+      apiMethod: 'StoreApi.createFile',
+      parameters: { privateMeta: 'fileName', data: 'fileContent' },
+      validation: 'closeFile() resolves to the new file ID',
+      errorHandling: 'Always close the file handle, also when writing fails',
+      nextSteps: [],
+    },
+  ],
+  prerequisites: ['PrivMX Bridge instance', 'Solution and Context IDs'],
+  outcomes: ['Encrypted Store with an uploaded file'],
+  template: 'steps',
+  parameters: [
+    ...CONNECTION_PARAMETERS,
+    ...CONTAINER_PARAMETERS,
+    {
+      name: 'storeName',
+      description: 'Name stored in the Store private meta',
+      type: 'string',
+      required: false,
+      defaultValue: 'Shared files',
+    },
+    {
+      name: 'fileName',
+      description: 'Name stored in the file private meta',
+      type: 'string',
+      required: false,
+      defaultValue: 'hello.txt',
+    },
+    {
+      name: 'fileContent',
+      description: 'Text content of the uploaded file',
+      type: 'string',
+      required: false,
+      defaultValue: 'Hello from PrivMX!',
+    },
+  ],
+  validation: ['Connection is established before creating the Store'],
+  examples: [],
+  troubleshooting: [
+    'The declared file size must match the number of bytes written',
+    'Disconnect when the application closes',
+  ],
+};
+
+export const FEEDBACK_INBOX_WORKFLOW: WorkflowDefinition = {
+  id: 'feedback-inbox',
+  name: 'Anonymous Feedback System',
+  description:
+    'Connect to PrivMX Bridge, create an Inbox and submit an entry to it',
+  languages: ['javascript', 'typescript', 'java'],
+  steps: [
+    CONNECT_STEP('create-inbox'),
+    {
+      id: 'create-inbox',
+      name: 'Create an Inbox',
+      description: 'Create an Inbox managed by the given user',
+      apiMethod: 'InboxApi.createInbox',
+      parameters: {
+        contextId: 'contextId',
+        userId: 'userId',
+        pubKey: 'userPubKey',
+        privateMeta: 'inboxName',
+      },
+      validation: 'createInbox() resolves to the new Inbox ID',
+      errorHandling:
+        'Make sure every manager exists in the Context and the public keys match',
+      nextSteps: ['send-entry'],
+    },
+    {
+      id: 'send-entry',
+      name: 'Submit an entry',
+      description: 'Prepare and send an encrypted entry to the Inbox',
+      apiMethod: 'InboxApi.sendEntry',
+      parameters: { data: 'entryText' },
+      validation: 'sendEntry() completes without throwing',
+      errorHandling: 'An entry handle can only be sent once',
+      nextSteps: [],
+    },
+  ],
+  prerequisites: ['PrivMX Bridge instance', 'Solution and Context IDs'],
+  outcomes: ['Inbox receiving encrypted entries'],
+  template: 'steps',
+  parameters: [
+    ...CONNECTION_PARAMETERS,
+    ...CONTAINER_PARAMETERS,
+    {
+      name: 'inboxName',
+      description: 'Name stored in the Inbox private meta',
+      type: 'string',
+      required: false,
+      defaultValue: 'Feedback',
+    },
+    {
+      name: 'entryText',
+      description: 'Text of the submitted entry',
+      type: 'string',
+      required: false,
+      defaultValue: 'Great product!',
+    },
+  ],
+  validation: ['Connection is established before creating the Inbox'],
+  examples: [],
+  troubleshooting: [
+    'Entries can be sent through a public connection (connectPublic)',
+    'Disconnect when the application closes',
+  ],
+};
+
+export const workflowDefinitions: WorkflowDefinition[] = [
+  SECURE_CHAT_WORKFLOW,
+  FILE_SHARING_WORKFLOW,
+  FEEDBACK_INBOX_WORKFLOW,
+];
@@ -0,0 +1,65 @@
+import { InteractiveSessionService } from '../interactive-session-service.js';
+import { MemorySessionStore } from '../session-store.js';
+
+jest.mock('../../../common/paths.js', () => {
+  const path = jest.requireActual<typeof import('path')>('path');
+  const packageRoot = path.resolve(__dirname, '../../../..');
+  return {
+    packageRoot,
+    specRoot: path.resolve(packageRoot, '../../spec'),
+    templatesRoot: path.resolve(packageRoot, 'src/templates'),
+  };
+});
+
+describe('InteractiveSessionService', () => {
+  let store: MemorySessionStore;
+  let service: InteractiveSessionService;
+  let sessionId: string;
+
+  beforeEach(async () => {
+    store = new MemorySessionStore();
+    service = new InteractiveSessionService(store);
+    await service.initialize();
+    ({ sessionId } = await service.startInteractiveSession(
+      'build a secure chat',
+      { skillLevel: 'beginner' }
+    ));
+  });
+
+  it('pauses, resumes and cancels a session', async () => {
+    await expect(service.pauseInteractiveSession(sessionId)).resolves.toBe(
+      true
+    );
+    expect((await store.get(sessionId))?.status).toBe('paused');
+
+    await expect(service.resumeInteractiveSession(sessionId)).resolves.toBe(
+      true
+    );
+    await expect(service.cancelInteractiveSession(sessionId)).resolves.toBe(
+      true
+    );
+    expect((await store.get(sessionId))?.status).toBe('cancelled');
+  });
+
+  it('keeps cancelled and completed sessions final', async () => {
+    await service.cancelInteractiveSession(sessionId);
+    await expect(service.resumeInteractiveSession(sessionId)).rejects.toThrow(
+      'is cancelled and cannot become active'
+    );
+
+    const session = await store.get(sessionId);
+    if (!session) throw new Error('Session not stored');
+    await store.save({ ...session, status: 'completed' });
+    await expect(service.pauseInteractiveSession(sessionId)).rejects.toThrow(
+      'is completed and cannot become paused'
+    );
+    await expect(service.cancelInteractiveSession(sessionId)).rejects.toThrow(
+      'is completed and cannot become cancelled'
+    );
+    expect((await store.get(sessionId))?.status).toBe('completed');
+  });
+
+  it('reports unknown sessions', async () => {
+    await expect(service.pauseInteractiveSession('nope')).resolves.toBe(false);
+  });
+});
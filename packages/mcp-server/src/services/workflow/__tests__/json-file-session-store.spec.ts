@@ -0,0 +1,103 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { JsonFileSessionStore } from '../json-file-session-store.js';
+import { SessionData } from '../session-store.js';
+
+const createSession = (id: string): SessionData => ({
+  id,
+  goal: 'build a secure chat',
+  userContext: { skillLevel: 'beginner', preferredLanguage: 'typescript' },
+  startedAt: new Date('2025-01-01T10:00:00Z'),
+  updatedAt: new Date('2025-01-01T11:00:00Z'),
+  currentStep: 2,
+  totalSteps: 3,
+  status: 'active',
+  workflowId: 'secure-chat',
+  workflowConfirmed: true,
+  language: 'typescript',
+  parameters: { solutionId: 'solution-1' },
+  completedSteps: ['connect'],
+  generatedFiles: [],
+});
+
+describe('JsonFileSessionStore', () => {
+  let dir: string;
+  let filePath: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'privmx-sessions-'));
+    filePath = path.join(dir, 'nested', 'sessions.json');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('returns undefined when the file does not exist', async () => {
+    const store = new JsonFileSessionStore(filePath);
+
+    expect(await store.get('missing')).toBeUndefined();
+    expect(await store.list()).toEqual([]);
+  });
+
+  it('keeps sessions across store instances', async () => {
+    await new JsonFileSessionStore(filePath).save(createSession('s1'));
+
+    const restored = await new JsonFileSessionStore(filePath).get('s1');
+
+    expect(restored).toEqual(createSession('s1'));
+    expect(restored?.updatedAt).toBeInstanceOf(Date);
+  });
+
+  it('does not lose concurrent writes', async () => {
+    const store = new JsonFileSessionStore(filePath);
+
+    await Promise.all(
+      ['a', 'b', 'c'].map((id) => store.save(createSession(id)))
+    );
+
+    expect((await store.list()).map((s) => s.id).sort()).toEqual([
+      'a',
+      'b',
+      'c',
+    ]);
+  });
+
+  it('does not lose writes of stores sharing the file', async () => {
+    // Separate instances share nothing in memory, like separate processes
+    const ids = ['a', 'b', 'c', 'd', 'e', 'f'];
+
+    await Promise.all(
+      ids.map((id) =>
+        new JsonFileSessionStore(filePath).save(createSession(id))
+      )
+    );
+
+    const stored = await new JsonFileSessionStore(filePath).list();
+    expect(stored.map((s) => s.id).sort()).toEqual(ids);
+    expect(fs.readdirSync(path.dirname(filePath))).toEqual(['sessions.json']);
+  });
+
+  it('takes over a lock left behind by a crashed process', async () => {
+    const lockPath = `${filePath}.lock`;
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(lockPath, '');
+    const crashedAt = new Date(Date.now() - 60000);
+    fs.utimesSync(lockPath, crashedAt, crashedAt);
+
+    await new JsonFileSessionStore(filePath).save(createSession('s1'));
+
+    expect(fs.existsSync(lockPath)).toBe(false);
+    expect(await new JsonFileSessionStore(filePath).get('s1')).toBeDefined();
+  });
+
+  it('deletes sessions', async () => {
+    const store = new JsonFileSessionStore(filePath);
+    await store.save(createSession('s1'));
+
+    expect(await store.delete('s1')).toBe(true);
+    expect(await store.delete('s1')).toBe(false);
+    expect(await store.get('s1')).toBeUndefined();
+  });
+});
@@ -6,32 +6,49 @@
  */
 
 import logger from '../../common/logger.js';
+import { config } from '../../common/config.js';
 import { InteractiveWorkflowBuilder } from '../workflow-builder/interactive-workflow-builder.js';
-import { UserResponse, UserContext } from '../../types/mcp-types.js';
-import ServiceManager from '../../common/service-manager.js';
-
-interface SessionData {
-  id: string;
-  goal: string;
-  userContext: UserContext;
-  startedAt: Date;
-  currentStep: number;
-  totalSteps: number;
-  status: 'active' | 'paused' | 'completed' | 'cancelled';
-  generatedFiles: Array<{
-    path: string;
-    description: string;
-    status: 'pending' | 'generated' | 'validated';
-  }>;
-}
+import {
+  UserResponse,
+  UserContext,
+  InteractiveSessionAction,
+} from '../../types/mcp-types.js';
+import {
+  GeneratedFileStatus,
+  SessionData,
+  SessionStatus,
+  SessionStore,
+} from './session-store.js';
+import { createSessionStore } from './session-store-factory.js';
+
+const LANGUAGE_ALIASES: Record<string, string> = {
+  js: 'javascript',
+  ts: 'typescript',
+};
+
+const DEFAULT_SESSION_LANGUAGE = 'typescript';
+
+/** Statuses a session can move to; completed and cancelled are final */
+const STATUS_TRANSITIONS: Record<SessionStatus, SessionStatus[]> = {
+  active: ['paused', 'cancelled'],
+  paused: ['active', 'cancelled'],
+  completed: [],
+  cancelled: [],
+};
 
 export class InteractiveSessionService {
   private interactiveWorkflowBuilder: InteractiveWorkflowBuilder;
-  private sessions: Map<string, SessionData> = new Map();
+  private store: SessionStore;
+  private ttlMs: number;
   private initialized = false;
 
-  constructor() {
+  constructor(
+    store: SessionStore = createSessionStore(),
+    ttlHours: number = config.SESSION_TTL_HOURS
+  ) {
     this.interactiveWorkflowBuilder = new InteractiveWorkflowBuilder();
+    this.store = store;
+    this.ttlMs = ttlHours * 60 * 60 * 1000;
   }
 
   /**
@@ -41,8 +58,11 @@ export class InteractiveSessionService {
     if (this.initialized) return;
 
     logger.info('🔄 Initializing interactive session service...');
+    const purged = await this.purgeExpiredSessions();
     this.initialized = true;
-    logger.info('✅ Interactive session service ready!');
+    logger.info(
+      `✅ Interactive session service ready! (${purged} expired sessions removed)`
+    );
   }
 
   /**
@@ -55,48 +75,60 @@ export class InteractiveSessionService {
     sessionId: string;
     currentStep: number;
     totalSteps: number;
-    nextAction: {
-      type:
-        | 'template_selection'
-        | 'code_generation'
-        | 'validation'
-        | 'completion';
-      description: string;
-      options?: unknown[];
-    };
+    nextAction: InteractiveSessionAction;
   }> {
     this.ensureInitialized();
 
+    const workflow = this.interactiveWorkflowBuilder.resolveWorkflow(goal);
+    const requestedLanguage = userContext.preferredLanguage?.toLowerCase();
+    const normalizedLanguage = requestedLanguage
+      ? (LANGUAGE_ALIASES[requestedLanguage] ?? requestedLanguage)
+      : DEFAULT_SESSION_LANGUAGE;
+    const language = workflow.languages.includes(normalizedLanguage)
+      ? normalizedLanguage
+      : DEFAULT_SESSION_LANGUAGE;
+
     const sessionId = this.generateSessionId();
     const session: SessionData = {
       id: sessionId,
       goal,
       userContext,
       startedAt: new Date(),
-      currentStep: 1,
-      totalSteps: 5, // Estimated steps
+      updatedAt: new Date(),
+      currentStep: 0,
+      totalSteps: workflow.steps.length,
       status: 'active',
+      workflowId: workflow.id,
+      workflowConfirmed: false,
+      language,
+      parameters: {},
+      completedSteps: [],
       generatedFiles: [],
     };
 
-    this.sessions.set(sessionId, session);
+    await this.store.save(session);
 
     logger.info(
-      `🚀 Started interactive session ${sessionId} for goal: "${goal}"`
+      `🚀 Started interactive session ${sessionId} for goal: "${goal}" (workflow: ${workflow.id}, language: ${language})`
     );
 
     return {
       sessionId,
-      currentStep: 1,
+      currentStep: session.currentStep,
       totalSteps: session.totalSteps,
       nextAction: {
         type: 'template_selection',
-        description: 'Choose a template for your project',
-        options: [
-          { id: 'secure-chat', name: 'Secure Chat Application' },
-          { id: 'file-sharing', name: 'File Sharing Platform' },
-          { id: 'feedback-inbox', name: 'Anonymous Feedback System' },
-        ],
+        description:
+          `Suggested workflow: ${workflow.name} in ${language}` +
+          (language !== normalizedLanguage
+            ? ` ('${normalizedLanguage}' is not supported by workflow steps)`
+            : '') +
+          '. Confirm it or choose another template, and pass connection parameters as customizations',
+        options: this.interactiveWorkflowBuilder.getWorkflows().map((w) => ({
+          id: w.id,
+          name: w.name,
+          description: w.description,
+        })),
       },
     };
   }
@@ -110,24 +142,12 @@ export class InteractiveSessionService {
   ): Promise<{
     currentStep: number;
     totalSteps: number;
-    nextAction: {
-      type:
-        | 'template_selection'
-        | 'code_generation'
-        | 'validation'
-        | 'completion';
-      description: string;
-      options?: unknown[];
-      result?: unknown;
-    };
+    nextAction: InteractiveSessionAction;
     isComplete: boolean;
   }> {
     this.ensureInitialized();
 
-    const session = this.sessions.get(sessionId);
-    if (!session) {
-      throw new Error(`Session ${sessionId} not found`);
-    }
+    const session = await this.getSession(sessionId);
 
     if (session.status !== 'active') {
       throw new Error(`Session ${sessionId} is not active`);
@@ -137,76 +157,32 @@ export class InteractiveSessionService {
       `⏭️ Continuing session ${sessionId}, step ${session.currentStep}`
     );
 
-    // Process user response and advance to next step
-    session.currentStep++;
-
-    let nextAction: any;
-    let isComplete = false;
-
-    switch (session.currentStep) {
-      case 2:
-        nextAction = {
-          type: 'code_generation',
-          description: 'Generate initial project structure',
-          result: 'Template selected successfully',
-        };
-        break;
-      case 3:
-        nextAction = {
-          type: 'validation',
-          description: 'Review generated code',
-          result: 'Code generated successfully',
-        };
-        break;
-      case 4:
-        nextAction = {
-          type: 'completion',
-          description: 'Finalize project setup',
-          result: 'Code validated successfully',
-        };
-        break;
-      default:
-        session.status = 'completed';
-        isComplete = true;
-        nextAction = {
-          type: 'completion',
-          description: 'Session completed successfully',
-          result: 'Project setup complete',
-        };
-    }
-
-    return {
-      currentStep: session.currentStep,
-      totalSteps: session.totalSteps,
-      nextAction,
-      isComplete,
-    };
+    const state = this.advanceSession(session, userResponse);
+    await this.saveSession(session);
+    return state;
   }
 
   /**
    * Get session status
    */
-  getSessionStatus(sessionId: string): {
+  async getSessionStatus(sessionId: string): Promise<{
     currentStep: number;
     totalSteps: number;
     progress: number;
-    status: 'active' | 'paused' | 'completed' | 'cancelled';
-    generatedFiles: Array<{
-      path: string;
-      description: string;
-      status: 'pending' | 'generated' | 'validated';
-    }>;
-  } {
-    const session = this.sessions.get(sessionId);
-    if (!session) {
-      throw new Error(`Session ${sessionId} not found`);
-    }
+    status: SessionStatus;
+    language: string;
+    expiresAt: Date;
+    generatedFiles: SessionData['generatedFiles'];
+  }> {
+    const session = await this.getSession(sessionId);
 
     return {
       currentStep: session.currentStep,
       totalSteps: session.totalSteps,
-      progress: (session.currentStep / session.totalSteps) * 100,
+      progress: (session.completedSteps.length / session.totalSteps) * 100,
       status: session.status,
+      language: session.language,
+      expiresAt: new Date(session.updatedAt.getTime() + this.ttlMs),
       generatedFiles: session.generatedFiles,
     };
   }
@@ -214,58 +190,48 @@ export class InteractiveSessionService {
   /**
    * Pause an interactive session
    */
-  pauseInteractiveSession(sessionId: string): boolean {
-    const session = this.sessions.get(sessionId);
-    if (!session) return false;
-
-    session.status = 'paused';
-    logger.info(`⏸️ Paused session ${sessionId}`);
-    return true;
+  async pauseInteractiveSession(sessionId: string): Promise<boolean> {
+    return this.setSessionStatus(sessionId, 'paused', '⏸️ Paused');
   }
 
   /**
-   * Resume an interactive session
+   * Resume an interactive session, e.g. after a server restart
    */
-  resumeInteractiveSession(sessionId: string): boolean {
-    const session = this.sessions.get(sessionId);
-    if (!session) return false;
-
-    session.status = 'active';
-    logger.info(`▶️ Resumed session ${sessionId}`);
-    return true;
+  async resumeInteractiveSession(sessionId: string): Promise<boolean> {
+    return this.setSessionStatus(sessionId, 'active', '▶️ Resumed');
   }
 
   /**
    * Cancel an interactive session
    */
-  cancelInteractiveSession(sessionId: string): boolean {
-    const session = this.sessions.get(sessionId);
-    if (!session) return false;
-
-    session.status = 'cancelled';
-    logger.info(`❌ Cancelled session ${sessionId}`);
-    return true;
+  async cancelInteractiveSession(sessionId: string): Promise<boolean> {
+    return this.setSessionStatus(sessionId, 'cancelled', '❌ Cancelled');
   }
 
   /**
-   * Get all active sessions
+   * Get all sessions that have not expired
    */
-  getActiveSessions(): Array<{
-    sessionId: string;
-    goal: string;
-    startedAt: Date;
-    currentStep: number;
-    totalSteps: number;
-    status: 'active' | 'paused' | 'completed' | 'cancelled';
-  }> {
-    return Array.from(this.sessions.values()).map((session) => ({
-      sessionId: session.id,
-      goal: session.goal,
-      startedAt: session.startedAt,
-      currentStep: session.currentStep,
-      totalSteps: session.totalSteps,
-      status: session.status,
-    }));
+  async getActiveSessions(): Promise<
+    Array<{
+      sessionId: string;
+      goal: string;
+      startedAt: Date;
+      currentStep: number;
+      totalSteps: number;
+      status: SessionStatus;
+    }>
+  > {
+    const sessions = await this.store.list();
+    return sessions
+      .filter((session) => !this.isExpired(session))
+      .map((session) => ({
+        sessionId: session.id,
+        goal: session.goal,
+        startedAt: session.startedAt,
+        currentStep: session.currentStep,
+        totalSteps: session.totalSteps,
+        status: session.status,
+      }));
   }
 
   /**
@@ -290,56 +256,168 @@ export class InteractiveSessionService {
   }> {
     this.ensureInitialized();
 
-    const session = this.sessions.get(sessionId);
-    if (!session) {
-      throw new Error(`Session ${sessionId} not found`);
-    }
+    const session = await this.getSession(sessionId);
 
     logger.info(
       `🏗️ Generating code for session ${sessionId}, step ${stepIndex}`
     );
 
-    // Use CodeGenerationService to generate code snippets per step
-    const codeGen = await ServiceManager.getCodeGenerationService();
-
-    // Simple heuristic: first step generates setup, subsequent steps placeholder workflow code
-    let code = '';
-    const files: Array<{ path: string; content: string; description: string }> =
-      [];
-
-    if (stepIndex === 1) {
-      // Initial setup code (threads + stores by default)
-      code = await codeGen.generateSetupCode('typescript', [
-        'threads',
-        'stores',
-      ]);
-      files.push({
-        path: 'setup.ts',
-        content: code,
-        description: 'PrivMX project setup',
-      });
-      session.generatedFiles.push({
-        path: 'setup.ts',
-        description: 'PrivMX project setup',
-        status: 'generated',
-      });
-    } else {
-      code = `// Workflow step ${stepIndex} not yet implemented`;
+    const result = this.interactiveWorkflowBuilder.generateStepCode(
+      session.workflowId,
+      stepIndex,
+      session.language,
+      session.parameters,
+      session.completedSteps
+    );
+
+    for (const file of result.files) {
+      const existing = session.generatedFiles.find((f) => f.path === file.path);
+      if (existing) {
+        existing.status = 'generated';
+      } else {
+        session.generatedFiles.push({
+          path: file.path,
+          description: file.description,
+          status: 'generated',
+        });
+      }
     }
 
-    return {
-      code,
-      files,
-      instructions: [
-        `Step ${stepIndex} code generated`,
-        'Review and adapt as needed',
-      ],
-    };
+    await this.saveSession(session);
+    return result;
+  }
+
+  /**
+   * Remove sessions that have been inactive for longer than the TTL
+   */
+  async purgeExpiredSessions(): Promise<number> {
+    const sessions = await this.store.list();
+    let purged = 0;
+    for (const session of sessions) {
+      if (this.isExpired(session) && (await this.store.delete(session.id))) {
+        purged++;
+      }
+    }
+    return purged;
   }
 
   /**
    * Private helper methods
    */
+
+  /**
+   * Apply a user response to the session and describe the next action
+   */
+  private advanceSession(
+    session: SessionData,
+    userResponse: UserResponse
+  ): {
+    currentStep: number;
+    totalSteps: number;
+    nextAction: InteractiveSessionAction;
+    isComplete: boolean;
+  } {
+    if (userResponse.customizations) {
+      session.parameters = {
+        ...session.parameters,
+        ...userResponse.customizations,
+      };
+    }
+
+    // Workflow selection: switch template if requested, then start step 1
+    if (!session.workflowConfirmed) {
+      if (userResponse.templateId) {
+        const workflow = this.interactiveWorkflowBuilder.getWorkflow(
+          userResponse.templateId
+        );
+        session.workflowId = workflow.id;
+        session.totalSteps = workflow.steps.length;
+        if (!workflow.languages.includes(session.language)) {
+          session.language = DEFAULT_SESSION_LANGUAGE;
+        }
+      }
+      session.workflowConfirmed = true;
+      session.currentStep = 1;
+
+      return {
+        currentStep: session.currentStep,
+        totalSteps: session.totalSteps,
+        nextAction: this.buildStepAction(session),
+        isComplete: false,
+      };
+    }
+
+    // Validate the current step before moving on
+    const validation = this.interactiveWorkflowBuilder.validateStep(
+      session.workflowId,
+      session.currentStep,
+      session.completedSteps,
+      session.parameters
+    );
+
+    if (!validation.isValid || userResponse.confirmation === false) {
+      const { step } = this.interactiveWorkflowBuilder.getStep(
+        session.workflowId,
+        session.currentStep
+      );
+      return {
+        currentStep: session.currentStep,
+        totalSteps: session.totalSteps,
+        nextAction: {
+          type: 'validation',
+          description: `Step "${step.name}" needs changes before continuing`,
+          result: {
+            message: [
+              ...validation.issues,
+              ...(userResponse.feedback
+                ? [`Feedback: ${userResponse.feedback}`]
+                : []),
+              ...validation.suggestions,
+            ].join('\n'),
+          },
+        },
+        isComplete: false,
+      };
+    }
+
+    const { step } = this.interactiveWorkflowBuilder.getStep(
+      session.workflowId,
+      session.currentStep
+    );
+    session.completedSteps.push(step.id);
+    this.markStepFiles(session, 'validated');
+
+    if (session.currentStep >= session.totalSteps) {
+      session.status = 'completed';
+      const workflow = this.interactiveWorkflowBuilder.getWorkflow(
+        session.workflowId
+      );
+
+      return {
+        currentStep: session.currentStep,
+        totalSteps: session.totalSteps,
+        nextAction: {
+          type: 'completion',
+          description: `${workflow.name} completed: ${workflow.outcomes.join(', ')}`,
+          result: {
+            files: [],
+            message: workflow.troubleshooting.join('\n'),
+          },
+        },
+        isComplete: true,
+      };
+    }
+
+    session.currentStep++;
+
+    return {
+      currentStep: session.currentStep,
+      totalSteps: session.totalSteps,
+      nextAction: this.buildStepAction(session),
+      isComplete: false,
+    };
+  }
+
   private ensureInitialized(): void {
     if (!this.initialized) {
       throw new Error(
@@ -348,6 +426,117 @@ export class InteractiveSessionService {
     }
   }
 
+  /**
+   * Load a session by ID, dropping it if it has expired
+   */
+  private async getSession(sessionId: string): Promise<SessionData> {
+    const session = await this.store.get(sessionId);
+    if (!session) {
+      throw new Error(`Session ${sessionId} not found`);
+    }
+    if (this.isExpired(session)) {
+      await this.store.delete(sessionId);
+      throw new Error(
+        `Session ${sessionId} expired after ${this.ttlMs / 3_600_000}h of inactivity`
+      );
+    }
+    return session;
+  }
+
+  private async saveSession(session: SessionData): Promise<void> {
+    session.updatedAt = new Date();
+    await this.store.save(session);
+  }
+
+  /**
+   * False for unknown and expired sessions; throws when the status cannot be
+   * reached from the current one
+   */
+  private async setSessionStatus(
+    sessionId: string,
+    status: SessionStatus,
+    label: string
+  ): Promise<boolean> {
+    const session = await this.store.get(sessionId);
+    if (!session || this.isExpired(session)) return false;
+    if (session.status === status) return true;
+
+    if (!STATUS_TRANSITIONS[session.status].includes(status)) {
+      throw new Error(
+        `Session ${sessionId} is ${session.status} and cannot become ${status}`
+      );
+    }
+
+    session.status = status;
+    await this.saveSession(session);
+    logger.info(`${label} session ${sessionId}`);
+    return true;
+  }
+
+  private isExpired(session: SessionData): boolean {
+    return Date.now() - session.updatedAt.getTime() > this.ttlMs;
+  }
+
+  /**
+   * Describe the current workflow step, including its generated code
+   */
+  private buildStepAction(session: SessionData): InteractiveSessionAction {
+    const { step } = this.interactiveWorkflowBuilder.getStep(
+      session.workflowId,
+      session.currentStep
+    );
+    const result = this.interactiveWorkflowBuilder.generateStepCode(
+      session.workflowId,
+      session.currentStep,
+      session.language,
+      session.parameters,
+      session.completedSteps
+    );
+
+    for (const file of result.files) {
+      if (!session.generatedFiles.some((f) => f.path === file.path)) {
+        session.generatedFiles.push({
+          path: file.path,
+          description: file.description,
+          status: 'pending',
+        });
+      }
+    }
+
+    return {
+      type: 'code_generation',
+      description: `Step ${session.currentStep}/${session.totalSteps}: ${step.name} - ${step.description}`,
+      result: {
+        code: result.code,
+        files: result.files,
+        message: [
+          ...(result.validationResults?.issues ?? []),
+          ...(result.validationResults?.suggestions ?? []),
+        ].join('\n'),
+      },
+    };
+  }
+
+  /**
+   * Update the status of files generated for the current step
+   */
+  private markStepFiles(
+    session: SessionData,
+    status: GeneratedFileStatus
+  ): void {
+    const { files } = this.interactiveWorkflowBuilder.generateStepCode(
+      session.workflowId,
+      session.currentStep,
+      session.language,
+      session.parameters,
+      session.completedSteps
+    );
+    for (const file of files) {
+      const existing = session.generatedFiles.find((f) => f.path === file.path);
+      if (existing) existing.status = status;
+    }
+  }
+
   private generateSessionId(): string {
     return `session-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
   }
@@ -0,0 +1,150 @@
+import { randomUUID } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { SessionData, SessionStore } from './session-store.js';
+
+type StoredSession = Omit<SessionData, 'startedAt' | 'updatedAt'> & {
+  startedAt: string;
+  updatedAt: string;
+};
+
+/** How long a write waits for another process to release the lock */
+const LOCK_TIMEOUT_MS = 5000;
+/** Older locks were left behind by a process that died while writing */
+const LOCK_STALE_MS = 30000;
+const LOCK_RETRY_MS = 20;
+
+/**
+ * Keeps all sessions in a single JSON file.
+ * The file is re-read on every call so several server processes on one
+ * filesystem can share it; writes hold an exclusive lockfile for their
+ * read-modify-write cycle and replace the file atomically.
+ */
+export class JsonFileSessionStore implements SessionStore {
+  private filePath: string;
+  private writeQueue: Promise<unknown> = Promise.resolve();
+
+  constructor(filePath: string) {
+    this.filePath = path.resolve(process.cwd(), filePath);
+  }
+
+  async get(sessionId: string): Promise<SessionData | undefined> {
+    const sessions = await this.readAll();
+    const stored = sessions[sessionId];
+    return stored ? this.deserialize(stored) : undefined;
+  }
+
+  async save(session: SessionData): Promise<void> {
+    await this.update((sessions) => {
+      sessions[session.id] = this.serialize(session);
+      return undefined;
+    });
+  }
+
+  async delete(sessionId: string): Promise<boolean> {
+    return this.update((sessions) => {
+      if (!(sessionId in sessions)) return false;
+      delete sessions[sessionId];
+      return true;
+    });
+  }
+
+  async list(): Promise<SessionData[]> {
+    const sessions = await this.readAll();
+    return Object.values(sessions).map((s) => this.deserialize(s));
+  }
+
+  /**
+   * Run a read-modify-write cycle after any pending writes
+   */
+  private update<T>(
+    mutate: (sessions: Record<string, StoredSession>) => T
+  ): Promise<T> {
+    const run = this.writeQueue.then(() =>
+      this.withLock(async () => {
+        const sessions = await this.readAll();
+        const result = mutate(sessions);
+        await this.writeAll(sessions);
+        return result;
+      })
+    );
+    this.writeQueue = run.catch(() => undefined);
+    return run;
+  }
+
+  /**
+   * Run a callback while holding the lockfile shared with other processes
+   */
+  private async withLock<T>(callback: () => Promise<T>): Promise<T> {
+    const lockPath = `${this.filePath}.lock`;
+    const deadline = Date.now() + LOCK_TIMEOUT_MS;
+    await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+
+    for (;;) {
+      try {
+        await (await fs.promises.open(lockPath, 'wx')).close();
+        break;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+      }
+
+      const lockedAt = await fs.promises
+        .stat(lockPath)
+        .then((stats) => stats.mtimeMs)
+        .catch(() => undefined);
+      if (lockedAt !== undefined && Date.now() - lockedAt > LOCK_STALE_MS) {
+        await fs.promises.rm(lockPath, { force: true });
+      } else if (Date.now() > deadline) {
+        throw new Error(`Timed out waiting for session store lock ${lockPath}`);
+      } else {
+        await new Promise((resolve) => setTimeout(resolve, LOCK_RETRY_MS));
+      }
+    }
+
+    try {
+      return await callback();
+    } finally {
+      await fs.promises.rm(lockPath, { force: true });
+    }
+  }
+
+  private async readAll(): Promise<Record<string, StoredSession>> {
+    try {
+      const raw = await fs.promises.readFile(this.filePath, 'utf-8');
+      return JSON.parse(raw) as Record<string, StoredSession>;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return {};
+      throw new Error(
+        `Failed to read session store ${this.filePath}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  private async writeAll(
+    sessions: Record<string, StoredSession>
+  ): Promise<void> {
+    const tmpPath = `${this.filePath}.${randomUUID()}.tmp`;
+    await fs.promises.writeFile(
+      tmpPath,
+      JSON.stringify(sessions, null, 2),
+      'utf-8'
+    );
+    await fs.promises.rename(tmpPath, this.filePath);
+  }
+
+  private serialize(session: SessionData): StoredSession {
+    return {
+      ...session,
+      startedAt: session.startedAt.toISOString(),
+      updatedAt: session.updatedAt.toISOString(),
+    };
+  }
+
+  private deserialize(stored: StoredSession): SessionData {
+    return {
+      ...stored,
+      startedAt: new Date(stored.startedAt),
+      updatedAt: new Date(stored.updatedAt),
+    };
+  }
+}
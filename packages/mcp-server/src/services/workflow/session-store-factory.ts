@@ -0,0 +1,15 @@
+import { config } from '../../common/config.js';
+import { JsonFileSessionStore } from './json-file-session-store.js';
+import { MemorySessionStore, SessionStore } from './session-store.js';
+
+// Future: import other stores (e.g., SqliteSessionStore) here
+
+export function createSessionStore(): SessionStore {
+  switch (config.SESSION_STORE) {
+    case 'memory':
+      return new MemorySessionStore();
+    case 'file':
+    default:
+      return new JsonFileSessionStore(config.SESSION_STORE_PATH);
+  }
+}
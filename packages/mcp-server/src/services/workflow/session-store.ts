@@ -0,0 +1,70 @@
+import { UserContext } from '../../types/mcp-types.js';
+import { WorkflowParameterValues } from '../workflow-builder/interactive-workflow-builder.js';
+
+export type SessionStatus = 'active' | 'paused' | 'completed' | 'cancelled';
+
+export type GeneratedFileStatus = 'pending' | 'generated' | 'validated';
+
+export interface SessionData {
+  id: string;
+  goal: string;
+  userContext: UserContext;
+  startedAt: Date;
+  /** Last time the session was changed; TTL expiry counts from it, reads do not extend it */
+  updatedAt: Date;
+  /** Workflow step the user is on; 0 until the workflow is confirmed */
+  currentStep: number;
+  totalSteps: number;
+  status: SessionStatus;
+  workflowId: string;
+  workflowConfirmed: boolean;
+  language: string;
+  parameters: WorkflowParameterValues;
+  completedSteps: string[];
+  generatedFiles: Array<{
+    path: string;
+    description: string;
+    status: GeneratedFileStatus;
+  }>;
+}
+
+/**
+ * SessionStore – abstraction over where interactive sessions are kept
+ * Lets sessions outlive the process (file, database) or stay in memory for tests.
+ */
+export interface SessionStore {
+  /** Load a session, or undefined if it does not exist */
+  get(sessionId: string): Promise<SessionData | undefined>;
+
+  /** Insert or replace a session */
+  save(session: SessionData): Promise<void>;
+
+  /** Remove a session; returns false if it did not exist */
+  delete(sessionId: string): Promise<boolean>;
+
+  /** Load all stored sessions */
+  list(): Promise<SessionData[]>;
+}
+
+/**
+ * In-memory store; sessions are lost when the process exits
+ */
+export class MemorySessionStore implements SessionStore {
+  private sessions: Map<string, SessionData> = new Map();
+
+  async get(sessionId: string): Promise<SessionData | undefined> {
+    return this.sessions.get(sessionId);
+  }
+
+  async save(session: SessionData): Promise<void> {
+    this.sessions.set(session.id, session);
+  }
+
+  async delete(sessionId: string): Promise<boolean> {
+    return this.sessions.delete(sessionId);
+  }
+
+  async list(): Promise<SessionData[]> {
+    return Array.from(this.sessions.values());
+  }
+}
@@ -1,4 +1,6 @@
 import { z } from 'zod';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
 // Import our new focused services
 import { APISearchService } from './services/api/api-search-service.js';
 import { CodeGenerationService } from './services/generation/code-generation-service.js';
@@ -9,19 +11,64 @@ import {
   SkillLevelSchema,
   FrameworkSchema,
   FeatureSchema,
+  FusionSchema,
+  SearchTuningSchema,
+  ApiVersionSchema,
+  ApiVersionDiffSchema,
+  ApiMethodHit,
+  ApiMethodHitSchema,
+  DocumentationHit,
+  DocumentationHitSchema,
+  CodeExampleHit,
+  CodeExampleHitSchema,
 } from './common/schemas.js';
+import { documentUri } from './resources.js';
 import { SearchResult } from './types/index.js';
-import { MCPToolResponse, PrivMXAppRequest } from './types/mcp-types.js';
 import type {
+  APIMethodReference,
+  APITranslation,
+  APIVersionDiff,
+} from './api/types.js';
+import { formatType } from './services/api/api-reference-service.js';
+import type { FusionMethod } from './services/search/score-fusion.js';
+import type { SearchOptions } from './services/search/search-options.js';
+import { SearchTuning } from './services/search/search-tuning.js';
+import {
+  createProjectPatch,
+  createTarArchive,
+  createZipArchive,
+  generatedFileUri,
+  mimeTypeOf,
+  projectDirectory,
+  resolveWorkspaceDirectory,
+  writeProjectToWorkspace,
+  type ProjectOutputFormat,
+  type WorkspaceWriteResult,
+} from './services/generation/project-output.js';
+import { config } from './common/config.js';
+import {
+  GeneratedFile,
+  MCPToolResponse,
+  PrivMXAppRequest,
+  UserContext,
+  UserResponse,
+} from './types/mcp-types.js';
+import type {
+  CodeExampleMatch,
   DocumentationResult,
   DocumentationSearchFilters,
 } from './types/documentation-types.js';
 
 // Define proper types for tool handlers
+type SearchTuningParams = SearchOptions & { profile?: string };
+
 interface SearchDocumentationParams {
   query: string;
   filters?: DocumentationSearchFilters;
   limit?: number;
+  fusion?: FusionMethod;
+  tuning?: SearchTuningParams;
+  version?: string;
 }
 
 interface GetGettingStartedParams {
@@ -31,6 +78,15 @@ interface GetGettingStartedParams {
 interface GetCodeExamplesParams {
   apiMethod: string;
   language: string;
+  version?: string;
+}
+
+interface SearchCodeExamplesParams {
+  query?: string;
+  apis?: string[];
+  language?: string;
+  limit?: number;
+  version?: string;
 }
 
 interface GetDocumentsByLanguageParams {
@@ -41,17 +97,86 @@ interface SearchApiMethodsParams {
   query: string;
   className?: string;
   limit?: number;
+  fusion?: FusionMethod;
+  tuning?: SearchTuningParams;
+  version?: string;
+}
+
+interface GetApiMethodParams {
+  key?: string;
+  className?: string;
+  methodName?: string;
+  language?: string;
+  version?: string;
+}
+
+interface DiffApiVersionsParams {
+  from: string;
+  to: string;
+  language?: string;
+}
+
+interface TranslateApiUsageParams {
+  from: string;
+  to: string;
+  className?: string;
+  methodName?: string;
+  snippet?: string;
 }
 
 interface GenerateSetupParams {
   language: string;
   features: string[];
+  version?: string;
+}
+
+type GeneratePrivMXAppParams = PrivMXAppRequest & {
+  version?: string;
+  output?: ProjectOutputFormat;
+  workspace?: { directory: string; dryRun?: boolean; overwrite?: boolean };
+};
+
+interface AnalyzeCodeParams {
+  code: string;
+  language: 'javascript' | 'typescript';
+  errorMessage?: string;
+}
+
+interface StartSessionParams {
+  goal: string;
+  userContext: UserContext;
 }
 
-type GeneratePrivMXAppParams = PrivMXAppRequest;
+interface ContinueSessionParams {
+  sessionId: string;
+  response: UserResponse;
+}
+
+interface SessionStatusParams {
+  sessionId: string;
+}
+
+interface ManageSessionParams {
+  sessionId: string;
+  action: 'pause' | 'resume' | 'cancel';
+}
+
+interface GenerateStepCodeParams {
+  sessionId: string;
+  stepIndex?: number;
+  version?: string;
+}
 
 type ToolResponse = MCPToolResponse;
 
+/**
+ * Per-call context supplied by the MCP server
+ */
+export interface ToolContext {
+  /** MCP session of the request; undefined for the stdio transport */
+  sessionId?: string;
+}
+
 /**
  * Service composition interface for dependency injection
  *
@@ -63,8 +188,354 @@ interface ServiceContainer {
   sessionService: InteractiveSessionService;
   // NEW: Main knowledge orchestration service
   knowledgeService?: KnowledgeService;
+  // Search tuning profiles and per-session overrides
+  searchTuning: SearchTuning;
 }
 
+/**
+ * Generated files as embedded resources in the requested format
+ */
+const projectOutput = (
+  files: GeneratedFile[],
+  projectName: string,
+  format: ProjectOutputFormat
+): ToolResponse['content'] => {
+  const base = `privmx://generated/${encodeURIComponent(projectDirectory(projectName))}`;
+  switch (format) {
+    case 'tar':
+      return [
+        {
+          type: 'resource',
+          resource: {
+            uri: `${base}.tar.gz`,
+            mimeType: 'application/gzip',
+            blob: createTarArchive(files, projectName).toString('base64'),
+          },
+        },
+      ];
+    case 'zip':
+      return [
+        {
+          type: 'resource',
+          resource: {
+            uri: `${base}.zip`,
+            mimeType: 'application/zip',
+            blob: createZipArchive(files, projectName).toString('base64'),
+          },
+        },
+      ];
+    case 'patch':
+      return [
+        {
+          type: 'resource',
+          resource: {
+            uri: `${base}.patch`,
+            mimeType: 'text/x-diff',
+            text: createProjectPatch(files, projectName),
+          },
+        },
+      ];
+    default:
+      return files.map((file) => ({
+        type: 'resource',
+        resource: {
+          uri: generatedFileUri(projectName, file.path),
+          mimeType: mimeTypeOf(file.path),
+          text: file.content,
+        },
+      }));
+  }
+};
+
+/**
+ * Renders the outcome of writing a project into a workspace as markdown
+ */
+const formatWorkspaceWrite = (result: WorkspaceWriteResult): string => {
+  const list = (label: string, paths: string[]) =>
+    paths.length
+      ? `**${label} (${paths.length}):**\n${paths.map((p) => `- \`${p}\``).join('\n')}\n`
+      : '';
+  const applied = result.written && !result.dryRun;
+  const status = !result.written
+    ? `⚠️ Nothing written to \`${result.directory}\`: ${result.conflicts.length} existing file(s) differ. Pass \`overwrite: true\` to replace them.`
+    : result.dryRun
+      ? `🧪 Dry run for \`${result.directory}\`; nothing was written.`
+      : `✅ Written to \`${result.directory}\`.`;
+
+  return (
+    `## Workspace\n\n${status}\n\n` +
+    list('Conflicts', result.conflicts) +
+    list(applied ? 'Created' : 'Would create', result.created) +
+    list(applied ? 'Updated' : 'Would update', result.updated) +
+    list('Unchanged', result.unchanged) +
+    '\n'
+  );
+};
+
+/**
+ * Renders the next action of an interactive session as markdown
+ */
+const formatSessionAction = (action: {
+  type: string;
+  description: string;
+  options?: unknown[];
+  result?: unknown;
+}): string =>
+  `## Next: ${action.description}\n` +
+  `**Action Type:** ${action.type}\n` +
+  (action.options && action.options.length > 0
+    ? `\n**Options:**\n${action.options
+        .map((option) => `• ${JSON.stringify(option)}`)
+        .join('\n')}\n`
+    : '') +
+  (action.result !== undefined
+    ? `\n**Result:** ${typeof action.result === 'string' ? action.result : JSON.stringify(action.result, null, 2)}\n`
+    : '');
+
+/**
+ * Converts an API search result into its structured form, keeping the full
+ * signature that the markdown view truncates
+ */
+const toApiMethodHit = (result: SearchResult): ApiMethodHit =>
+  ApiMethodHitSchema.parse({
+    name: result.title,
+    language: result.language,
+    namespace: result.namespace,
+    ...result.metadata,
+    id: result.id,
+    score: result.score,
+  });
+
+/**
+ * Heading path and anchor of a section result, e.g.
+ * `Threads › Sending messages (#sending-messages)`
+ */
+const sectionTitle = (result: DocumentationResult): string =>
+  result.section
+    ? result.section.headingPath.join(' › ') +
+      (result.section.anchor ? ` (#${result.section.anchor})` : '')
+    : result.title;
+
+/**
+ * Converts a documentation search result into its structured form
+ */
+const toDocumentationHit = (result: DocumentationResult): DocumentationHit => {
+  // Report the file relative to the spec root, like API results
+  const filePath = result.metadata.filePath.replace(/\\/g, '/');
+  const mdxIndex = filePath.lastIndexOf('mdx/');
+
+  return {
+    id: result.id,
+    title: result.title,
+    uri: documentUri(result.metadata.filePath),
+    score: result.score,
+    summary: result.summary,
+    language: result.metadata.language,
+    namespace: result.metadata.namespace,
+    category: result.metadata.category,
+    sourceFile: mdxIndex >= 0 ? filePath.slice(mdxIndex) : filePath,
+    anchors: result.anchors,
+    section: result.section && {
+      anchor: result.section.anchor,
+      heading: result.section.heading,
+      path: result.section.headingPath,
+      level: result.section.level,
+    },
+    content: result.content,
+    codeExamples: result.codeExamples.length,
+    relatedAPIs: result.relatedAPIs,
+  };
+};
+
+/**
+ * Converts a code example match into its structured form
+ */
+const toCodeExampleHit = (match: CodeExampleMatch): CodeExampleHit => ({
+  title: match.title,
+  score: match.score,
+  apis: match.apis,
+  examples: match.examples.map((example) => ({
+    id: example.id,
+    title: example.title,
+    uri: documentUri(example.sourceFile),
+    anchor: example.anchor,
+    language: example.language,
+    code: example.code,
+    apis: example.apis,
+    imports: example.imports,
+  })),
+});
+
+/**
+ * Renders an API method reference card as markdown
+ */
+const formatMethodReference = (reference: APIMethodReference): string => {
+  const { method } = reference;
+  const owner = reference.className ?? reference.namespace;
+  const list = (items: string[]) =>
+    items.length > 0 ? items.map((item) => `• ${item}`).join('\n') : 'None';
+
+  return (
+    `# ${owner}.${method.name} (${reference.language})\n\n` +
+    `**Namespace:** ${reference.namespace}\n` +
+    `**Key:** \`${method.key}\`\n\n` +
+    (method.description ? `${method.description}\n\n` : '') +
+    `## Signature\n\`\`\`\n${reference.signature}\n\`\`\`\n` +
+    (method.snippet
+      ? `\n\`\`\`${reference.language}\n${method.snippet}\n\`\`\`\n`
+      : '') +
+    (reference.overloads.length > 1
+      ? `\n${reference.overloads.length - 1} more overload(s): ${reference.overloads
+          .slice(1)
+          .map((overload) => `\`${overload.key}\``)
+          .join(', ')}\n`
+      : '') +
+    `\n## Parameters\n` +
+    (method.parameters.length > 0
+      ? `| Name | Type | Optional | Description |\n|---|---|---|---|\n` +
+        method.parameters
+          .map(
+            (p) =>
+              `| \`${p.name}\` | \`${formatType(p.type)}\` | ${p.optional ? 'yes' : 'no'} | ${p.description.replace(/\n/g, ' ')} |`
+          )
+          .join('\n')
+      : 'None') +
+    `\n\n## Returns\n` +
+    (method.returns.length > 0
+      ? method.returns
+          .map(
+            (r) =>
+              `• \`${formatType(r.type)}\`${r.description ? ` - ${r.description}` : ''}`
+          )
+          .join('\n')
+      : 'void') +
+    `\n\n## Prerequisites\n${list(reference.prerequisites)}\n\n` +
+    `## Related Methods\n${list(reference.relatedMethods)}\n` +
+    (reference.errorPatterns.length > 0
+      ? `\n## Common Errors\n${reference.errorPatterns
+          .map((e) => `• **${e.errorType}**: ${e.description} → ${e.solution}`)
+          .join('\n')}\n`
+      : '') +
+    (reference.examples.length > 0
+      ? `\n## Examples\n${reference.examples
+          .map(
+            (example) =>
+              `### ${example.title}\n` +
+              `Source: ${documentUri(example.sourceDocument)}\n` +
+              `\`\`\`${example.language}\n${example.code}\n\`\`\``
+          )
+          .join('\n\n')}\n`
+      : '') +
+    (reference.otherLanguages.length > 0
+      ? `\n**Also available in:** ${reference.otherLanguages.join(', ')}\n`
+      : '')
+  );
+};
+
+/**
+ * Renders the equivalents of one API method in another language as markdown
+ */
+const formatTranslation = (translation: APITranslation): string => {
+  const { sourceLanguage: from, targetLanguage: to } = translation;
+  const header =
+    `## ${translation.className}.${translation.method.name}: ${from} → ${to}\n` +
+    `\`${translation.signature}\`\n`;
+
+  if (translation.equivalents.length === 0) {
+    return `${header}\nNo counterpart found in the ${to} SDK.\n`;
+  }
+
+  return (
+    header +
+    translation.equivalents
+      .map(
+        (equivalent, i) =>
+          `\n### ${i + 1}. ${equivalent.className}.${equivalent.method.name}\n` +
+          `\`\`\`\n${equivalent.signature}\n\`\`\`\n` +
+          `| ${from} | ${to} |\n|---|---|\n` +
+          equivalent.parameters
+            .map(
+              ({ source, target }) =>
+                `| ${source ? `\`${source.name}: ${formatType(source.type, from)}\`` : '-'} ` +
+                `| ${target ? `\`${target.name}: ${formatType(target.type, to)}\`` : '-'} |`
+            )
+            .join('\n') +
+          (equivalent.differences.length > 0
+            ? `\n\n**Differences:**\n${equivalent.differences
+                .map((d) => `• ${d}`)
+                .join('\n')}`
+            : '\n\nNo signature differences.') +
+          '\n'
+      )
+      .join('')
+  );
+};
+
+/**
+ * Renders the method changes of one language between two SDK versions as
+ * markdown
+ */
+const formatVersionDiff = (diff: APIVersionDiff): string => {
+  const section = (title: string, lines: string[]) =>
+    lines.length > 0
+      ? `\n### ${title} (${lines.length})\n${lines.join('\n')}\n`
+      : '';
+
+  return (
+    `## ${diff.language}: ${diff.from} → ${diff.to}\n` +
+    (diff.added.length + diff.removed.length + diff.changed.length === 0
+      ? '\nNo API changes.\n'
+      : section(
+          'Added',
+          diff.added.map(
+            (c) => `• \`${c.method}\`: \`${c.after.join('`, `')}\``
+          )
+        ) +
+        section(
+          'Removed',
+          diff.removed.map(
+            (c) => `• \`${c.method}\`: \`${c.before.join('`, `')}\``
+          )
+        ) +
+        section(
+          'Changed',
+          diff.changed.map(
+            (c) =>
+              `• \`${c.method}\`\n` +
+              `\`\`\`diff\n${c.before.map((sig) => `- ${sig}`).join('\n')}\n` +
+              `${c.after.map((sig) => `+ ${sig}`).join('\n')}\n\`\`\``
+          )
+        ))
+  );
+};
+
+/**
+ * Warning listing the PrivMX methods used in code that the requested SDK
+ * version does not have; empty without a version
+ */
+const versionWarning = (
+  knowledgeService: KnowledgeService | undefined,
+  code: string,
+  language: string | undefined,
+  version?: string
+): string => {
+  if (!version || !language) return '';
+  if (!knowledgeService) {
+    throw new Error('KnowledgeService not available');
+  }
+
+  const unavailable = knowledgeService.findUnavailableApis(
+    code,
+    language,
+    version
+  );
+  return unavailable.length > 0
+    ? `\n> ⚠️ Not available in PrivMX ${version}: ${unavailable
+        .map((method) => `\`${method}\``)
+        .join(', ')}\n`
+    : '';
+};
+
 /**
  * Defines all MCP tools available to AI assistants for PrivMX development
  *
@@ -113,19 +584,35 @@ export const getTools = (services: ServiceContainer) =>
           .optional()
           .default(5)
           .describe('Maximum number of results'),
+        fusion: FusionSchema.optional().describe(
+          'How lexical and semantic rankings are merged: rrf (default), zscore or linear'
+        ),
+        tuning: SearchTuningSchema.optional(),
+        version: ApiVersionSchema.optional().describe(
+          'SDK version in use; sections calling methods it lacks are flagged'
+        ),
+      },
+      outputSchema: {
+        query: z.string(),
+        results: z.array(DocumentationHitSchema),
       },
       handler: async (
-        params: SearchDocumentationParams
+        params: SearchDocumentationParams,
+        context?: ToolContext
       ): Promise<ToolResponse> => {
         if (!services.knowledgeService) {
           throw new Error('KnowledgeService not available');
         }
 
-        const { query, filters, limit = 5 } = params;
+        const { query, filters, limit = 5, fusion, tuning, version } = params;
         const results = await services.knowledgeService.searchDocumentation(
           query,
           filters,
-          limit
+          limit,
+          services.searchTuning.resolve(context?.sessionId, 'docs', {
+            fusion,
+            ...tuning,
+          })
         );
 
         return {
@@ -135,17 +622,27 @@ export const getTools = (services: ServiceContainer) =>
               text: `Found ${results.length} documentation results for "${query}":\n\n${results
                 .map(
                   (result: DocumentationResult, i: number) =>
-                    `${i + 1}. **${result.title}**\n` +
+                    `${i + 1}. **${sectionTitle(result)}**\n` +
                     `   Summary: ${result.summary}\n` +
                     `   Language: ${result.metadata.language || 'N/A'}\n` +
                     `   Namespace: ${result.metadata.namespace || 'General'}\n` +
                     `   Code Examples: ${result.codeExamples.length}\n` +
                     `   Key Insights: ${result.aiInsights.keyTakeaways.join(', ')}\n` +
-                    `   Content: ${result.content.substring(0, 200)}...\n`
+                    versionWarning(
+                      services.knowledgeService,
+                      result.content,
+                      result.metadata.language,
+                      version
+                    ) +
+                    `   Content:\n\n${result.content}\n`
                 )
                 .join('\n')}`,
             },
           ],
+          structuredContent: {
+            query,
+            results: results.map(toDocumentationHit),
+          },
         };
       },
     },
@@ -208,13 +705,16 @@ export const getTools = (services: ServiceContainer) =>
             'API method name (e.g., "createThread", "Endpoint.connect")'
           ),
         language: z.string().describe('Programming language'),
+        version: ApiVersionSchema.optional().describe(
+          'SDK version in use; examples calling methods it lacks are flagged'
+        ),
       },
       handler: async (params: GetCodeExamplesParams): Promise<ToolResponse> => {
         if (!services.knowledgeService) {
           throw new Error('KnowledgeService not available');
         }
 
-        const { apiMethod, language } = params;
+        const { apiMethod, language, version } = params;
         const examples = await services.knowledgeService.getCodeExamples(
           apiMethod,
           language
@@ -244,12 +744,120 @@ export const getTools = (services: ServiceContainer) =>
                       `## Example ${i + 1}: ${example.title || 'Code Example'}\n` +
                       `**Complexity:** ${example.complexity}\n` +
                       `**Runnable:** ${example.isRunnable ? 'Yes' : 'No'}\n` +
-                      `**Source:** ${example.sourceDocument}\n\n` +
-                      `\`\`\`${example.language}\n${example.code}\n\`\`\`\n`
+                      `**Source:** ${example.sourceDocument}\n` +
+                      versionWarning(
+                        services.knowledgeService,
+                        example.code,
+                        language,
+                        version
+                      ) +
+                      `\n\`\`\`${example.language}\n${example.code}\n\`\`\`\n`
+                  )
+                  .join('\n'),
+            },
+          ],
+        };
+      },
+    },
+    {
+      name: 'search_code_examples',
+      description:
+        '🧪 Find documentation code examples by the PrivMX methods they call, e.g. "createInbox and sendEntry in Java"',
+      schema: {
+        query: z
+          .string()
+          .optional()
+          .describe(
+            'What the examples should do; method names and a language in it are used as filters'
+          ),
+        apis: z
+          .array(z.string())
+          .optional()
+          .describe(
+            'Methods every example must use, e.g. ["createInbox", "InboxApi.sendEntry"]'
+          ),
+        language: z
+          .string()
+          .optional()
+          .describe(
+            'Language of the code or of the SDK page (java also covers Kotlin)'
+          ),
+        limit: z
+          .number()
+          .int()
+          .min(1)
+          .max(20)
+          .optional()
+          .default(5)
+          .describe('Maximum number of results'),
+        version: ApiVersionSchema.optional().describe(
+          'SDK version in use; examples calling methods it lacks are flagged'
+        ),
+      },
+      outputSchema: {
+        results: z.array(CodeExampleHitSchema),
+      },
+      handler: async (
+        params: SearchCodeExamplesParams
+      ): Promise<ToolResponse> => {
+        if (!services.knowledgeService) {
+          throw new Error('KnowledgeService not available');
+        }
+        if (!params.query && !params.apis?.length) {
+          throw new Error('Provide either query or apis');
+        }
+
+        const { version, ...query } = params;
+        const matches = services.knowledgeService.searchCodeExamples(query);
+        const described = params.apis?.join(', ') || `"${params.query}"`;
+
+        if (matches.length === 0) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `No code examples found for ${described}${params.language ? ` in ${params.language}` : ''}. Try fewer methods or search_documentation.`,
+              },
+            ],
+            structuredContent: { results: [] },
+          };
+        }
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text:
+                `# Code Examples for ${described}\n\n` +
+                matches
+                  .map(
+                    (match, i) =>
+                      `## ${i + 1}. ${match.title}\n` +
+                      (match.apis.length > 0
+                        ? `**Uses:** ${match.apis.map((api) => `\`${api}\``).join(', ')}\n`
+                        : '') +
+                      match.examples
+                        .map(
+                          (example) =>
+                            `\n### ${example.title}\n` +
+                            `**Source:** ${documentUri(example.sourceFile)}${example.anchor ? `#${example.anchor}` : ''}\n` +
+                            (example.imports.length > 0
+                              ? `**Imports:** ${example.imports.join(', ')}\n`
+                              : '') +
+                            versionWarning(
+                              services.knowledgeService,
+                              example.code,
+                              example.sdkLanguage ?? example.language,
+                              version
+                            ) +
+                            `\n\`\`\`${example.language}\n${example.code}\n\`\`\`\n`
+                        )
+                        .join('')
                   )
                   .join('\n'),
             },
           ],
+          structuredContent: { results: matches.map(toCodeExampleHit) },
         };
       },
     },
@@ -347,22 +955,35 @@ export const getTools = (services: ServiceContainer) =>
           .optional()
           .default(3)
           .describe('Maximum number of results'),
+        tuning: SearchTuningSchema.optional(),
+        version: ApiVersionSchema.optional().describe(
+          'SDK version in use; sections calling methods it lacks are flagged'
+        ),
       },
-      handler: async (params: {
-        query: string;
-        filters?: {
-          language?: string;
-          namespace?: string;
-          skillLevel?: 'beginner' | 'intermediate' | 'advanced';
-          includeCodeExamples?: boolean;
-        };
-        limit?: number;
-      }): Promise<ToolResponse> => {
+      outputSchema: {
+        query: z.string(),
+        results: z.array(DocumentationHitSchema),
+      },
+      handler: async (
+        params: {
+          query: string;
+          filters?: {
+            language?: string;
+            namespace?: string;
+            skillLevel?: 'beginner' | 'intermediate' | 'advanced';
+            includeCodeExamples?: boolean;
+          };
+          limit?: number;
+          tuning?: SearchTuningParams;
+          version?: string;
+        },
+        context?: ToolContext
+      ): Promise<ToolResponse> => {
         if (!services.knowledgeService) {
           throw new Error('KnowledgeService not available');
         }
 
-        const { query, filters, limit = 3 } = params;
+        const { query, filters, limit = 3, tuning, version } = params;
 
         // Convert filters to documentation search filters
         const docFilters = filters
@@ -377,7 +998,8 @@ export const getTools = (services: ServiceContainer) =>
         const results = await services.knowledgeService.searchDocumentation(
           query,
           docFilters,
-          limit
+          limit,
+          services.searchTuning.resolve(context?.sessionId, 'docs', tuning)
         );
 
         if (results.length === 0) {
@@ -388,6 +1010,7 @@ export const getTools = (services: ServiceContainer) =>
                 text: `No semantic search results found for "${query}". Try:\n• Using different keywords\n• Broadening your search terms\n• Using the basic search_documentation tool`,
               },
             ],
+            structuredContent: { query, results: [] },
           };
         }
 
@@ -401,21 +1024,32 @@ export const getTools = (services: ServiceContainer) =>
                 results
                   .map(
                     (result, i) =>
-                      `## ${i + 1}. ${result.title}\n` +
+                      `## ${i + 1}. ${sectionTitle(result)}\n` +
                       `**Language:** ${result.metadata.language || 'General'} | ` +
                       `**Namespace:** ${result.metadata.namespace || 'Core'} | ` +
                       `**Level:** ${result.metadata.skillLevel || 'All levels'}\n\n` +
                       `**Summary:** ${result.summary}\n\n` +
                       `**🎯 Key Insights:**\n${result.aiInsights.keyTakeaways.map((t) => `• ${t}`).join('\n')}\n\n` +
                       `**📚 Prerequisites:**\n${result.aiInsights.prerequisites.map((p) => `• ${p}`).join('\n')}\n\n` +
-                      `**💻 Code Examples Available:** ${result.codeExamples.length}\n\n` +
-                      `**📖 Content Preview:**\n${result.content.substring(0, 300)}...\n\n` +
+                      `**💻 Code Examples Available:** ${result.codeExamples.length}\n` +
+                      versionWarning(
+                        services.knowledgeService,
+                        result.content,
+                        result.metadata.language,
+                        version
+                      ) +
+                      '\n' +
+                      `**📖 Section:**\n\n${result.content}\n\n` +
                       `**🚀 Next Steps:**\n${result.aiInsights.nextSteps.map((s) => `• ${s}`).join('\n')}\n\n` +
                       `---\n`
                   )
                   .join('\n'),
             },
           ],
+          structuredContent: {
+            query,
+            results: results.map(toDocumentationHit),
+          },
         };
       },
     },
@@ -438,11 +1072,33 @@ export const getTools = (services: ServiceContainer) =>
           .optional()
           .default(10)
           .describe('Maximum number of results'),
+        fusion: FusionSchema.optional().describe(
+          'How lexical and semantic rankings are merged: rrf (default), zscore or linear'
+        ),
+        tuning: SearchTuningSchema.optional(),
+        version: ApiVersionSchema.optional(),
+      },
+      outputSchema: {
+        query: z.string(),
+        results: z.array(ApiMethodHitSchema),
       },
       handler: async (
-        params: SearchApiMethodsParams
+        params: SearchApiMethodsParams,
+        context?: ToolContext
       ): Promise<ToolResponse> => {
-        const { query, className, limit = 10 } = params;
+        const {
+          query,
+          className,
+          limit = 10,
+          fusion,
+          tuning,
+          version,
+        } = params;
+        const options = services.searchTuning.resolve(
+          context?.sessionId,
+          'api',
+          { fusion, ...tuning }
+        );
 
         let results: SearchResult[];
 
@@ -451,14 +1107,19 @@ export const getTools = (services: ServiceContainer) =>
           results = await services.knowledgeService.searchApiMethods(
             query,
             className,
-            limit
+            limit,
+            options,
+            version
           );
+        } else if (version) {
+          throw new Error('KnowledgeService not available');
         } else {
           // Fallback for legacy callers that provide only SearchService
           results = await services.searchService.searchApiMethods(
             query,
             className,
-            limit
+            limit,
+            options
           );
         }
         return {
@@ -474,9 +1135,146 @@ export const getTools = (services: ServiceContainer) =>
                 .join('\n')}`,
             },
           ],
+          structuredContent: { query, results: results.map(toApiMethodHit) },
         };
       },
     },
+    {
+      name: 'get_api_method',
+      description:
+        '📘 Get the full reference card of one API method: signature, parameters, prerequisites and examples',
+      schema: {
+        key: z
+          .string()
+          .optional()
+          .describe(
+            'Method key: language.namespace.className.methodName(paramTypes)'
+          ),
+        className: z
+          .string()
+          .optional()
+          .describe('Class of the method, e.g. ThreadApi'),
+        methodName: z
+          .string()
+          .optional()
+          .describe('Method name, e.g. createThread'),
+        language: LanguageSchema.optional().describe(
+          'Programming language (defaults to javascript)'
+        ),
+        version: ApiVersionSchema.optional(),
+      },
+      handler: async (params: GetApiMethodParams): Promise<ToolResponse> => {
+        if (!services.knowledgeService) {
+          throw new Error('KnowledgeService not available');
+        }
+
+        const { version, ...query } = params;
+        const reference = services.knowledgeService.getApiMethodReference(
+          query,
+          version
+        );
+        return {
+          content: [{ type: 'text', text: formatMethodReference(reference) }],
+        };
+      },
+    },
+    {
+      name: 'diff_api_versions',
+      description:
+        '🆚 List the API methods added, removed or changed between two PrivMX SDK versions',
+      schema: {
+        from: ApiVersionSchema.describe('Older SDK version, e.g. 2.0.0'),
+        to: ApiVersionSchema.describe(
+          'Newer SDK version, e.g. 2.1.0 or latest'
+        ),
+        language: LanguageSchema.optional().describe(
+          'Only this language (defaults to all languages in both versions)'
+        ),
+      },
+      outputSchema: {
+        diffs: z.array(ApiVersionDiffSchema),
+      },
+      handler: async (params: DiffApiVersionsParams): Promise<ToolResponse> => {
+        if (!services.knowledgeService) {
+          throw new Error('KnowledgeService not available');
+        }
+
+        const { from, to, language } = params;
+        const diffs = services.knowledgeService.diffApiVersions(
+          from,
+          to,
+          language
+        );
+        return {
+          content: [
+            {
+              type: 'text',
+              text:
+                `# PrivMX API changes: ${diffs[0].from} → ${diffs[0].to}\n\n` +
+                diffs.map(formatVersionDiff).join('\n'),
+            },
+          ],
+          structuredContent: { diffs },
+        };
+      },
+    },
+    {
+      name: 'translate_api_usage',
+      description:
+        '🔁 Map a PrivMX method or code snippet to the equivalent API in another SDK language',
+      schema: {
+        from: LanguageSchema.describe('Language of the existing code'),
+        to: LanguageSchema.describe('Target language'),
+        className: z
+          .string()
+          .optional()
+          .describe('Class of the method, e.g. ThreadApi'),
+        methodName: z
+          .string()
+          .optional()
+          .describe('Method to translate, e.g. createThread'),
+        snippet: z
+          .string()
+          .optional()
+          .describe('Code whose PrivMX calls should be translated'),
+      },
+      handler: async (
+        params: TranslateApiUsageParams
+      ): Promise<ToolResponse> => {
+        if (!services.knowledgeService) {
+          throw new Error('KnowledgeService not available');
+        }
+
+        const { from, to, className, methodName, snippet } = params;
+        let text: string;
+
+        if (snippet) {
+          const { translations, unresolved } =
+            services.knowledgeService.translateApiSnippet(snippet, from, to);
+          text =
+            `# PrivMX API: ${from} → ${to}\n\n` +
+            (translations.length > 0
+              ? translations.map(formatTranslation).join('\n')
+              : 'No PrivMX API calls found in the snippet.\n') +
+            (unresolved.length > 0
+              ? `\n**Not in the ${from} SDK:** ${unresolved.join(', ')}\n`
+              : '');
+        } else if (methodName) {
+          text = formatTranslation(
+            services.knowledgeService.translateApiUsage({
+              from,
+              to,
+              className,
+              methodName,
+            })
+          );
+        } else {
+          throw new Error('Provide either methodName or snippet');
+        }
+
+        return { content: [{ type: 'text', text }] };
+      },
+    },
     {
       name: 'generate_setup',
       description:
@@ -486,9 +1284,12 @@ export const getTools = (services: ServiceContainer) =>
         features: z
           .array(FeatureSchema)
           .describe('List of features to include in setup'),
+        version: ApiVersionSchema.optional().describe(
+          'Target SDK version; calls to methods it lacks are flagged'
+        ),
       },
       handler: async (params: GenerateSetupParams): Promise<ToolResponse> => {
-        const { language, features } = params;
+        const { language, features, version } = params;
         const setupCode = services.codeGenerationService.generateSetupCode(
           language,
           features
@@ -497,7 +1298,14 @@ export const getTools = (services: ServiceContainer) =>
           content: [
             {
               type: 'text',
-              text: `# PrivMX Setup Code (${language})\n\n\`\`\`${language}\n${setupCode}\n\`\`\``,
+              text:
+                `# PrivMX Setup Code (${language})\n\n\`\`\`${language}\n${setupCode}\n\`\`\`` +
+                versionWarning(
+                  services.knowledgeService,
+                  setupCode,
+                  language,
+                  version
+                ),
             },
           ],
         };
@@ -541,12 +1349,43 @@ export const getTools = (services: ServiceContainer) =>
               .describe('Additional preferences'),
           })
           .describe('User context for optimization'),
+        version: ApiVersionSchema.optional().describe(
+          'Target SDK version; calls to methods it lacks are flagged'
+        ),
+        output: z
+          .enum(['files', 'tar', 'zip', 'patch'])
+          .optional()
+          .default('files')
+          .describe(
+            'How the files are returned: embedded resources, a tar.gz or zip archive, or a unified patch'
+          ),
+        workspace: z
+          .object({
+            directory: z
+              .string()
+              .describe(
+                'Directory to write the project into, relative to GENERATION_WORKSPACE_ROOT (writes are disabled without it)'
+              ),
+            dryRun: z
+              .boolean()
+              .optional()
+              .default(false)
+              .describe('Only report what would be written'),
+            overwrite: z
+              .boolean()
+              .optional()
+              .default(false)
+              .describe('Replace existing files that differ'),
+          })
+          .optional()
+          .describe('Opt-in: also write the files into this directory'),
       },
       handler: async (
         params: GeneratePrivMXAppParams
       ): Promise<ToolResponse> => {
+        const { version, output = 'files', workspace, ...request } = params;
         const result =
-          await services.codeGenerationService.generatePrivMXApp(params);
+          await services.codeGenerationService.generatePrivMXApp(request);
         if (!result.success) {
           return {
             content: [
@@ -557,6 +1396,20 @@ export const getTools = (services: ServiceContainer) =>
             ],
           };
         }
+
+        const files = result.data?.files ?? [];
+        let written: WorkspaceWriteResult | undefined;
+        if (workspace) {
+          written = await writeProjectToWorkspace(
+            files,
+            resolveWorkspaceDirectory(
+              workspace.directory,
+              config.GENERATION_WORKSPACE_ROOT
+            ),
+            workspace
+          );
+        }
+
         return {
           content: [
             {
@@ -566,21 +1419,312 @@ export const getTools = (services: ServiceContainer) =>
                 `**Template:** ${params.templateId}\n` +
                 `**Language:** ${params.language}\n` +
                 `**Features:** ${params.features.join(', ')}\n` +
-                `**Files Generated:** ${result.data?.files.length || 0}\n\n` +
+                `**Files Generated:** ${files.length}\n\n` +
                 `## Generated Files:\n${
-                  result.data?.files
+                  files
                     .map(
                       (file, i) =>
-                        `${i + 1}. \`${file.path}\` (${file.content.length} chars)`
+                        `${i + 1}. \`${file.path}\` (${file.content.length} chars) — ${generatedFileUri(params.projectName, file.path)}` +
+                        versionWarning(
+                          services.knowledgeService,
+                          file.content,
+                          params.language,
+                          version
+                        )
                     )
                     .join('\n') || 'No files generated'
                 }\n\n` +
+                (written ? formatWorkspaceWrite(written) : '') +
                 `## Next Steps:\n` +
                 `1. Install dependencies: \`npm install\` or \`pnpm install\`\n` +
                 `2. Configure PrivMX credentials in your environment\n` +
                 `3. Run the development server\n` +
                 `4. Customize the generated components to match your requirements`,
             },
+            ...projectOutput(files, params.projectName, output),
+          ],
+        };
+      },
+    },
+    {
+      name: 'analyze_privmx_code',
+      description:
+        '🩺 Review JavaScript/TypeScript code for PrivMX API misuse (unknown methods, argument counts, unserialized data, connection lifecycle)',
+      schema: {
+        code: z.string().describe('Code to analyze'),
+        language: z
+          .enum(['javascript', 'typescript'])
+          .default('typescript')
+          .describe('Language of the code'),
+        errorMessage: z
+          .string()
+          .optional()
+          .describe('Runtime error observed when running the code'),
+      },
+      handler: async (params: AnalyzeCodeParams): Promise<ToolResponse> => {
+        const analysis = await services.codeGenerationService.analyzeCode(
+          params.code,
+          params.language,
+          params.errorMessage
+        );
+        const icons = { error: '❌', warning: '⚠️', info: 'ℹ️' };
+        const count = (severity: string) =>
+          analysis.diagnostics.filter((d) => d.severity === severity).length;
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text:
+                `# 🩺 PrivMX Code Analysis (${params.language})\n\n` +
+                `**Errors:** ${count('error')} | **Warnings:** ${count('warning')} | **Info:** ${count('info')}\n\n` +
+                `## Diagnostics\n${
+                  analysis.diagnostics
+                    .map(
+                      (d) =>
+                        `${icons[d.severity]} **L${d.line}:${d.column}** \`${d.rule}\` ${d.message}` +
+                        (d.suggestion ? `\n   💡 ${d.suggestion}` : '')
+                    )
+                    .join('\n') || '✅ No PrivMX issues found'
+                }\n` +
+                (params.errorMessage
+                  ? `\n**Runtime error:** ${params.errorMessage}\n`
+                  : '') +
+                `\n\`\`\`json\n${JSON.stringify(analysis.diagnostics, null, 2)}\n\`\`\``,
+            },
+          ],
+        };
+      },
+    },
+    {
+      name: 'start_session',
+      description:
+        '🧭 Start a guided multi-step PrivMX build session that keeps state between calls',
+      schema: {
+        goal: z
+          .string()
+          .describe(
+            'What you want to build (e.g., "encrypted team chat with file sharing")'
+          ),
+        userContext: z
+          .object({
+            skillLevel: SkillLevelSchema.describe(
+              "User's programming experience"
+            ),
+            preferredLanguage: z
+              .string()
+              .optional()
+              .describe('Preferred programming language'),
+            frameworks: z
+              .array(z.string())
+              .optional()
+              .describe('Frameworks used in the project'),
+            projectType: z
+              .enum(['prototype', 'production', 'learning'])
+              .optional(),
+          })
+          .describe('User context used to tailor the session'),
+      },
+      handler: async (params: StartSessionParams): Promise<ToolResponse> => {
+        const session = await services.sessionService.startInteractiveSession(
+          params.goal,
+          params.userContext
+        );
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text:
+                `# 🧭 Session Started\n\n` +
+                `**Session ID:** \`${session.sessionId}\`\n` +
+                `**Goal:** ${params.goal}\n` +
+                `**Step:** ${session.currentStep}/${session.totalSteps}\n\n` +
+                formatSessionAction(session.nextAction) +
+                `\n\nPass the session ID to \`continue_session\` to proceed.`,
+            },
+          ],
+        };
+      },
+    },
+    {
+      name: 'continue_session',
+      description:
+        '⏭️ Continue a guided build session with the user response to the current step',
+      schema: {
+        sessionId: z.string().describe('Session ID returned by start_session'),
+        response: z
+          .object({
+            templateId: z.string().optional().describe('Selected template ID'),
+            features: z
+              .array(z.string())
+              .optional()
+              .describe('Selected features'),
+            customizations: z
+              .record(z.union([z.string(), z.number(), z.boolean()]))
+              .optional()
+              .describe('Customizations for the current step'),
+            confirmation: z
+              .boolean()
+              .optional()
+              .describe('Confirm the result of the current step'),
+            feedback: z
+              .string()
+              .optional()
+              .describe('Free-form feedback for the current step'),
+          })
+          .describe('User response to the current step'),
+      },
+      handler: async (params: ContinueSessionParams): Promise<ToolResponse> => {
+        const state = await services.sessionService.continueInteractiveSession(
+          params.sessionId,
+          params.response
+        );
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text:
+                `# ⏭️ Session \`${params.sessionId}\`\n\n` +
+                `**Step:** ${state.currentStep}/${state.totalSteps}\n` +
+                `**Complete:** ${state.isComplete ? 'Yes' : 'No'}\n\n` +
+                formatSessionAction(state.nextAction),
+            },
+          ],
+        };
+      },
+    },
+    {
+      name: 'session_status',
+      description:
+        '📍 Get progress and generated files of a guided build session',
+      schema: {
+        sessionId: z.string().describe('Session ID returned by start_session'),
+      },
+      handler: async (params: SessionStatusParams): Promise<ToolResponse> => {
+        const status = await services.sessionService.getSessionStatus(
+          params.sessionId
+        );
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text:
+                `# 📍 Session \`${params.sessionId}\`\n\n` +
+                `**Status:** ${status.status}\n` +
+                `**Step:** ${status.currentStep}/${status.totalSteps}\n` +
+                `**Progress:** ${Math.round(status.progress)}%\n` +
+                `**Expires:** ${status.expiresAt.toISOString()} (extended on every update)\n\n` +
+                `## Generated Files\n${
+                  status.generatedFiles
+                    .map(
+                      (file, i) =>
+                        `${i + 1}. \`${file.path}\` - ${file.description} (${file.status})`
+                    )
+                    .join('\n') || 'No files generated yet'
+                }`,
+            },
+          ],
+        };
+      },
+    },
+    {
+      name: 'manage_session',
+      description:
+        '⏯️ Pause, resume or cancel a guided build session (sessions survive server restarts until they expire)',
+      schema: {
+        sessionId: z.string().describe('Session ID returned by start_session'),
+        action: z
+          .enum(['pause', 'resume', 'cancel'])
+          .describe('Lifecycle action to apply'),
+      },
+      handler: async (params: ManageSessionParams): Promise<ToolResponse> => {
+        const { sessionId, action } = params;
+        const applied = await (action === 'pause'
+          ? services.sessionService.pauseInteractiveSession(sessionId)
+          : action === 'resume'
+            ? services.sessionService.resumeInteractiveSession(sessionId)
+            : services.sessionService.cancelInteractiveSession(sessionId));
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: applied
+                ? `✅ Session \`${sessionId}\`: ${action} applied`
+                : `❌ Session \`${sessionId}\` not found or expired`,
+            },
+          ],
+        };
+      },
+    },
+    {
+      name: 'generate_step_code',
+      description:
+        '🧩 Generate code for a step of a guided build session (defaults to the current step)',
+      schema: {
+        sessionId: z.string().describe('Session ID returned by start_session'),
+        stepIndex: z
+          .number()
+          .int()
+          .min(1)
+          .optional()
+          .describe('Step number to generate (defaults to the current step)'),
+        version: ApiVersionSchema.optional().describe(
+          'Target SDK version; calls to methods it lacks are flagged'
+        ),
+      },
+      handler: async (
+        params: GenerateStepCodeParams
+      ): Promise<ToolResponse> => {
+        const status = await services.sessionService.getSessionStatus(
+          params.sessionId
+        );
+        // Before the workflow is confirmed the session is on step 0
+        const stepIndex = params.stepIndex ?? Math.max(1, status.currentStep);
+        const result = await services.sessionService.generateStepCode(
+          params.sessionId,
+          stepIndex
+        );
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text:
+                `# 🧩 Step ${stepIndex} Code\n\n` +
+                (result.files.length > 0
+                  ? result.files
+                      .map(
+                        (file) =>
+                          `## \`${file.path}\`\n${file.description}\n` +
+                          versionWarning(
+                            services.knowledgeService,
+                            file.content,
+                            status.language,
+                            params.version
+                          ) +
+                          `\n\`\`\`\n${file.content}\n\`\`\`\n`
+                      )
+                      .join('\n')
+                  : `\`\`\`\n${result.code}\n\`\`\`\n` +
+                    versionWarning(
+                      services.knowledgeService,
+                      result.code,
+                      status.language,
+                      params.version
+                    )) +
+                `\n## Instructions\n${result.instructions.map((i) => `• ${i}`).join('\n')}` +
+                (result.validationResults
+                  ? `\n\n## Validation\n` +
+                    `**Valid:** ${result.validationResults.isValid ? 'Yes' : 'No'}\n` +
+                    result.validationResults.issues
+                      .map((issue) => `• ${issue}`)
+                      .join('\n')
+                  : ''),
+            },
           ],
         };
       },
@@ -633,16 +1777,8 @@ export const getTools = (services: ServiceContainer) =>
         );
 
         try {
-          // Access the documentation service through knowledge service
-          const docService = (services.knowledgeService as any)
-            .documentationService;
-
-          if (!docService) {
-            throw new Error('DocumentationIndexService not available');
-          }
-
-          // Force re-index with the flag
-          const result = await docService.indexDocuments('spec/mdx', true);
+          const result =
+            await services.knowledgeService.reindexDocumentation(true);
 
           return {
             content: [
@@ -681,7 +1817,7 @@ export const getTools = (services: ServiceContainer) =>
     {
       name: 'set_hybrid_search_weights',
       description:
-        '⚖️ Adjust TEXT_WEIGHT and VECTOR_WEIGHT for hybrid search at runtime',
+        '⚖️ Adjust the text and vector weights of documentation hybrid search for this session',
       schema: {
         textWeight: z
           .number()
@@ -697,25 +1833,21 @@ export const getTools = (services: ServiceContainer) =>
             'Weight for semantic vector search (defaults to 1 - textWeight)'
           ),
       },
-      handler: async (params: {
-        textWeight: number;
-        vectorWeight?: number;
-      }): Promise<ToolResponse> => {
-        const { textWeight, vectorWeight } = params;
-        const vec =
-          typeof vectorWeight === 'number'
-            ? vectorWeight
-            : Math.max(0, 1 - textWeight);
-
-        // Update in-process env so subsequent searches pick them up
-        process.env.TEXT_WEIGHT = textWeight.toString();
-        process.env.VECTOR_WEIGHT = vec.toString();
+      handler: async (
+        params: { textWeight: number; vectorWeight?: number },
+        context?: ToolContext
+      ): Promise<ToolResponse> => {
+        const { textWeight, vectorWeight = 1 - textWeight } = params;
+        services.searchTuning.setOverrides(context?.sessionId, 'docs', {
+          textWeight,
+          vectorWeight,
+        });
 
         return {
           content: [
             {
               type: 'text',
-              text: `Hybrid search weights updated:\n• TEXT_WEIGHT = ${process.env.TEXT_WEIGHT}\n• VECTOR_WEIGHT = ${process.env.VECTOR_WEIGHT}`,
+              text: `Hybrid search weights updated for this session:\n• Text weight = ${textWeight}\n• Vector weight = ${vectorWeight}`,
             },
           ],
         };
@@ -724,7 +1856,7 @@ export const getTools = (services: ServiceContainer) =>
     {
       name: 'set_api_hybrid_weights',
       description:
-        '⚖️ Adjust API_TEXT_WEIGHT and API_VECTOR_WEIGHT for API hybrid search',
+        '⚖️ Adjust the text and vector weights of API hybrid search for this session',
       schema: {
         textWeight: z
           .number()
@@ -738,21 +1870,94 @@ export const getTools = (services: ServiceContainer) =>
           .optional()
           .describe('Weight for semantic API search'),
       },
-      handler: async (params: {
-        textWeight: number;
-        vectorWeight?: number;
-      }): Promise<ToolResponse> => {
-        const vec =
-          typeof params.vectorWeight === 'number'
-            ? params.vectorWeight
-            : Math.max(0, 1 - params.textWeight);
-        process.env.API_TEXT_WEIGHT = params.textWeight.toString();
-        process.env.API_VECTOR_WEIGHT = vec.toString();
+      handler: async (
+        params: { textWeight: number; vectorWeight?: number },
+        context?: ToolContext
+      ): Promise<ToolResponse> => {
+        const { textWeight, vectorWeight = 1 - textWeight } = params;
+        services.searchTuning.setOverrides(context?.sessionId, 'api', {
+          textWeight,
+          vectorWeight,
+        });
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `API hybrid search weights updated for this session:\n• Text weight = ${textWeight}\n• Vector weight = ${vectorWeight}`,
+            },
+          ],
+        };
+      },
+    },
+    {
+      name: 'set_search_profile',
+      description:
+        '🎛️ Select a named search tuning profile for this session, or reset the session tuning',
+      schema: {
+        profile: z
+          .string()
+          .optional()
+          .describe('Profile name (see list_search_profiles)'),
+        reset: z
+          .boolean()
+          .optional()
+          .describe('Clear the profile and weight overrides of this session'),
+      },
+      handler: async (
+        params: { profile?: string; reset?: boolean },
+        context?: ToolContext
+      ): Promise<ToolResponse> => {
+        if (params.reset) services.searchTuning.reset(context?.sessionId);
+        if (params.profile || !params.reset) {
+          services.searchTuning.useProfile(context?.sessionId, params.profile);
+        }
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: params.profile
+                ? `Search profile '${params.profile}' selected for this session`
+                : params.reset
+                  ? 'Search tuning of this session reset to the defaults'
+                  : 'Search profile cleared for this session',
+            },
+          ],
+        };
+      },
+    },
+    {
+      name: 'list_search_profiles',
+      description:
+        '🎛️ List the configured search tuning profiles and the tuning of this session',
+      schema: {},
+      handler: async (
+        _params: Record<string, never>,
+        context?: ToolContext
+      ): Promise<ToolResponse> => {
+        const profiles = services.searchTuning.listProfiles();
+        const session = services.searchTuning.getSession(context?.sessionId);
+        const names = Object.keys(profiles);
+
         return {
           content: [
             {
               type: 'text',
-              text: `API hybrid search weights updated:\n• API_TEXT_WEIGHT = ${process.env.API_TEXT_WEIGHT}\n• API_VECTOR_WEIGHT = ${process.env.API_VECTOR_WEIGHT}`,
+              text:
+                `# Search Profiles\n\n` +
+                (names.length
+                  ? names
+                      .map(
+                        (name) =>
+                          `- **${name}**: \`${JSON.stringify(profiles[name])}\``
+                      )
+                      .join('\n')
+                  : 'No profiles configured (set SEARCH_PROFILES_PATH).') +
+                `\n\n## This Session\n\n` +
+                `- Profile: ${session.profile ?? 'none'}\n` +
+                `- Documentation overrides: \`${JSON.stringify(session.overrides.docs ?? {})}\`\n` +
+                `- API overrides: \`${JSON.stringify(session.overrides.api ?? {})}\``,
             },
           ],
         };
@@ -760,6 +1965,86 @@ export const getTools = (services: ServiceContainer) =>
     },
   ] as const;
 
+type Tool = ReturnType<typeof getTools>[number];
+
+/**
+ * Empty results for a failed call that still match the tool's outputSchema:
+ * arrays are empty, other fields echo the arguments (e.g. `query`)
+ */
+const emptyStructuredContent = (
+  outputSchema: z.ZodRawShape,
+  args: Record<string, unknown>
+): Record<string, unknown> =>
+  Object.fromEntries(
+    Object.entries(outputSchema).map(([key, schema]) => [
+      key,
+      schema instanceof z.ZodArray ? [] : args[key],
+    ])
+  );
+
+/**
+ * Registers tools on an SDK McpServer, as the chat app does. Failures become
+ * tool errors with readable text; the SDK rejects results of tools with an
+ * outputSchema that lack structuredContent, so those get empty results
+ */
+export const registerTools = (
+  server: McpServer,
+  tools: readonly Tool[],
+  execute: (
+    name: string,
+    args: Record<string, unknown>,
+    context: ToolContext
+  ) => Promise<ToolResponse>,
+  onError?: (name: string, error: unknown) => void
+): void => {
+  tools.forEach((tool) => {
+    const outputSchema = 'outputSchema' in tool ? tool.outputSchema : undefined;
+    const callback = async (
+      args: Record<string, unknown>,
+      extra: { sessionId?: string }
+    ): Promise<CallToolResult> => {
+      try {
+        return (await execute(tool.name, args, {
+          sessionId: extra.sessionId,
+        })) as CallToolResult;
+      } catch (error) {
+        onError?.(tool.name, error);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `❌ Error executing ${tool.name}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            },
+          ],
+          isError: true,
+          ...(outputSchema && {
+            structuredContent: emptyStructuredContent(outputSchema, args),
+          }),
+        };
+      }
+    };
+
+    if (outputSchema) {
+      server.registerTool(
+        tool.name,
+        {
+          description: tool.description,
+          inputSchema: tool.schema as z.ZodRawShape,
+          outputSchema,
+        },
+        callback
+      );
+    } else {
+      server.tool(
+        tool.name,
+        tool.description,
+        tool.schema as z.ZodRawShape,
+        callback
+      );
+    }
+  });
+};
+
 /**
  * Legacy compatibility function for backward compatibility
  * This allows existing code to continue working while migrating to focused services
@@ -110,6 +110,39 @@ export interface DocumentationResult {
   score: number;
   /** AI-optimized insights */
   aiInsights: AIInsights;
+  /** Section headings with their URL anchors */
+  anchors: DocumentAnchor[];
+  /** Matching section for section-level search results */
+  section?: Pick<
+    DocumentSection,
+    'anchor' | 'heading' | 'headingPath' | 'level'
+  >;
+}
+
+export interface DocumentAnchor {
+  /** Heading text */
+  heading: string;
+  /** GitHub-style slug of the heading */
+  anchor: string;
+  /** Heading level (1-6) */
+  level: number;
+}
+
+export interface DocumentSection {
+  /** `<documentId>#<anchor>`, or the document ID for text before the first heading */
+  id: string;
+  documentId: string;
+  /** Anchor of the section heading; empty for text before the first heading */
+  anchor: string;
+  heading: string;
+  /** Headings from the document title down to this section */
+  headingPath: string[];
+  /** Heading level (1-6), 0 for text before the first heading */
+  level: number;
+  /** Exact section markdown, heading line included */
+  content: string;
+  /** Code blocks contained in the section */
+  codeBlocks: CodeBlock[];
 }
 
 export interface CodeExample {
@@ -129,6 +162,48 @@ export interface CodeExample {
   sourceDocument: string;
 }
 
+export interface IndexedCodeExample {
+  /** `<documentId>#code-<block index>` */
+  id: string;
+  documentId: string;
+  /** Block title, or the heading of the enclosing section */
+  title: string;
+  documentTitle: string;
+  sourceFile: string;
+  /** Anchor of the enclosing section */
+  anchor: string;
+  /** Language of the block (kotlin, typescript, ...) */
+  language: string;
+  /** SDK language of the document (a Java page may show Kotlin code) */
+  sdkLanguage?: string;
+  code: string;
+  /** PrivMX methods called, as `Class.method` */
+  apis: string[];
+  /** Calls as written, e.g. `inboxApi.createInbox` */
+  calls: string[];
+  /** Imported modules, packages and headers */
+  imports: string[];
+}
+
+export interface CodeExampleQuery {
+  /** Free text; method names and a language mentioned in it are used as filters */
+  query?: string;
+  /** Methods every match must use: `createInbox` or `InboxApi.createInbox` */
+  apis?: string[];
+  language?: string;
+  limit?: number;
+}
+
+export interface CodeExampleMatch {
+  /** Titles of the documents the examples come from */
+  title: string;
+  score: number;
+  /** Requested methods as found, e.g. `InboxApi.createInbox` */
+  apis: string[];
+  /** Fewest blocks that together use all requested methods, preferably from one document */
+  examples: IndexedCodeExample[];
+}
+
 export interface RelatedDocument {
   /** Document ID */
   id: string;
@@ -272,6 +347,15 @@ export interface IndexResult {
   success: boolean;
 }
 
+export interface DocumentUpdateResult {
+  /** IDs of added or changed documents that were re-parsed and re-embedded */
+  updated: string[];
+  /** IDs of documents dropped from the index */
+  removed: string[];
+  /** Files that could not be parsed */
+  errors: string[];
+}
+
 export interface SearchContext {
   /** User's preferred language */
   preferredLanguage?: string;
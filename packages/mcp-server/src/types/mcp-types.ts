@@ -9,11 +9,63 @@
  * MCP Tool Response Structure
  */
 export interface MCPToolResponse {
-  content: Array<{
-    type: 'text';
-    text: string;
-    [key: string]: string | number | boolean;
-  }>;
+  content: Array<
+    | {
+        type: 'text';
+        text: string;
+        [key: string]: string | number | boolean;
+      }
+    | { type: 'resource'; resource: MCPEmbeddedResource }
+  >;
+  /** Machine-readable result matching the tool's outputSchema */
+  structuredContent?: Record<string, unknown>;
+}
+
+/**
+ * Resource embedded in a tool response: text, or base64 `blob` for binary
+ */
+export type MCPEmbeddedResource = { uri: string; mimeType: string } & (
+  | { text: string }
+  | { blob: string }
+);
+
+/**
+ * MCP Resource Structures
+ */
+export interface MCPResource {
+  uri: string;
+  name: string;
+  description?: string;
+  mimeType: string;
+}
+
+export interface MCPResourceTemplate {
+  uriTemplate: string;
+  name: string;
+  description?: string;
+  mimeType: string;
+}
+
+export interface MCPResourceContents {
+  contents: Array<{ uri: string; mimeType: string; text: string }>;
+}
+
+/**
+ * MCP Prompt Structures
+ */
+export interface MCPPromptMessage {
+  role: 'user' | 'assistant';
+  content:
+    | { type: 'text'; text: string }
+    | {
+        type: 'resource';
+        resource: { uri: string; mimeType: string; text: string };
+      };
+}
+
+export interface MCPPromptResult {
+  description: string;
+  messages: MCPPromptMessage[];
 }
 
 /**
@@ -112,6 +164,21 @@ export interface ValidationResult {
   suggestions: string[];
 }
 
+/**
+ * A single finding from static analysis of user code
+ */
+export interface CodeDiagnostic {
+  /** 1-based line of the finding */
+  line: number;
+  /** 1-based column of the finding */
+  column: number;
+  severity: 'error' | 'warning' | 'info';
+  /** Stable rule identifier, e.g. 'unknown-method' */
+  rule: string;
+  message: string;
+  suggestion?: string;
+}
+
 /**
  * PrivMX-specific Types
  */